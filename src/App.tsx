@@ -68,6 +68,10 @@ const router = createBrowserRouter([
         path: '/exam/:examId',
         element: <ExamDetail />,
       },
+      {
+        path: '/results/:examId/attempt/:attemptId',
+        element: <ResultsPage />,
+      },
       {
         path: '/results/:examId',
         element: <ResultsPage />,
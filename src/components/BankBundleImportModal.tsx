@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from 'react-query';
+import Button from './Button';
+import Modal from './Modal';
+import ProgressBar from './ProgressBar';
+import useBankBundle from '../hooks/useBankBundle';
+import apiService from '../services/api';
+import type { QuestionBank, School, Teacher } from '../services/api';
+import { parseBankBundle } from '../utils/bankBundle';
+import type { BankBundle, BundleMatch } from '../utils/bankBundle';
+
+interface BankBundleImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  schools: School[];
+}
+
+const inputClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent';
+
+const MatchList: React.FC<{ title: string; matches: BundleMatch[]; unmatched: string }> = ({ title, matches, unmatched }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">{title}</h4>
+    <ul className="text-sm space-y-0.5">
+      {matches.map(match => (
+        <li key={match.source_id} className="flex justify-between gap-4">
+          <span className="text-gray-700 dark:text-gray-300">{match.label}</span>
+          {match.target_id ? (
+            <span className="text-green-700 dark:text-green-300">Matched</span>
+          ) : (
+            <span className="text-yellow-700 dark:text-yellow-300">{unmatched}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Bring a bank exported by another school into one of this network's schools
+const BankBundleImportModal: React.FC<BankBundleImportModalProps> = ({ isOpen, onClose, schools }) => {
+  const [bundle, setBundle] = useState<BankBundle | null>(null);
+  const [schoolId, setSchoolId] = useState<number>(0);
+  const [bankId, setBankId] = useState<number>(0); // 0 makes a new bank
+  const [bankName, setBankName] = useState('');
+  const [authorId, setAuthorId] = useState<number>(0);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { remap, previewBundle, isPreviewing, importBundle, isImporting, created, progress, failed, reset } = useBankBundle();
+
+  const { data: teachers = [] } = useQuery<Teacher[]>(
+    ['teachers'],
+    () => apiService.getTeachers(),
+    { enabled: isOpen }
+  );
+
+  const { data: schoolBanks = [] } = useQuery<QuestionBank[]>(
+    ['question-banks', schoolId],
+    () => apiService.getQuestionBanks(schoolId),
+    { enabled: !!schoolId }
+  );
+
+  const schoolTeachers = teachers.filter(teacher => teacher.school_id === schoolId);
+
+  const ready = useMemo(
+    () => (remap?.questions ?? []).filter(question => question.errors.length === 0 && (includeDuplicates || !question.duplicate)),
+    [remap, includeDuplicates]
+  );
+  const problems = (remap?.questions ?? []).filter(question => question.errors.length > 0 || question.duplicate);
+  const isDone = created !== undefined && !isImporting;
+
+  const handleClose = () => {
+    reset();
+    setBundle(null);
+    setSchoolId(0);
+    setBankId(0);
+    setAuthorId(0);
+    setIncludeDuplicates(false);
+    setError(null);
+    onClose();
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const result = parseBankBundle(await selected.text());
+    if (!result.ok) {
+      setBundle(null);
+      setError(result.error);
+      return;
+    }
+    setBundle(result.bundle);
+    setBankName(result.bundle.bank.name);
+    setError(null);
+  };
+
+  const target = bundle ? { bundle, schoolId, bankId: bankId || undefined, fallbackAuthorId: authorId } : null;
+
+  const handlePreview = async () => {
+    if (!target) return;
+    setError(null);
+    try {
+      await previewBundle(target);
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to prepare the bundle');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!target) return;
+    setError(null);
+    try {
+      await importBundle({ target, questions: ready, bankName: bankName.trim() });
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to import the bundle');
+    }
+  };
+
+  const canPreview = !!bundle && !!schoolId && !!authorId && (!!bankId || !!bankName.trim());
+
+  const footer = isDone ? (
+    <div className="flex justify-end">
+      <Button onClick={handleClose}>Done</Button>
+    </div>
+  ) : remap ? (
+    <div className="flex justify-between gap-3">
+      <Button variant="outline" onClick={reset} disabled={isImporting}>
+        Back
+      </Button>
+      <Button onClick={handleImport} disabled={isImporting || ready.length === 0}>
+        {isImporting ? 'Importing...' : `Import ${ready.length} Question${ready.length === 1 ? '' : 's'}`}
+      </Button>
+    </div>
+  ) : (
+    <div className="flex justify-end gap-3">
+      <Button variant="outline" onClick={handleClose}>
+        Cancel
+      </Button>
+      <Button onClick={handlePreview} disabled={!canPreview || isPreviewing}>
+        {isPreviewing ? 'Checking...' : 'Preview'}
+      </Button>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={isImporting ? () => undefined : handleClose} title="Import Bank Bundle" size="lg" footer={footer}>
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!remap && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Bundle file</label>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-700 dark:text-gray-300"
+            />
+            {bundle && (
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                {bundle.bank.name}{bundle.bank.school_name ? ` from ${bundle.bank.school_name}` : ''}: {bundle.questions.length} questions
+                {bundle.exported_at && `, exported ${new Date(bundle.exported_at).toLocaleDateString()}`}
+              </p>
+            )}
+          </div>
+
+          {bundle && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">School</label>
+                <select
+                  value={schoolId || ''}
+                  onChange={(e) => {
+                    setSchoolId(Number(e.target.value));
+                    setBankId(0);
+                    setAuthorId(0);
+                  }}
+                  className={inputClasses}
+                >
+                  <option value="">Select School</option>
+                  {schools.map(school => (
+                    <option key={school.id} value={school.id}>{school.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Into</label>
+                  <select value={bankId || ''} onChange={(e) => setBankId(Number(e.target.value))} className={inputClasses} disabled={!schoolId}>
+                    <option value="">A new bank</option>
+                    {schoolBanks.map(bank => (
+                      <option key={bank.id} value={bank.id}>{bank.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {!bankId && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">New bank name</label>
+                    <input type="text" value={bankName} onChange={(e) => setBankName(e.target.value)} className={inputClasses} />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Author for unmatched teachers</label>
+                <select value={authorId || ''} onChange={(e) => setAuthorId(Number(e.target.value))} className={inputClasses} disabled={!schoolId}>
+                  <option value="">Select Teacher</option>
+                  {schoolTeachers.map(teacher => (
+                    <option key={teacher.id} value={teacher.id}>{teacher.full_name} ({teacher.email})</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Authors are matched to this school's teachers by email, then name. A new bank is created by this teacher.
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {remap && !progress && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {ready.length} of {remap.questions.length} questions are ready to import.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+            <MatchList title="Authors" matches={remap.authors} unmatched="Uses the chosen author" />
+            {remap.subjects.length > 0 && (
+              <MatchList title="Subjects" matches={remap.subjects} unmatched="Subject dropped" />
+            )}
+          </div>
+
+          {problems.length > 0 && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Needs attention</h4>
+                {problems.some(question => question.duplicate) && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} />
+                    Import duplicates anyway
+                  </label>
+                )}
+              </div>
+              <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                {problems.map(question => (
+                  <li key={question.row} className="py-2">
+                    <p className="text-gray-900 dark:text-white truncate" title={question.prompt}>
+                      {question.row}. {question.prompt || 'No prompt'}
+                    </p>
+                    <p className={question.errors.length > 0 ? 'text-red-600 dark:text-red-400' : 'text-yellow-700 dark:text-yellow-300'}>
+                      {question.errors.length > 0
+                        ? question.errors.join('; ')
+                        : question.duplicate === 'bank' ? 'Already in the bank' : 'Repeated in the bundle'}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {progress && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {isDone
+              ? `Created ${created} of ${progress.total} question${progress.total === 1 ? '' : 's'}.`
+              : `Creating questions: ${progress.done} of ${progress.total}`}
+          </p>
+          <ProgressBar progress={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} showPercentage />
+
+          {failed.length > 0 && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg text-sm">
+              <p className="font-medium text-red-800 dark:text-red-200 mb-1">Not imported</p>
+              <ul className="text-red-700 dark:text-red-300 space-y-0.5">
+                {failed.map(row => (
+                  <li key={row.row}>Question {row.row}: {row.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default BankBundleImportModal;
@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import Card from './Card';
+import Button from './Button';
+import Modal from './Modal';
+import useBlueprintAutoFill from '../hooks/useBlueprintAutoFill';
+import type { BlueprintDimension, BlueprintTarget, ExamBlueprint, ExamQuestion, ExamSubject, MonthlyExam, QuestionBank } from '../services/api';
+import { BLUEPRINT_DIMENSIONS, DIFFICULTIES, compareBlueprint, getQuestionTopics } from '../utils/blueprint';
+import type { CoverageStatus } from '../utils/blueprint';
+
+interface BlueprintPanelProps {
+  exam: MonthlyExam;
+  examQuestions: ExamQuestion[];
+  examSubjects: ExamSubject[];
+  questionBanks: QuestionBank[];
+  onSave: (blueprint: ExamBlueprint | null) => void;
+  isSaving?: boolean;
+}
+
+const dimensionLabels: Record<BlueprintDimension, string> = {
+  type: 'Question type',
+  subject: 'Subject',
+  difficulty: 'Difficulty',
+  topic: 'Topic',
+};
+
+const typeLabels: Record<string, string> = {
+  mcq: 'Multiple Choice',
+  tf: 'True/False',
+  numeric: 'Numeric',
+  short: 'Short Answer',
+  essay: 'Essay',
+  file: 'File Upload',
+};
+
+const statusStyles: Record<CoverageStatus, { label: string; className: string }> = {
+  met: { label: 'On target', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200' },
+  under: { label: 'Short', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200' },
+  over: { label: 'Over', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200' },
+};
+
+const inputClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent';
+
+const emptyBlueprint: ExamBlueprint = { targets: [] };
+
+const toNumber = (value: string): number | undefined => (value.trim() === '' || Number(value) < 0 ? undefined : Number(value));
+
+const StatusBadge: React.FC<{ status: CoverageStatus }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${statusStyles[status].className}`}>
+    {statusStyles[status].label}
+  </span>
+);
+
+// Planned balance of an exam's questions, checked live against the questions on the exam
+const BlueprintPanel: React.FC<BlueprintPanelProps> = ({ exam, examQuestions, examSubjects, questionBanks, onSave, isSaving = false }) => {
+  const [draft, setDraft] = useState<ExamBlueprint>(exam.blueprint ?? emptyBlueprint);
+  const [newTarget, setNewTarget] = useState({ dimension: 'type' as BlueprintDimension, key: '', questions: '', marks: '' });
+  const [bankId, setBankId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { picks, pickQuestions, isPicking, clearPicks, addPicks, isAdding } = useBlueprintAutoFill(exam.id);
+
+  useEffect(() => {
+    setDraft(exam.blueprint ?? emptyBlueprint);
+  }, [exam.blueprint]);
+
+  const coverage = compareBlueprint(draft, examQuestions, examSubjects);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(exam.blueprint ?? emptyBlueprint);
+  const hasPlan = draft.targets.length > 0 || draft.total_questions !== undefined || draft.total_marks !== undefined;
+
+  const knownTopics = Array.from(new Set(examQuestions.flatMap(item => getQuestionTopics(item.question)))).sort();
+
+  const keyLabel = (target: Pick<BlueprintTarget, 'dimension' | 'key'>) => {
+    if (target.dimension === 'type') return typeLabels[target.key] || target.key;
+    if (target.dimension === 'subject') {
+      return examSubjects.find(item => String(item.subject_id) === target.key)?.subject?.name || `Subject #${target.key}`;
+    }
+    return target.key;
+  };
+
+  const keyOptions: Record<BlueprintDimension, Array<{ value: string; label: string }>> = {
+    type: Object.entries(typeLabels).map(([value, label]) => ({ value, label })),
+    subject: examSubjects.map(item => ({ value: String(item.subject_id), label: item.subject?.name || `Subject #${item.subject_id}` })),
+    difficulty: DIFFICULTIES.map(value => ({ value, label: value })),
+    topic: [],
+  };
+
+  const handleAddTarget = () => {
+    const key = newTarget.dimension === 'topic' ? newTarget.key.trim().toLowerCase() : newTarget.key;
+    const questions = toNumber(newTarget.questions);
+    const marks = toNumber(newTarget.marks);
+
+    if (!key) {
+      setError('Choose what the target counts');
+      return;
+    }
+    if (questions === undefined && marks === undefined) {
+      setError('Set a number of questions, marks, or both');
+      return;
+    }
+    if (draft.targets.some(target => target.dimension === newTarget.dimension && target.key === key)) {
+      setError('There is already a target for this');
+      return;
+    }
+
+    setError(null);
+    setDraft(prev => ({
+      ...prev,
+      targets: [...prev.targets, {
+        dimension: newTarget.dimension,
+        key,
+        ...(questions !== undefined && { questions }),
+        ...(marks !== undefined && { marks }),
+      }],
+    }));
+    setNewTarget(prev => ({ ...prev, key: '', questions: '', marks: '' }));
+  };
+
+  const updateTotal = (field: 'total_questions' | 'total_marks', value: string) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      const parsed = toNumber(value);
+      if (parsed === undefined) {
+        delete next[field];
+      } else {
+        next[field] = parsed;
+      }
+      return next;
+    });
+  };
+
+  const handleAutoFill = async () => {
+    setError(null);
+    try {
+      const questions = await pickQuestions({ blueprint: draft, bankId: bankId ?? undefined, examQuestions, examSubjects });
+      if (questions.length === 0) {
+        clearPicks();
+        setError('No questions in the bank fit the gaps in the blueprint');
+      }
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to load questions');
+    }
+  };
+
+  const handleAddPicks = async () => {
+    if (!picks) return;
+    try {
+      await addPicks({ questions: picks, examQuestions });
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to add questions');
+    }
+  };
+
+  const totalCell = (label: string, field: 'total_questions' | 'total_marks', current: number, status?: CoverageStatus) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min="0"
+          value={draft[field] ?? ''}
+          onChange={(e) => updateTotal(field, e.target.value)}
+          className={inputClasses}
+          placeholder="Any"
+        />
+        <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">Now {current}</span>
+        {status && <StatusBadge status={status} />}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Blueprint</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Plan how many questions and marks the exam should have by type, subject, difficulty and topic.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {hasPlan && (
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${coverage.met ? statusStyles.met.className : statusStyles.under.className}`}>
+              {coverage.met ? 'Blueprint met' : 'Blueprint not met'}
+            </span>
+          )}
+          <Button size="sm" onClick={() => onSave(hasPlan ? draft : null)} disabled={!isDirty || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Blueprint'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {totalCell('Total Questions', 'total_questions', coverage.questions, coverage.questions_status)}
+        {totalCell('Total Marks', 'total_marks', coverage.marks, coverage.marks_status)}
+      </div>
+
+      {draft.targets.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-800">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">By</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Value</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Questions</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Marks</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {coverage.targets.map((row, index) => (
+                <tr key={`${row.target.dimension}-${row.target.key}`}>
+                  <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{dimensionLabels[row.target.dimension]}</td>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{keyLabel(row.target)}</td>
+                  <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                    {row.questions}{row.target.questions !== undefined && ` / ${row.target.questions}`}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                    {row.marks}{row.target.marks !== undefined && ` / ${row.target.marks}`}
+                  </td>
+                  <td className="px-4 py-2"><StatusBadge status={row.status} /></td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => setDraft(prev => ({ ...prev, targets: prev.targets.filter((_, i) => i !== index) }))}
+                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 text-sm"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* New target */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Target By</label>
+          <select
+            value={newTarget.dimension}
+            onChange={(e) => setNewTarget(prev => ({ ...prev, dimension: e.target.value as BlueprintDimension, key: '' }))}
+            className={inputClasses}
+          >
+            {BLUEPRINT_DIMENSIONS.map(dimension => (
+              <option key={dimension} value={dimension}>{dimensionLabels[dimension]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Value</label>
+          {newTarget.dimension === 'topic' ? (
+            <>
+              <input
+                type="text"
+                list="blueprint-topics"
+                value={newTarget.key}
+                onChange={(e) => setNewTarget(prev => ({ ...prev, key: e.target.value }))}
+                className={inputClasses}
+                placeholder="e.g. fractions"
+              />
+              <datalist id="blueprint-topics">
+                {knownTopics.map(topic => <option key={topic} value={topic} />)}
+              </datalist>
+            </>
+          ) : (
+            <select
+              value={newTarget.key}
+              onChange={(e) => setNewTarget(prev => ({ ...prev, key: e.target.value }))}
+              className={inputClasses}
+            >
+              <option value="">Select</option>
+              {keyOptions[newTarget.dimension].map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Questions</label>
+          <input
+            type="number"
+            min="0"
+            value={newTarget.questions}
+            onChange={(e) => setNewTarget(prev => ({ ...prev, questions: e.target.value }))}
+            className={inputClasses}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Marks</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={newTarget.marks}
+            onChange={(e) => setNewTarget(prev => ({ ...prev, marks: e.target.value }))}
+            className={inputClasses}
+          />
+        </div>
+        <Button variant="outline" onClick={handleAddTarget}>
+          Add Target
+        </Button>
+      </div>
+
+      {coverage.subjects.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Question marks by exam subject</h3>
+          <div className="flex flex-wrap gap-2 text-sm">
+            {coverage.subjects.map(subject => (
+              <span key={subject.subject_id} className={`px-2 py-1 rounded-lg ${statusStyles[subject.status].className}`}>
+                {subject.name || `Subject #${subject.subject_id}`}: {subject.marks} / {subject.max_marks} marks
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Auto-fill */}
+      <div className="flex flex-wrap items-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Fill From</label>
+          <select
+            value={bankId || ''}
+            onChange={(e) => setBankId(e.target.value ? Number(e.target.value) : null)}
+            className={inputClasses}
+          >
+            <option value="">All question banks</option>
+            {questionBanks.map(bank => (
+              <option key={bank.id} value={bank.id}>{bank.name}</option>
+            ))}
+          </select>
+        </div>
+        <Button onClick={handleAutoFill} disabled={!hasPlan || isPicking}>
+          {isPicking ? 'Picking...' : 'Auto-fill from Question Bank'}
+        </Button>
+      </div>
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <Modal
+        isOpen={!!picks && picks.length > 0}
+        onClose={clearPicks}
+        title="Add Questions from the Blueprint"
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={clearPicks}>
+              Cancel
+            </Button>
+            <Button onClick={handleAddPicks} disabled={isAdding}>
+              {isAdding ? 'Adding...' : `Add ${picks?.length ?? 0} Question${picks?.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        }
+      >
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          These questions fill gaps in the blueprint without going past any target.
+        </p>
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {picks?.map(question => (
+            <li key={question.id} className="py-2 flex justify-between gap-4 text-sm">
+              <span className="text-gray-900 dark:text-white truncate" title={question.prompt}>{question.prompt}</span>
+              <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {typeLabels[question.type] || question.type} · {question.default_marks} marks
+              </span>
+            </li>
+          ))}
+        </ul>
+      </Modal>
+    </Card>
+  );
+};
+
+export default BlueprintPanel;
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import Modal from './Modal';
+import Button from './Button';
+import useAggregateComputation from '../hooks/useAggregateComputation';
+import type { MonthlyExam } from '../services/api';
+import type { AggregateChange, AggregateField, AttemptPolicy, RankScope } from '../utils/aggregates';
+
+interface ComputeAggregatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  exams: MonthlyExam[];
+  defaultExamId?: number | null;
+}
+
+const kindStyles: Record<AggregateChange['kind'], { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-200' },
+  missing: { label: 'No graded attempt', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200' },
+};
+
+const selectClasses = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent';
+
+const formatValue = (field: AggregateField, value: unknown) => {
+  if (value === undefined || value === null) return '-';
+  if (field === 'passed') return value ? 'Pass' : 'Fail';
+  if (field === 'rank') return `#${value}`;
+  if (field === 'percent' || field === 'percentile') return `${value}%`;
+  return String(value);
+};
+
+// One cell of the diff: the saved value struck through next to the new one when they differ
+const DiffCell: React.FC<{ change: AggregateChange; field: AggregateField }> = ({ change, field }) => {
+  const before = change.existing?.[field];
+  const after = change.computed?.[field];
+
+  if (!change.computed) return <span className="text-gray-500 dark:text-gray-400">{formatValue(field, before)}</span>;
+  if (!change.fields.includes(field) || change.kind === 'new') {
+    return <span className="text-gray-900 dark:text-white">{formatValue(field, after)}</span>;
+  }
+  return (
+    <span className="whitespace-nowrap">
+      <span className="line-through text-gray-400 mr-1">{formatValue(field, before)}</span>
+      <span className="font-medium text-yellow-700 dark:text-yellow-300">{formatValue(field, after)}</span>
+    </span>
+  );
+};
+
+const FIELDS: AggregateField[] = ['total_marks', 'percent', 'rank', 'percentile', 'passed'];
+
+// Settings for computing an exam's aggregates, then a preview of what saving would change
+const ComputeAggregatesModal: React.FC<ComputeAggregatesModalProps> = ({ isOpen, onClose, exams, defaultExamId }) => {
+  const [examId, setExamId] = useState<number | null>(defaultExamId ?? null);
+  const [policy, setPolicy] = useState<AttemptPolicy>('best');
+  const [scope, setScope] = useState<RankScope>('section');
+  const [error, setError] = useState<string | null>(null);
+
+  const { preview, computePreview, isComputing, clearPreview, save, isSaving } = useAggregateComputation();
+
+  const examLabel = (id: number) => {
+    const exam = exams.find(item => item.id === id);
+    return exam ? `${exam.grade?.name} - ${exam.section?.name} (${exam.month}/${exam.year})` : `Exam #${id}`;
+  };
+
+  const handleClose = () => {
+    clearPreview();
+    setError(null);
+    onClose();
+  };
+
+  const handlePreview = async () => {
+    if (!examId) {
+      setError('Choose an exam');
+      return;
+    }
+    setError(null);
+    try {
+      await computePreview({ examId, policy, scope });
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to compute aggregates');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!preview) return;
+    setError(null);
+    try {
+      await save(preview);
+      handleClose();
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to save aggregates');
+    }
+  };
+
+  const counts = (preview || []).reduce<Record<AggregateChange['kind'], number>>(
+    (total, change) => ({ ...total, [change.kind]: total[change.kind] + 1 }),
+    { new: 0, changed: 0, unchanged: 0, missing: 0 }
+  );
+  const writeCount = counts.new + counts.changed;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Compute Aggregates"
+      size="xl"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button onClick={handleSave} disabled={isSaving || writeCount === 0}>
+              {isSaving ? 'Saving...' : `Save ${writeCount} Change${writeCount === 1 ? '' : 's'}`}
+            </Button>
+          ) : (
+            <Button onClick={handlePreview} disabled={isComputing}>
+              {isComputing ? 'Computing...' : 'Preview'}
+            </Button>
+          )}
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Exam <span className="text-red-500">*</span>
+            </label>
+            <select
+              value={examId || ''}
+              onChange={(e) => {
+                setExamId(e.target.value ? Number(e.target.value) : null);
+                clearPreview();
+              }}
+              className={selectClasses}
+            >
+              <option value="">Select Exam</option>
+              {exams.map((exam) => (
+                <option key={exam.id} value={exam.id}>
+                  {examLabel(exam.id)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Attempt Used
+            </label>
+            <select
+              value={policy}
+              onChange={(e) => {
+                setPolicy(e.target.value as AttemptPolicy);
+                clearPreview();
+              }}
+              className={selectClasses}
+            >
+              <option value="best">Best attempt</option>
+              <option value="latest">Latest attempt</option>
+              <option value="average">Average of attempts</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Rank Within
+            </label>
+            <select
+              value={scope}
+              onChange={(e) => {
+                setScope(e.target.value as RankScope);
+                clearPreview();
+              }}
+              className={selectClasses}
+            >
+              <option value="section">Section</option>
+              <option value="grade">Whole grade</option>
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Only graded attempts count. Exam subject marks are scaled to each subject's max marks and checked against its pass marks.
+          {scope === 'grade' && ' Ranking by grade also updates the other sections\' exams for the same month.'}
+        </p>
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(Object.keys(kindStyles) as AggregateChange['kind'][]).map(kind => (
+                <span key={kind} className={`px-2 py-1 rounded-full font-medium ${kindStyles[kind].className}`}>
+                  {kindStyles[kind].label}: {counts[kind]}
+                </span>
+              ))}
+            </div>
+
+            {preview.length === 0 ? (
+              <p className="text-gray-600 dark:text-gray-400">No graded attempts found for this exam.</p>
+            ) : (
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Student</th>
+                      {scope === 'grade' && (
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Exam</th>
+                      )}
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Total</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Percent</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Rank</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Percentile</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Result</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {preview.map(change => (
+                      <tr key={`${change.monthly_exam_id}-${change.student_id}`}>
+                        <td className="px-4 py-2">
+                          <div className="text-gray-900 dark:text-white">{change.student_name || `Student #${change.student_id}`}</div>
+                          {change.computed && change.computed.subjects.some(subject => !subject.passed) && (
+                            <div className="text-xs text-red-600 dark:text-red-400">
+                              Below pass marks: {change.computed.subjects
+                                .filter(subject => !subject.passed)
+                                .map(subject => subject.name || `Subject #${subject.subject_id}`)
+                                .join(', ')}
+                            </div>
+                          )}
+                        </td>
+                        {scope === 'grade' && (
+                          <td className="px-4 py-2 text-gray-600 dark:text-gray-400">{examLabel(change.monthly_exam_id)}</td>
+                        )}
+                        {FIELDS.map(field => (
+                          <td key={field} className="px-4 py-2">
+                            <DiffCell change={change} field={field} />
+                          </td>
+                        ))}
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${kindStyles[change.kind].className}`}>
+                            {kindStyles[change.kind].label}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {counts.missing > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Aggregates without a graded attempt are left as they are.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ComputeAggregatesModal;
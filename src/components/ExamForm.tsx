@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useQuery } from 'react-query';
 import apiService from '../services/api';
-import type { MonthlyExam, School, Grade, Section } from '../services/api';
+import type { MonthlyExam, School, Grade, Section, Teacher } from '../services/api';
 import Button from './Button';
 import Card from './Card';
+import { DEFAULT_MODERATION_THRESHOLD, validateDoubleMarking } from '../utils/doubleMarking';
 
 interface ExamFormProps {
   exam?: MonthlyExam | null;
@@ -43,6 +44,10 @@ const ExamForm: React.FC<ExamFormProps> = ({
     random_pool: exam?.random_pool ?? false,
     show_answers_after: exam?.show_answers_after ?? false,
     auto_publish_results: exam?.auto_publish_results ?? false,
+    grading_mode: exam?.grading_mode || 'single',
+    marker_ids: exam?.marker_ids || [],
+    moderator_id: exam?.moderator_id ?? null,
+    moderation_threshold: exam?.moderation_threshold ?? DEFAULT_MODERATION_THRESHOLD,
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -72,6 +77,17 @@ const ExamForm: React.FC<ExamFormProps> = ({
     }
   );
 
+  const { data: teachers = [] } = useQuery<Teacher[]>(
+    'teachers',
+    () => apiService.getTeachers(),
+    {
+      enabled: formData.grading_mode === 'double_blind',
+      staleTime: 5 * 60 * 1000,
+    }
+  );
+
+  const schoolTeachers = teachers.filter(teacher => teacher.school_id === formData.school_id);
+
   // Reset grades and sections when school/grade changes
   useEffect(() => {
     if (!formData.school_id) {
@@ -85,6 +101,13 @@ const ExamForm: React.FC<ExamFormProps> = ({
     }
   }, [formData.grade_id]);
 
+  const toggleMarker = (teacherId: number) => {
+    const current = formData.marker_ids || [];
+    handleChange('marker_ids', current.includes(teacherId)
+      ? current.filter(id => id !== teacherId)
+      : [...current, teacherId]);
+  };
+
   const handleChange = (field: keyof MonthlyExam, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     // Clear error for this field
@@ -121,6 +144,10 @@ const ExamForm: React.FC<ExamFormProps> = ({
     if (formData.online_enabled && !formData.duration_minutes) {
       newErrors.duration_minutes = 'Duration is required for online exams';
     }
+    const doubleMarkingError = formData.online_enabled ? validateDoubleMarking(formData) : null;
+    if (doubleMarkingError) {
+      newErrors.grading_mode = doubleMarkingError;
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -546,6 +573,96 @@ const ExamForm: React.FC<ExamFormProps> = ({
               className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
             />
           </div>
+
+          {/* Grading Mode */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Manual Grading
+            </label>
+            <select
+              value={formData.grading_mode || 'single'}
+              onChange={(e) => handleChange('grading_mode', e.target.value)}
+              className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white ${
+                errors.grading_mode ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+              }`}
+            >
+              <option value="single">Single marker</option>
+              <option value="double_blind">Blind double marking with moderation</option>
+            </select>
+            {errors.grading_mode && (
+              <p className="mt-1 text-sm text-red-500">{errors.grading_mode}</p>
+            )}
+          </div>
+
+          {formData.grading_mode === 'double_blind' && (
+            <div className="space-y-4 p-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Markers (each answer goes to two of them)
+                </p>
+                {schoolTeachers.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {formData.school_id ? 'No teachers found for this school' : 'Select a school first'}
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {schoolTeachers.map((teacher) => (
+                      <div key={teacher.id} className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id={`marker_${teacher.id}`}
+                          checked={formData.marker_ids?.includes(teacher.id) || false}
+                          onChange={() => toggleMarker(teacher.id)}
+                          disabled={formData.moderator_id === teacher.id}
+                          className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary/50"
+                        />
+                        <label htmlFor={`marker_${teacher.id}`} className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                          {teacher.full_name}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Moderator
+                  </label>
+                  <select
+                    value={formData.moderator_id || ''}
+                    onChange={(e) => handleChange('moderator_id', e.target.value ? parseInt(e.target.value) : null)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                  >
+                    <option value="">Select Moderator</option>
+                    {schoolTeachers
+                      .filter(teacher => !formData.marker_ids?.includes(teacher.id))
+                      .map((teacher) => (
+                        <option key={teacher.id} value={teacher.id}>
+                          {teacher.full_name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Moderation Threshold (% of question marks)
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.moderation_threshold ?? ''}
+                    onChange={(e) => handleChange('moderation_threshold', parseFloat(e.target.value))}
+                    min="0"
+                    max="100"
+                    step="1"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import {
+  STAMPS,
+  HIGHLIGHT_COLOR,
+  createAnnotationId,
+  toPagePoint,
+  simplifyStroke,
+  rectFromPoints,
+} from '../../utils/annotations';
+import type { Annotation, AnnotationTool, Point, StampKind } from '../../utils/annotations';
+
+interface AnnotationLayerProps {
+  page: number;
+  width: number; // rendered page size in pixels
+  height: number;
+  annotations: Annotation[]; // this page only
+  commentNumbers: Map<string, number>;
+  tool: AnnotationTool | null; // null when read-only
+  color: string;
+  stamp: StampKind;
+  onAdd: (annotation: Annotation) => void;
+  onRemove: (id: string) => void;
+  onComment: (page: number, point: Point) => void;
+}
+
+const PEN_WIDTH = 0.004; // fraction of the page width
+const COMMENT_RADIUS = 11;
+
+type Draft =
+  | { type: 'pen'; points: Point[] }
+  | { type: 'highlight'; start: Point; end: Point };
+
+const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  page,
+  width,
+  height,
+  annotations,
+  commentNumbers,
+  tool,
+  color,
+  stamp,
+  onAdd,
+  onRemove,
+  onComment,
+}) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const isEditing = tool !== null;
+  const isErasing = tool === 'erase';
+
+  const pointFrom = (e: React.PointerEvent<SVGSVGElement>) =>
+    toPagePoint(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect());
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!tool || isErasing || e.button !== 0) return;
+    const point = pointFrom(e);
+
+    switch (tool) {
+      case 'pen':
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDraft({ type: 'pen', points: [point] });
+        break;
+      case 'highlight':
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDraft({ type: 'highlight', start: point, end: point });
+        break;
+      case 'stamp':
+        onAdd({ id: createAnnotationId(), type: 'stamp', page, x: point.x, y: point.y, stamp });
+        break;
+      case 'comment':
+        onComment(page, point);
+        break;
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = pointFrom(e);
+
+    setDraft(draft.type === 'pen'
+      ? { ...draft, points: [...draft.points, point] }
+      : { ...draft, end: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+
+    if (draft.type === 'pen' && draft.points.length > 1) {
+      onAdd({ id: createAnnotationId(), type: 'pen', page, color, width: PEN_WIDTH, points: simplifyStroke(draft.points) });
+    } else if (draft.type === 'highlight') {
+      const rect = rectFromPoints(draft.start, draft.end);
+      // Ignore accidental clicks
+      if (rect.width > 0.005 && rect.height > 0.005) {
+        onAdd({ id: createAnnotationId(), type: 'highlight', page, color: HIGHLIGHT_COLOR, ...rect });
+      }
+    }
+    setDraft(null);
+  };
+
+  const toPath = (points: Point[]) =>
+    points.map((point, i) => `${i === 0 ? 'M' : 'L'}${(point.x * width).toFixed(1)} ${(point.y * height).toFixed(1)}`).join(' ');
+
+  // In erase mode every mark is a click target
+  const eraseProps = (id: string) => isErasing
+    ? { onClick: () => onRemove(id), style: { cursor: 'pointer', pointerEvents: 'all' as const } }
+    : {};
+
+  const draftRect = draft?.type === 'highlight' ? rectFromPoints(draft.start, draft.end) : null;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className="absolute inset-0 touch-none"
+      style={{
+        pointerEvents: isEditing ? 'auto' : 'none',
+        cursor: tool === 'pen' || tool === 'highlight' ? 'crosshair' : tool === 'erase' ? 'default' : tool ? 'copy' : 'auto',
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDraft(null)}
+    >
+      {annotations.map(annotation => {
+        switch (annotation.type) {
+          case 'highlight':
+            return (
+              <rect
+                key={annotation.id}
+                x={annotation.x * width}
+                y={annotation.y * height}
+                width={annotation.width * width}
+                height={annotation.height * height}
+                fill={annotation.color}
+                fillOpacity={0.35}
+                style={{ mixBlendMode: 'multiply' }}
+                {...eraseProps(annotation.id)}
+              />
+            );
+          case 'pen':
+            return (
+              <path
+                key={annotation.id}
+                d={toPath(annotation.points)}
+                fill="none"
+                stroke={annotation.color}
+                strokeWidth={Math.max(1.5, annotation.width * width)}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                {...eraseProps(annotation.id)}
+              />
+            );
+          case 'stamp': {
+            const stampStyle = STAMPS[annotation.stamp];
+            return (
+              <text
+                key={annotation.id}
+                x={annotation.x * width}
+                y={annotation.y * height}
+                fill={stampStyle.color}
+                fontSize={Math.max(18, width * 0.05)}
+                fontWeight="bold"
+                textAnchor="middle"
+                dominantBaseline="central"
+                {...eraseProps(annotation.id)}
+              >
+                <title>{stampStyle.label}</title>
+                {stampStyle.glyph}
+              </text>
+            );
+          }
+          case 'comment':
+            return (
+              // Comments stay hoverable when read-only so the text shows as a tooltip
+              <g
+                key={annotation.id}
+                onClick={isErasing ? () => onRemove(annotation.id) : undefined}
+                style={{ pointerEvents: 'all', cursor: isErasing ? 'pointer' : 'help' }}
+              >
+                <title>{annotation.text}</title>
+                <circle
+                  cx={annotation.x * width}
+                  cy={annotation.y * height}
+                  r={COMMENT_RADIUS}
+                  fill="#2563eb"
+                  stroke="#ffffff"
+                  strokeWidth={2}
+                />
+                <text
+                  x={annotation.x * width}
+                  y={annotation.y * height}
+                  fill="#ffffff"
+                  fontSize={12}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                >
+                  {commentNumbers.get(annotation.id) ?? ''}
+                </text>
+              </g>
+            );
+          default:
+            return null;
+        }
+      })}
+
+      {draft?.type === 'pen' && (
+        <path
+          d={toPath(draft.points)}
+          fill="none"
+          stroke={color}
+          strokeWidth={Math.max(1.5, PEN_WIDTH * width)}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      )}
+      {draftRect && (
+        <rect
+          x={draftRect.x * width}
+          y={draftRect.y * height}
+          width={draftRect.width * width}
+          height={draftRect.height * height}
+          fill={HIGHLIGHT_COLOR}
+          fillOpacity={0.35}
+        />
+      )}
+    </svg>
+  );
+};
+
+export default AnnotationLayer;
@@ -0,0 +1,112 @@
+import React from 'react';
+import Button from '../Button';
+import { PEN_COLORS, STAMPS } from '../../utils/annotations';
+import type { AnnotationTool, StampKind } from '../../utils/annotations';
+
+interface AnnotationToolbarProps {
+  tool: AnnotationTool;
+  onToolChange: (tool: AnnotationTool) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  stamp: StampKind;
+  onStampChange: (stamp: StampKind) => void;
+  canUndo: boolean;
+  onUndo: () => void;
+  isDirty: boolean;
+  isSaving: boolean;
+  onDiscard: () => void;
+  onSave: () => void;
+}
+
+const tools: Array<{ id: AnnotationTool; label: string; icon: string }> = [
+  { id: 'pen', label: 'Pen', icon: '✎' },
+  { id: 'highlight', label: 'Highlight', icon: '▮' },
+  { id: 'comment', label: 'Comment', icon: '💬' },
+  { id: 'stamp', label: 'Stamp', icon: '✓' },
+  { id: 'erase', label: 'Erase', icon: '⌫' },
+];
+
+const toggleClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-sm border ${active
+  ? 'bg-primary text-white border-primary'
+  : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`;
+
+const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  tool,
+  onToolChange,
+  color,
+  onColorChange,
+  stamp,
+  onStampChange,
+  canUndo,
+  onUndo,
+  isDirty,
+  isSaving,
+  onDiscard,
+  onSave,
+}) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap gap-1" role="toolbar" aria-label="Annotation tools">
+        {tools.map(item => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => onToolChange(item.id)}
+            className={toggleClass(tool === item.id)}
+            aria-pressed={tool === item.id}
+          >
+            <span aria-hidden="true" className="mr-1">{item.icon}</span>
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {tool === 'pen' && (
+        <div className="flex gap-1" aria-label="Pen colour">
+          {PEN_COLORS.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onColorChange(option)}
+              className={`w-7 h-7 rounded-full border-2 ${color === option ? 'border-primary ring-2 ring-primary/30' : 'border-white dark:border-gray-700'}`}
+              style={{ backgroundColor: option }}
+              aria-label={`Pen colour ${option}`}
+              aria-pressed={color === option}
+            />
+          ))}
+        </div>
+      )}
+
+      {tool === 'stamp' && (
+        <div className="flex gap-1" aria-label="Stamp">
+          {(Object.keys(STAMPS) as StampKind[]).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => onStampChange(kind)}
+              className={toggleClass(stamp === kind)}
+              title={STAMPS[kind].label}
+              aria-pressed={stamp === kind}
+            >
+              <span style={{ color: stamp === kind ? undefined : STAMPS[kind].color }}>{STAMPS[kind].glyph}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 ml-auto">
+        <Button size="sm" variant="outline" onClick={onUndo} disabled={!canUndo}>
+          Undo
+        </Button>
+        <Button size="sm" variant="outline" onClick={onDiscard} disabled={!isDirty || isSaving}>
+          Discard
+        </Button>
+        <Button size="sm" onClick={onSave} disabled={!isDirty || isSaving}>
+          {isSaving ? 'Saving...' : 'Save Annotations'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationToolbar;
@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { renderPdfPage } from '../../services/pdfRenderer';
+import type { PdfDocument } from '../../services/pdfRenderer';
+
+interface FilePageProps {
+  pageIndex: number; // 0-based
+  pdf?: PdfDocument | null; // set for PDFs
+  imageUrl?: string | null; // set for images
+  label: string;
+  children: (size: { width: number; height: number }) => React.ReactNode; // overlay drawn over the page
+}
+
+// Tracks the rendered width of the page so the PDF is drawn at screen resolution
+const useElementWidth = (ref: React.RefObject<HTMLElement | null>) => {
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return width;
+};
+
+const FilePage: React.FC<FilePageProps> = ({ pageIndex, pdf, imageUrl, label, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const width = useElementWidth(containerRef);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null); // height / width
+  const [renderError, setRenderError] = useState(false);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || width === 0) return;
+    let cancelled = false;
+    let cancelRender: (() => void) | null = null;
+
+    renderPdfPage(pdf, pageIndex + 1, canvasRef.current, width)
+      .then(({ task, aspectRatio: ratio }) => {
+        if (cancelled) {
+          task.cancel();
+          return;
+        }
+        cancelRender = () => task.cancel();
+        setAspectRatio(ratio);
+        return task.promise;
+      })
+      .catch(error => {
+        if (error?.name === 'RenderingCancelledException') return;
+        console.error('Failed to render PDF page:', error);
+        if (!cancelled) setRenderError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      cancelRender?.();
+    };
+  }, [pdf, pageIndex, width]);
+
+  const height = aspectRatio ? Math.round(width * aspectRatio) : 0;
+
+  return (
+    <div ref={containerRef} className="relative w-full bg-white shadow" aria-label={label}>
+      {pdf && <canvas ref={canvasRef} className="block" />}
+      {imageUrl && (
+        <img
+          src={imageUrl}
+          alt={label}
+          className="block w-full h-auto select-none"
+          draggable={false}
+          onLoad={(e) => {
+            const image = e.currentTarget;
+            setAspectRatio(image.naturalHeight / image.naturalWidth);
+          }}
+        />
+      )}
+      {renderError && (
+        <p className="p-4 text-sm text-red-600">This page could not be displayed.</p>
+      )}
+      {width > 0 && height > 0 && (
+        <div className="absolute inset-0">
+          {children({ width, height })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilePage;
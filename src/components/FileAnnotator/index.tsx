@@ -0,0 +1,216 @@
+import React, { useState, useMemo } from 'react';
+import Button from '../Button';
+import FilePage from './FilePage';
+import AnnotationLayer from './AnnotationLayer';
+import AnnotationToolbar from './AnnotationToolbar';
+import { useAnswerFile } from '../../hooks/useAnswerFile';
+import { useAnswerAnnotations } from '../../hooks/useAnswerAnnotations';
+import { PEN_COLORS, createAnnotationId, numberComments } from '../../utils/annotations';
+import type { AnnotationTool, Point, StampKind } from '../../utils/annotations';
+
+interface FileAnnotatorProps {
+  answerId: number;
+  filePath: string;
+  readOnly?: boolean; // students see the graded markup without tools
+}
+
+const FileAnnotator: React.FC<FileAnnotatorProps> = ({ answerId, filePath, readOnly = false }) => {
+  const file = useAnswerFile(answerId, filePath);
+  const markup = useAnswerAnnotations(answerId, filePath);
+
+  const [tool, setTool] = useState<AnnotationTool>('pen');
+  const [color, setColor] = useState(PEN_COLORS[0]);
+  const [stamp, setStamp] = useState<StampKind>('tick');
+  const [pendingComment, setPendingComment] = useState<{ page: number; point: Point; text: string } | null>(null);
+
+  const commentNumbers = useMemo(() => numberComments(markup.annotations), [markup.annotations]);
+  const comments = markup.annotations
+    .filter(annotation => annotation.type === 'comment')
+    .sort((a, b) => (commentNumbers.get(a.id) ?? 0) - (commentNumbers.get(b.id) ?? 0));
+
+  const fileName = filePath.split('/').pop() || filePath;
+
+  const handleAddComment = () => {
+    if (!pendingComment || !pendingComment.text.trim()) return;
+
+    markup.add({
+      id: createAnnotationId(),
+      type: 'comment',
+      page: pendingComment.page,
+      x: pendingComment.point.x,
+      y: pendingComment.point.y,
+      text: pendingComment.text.trim(),
+    });
+    setPendingComment(null);
+  };
+
+  const handleSave = () => {
+    markup.save().catch(() => undefined); // shown through saveError
+  };
+
+  if (file.isLoading || markup.isLoading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (file.isError || !file.kind) {
+    return (
+      <p className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+        The uploaded file could not be loaded.
+      </p>
+    );
+  }
+
+  if (file.kind === 'other') {
+    return (
+      <div className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-300">
+        This file type can't be shown in the browser.{' '}
+        {file.url && (
+          <a href={file.url} download={fileName} className="text-primary hover:underline">
+            Download {fileName}
+          </a>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {!readOnly && (
+        <AnnotationToolbar
+          tool={tool}
+          onToolChange={(next) => {
+            setTool(next);
+            setPendingComment(null);
+          }}
+          color={color}
+          onColorChange={setColor}
+          stamp={stamp}
+          onStampChange={setStamp}
+          canUndo={markup.canUndo}
+          onUndo={markup.undo}
+          isDirty={markup.isDirty}
+          isSaving={markup.isSaving}
+          onDiscard={markup.discard}
+          onSave={handleSave}
+        />
+      )}
+
+      {markup.isOutdated && (
+        <p className="p-2 rounded bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-200">
+          These annotations were made on an earlier upload of this answer and may not line up.
+        </p>
+      )}
+      {markup.saveError && (
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to save annotations. Please try again.</p>
+      )}
+      {markup.isError && (
+        <p className="text-sm text-red-600 dark:text-red-400">Existing annotations could not be loaded.</p>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 max-h-[70vh] overflow-y-auto space-y-4 p-2 bg-gray-100 dark:bg-gray-900 rounded-lg">
+          {Array.from({ length: file.pageCount }, (_, page) => (
+            <FilePage
+              key={page}
+              pageIndex={page}
+              pdf={file.kind === 'pdf' ? file.pdf : null}
+              imageUrl={file.kind === 'image' ? file.url : null}
+              label={`${fileName}, page ${page + 1}`}
+            >
+              {({ width, height }) => (
+                <>
+                  <AnnotationLayer
+                    page={page}
+                    width={width}
+                    height={height}
+                    annotations={markup.annotations.filter(annotation => annotation.page === page)}
+                    commentNumbers={commentNumbers}
+                    tool={readOnly ? null : tool}
+                    color={color}
+                    stamp={stamp}
+                    onAdd={markup.add}
+                    onRemove={markup.remove}
+                    onComment={(commentPage, point) => setPendingComment({ page: commentPage, point, text: '' })}
+                  />
+                  {pendingComment?.page === page && (
+                    <div
+                      className="absolute z-10 w-64 p-2 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700"
+                      style={{
+                        left: `min(${pendingComment.point.x * 100}%, calc(100% - 16rem))`,
+                        top: `${pendingComment.point.y * 100}%`,
+                      }}
+                    >
+                      <textarea
+                        autoFocus
+                        rows={3}
+                        value={pendingComment.text}
+                        onChange={(e) => setPendingComment({ ...pendingComment, text: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleAddComment();
+                          if (e.key === 'Escape') setPendingComment(null);
+                        }}
+                        placeholder="Comment for the student"
+                        className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                      />
+                      <div className="flex justify-end gap-2 mt-2">
+                        <Button size="sm" variant="outline" onClick={() => setPendingComment(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={handleAddComment} disabled={!pendingComment.text.trim()}>
+                          Add
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </FilePage>
+          ))}
+        </div>
+
+        {comments.length > 0 && (
+          <ol className="lg:w-64 space-y-2 text-sm">
+            {comments.map(comment => comment.type === 'comment' && (
+              <li key={comment.id} className="flex gap-2 p-2 rounded-lg bg-blue-50 dark:bg-blue-900/20">
+                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-blue-600 text-white text-xs font-bold flex items-center justify-center">
+                  {commentNumbers.get(comment.id)}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-gray-900 dark:text-white whitespace-pre-wrap break-words">{comment.text}</p>
+                  {file.pageCount > 1 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Page {comment.page + 1}</p>
+                  )}
+                </div>
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => markup.remove(comment.id)}
+                    className="text-red-500 hover:text-red-700"
+                    aria-label={`Delete comment ${commentNumbers.get(comment.id)}`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {file.url && (
+          <a href={file.url} download={fileName} className="text-primary hover:underline">
+            Download original
+          </a>
+        )}
+        {markup.updatedAt && ` · Annotations saved ${new Date(markup.updatedAt).toLocaleString()}`}
+      </p>
+    </div>
+  );
+};
+
+export default FileAnnotator;
@@ -0,0 +1,36 @@
+import React from 'react';
+import Button from './Button';
+import type { GradeSuggestion } from '../utils/autoGrading';
+
+interface GradeSuggestionNoteProps {
+  suggestion: GradeSuggestion;
+  maxMarks: number;
+  onApply?: (marks: number) => void;
+}
+
+// Auto-graded marks are only a suggestion; the teacher decides whether to use them
+const GradeSuggestionNote: React.FC<GradeSuggestionNoteProps> = ({ suggestion, maxMarks, onApply }) => {
+  const tone = suggestion.correct
+    ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+    : suggestion.credit > 0
+      ? 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200'
+      : 'bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className={`flex flex-wrap items-start justify-between gap-2 p-3 rounded-lg text-sm ${tone}`}>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium">
+          Suggested: {suggestion.marks_awarded} / {maxMarks}
+        </p>
+        <p>{suggestion.explanation}</p>
+      </div>
+      {onApply && (
+        <Button size="sm" variant="outline" onClick={() => onApply(suggestion.marks_awarded)}>
+          Use Suggestion
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GradeSuggestionNote;
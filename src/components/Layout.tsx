@@ -3,6 +3,8 @@ import { Outlet, useNavigate, useLocation, Link } from 'react-router-dom';
 import { useQuery } from 'react-query';
 import apiService from '../services/api';
 import type { User } from '../services/api';
+import SyncPanel from './SyncPanel';
+import { useOfflineQueue } from '../hooks/useOfflineQueue';
 
 interface LayoutProps {
   children?: React.ReactNode;
@@ -28,6 +30,8 @@ const Layout: React.FC<LayoutProps> = ({ showNavbar = true, user }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [syncPanelOpen, setSyncPanelOpen] = useState(false);
+  const offlineQueue = useOfflineQueue();
   const [openMenus, setOpenMenus] = useState<Record<string, boolean>>({
     'administration': false,
     'exam-management': true,
@@ -521,6 +525,35 @@ const Layout: React.FC<LayoutProps> = ({ showNavbar = true, user }) => {
           )}
         </nav>
 
+        {/* Sync Status */}
+        {displayUser && (
+          <div className="border-t border-gray-200 dark:border-gray-800 px-4 py-3">
+            <button
+              onClick={() => {
+                setSyncPanelOpen(true);
+                setSidebarOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              <svg className={`w-5 h-5 ${offlineQueue.isProcessing ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              <span className="flex-1 text-left">Sync Status</span>
+              {offlineQueue.deadLetters.length > 0 ? (
+                <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+                  {offlineQueue.deadLetters.length} failed
+                </span>
+              ) : offlineQueue.queue.length > 0 ? (
+                <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                  {offlineQueue.queue.length} pending
+                </span>
+              ) : (
+                <span className={`w-2 h-2 rounded-full ${offlineQueue.isOnline ? 'bg-green-500' : 'bg-yellow-500'}`}></span>
+              )}
+            </button>
+          </div>
+        )}
+
         {/* User Menu */}
         <div className="border-t border-gray-200 dark:border-gray-800 p-4">
           {displayUser ? (
@@ -602,6 +635,22 @@ const Layout: React.FC<LayoutProps> = ({ showNavbar = true, user }) => {
           <Outlet />
         </main>
       </div>
+
+      <SyncPanel
+        isOpen={syncPanelOpen}
+        onClose={() => setSyncPanelOpen(false)}
+        queue={offlineQueue.queue}
+        deadLetters={offlineQueue.deadLetters}
+        isOnline={offlineQueue.isOnline}
+        isProcessing={offlineQueue.isProcessing}
+        lastResult={offlineQueue.lastResult}
+        lastProcessedAt={offlineQueue.lastProcessedAt}
+        onProcessNow={offlineQueue.processNow}
+        onRetry={offlineQueue.retryRequest}
+        onDiscard={offlineQueue.discardRequest}
+        onRetryDeadLetter={offlineQueue.retryDeadLetterRequest}
+        onDiscardDeadLetter={offlineQueue.discardDeadLetterRequest}
+      />
     </div>
   );
 };
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import Modal from './Modal';
+import Button from './Button';
+import type { MonitoredAttempt } from '../utils/attemptMonitor';
+import type { MessageDraft } from '../hooks/useTeacherMessages';
+
+interface MessageComposerProps {
+  onClose: () => void;
+  attempts: MonitoredAttempt[];
+  initialAttemptId?: number | null; // preselect a private message to this attempt
+  isConnected: boolean;
+  onSend: (draft: MessageDraft) => Promise<unknown>;
+}
+
+const fieldClass = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white';
+
+// Mounted when opened, so each opening starts from a fresh draft
+const MessageComposer: React.FC<MessageComposerProps> = ({
+  onClose,
+  attempts,
+  initialAttemptId,
+  isConnected,
+  onSend,
+}) => {
+  const active = attempts.filter(attempt => attempt.status === 'in_progress' && attempt.monthly_exam_id);
+  const exams = Array.from(
+    new Map(active.map(attempt => [attempt.monthly_exam_id!, attempt.exam_title])).entries()
+  );
+
+  const [target, setTarget] = useState(() => {
+    if (initialAttemptId) return `attempt:${initialAttemptId}`;
+    return exams.length > 0 ? `exam:${exams[0][0]}` : '';
+  });
+  const [body, setBody] = useState('');
+  const [priority, setPriority] = useState<MessageDraft['priority']>(initialAttemptId ? 'warning' : 'info');
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    const [scope, id] = target.split(':');
+    const targetId = Number(id);
+
+    if (!body.trim()) {
+      setError('Write a message first');
+      return;
+    }
+
+    let draft: MessageDraft;
+    if (scope === 'attempt') {
+      const attempt = active.find(row => row.attempt_id === targetId);
+      if (!attempt) {
+        setError('That attempt is no longer in progress');
+        return;
+      }
+      draft = { scope: 'attempt', monthly_exam_id: attempt.monthly_exam_id!, attempt_id: targetId, body: body.trim(), priority };
+    } else if (scope === 'exam') {
+      draft = { scope: 'exam', monthly_exam_id: targetId, body: body.trim(), priority };
+    } else {
+      setError('Choose who should receive the message');
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await onSend(draft);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the message');
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title="Message Students"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={!isConnected || !target} loading={isSending}>
+            Send
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        {!isConnected && (
+          <p className="p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-200">
+            Messages can only be sent while connected to the monitoring server.
+          </p>
+        )}
+
+        <div>
+          <label htmlFor="message-target" className="block font-medium text-gray-900 dark:text-white mb-1">
+            To
+          </label>
+          <select
+            id="message-target"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className={fieldClass}
+          >
+            {exams.length === 0 && <option value="">No exams in progress</option>}
+            {exams.length > 0 && (
+              <optgroup label="Everyone taking">
+                {exams.map(([examId, title]) => (
+                  <option key={`exam:${examId}`} value={`exam:${examId}`}>
+                    {title || `Exam #${examId}`}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {active.length > 0 && (
+              <optgroup label="Only">
+                {active.map(attempt => (
+                  <option key={`attempt:${attempt.attempt_id}`} value={`attempt:${attempt.attempt_id}`}>
+                    {attempt.student_name || `Student #${attempt.student_id ?? '?'}`}
+                    {attempt.exam_title ? ` (${attempt.exam_title})` : ''}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="message-body" className="block font-medium text-gray-900 dark:text-white mb-1">
+            Message
+          </label>
+          <textarea
+            id="message-body"
+            rows={4}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="e.g. Question 7 has a typo: the answer should be in metres"
+            className={fieldClass}
+          />
+        </div>
+
+        <div className="flex gap-4">
+          {(['info', 'warning'] as const).map(level => (
+            <label key={level} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="message-priority"
+                checked={priority === level}
+                onChange={() => setPriority(level)}
+              />
+              {level === 'info' ? 'Announcement' : 'Warning'}
+            </label>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
+
+export default MessageComposer;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Button from './Button';
+import type { ReceivedMessage } from '../hooks/useExamMessages';
+
+interface MessageTrayProps {
+  messages: ReceivedMessage[];
+  unreadCount: number;
+  onAcknowledge: (messageId: string) => void;
+}
+
+const priorityStyles: Record<ReceivedMessage['priority'], string> = {
+  info: 'border-blue-400 bg-blue-50 dark:bg-blue-900/20',
+  warning: 'border-red-500 bg-red-50 dark:bg-red-900/20',
+};
+
+const MessageTray: React.FC<MessageTrayProps> = ({ messages, unreadCount, onAcknowledge }) => {
+  const [isOpen, setIsOpen] = useState(unreadCount > 0);
+  const previousUnread = useRef(unreadCount);
+
+  // Open the tray whenever a new message arrives
+  useEffect(() => {
+    if (unreadCount > previousUnread.current) {
+      setIsOpen(true);
+    }
+    previousUnread.current = unreadCount;
+  }, [unreadCount]);
+
+  if (messages.length === 0) return null;
+
+  const sorted = [...messages].sort((a, b) => Date.parse(b.sent_at) - Date.parse(a.sent_at));
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col items-end gap-2">
+      {isOpen && (
+        <div className="w-80 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="font-bold text-gray-900 dark:text-white">Messages from your teacher</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              aria-label="Close messages"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="p-3 space-y-3">
+            {sorted.map(message => (
+              <div
+                key={message.message_id}
+                className={`p-3 rounded-lg border-l-4 ${priorityStyles[message.priority]}`}
+              >
+                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  <span>
+                    {message.scope === 'attempt' ? 'Private' : 'Announcement'}
+                    {message.sender_name && ` · ${message.sender_name}`}
+                  </span>
+                  <span>{new Date(message.sent_at).toLocaleTimeString()}</span>
+                </div>
+                <p className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap mb-2">
+                  {message.body}
+                </p>
+                {message.acknowledged_at ? (
+                  <p className="text-xs text-green-600 dark:text-green-400">
+                    ✓ Acknowledged at {new Date(message.acknowledged_at).toLocaleTimeString()}
+                  </p>
+                ) : (
+                  <Button size="sm" onClick={() => onAcknowledge(message.message_id)}>
+                    Got it
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="relative px-4 py-2 rounded-full shadow-lg bg-primary text-white font-medium"
+      >
+        Messages
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-[1.5rem] h-6 px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+    </div>
+  );
+};
+
+export default MessageTray;
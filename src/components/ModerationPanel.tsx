@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import Card from './Card';
+import Button from './Button';
+import { validateMarks } from '../utils/gradingQueue';
+import type { ModerationTask } from '../utils/gradingQueue';
+import type { AnswerMark } from '../services/api';
+import type { GradeInput } from '../hooks/useGradingQueue';
+
+interface ModerationPanelProps {
+  tasks: ModerationTask[];
+  onModerate: (input: GradeInput) => Promise<unknown>;
+}
+
+const MarkerColumn: React.FC<{ title: string; mark: AnswerMark; maxMarks: number }> = ({ title, mark, maxMarks }) => (
+  <div className="flex-1 p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+    <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400">{title}</p>
+    <p className="text-lg font-bold text-gray-900 dark:text-white">
+      {mark.marks} / {maxMarks}
+    </p>
+    {mark.feedback && (
+      <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{mark.feedback}</p>
+    )}
+  </div>
+);
+
+// The moderator sees both marks side by side and sets the final mark
+const ModerationPanel: React.FC<ModerationPanelProps> = ({ tasks, onModerate }) => {
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const handleSave = async (task: ModerationTask) => {
+    const answerId = task.answer.id;
+    const marks = parseFloat(drafts[answerId] ?? '');
+    const invalid = validateMarks(marks, task.max_marks);
+    if (invalid) {
+      setErrors(prev => ({ ...prev, [answerId]: invalid }));
+      return;
+    }
+
+    setSavingId(answerId);
+    setErrors(prev => ({ ...prev, [answerId]: '' }));
+    try {
+      await onModerate({ task, marks });
+    } catch (err) {
+      const message = (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      setErrors(prev => ({ ...prev, [answerId]: message || 'Failed to save the final mark' }));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <div className="mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Moderation</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          The two markers disagreed on these answers. Your mark is final.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {tasks.map(task => {
+          const answerId = task.answer.id;
+
+          return (
+            <div key={answerId} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <div className="flex flex-wrap justify-between gap-2 mb-2">
+                <h3 className="font-bold text-gray-900 dark:text-white">{task.student_name}</h3>
+                <span className="text-sm text-gray-600 dark:text-gray-400">{task.exam_title}</span>
+              </div>
+              <p className="text-sm text-gray-700 dark:text-gray-300 mb-3">
+                {task.question?.prompt || `Question #${task.answer.question_id}`}
+              </p>
+
+              <div className="mb-3 p-3 bg-white dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
+                {task.answer.uploaded_file ? (
+                  <p className="text-gray-700 dark:text-gray-300 break-all">📎 {task.answer.uploaded_file}</p>
+                ) : (
+                  <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {task.answer.answer_text || 'No response provided'}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3 mb-3">
+                <MarkerColumn title="First marker" mark={task.first_mark} maxMarks={task.max_marks} />
+                <MarkerColumn title="Second marker" mark={task.second_mark} maxMarks={task.max_marks} />
+              </div>
+              <p className="text-sm text-orange-700 dark:text-orange-300 mb-3">
+                Marks differ by {task.difference}
+              </p>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <label htmlFor={`final-${answerId}`} className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Final mark
+                </label>
+                <input
+                  id={`final-${answerId}`}
+                  type="number"
+                  min="0"
+                  max={task.max_marks || undefined}
+                  step="0.5"
+                  value={drafts[answerId] ?? ''}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [answerId]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSave(task);
+                  }}
+                  className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">/ {task.max_marks}</span>
+                <Button
+                  size="sm"
+                  onClick={() => handleSave(task)}
+                  disabled={savingId === answerId || !drafts[answerId]}
+                >
+                  {savingId === answerId ? 'Saving...' : 'Confirm'}
+                </Button>
+              </div>
+              {errors[answerId] && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors[answerId]}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
+
+export default ModerationPanel;
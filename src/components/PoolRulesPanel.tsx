@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import Card from './Card';
+import Button from './Button';
+import type { ExamQuestion, MonthlyExam, PoolRule } from '../services/api';
+import { getPoolCoverage } from '../utils/pools';
+
+interface PoolRulesPanelProps {
+  exam: MonthlyExam;
+  examQuestions: ExamQuestion[];
+  onSave: (rules: PoolRule[]) => void;
+  isSaving?: boolean;
+}
+
+// Draft per pool tag; a blank draw count means the pool isn't drawn from
+type RuleDrafts = Record<string, { draw: string; balance: boolean }>;
+
+const toDrafts = (rules: PoolRule[] = []): RuleDrafts =>
+  Object.fromEntries(rules.map(rule => [rule.pool_tag, { draw: String(rule.draw_count), balance: !!rule.balance_marks }]));
+
+const toRules = (drafts: RuleDrafts): PoolRule[] =>
+  Object.entries(drafts)
+    .filter(([, draft]) => Number(draft.draw) > 0)
+    .map(([pool_tag, draft]) => ({
+      pool_tag,
+      draw_count: Math.floor(Number(draft.draw)),
+      ...(draft.balance && { balance_marks: true }),
+    }));
+
+const inputClasses = 'w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent';
+
+// "Draw N questions from pool X" rules for an exam, with each pool's coverage
+const PoolRulesPanel: React.FC<PoolRulesPanelProps> = ({ exam, examQuestions, onSave, isSaving = false }) => {
+  const [drafts, setDrafts] = useState<RuleDrafts>(() => toDrafts(exam.pool_rules));
+
+  useEffect(() => {
+    setDrafts(toDrafts(exam.pool_rules));
+  }, [exam.pool_rules]);
+
+  const rules = toRules(drafts);
+  const coverage = getPoolCoverage(examQuestions, rules);
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(toRules(toDrafts(exam.pool_rules)));
+
+  const untagged = examQuestions.filter(item => !item.pool_tag?.trim()).length;
+  const perAttempt = untagged + coverage.reduce((total, pool) => total + pool.drawn, 0);
+
+  const updateDraft = (tag: string, changes: Partial<RuleDrafts[string]>) => {
+    setDrafts(prev => ({ ...prev, [tag]: { ...(prev[tag] ?? { draw: '', balance: false }), ...changes } }));
+  };
+
+  if (coverage.length === 0) {
+    return (
+      <Card className="mb-6">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Question Pools</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Give questions a pool tag to draw a random set from the pool for each attempt.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Question Pools</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Each attempt gets {perAttempt} of {examQuestions.length} questions. Leave the draw count blank to use a whole pool.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => onSave(rules)} disabled={!isDirty || isSaving}>
+          {isSaving ? 'Saving...' : 'Save Pool Rules'}
+        </Button>
+      </div>
+
+      {!exam.random_pool && rules.length > 0 && (
+        <p className="mb-4 p-3 rounded-lg text-sm bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+          Random Question Pool is off for this exam, so every question is used. Turn it on in the exam settings to draw from pools.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Pool</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Questions</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Marks</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Draw</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Balance Marks</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Coverage</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {coverage.map(pool => {
+              const draft = drafts[pool.pool_tag];
+
+              return (
+                <tr key={pool.pool_tag}>
+                  <td className="px-4 py-2 font-medium text-gray-900 dark:text-white">{pool.pool_tag}</td>
+                  <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{pool.available}</td>
+                  <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                    {pool.min_marks === pool.max_marks ? pool.min_marks : `${pool.min_marks}–${pool.max_marks}`}
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={draft?.draw ?? ''}
+                      onChange={(e) => updateDraft(pool.pool_tag, { draw: e.target.value })}
+                      className={inputClasses}
+                      aria-label={`Questions to draw from ${pool.pool_tag}`}
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={!!draft?.balance}
+                      disabled={!pool.rule}
+                      onChange={(e) => updateDraft(pool.pool_tag, { balance: e.target.checked })}
+                      className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary disabled:opacity-50"
+                      aria-label={`Balance marks for ${pool.pool_tag}`}
+                    />
+                    {pool.balanced_marks !== undefined && (
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{pool.balanced_marks} each</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    {pool.short ? (
+                      <span className="text-red-600 dark:text-red-400">
+                        Only {pool.available} question{pool.available === 1 ? '' : 's'} for a draw of {pool.rule?.draw_count}
+                      </span>
+                    ) : pool.rule ? (
+                      <span className="text-gray-700 dark:text-gray-300">{pool.drawn} of {pool.available} per attempt</span>
+                    ) : (
+                      <span className="text-gray-500 dark:text-gray-400">All used</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+};
+
+export default PoolRulesPanel;
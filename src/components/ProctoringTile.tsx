@@ -0,0 +1,112 @@
+import React from 'react';
+import type { MonitoredAttempt } from '../utils/attemptMonitor';
+import { formatDuration } from '../utils/proctoringRisk';
+import type { ProctoringSummary, RiskLevel } from '../utils/proctoringRisk';
+import type { AttemptRisk } from '../hooks/useProctoringRisk';
+
+interface ProctoringTileProps {
+  attempt: MonitoredAttempt;
+  summary?: ProctoringSummary;
+  risk: AttemptRisk;
+  onSelect: (attempt: MonitoredAttempt) => void;
+}
+
+const riskStyles: Record<RiskLevel, { badge: string; border: string }> = {
+  low: {
+    badge: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+    border: 'border-transparent',
+  },
+  medium: {
+    badge: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200',
+    border: 'border-yellow-400',
+  },
+  high: {
+    badge: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200',
+    border: 'border-red-500',
+  },
+};
+
+const ProctoringTile: React.FC<ProctoringTileProps> = ({ attempt, summary, risk, onSelect }) => {
+  const styles = riskStyles[risk.level];
+  const isHidden = !!summary?.hidden_since && attempt.status === 'in_progress';
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(attempt)}
+      className={`text-left bg-white dark:bg-gray-800 rounded-lg shadow-md hover:shadow-lg transition-shadow overflow-hidden border-2 ${styles.border}`}
+    >
+      <div className="relative aspect-video bg-gray-100 dark:bg-gray-700">
+        {summary?.latest_snapshot ? (
+          <img
+            src={summary.latest_snapshot.image}
+            alt={`Latest snapshot of ${attempt.student_name || 'student'}`}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            No snapshot yet
+          </div>
+        )}
+        <span className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs font-bold ${styles.badge}`}>
+          Risk {risk.score}
+        </span>
+        {isHidden && (
+          <span className="absolute top-2 left-2 px-2 py-1 rounded-full text-xs font-medium bg-red-600 text-white">
+            Away from exam
+          </span>
+        )}
+        {summary?.latest_snapshot && (
+          <span className="absolute bottom-2 left-2 px-2 py-0.5 rounded text-xs bg-black/60 text-white">
+            {new Date(summary.latest_snapshot.captured_at).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+
+      <div className="p-3">
+        <h3 className="font-bold text-gray-900 dark:text-white truncate">
+          {attempt.student_name || `Student #${attempt.student_id ?? '?'}`}
+        </h3>
+        <p className="text-sm text-primary truncate mb-2">
+          {attempt.exam_title || `Exam #${attempt.monthly_exam_id ?? '?'}`}
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 text-center text-xs">
+          <div>
+            <p className="font-bold text-gray-900 dark:text-white">{summary?.tab_switches ?? 0}</p>
+            <p className="text-gray-500 dark:text-gray-400">Tab switches</p>
+          </div>
+          <div>
+            <p className="font-bold text-gray-900 dark:text-white">{formatDuration(risk.hiddenMs)}</p>
+            <p className="text-gray-500 dark:text-gray-400">Time hidden</p>
+          </div>
+          <div>
+            <p className="font-bold text-gray-900 dark:text-white">
+              {attempt.answered_count !== undefined
+                ? `${attempt.answered_count}${attempt.total_questions ? `/${attempt.total_questions}` : ''}`
+                : '—'}
+            </p>
+            <p className="text-gray-500 dark:text-gray-400">Answered</p>
+          </div>
+        </div>
+
+        {(summary?.multiple_tabs || summary?.camera_denied) && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {!!summary?.multiple_tabs && (
+              <span className="px-2 py-0.5 rounded text-xs bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+                {summary.multiple_tabs} extra tab{summary.multiple_tabs === 1 ? '' : 's'}
+              </span>
+            )}
+            {summary?.camera_denied && (
+              <span className="px-2 py-0.5 rounded text-xs bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">
+                Camera refused
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </button>
+  );
+};
+
+export default ProctoringTile;
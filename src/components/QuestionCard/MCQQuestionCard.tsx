@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import type { Question, Choice } from '../../services/api';
+import { allowsMultipleChoices } from '../../utils/examAnswers';
 
 interface MCQQuestionCardProps {
   question: Question;
-  selectedChoice?: string;
-  onChoiceSelect: (choiceId: string) => void;
+  selectedChoice?: string | string[]; // several ids on questions with more than one correct choice
+  onChoiceSelect: (choice: string | string[]) => void;
   isReviewMode?: boolean;
   showExplanation?: boolean;
+  showCorrectAnswer?: boolean;
 }
 
 const MCQQuestionCard: React.FC<MCQQuestionCardProps> = ({ 
@@ -14,32 +16,46 @@ const MCQQuestionCard: React.FC<MCQQuestionCardProps> = ({
   selectedChoice, 
   onChoiceSelect,
   isReviewMode = false,
-  showExplanation = false
+  showExplanation = false,
+  showCorrectAnswer = true
 }) => {
-  const [selected, setSelected] = useState<string | undefined>(selectedChoice);
+  const [selected, setSelected] = useState<string | string[] | undefined>(selectedChoice);
+  const picks = Array.isArray(selected) ? selected : selected !== undefined ? [selected] : [];
+  // Checkboxes when more than one choice is correct, and the card reports every pick
+  const isMultiple = allowsMultipleChoices(question);
 
   const handleChoiceSelect = (choiceId: string) => {
     if (isReviewMode) return;
     
+    if (isMultiple) {
+      const next = picks.includes(choiceId) ? picks.filter(id => id !== choiceId) : [...picks, choiceId];
+      setSelected(next);
+      onChoiceSelect(next);
+      return;
+    }
     setSelected(choiceId);
     onChoiceSelect(choiceId);
   };
 
-  // Find the correct choice for review mode
-  const correctChoice = question.choices?.find(choice => choice.is_correct);
+  // Correct choices for review mode; none are marked when the answer key is hidden
+  const correctChoices = question.choices?.filter(choice => choice.is_correct) ?? [];
 
   return (
     <div className="space-y-4">
       <div className="text-lg font-medium text-gray-900 dark:text-white">
         {question.prompt}
       </div>
+      {isMultiple && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">Select all that apply.</p>
+      )}
       
       <div className="space-y-3">
         {question.choices?.map((choice) => {
-          const isSelected = selected === choice.id;
+          const isSelected = picks.includes(String(choice.id));
           const isCorrect = choice.is_correct;
-          const showCorrect = isReviewMode && isCorrect;
-          const showIncorrect = isReviewMode && isSelected && !isCorrect;
+          const showCorrect = isReviewMode && isCorrect === true && (showCorrectAnswer || isSelected);
+          const showIncorrect = isReviewMode && isSelected && isCorrect === false;
+          const showPick = isReviewMode && isSelected && isCorrect === undefined;
           
           let choiceClasses = "flex items-center gap-4 p-4 rounded-lg border-2 cursor-pointer transition-all duration-200 ";
           
@@ -48,6 +64,8 @@ const MCQQuestionCard: React.FC<MCQQuestionCardProps> = ({
               choiceClasses += "border-green-500 bg-green-50 dark:bg-green-900/20";
             } else if (showIncorrect) {
               choiceClasses += "border-red-500 bg-red-50 dark:bg-red-900/20";
+            } else if (showPick) {
+              choiceClasses += "border-primary bg-primary/10 dark:bg-primary/20";
             } else {
               choiceClasses += "border-gray-200 dark:border-gray-700";
             }
@@ -63,12 +81,12 @@ const MCQQuestionCard: React.FC<MCQQuestionCardProps> = ({
               className={choiceClasses}
             >
               <input 
-                type="radio"
+                type={isMultiple ? 'checkbox' : 'radio'}
                 name={`question-${question.id}`}
                 checked={isSelected}
-                onChange={() => handleChoiceSelect(choice.id)}
+                onChange={() => handleChoiceSelect(String(choice.id))}
                 disabled={isReviewMode}
-                className="appearance-none size-6 rounded-full border-2 border-gray-300 dark:border-gray-600 checked:bg-primary checked:border-primary focus:ring-primary/50 focus:ring-2 focus:ring-offset-2 focus:ring-offset-background-light dark:focus:ring-offset-background-dark transition-all"
+                className={`appearance-none size-6 ${isMultiple ? 'rounded' : 'rounded-full'} border-2 border-gray-300 dark:border-gray-600 checked:bg-primary checked:border-primary focus:ring-primary/50 focus:ring-2 focus:ring-offset-2 focus:ring-offset-background-light dark:focus:ring-offset-background-dark transition-all`}
               />
               <span className="text-base font-medium text-gray-800 dark:text-gray-200">
                 {choice.choice_text}
@@ -79,6 +97,9 @@ const MCQQuestionCard: React.FC<MCQQuestionCardProps> = ({
               {showIncorrect && (
                 <span className="ml-auto text-red-500 font-bold">✗ Your answer</span>
               )}
+              {showPick && (
+                <span className="ml-auto text-primary font-bold">Your answer</span>
+              )}
             </label>
           );
         })}
@@ -91,9 +112,9 @@ const MCQQuestionCard: React.FC<MCQQuestionCardProps> = ({
         </div>
       )}
       
-      {isReviewMode && correctChoice && (
+      {isReviewMode && showCorrectAnswer && correctChoices.length > 0 && (
         <div className="mt-4 text-sm text-green-600 dark:text-green-400">
-          <span className="font-bold">Correct answer:</span> {correctChoice.choice_text}
+          <span className="font-bold">Correct answer{correctChoices.length > 1 ? 's' : ''}:</span> {correctChoices.map(choice => choice.choice_text).join(', ')}
         </div>
       )}
     </div>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { Question } from '../../services/api';
+import { getAnswerSpec, gradeWithSpec } from '../../utils/autoGrading';
 
 interface NumericQuestionCardProps {
   question: Question;
@@ -7,6 +8,7 @@ interface NumericQuestionCardProps {
   onValueChange: (value: number) => void;
   isReviewMode?: boolean;
   showExplanation?: boolean;
+  showCorrectAnswer?: boolean;
 }
 
 const NumericQuestionCard: React.FC<NumericQuestionCardProps> = ({ 
@@ -14,7 +16,8 @@ const NumericQuestionCard: React.FC<NumericQuestionCardProps> = ({
   selectedValue, 
   onValueChange,
   isReviewMode = false,
-  showExplanation = false
+  showExplanation = false,
+  showCorrectAnswer = true
 }) => {
   const [value, setValue] = useState<string>(selectedValue?.toString() || '');
 
@@ -44,10 +47,13 @@ const NumericQuestionCard: React.FC<NumericQuestionCardProps> = ({
   };
 
   // For review mode, we need to determine the correct answer
-  const correctAnswer = question.metadata?.correct_answer;
+  const spec = getAnswerSpec('numeric', question.metadata);
+  const correctAnswer = spec?.type === 'numeric' ? spec.value : undefined;
   const userAnswer = value ? parseFloat(value) : undefined;
-  const showCorrect = isReviewMode && userAnswer !== undefined && userAnswer === correctAnswer;
-  const showIncorrect = isReviewMode && userAnswer !== undefined && userAnswer !== correctAnswer;
+  // Tolerances and partial credit follow the same rules the grader uses
+  const result = isReviewMode && spec && userAnswer !== undefined ? gradeWithSpec(value, spec, question.default_marks) : null;
+  const showCorrect = !!result?.correct;
+  const showIncorrect = !!result && !result.correct;
 
   return (
     <div className="space-y-6">
@@ -94,7 +100,7 @@ const NumericQuestionCard: React.FC<NumericQuestionCardProps> = ({
         </div>
       )}
       
-      {isReviewMode && correctAnswer !== undefined && (
+      {isReviewMode && showCorrectAnswer && correctAnswer !== undefined && (
         <div className="mt-4 text-sm">
           <span className="font-bold">Correct answer:</span> {correctAnswer}
         </div>
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import { usePageScanner } from '../../hooks/usePageScanner';
+
+interface PageScannerProps {
+  questionId: number | string;
+  disabled?: boolean;
+  onSubmit: (file: File) => Promise<boolean>; // resolves true once the upload has started
+}
+
+const formatMb = (bytes: number) => (bytes / 1024 / 1024).toFixed(2);
+
+const iconButtonClass = 'p-1 rounded bg-white/90 dark:bg-gray-900/90 text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-900 disabled:opacity-40';
+
+const PageScanner: React.FC<PageScannerProps> = ({ questionId, disabled = false, onSubmit }) => {
+  const scanner = usePageScanner();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const galleryInputRef = useRef<HTMLInputElement>(null);
+
+  const busy = disabled || scanner.isProcessing || isSubmitting;
+
+  const handleImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      scanner.addImages(Array.from(files));
+    }
+    e.target.value = '';
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const pdf = await scanner.buildDocument(`question-${questionId}-answer.pdf`);
+      if (await onSubmit(pdf)) {
+        scanner.clear();
+      }
+    } catch (err) {
+      console.error('Failed to assemble PDF:', err);
+      setSubmitError('Could not create the PDF. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const error = submitError || scanner.error;
+
+  return (
+    <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">Photograph paper pages</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Pages are straightened, compressed and combined into one PDF before upload.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => cameraInputRef.current?.click()}
+            disabled={busy}
+            className="px-3 py-2 text-sm rounded-lg bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+          >
+            Take photo
+          </button>
+          <button
+            type="button"
+            onClick={() => galleryInputRef.current?.click()}
+            disabled={busy}
+            className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Add images
+          </button>
+        </div>
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={handleImages}
+        />
+        <input
+          ref={galleryInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={handleImages}
+        />
+      </div>
+
+      {scanner.pages.length > 0 && (
+        <>
+          <ol className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {scanner.pages.map((page, index) => (
+              <li
+                key={page.id}
+                className="relative rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 bg-gray-100 dark:bg-gray-800"
+              >
+                <img
+                  src={page.previewUrl}
+                  alt={`Page ${index + 1}`}
+                  className="w-full h-40 object-contain"
+                />
+                <span className="absolute top-1 left-1 px-2 py-0.5 rounded bg-black/60 text-white text-xs">
+                  {index + 1}
+                </span>
+                <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                  <div className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => scanner.movePage(page.id, -1)}
+                      disabled={busy || index === 0}
+                      className={iconButtonClass}
+                      aria-label={`Move page ${index + 1} earlier`}
+                    >
+                      ←
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => scanner.movePage(page.id, 1)}
+                      disabled={busy || index === scanner.pages.length - 1}
+                      className={iconButtonClass}
+                      aria-label={`Move page ${index + 1} later`}
+                    >
+                      →
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => scanner.rotatePage(page.id)}
+                      disabled={busy}
+                      className={iconButtonClass}
+                      aria-label={`Rotate page ${index + 1}`}
+                    >
+                      ↻
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => scanner.removePage(page.id)}
+                      disabled={busy}
+                      className={`${iconButtonClass} text-red-600 dark:text-red-400`}
+                      aria-label={`Remove page ${index + 1}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {scanner.pages.length} page{scanner.pages.length === 1 ? '' : 's'} · {formatMb(scanner.compressedBytes)} MB
+              {' '}(from {formatMb(scanner.originalBytes)} MB)
+              {scanner.isProcessing && ' · Processing...'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={scanner.clear}
+                disabled={busy}
+                className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+              >
+                Discard pages
+              </button>
+              <button
+                type="button"
+                onClick={handleSubmit}
+                disabled={busy}
+                className="px-3 py-2 text-sm rounded-lg bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Creating PDF...' : 'Create PDF and upload'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {scanner.pages.length === 0 && scanner.isProcessing && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Processing...</p>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default PageScanner;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { Question } from '../../services/api';
+import { getAnswerSpec, gradeWithSpec } from '../../utils/autoGrading';
 
 interface ShortQuestionCardProps {
   question: Question;
@@ -7,6 +8,7 @@ interface ShortQuestionCardProps {
   onValueChange: (value: string) => void;
   isReviewMode?: boolean;
   showExplanation?: boolean;
+  showCorrectAnswer?: boolean;
 }
 
 const ShortQuestionCard: React.FC<ShortQuestionCardProps> = ({ 
@@ -14,7 +16,8 @@ const ShortQuestionCard: React.FC<ShortQuestionCardProps> = ({
   selectedValue, 
   onValueChange,
   isReviewMode = false,
-  showExplanation = false
+  showExplanation = false,
+  showCorrectAnswer = true
 }) => {
   const [value, setValue] = useState<string>(selectedValue || '');
 
@@ -32,10 +35,12 @@ const ShortQuestionCard: React.FC<ShortQuestionCardProps> = ({
     onValueChange(inputValue);
   };
 
-  // For review mode, we need to determine the correct answer
-  const correctAnswer = question.metadata?.correct_answer;
-  const showCorrect = isReviewMode && correctAnswer && value.toLowerCase().trim() === correctAnswer.toLowerCase().trim();
-  const showIncorrect = isReviewMode && correctAnswer && value.toLowerCase().trim() !== correctAnswer.toLowerCase().trim();
+  // For review mode, mark the answer with the same rules the grader uses
+  const spec = getAnswerSpec('short', question.metadata);
+  const correctAnswer = spec?.type === 'short' ? spec.accepted[0] : undefined;
+  const result = isReviewMode && spec ? gradeWithSpec(value, spec, question.default_marks) : null;
+  const showCorrect = !!result?.correct;
+  const showIncorrect = !!result && !result.correct;
 
   return (
     <div className="space-y-6">
@@ -82,7 +87,7 @@ const ShortQuestionCard: React.FC<ShortQuestionCardProps> = ({
         </div>
       )}
       
-      {isReviewMode && correctAnswer && (
+      {isReviewMode && showCorrectAnswer && correctAnswer && (
         <div className="mt-4 text-sm">
           <span className="font-bold">Correct answer:</span> {correctAnswer}
         </div>
@@ -7,6 +7,7 @@ interface TFQuestionCardProps {
   onValueChange: (value: boolean) => void;
   isReviewMode?: boolean;
   showExplanation?: boolean;
+  showCorrectAnswer?: boolean;
 }
 
 const TFQuestionCard: React.FC<TFQuestionCardProps> = ({ 
@@ -14,7 +15,8 @@ const TFQuestionCard: React.FC<TFQuestionCardProps> = ({
   selectedValue, 
   onValueChange,
   isReviewMode = false,
-  showExplanation = false
+  showExplanation = false,
+  showCorrectAnswer = true
 }) => {
   const [selected, setSelected] = useState<boolean | undefined>(selectedValue);
 
@@ -25,11 +27,8 @@ const TFQuestionCard: React.FC<TFQuestionCardProps> = ({
     onValueChange(value);
   };
 
-  // For review mode, we need to determine the correct answer
-  // This would typically come from the backend
-  const correctAnswer = question.metadata?.correct_answer ?? true; // Default to true if not specified
-  const showCorrect = isReviewMode && selected === correctAnswer;
-  const showIncorrect = isReviewMode && selected !== undefined && selected !== correctAnswer;
+  // For review mode; undefined when the answer key is hidden, so the pick is shown without a verdict
+  const correctAnswer: boolean | undefined = question.metadata?.correct_answer;
 
   return (
     <div className="space-y-6">
@@ -46,10 +45,12 @@ const TFQuestionCard: React.FC<TFQuestionCardProps> = ({
             flex-1 p-4 rounded-lg border-2 text-center font-medium transition-all duration-200
             ${isReviewMode ? (
               selected === true ? (
-                selected === correctAnswer 
-                  ? "border-green-500 bg-green-50 dark:bg-green-900/20" 
-                  : "border-red-500 bg-red-50 dark:bg-red-900/20"
-              ) : correctAnswer === true 
+                correctAnswer === undefined
+                  ? "border-primary bg-primary/10 dark:bg-primary/20"
+                  : selected === correctAnswer 
+                    ? "border-green-500 bg-green-50 dark:bg-green-900/20" 
+                    : "border-red-500 bg-red-50 dark:bg-red-900/20"
+              ) : showCorrectAnswer && correctAnswer === true 
                 ? "border-green-500 bg-green-50 dark:bg-green-900/20" 
                 : "border-gray-200 dark:border-gray-700"
             ) : selected === true 
@@ -63,10 +64,13 @@ const TFQuestionCard: React.FC<TFQuestionCardProps> = ({
           {isReviewMode && selected === true && selected === correctAnswer && (
             <span className="block mt-2 text-green-500 font-bold">✓ Correct</span>
           )}
-          {isReviewMode && selected === true && selected !== correctAnswer && (
+          {isReviewMode && selected === true && correctAnswer !== undefined && selected !== correctAnswer && (
             <span className="block mt-2 text-red-500 font-bold">✗ Your answer</span>
           )}
-          {isReviewMode && selected !== true && correctAnswer === true && (
+          {isReviewMode && selected === true && correctAnswer === undefined && (
+            <span className="block mt-2 text-primary font-bold">Your answer</span>
+          )}
+          {isReviewMode && showCorrectAnswer && selected !== true && correctAnswer === true && (
             <span className="block mt-2 text-green-500 font-bold">✓ Correct answer</span>
           )}
         </button>
@@ -79,10 +83,12 @@ const TFQuestionCard: React.FC<TFQuestionCardProps> = ({
             flex-1 p-4 rounded-lg border-2 text-center font-medium transition-all duration-200
             ${isReviewMode ? (
               selected === false ? (
-                selected === correctAnswer 
-                  ? "border-green-500 bg-green-50 dark:bg-green-900/20" 
-                  : "border-red-500 bg-red-50 dark:bg-red-900/20"
-              ) : correctAnswer === false 
+                correctAnswer === undefined
+                  ? "border-primary bg-primary/10 dark:bg-primary/20"
+                  : selected === correctAnswer 
+                    ? "border-green-500 bg-green-50 dark:bg-green-900/20" 
+                    : "border-red-500 bg-red-50 dark:bg-red-900/20"
+              ) : showCorrectAnswer && correctAnswer === false 
                 ? "border-green-500 bg-green-50 dark:bg-green-900/20" 
                 : "border-gray-200 dark:border-gray-700"
             ) : selected === false 
@@ -96,10 +102,13 @@ const TFQuestionCard: React.FC<TFQuestionCardProps> = ({
           {isReviewMode && selected === false && selected === correctAnswer && (
             <span className="block mt-2 text-green-500 font-bold">✓ Correct</span>
           )}
-          {isReviewMode && selected === false && selected !== correctAnswer && (
+          {isReviewMode && selected === false && correctAnswer !== undefined && selected !== correctAnswer && (
             <span className="block mt-2 text-red-500 font-bold">✗ Your answer</span>
           )}
-          {isReviewMode && selected !== false && correctAnswer === false && (
+          {isReviewMode && selected === false && correctAnswer === undefined && (
+            <span className="block mt-2 text-primary font-bold">Your answer</span>
+          )}
+          {isReviewMode && showCorrectAnswer && selected !== false && correctAnswer === false && (
             <span className="block mt-2 text-green-500 font-bold">✓ Correct answer</span>
           )}
         </button>
@@ -112,7 +121,7 @@ const TFQuestionCard: React.FC<TFQuestionCardProps> = ({
         </div>
       )}
       
-      {isReviewMode && (
+      {isReviewMode && showCorrectAnswer && correctAnswer !== undefined && (
         <div className="mt-4 text-sm">
           <span className="font-bold">Correct answer:</span> {correctAnswer ? 'True' : 'False'}
         </div>
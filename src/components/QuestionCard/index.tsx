@@ -9,18 +9,24 @@ import FileQuestionCard from './FileQuestionCard';
 
 interface QuestionCardProps {
   question: Question;
+  attemptId?: number | string;
+  answerId?: number; // saved attempt answer, used to show grader markup in review
   selectedAnswer?: any;
   onAnswerChange: (answer: any) => void;
   isReviewMode?: boolean;
   showExplanation?: boolean;
+  showCorrectAnswer?: boolean; // reveal the answer key in review mode
 }
 
 const QuestionCard: React.FC<QuestionCardProps> = ({ 
   question, 
+  attemptId,
+  answerId,
   selectedAnswer, 
   onAnswerChange,
   isReviewMode = false,
-  showExplanation = false
+  showExplanation = false,
+  showCorrectAnswer = true
 }) => {
   switch (question.type) {
     case 'mcq':
@@ -31,6 +37,7 @@ const QuestionCard: React.FC<QuestionCardProps> = ({
           onChoiceSelect={onAnswerChange}
           isReviewMode={isReviewMode}
           showExplanation={showExplanation}
+          showCorrectAnswer={showCorrectAnswer}
         />
       );
       
@@ -42,6 +49,7 @@ const QuestionCard: React.FC<QuestionCardProps> = ({
           onValueChange={onAnswerChange}
           isReviewMode={isReviewMode}
           showExplanation={showExplanation}
+          showCorrectAnswer={showCorrectAnswer}
         />
       );
       
@@ -53,6 +61,7 @@ const QuestionCard: React.FC<QuestionCardProps> = ({
           onValueChange={onAnswerChange}
           isReviewMode={isReviewMode}
           showExplanation={showExplanation}
+          showCorrectAnswer={showCorrectAnswer}
         />
       );
       
@@ -64,6 +73,7 @@ const QuestionCard: React.FC<QuestionCardProps> = ({
           onValueChange={onAnswerChange}
           isReviewMode={isReviewMode}
           showExplanation={showExplanation}
+          showCorrectAnswer={showCorrectAnswer}
         />
       );
       
@@ -82,6 +92,8 @@ const QuestionCard: React.FC<QuestionCardProps> = ({
       return (
         <FileQuestionCard
           question={question}
+          attemptId={attemptId}
+          answerId={answerId}
           selectedValue={selectedAnswer}
           onValueChange={onAnswerChange}
           isReviewMode={isReviewMode}
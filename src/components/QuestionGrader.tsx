@@ -0,0 +1,372 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Card from './Card';
+import Button from './Button';
+import GradeSuggestionNote from './GradeSuggestionNote';
+import { getRubric, computeRubricMarks, isRubricComplete, selectLevel } from '../utils/rubric';
+import type { RubricScore } from '../utils/rubric';
+import { validateMarks } from '../utils/gradingQueue';
+import type { QuestionGroup, GradingTask } from '../utils/gradingQueue';
+import type { GradeInput } from '../hooks/useGradingQueue';
+
+interface QuestionGraderProps {
+  examTitle: string;
+  group: QuestionGroup;
+  onGrade: (input: GradeInput) => Promise<unknown>;
+  onClose: () => void;
+}
+
+interface Draft {
+  scores: RubricScore[];
+  marks: string; // typed marks when the question has no rubric
+  feedback: string;
+}
+
+const emptyDraft: Draft = { scores: [], marks: '', feedback: '' };
+
+const shortcuts: Array<[string, string]> = [
+  ['1–9', 'Choose a level for the highlighted criterion'],
+  ['↑ ↓', 'Highlight another criterion'],
+  ['Enter', 'Save and go to the next answer'],
+  ['→ / J', 'Next answer'],
+  ['← / K', 'Previous answer'],
+  ['F', 'Write feedback (Ctrl+Enter saves)'],
+  ['Esc', 'Back to the queue'],
+];
+
+// Grading order must not follow names or submission times, so answers are shown by id
+const anonymousOrder = (tasks: GradingTask[]) => [...tasks].sort((a, b) => a.answer.id - b.answer.id);
+
+// Mounted per question, so the answer list stays stable while graded answers leave the queue
+const QuestionGrader: React.FC<QuestionGraderProps> = ({ examTitle, group, onGrade, onClose }) => {
+  const [tasks] = useState(() => anonymousOrder(group.tasks));
+  const [index, setIndex] = useState(0);
+  const [activeCriterion, setActiveCriterion] = useState(0);
+  const [drafts, setDrafts] = useState<Record<number, Draft>>({});
+  const [graded, setGraded] = useState<Record<number, number>>({}); // answer id -> marks saved
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const feedbackRef = useRef<HTMLTextAreaElement>(null);
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => undefined);
+
+  const rubric = getRubric(group.question?.metadata);
+  const task = tasks[index];
+  const draft = (task && drafts[task.answer.id]) || emptyDraft;
+  const gradedCount = Object.keys(graded).length;
+  const isDone = gradedCount === tasks.length;
+
+  const marks = rubric ? computeRubricMarks(rubric, draft.scores, group.max_marks) : parseFloat(draft.marks);
+
+  const updateDraft = (changes: Partial<Draft>) => {
+    if (!task) return;
+    setDrafts(prev => ({ ...prev, [task.answer.id]: { ...draft, ...changes } }));
+    setError(null);
+  };
+
+  const goTo = (next: number) => {
+    if (next < 0 || next >= tasks.length) return;
+    setIndex(next);
+    setActiveCriterion(0);
+    setError(null);
+  };
+
+  const chooseLevel = (criterionIndex: number, levelIndex: number) => {
+    if (!rubric) return;
+    const criterion = rubric.criteria[criterionIndex];
+    updateDraft({ scores: selectLevel(draft.scores, criterion, levelIndex) });
+    setActiveCriterion(Math.min(criterionIndex + 1, rubric.criteria.length - 1));
+  };
+
+  const saveAndNext = async () => {
+    if (!task || isSaving) return;
+
+    if (rubric && !isRubricComplete(rubric, draft.scores)) {
+      setError('Choose a level for every criterion first');
+      return;
+    }
+    const invalid = validateMarks(marks, group.max_marks);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onGrade({
+        task,
+        marks,
+        rubric_scores: rubric ? draft.scores : undefined,
+        feedback: draft.feedback.trim(),
+      });
+
+      const nextGraded = { ...graded, [task.answer.id]: marks };
+      setGraded(nextGraded);
+
+      // Continue with the next answer that still needs marks, wrapping around
+      const remaining = tasks.findIndex((item, i) => i > index && nextGraded[item.answer.id] === undefined);
+      const wrapped = remaining >= 0 ? remaining : tasks.findIndex(item => nextGraded[item.answer.id] === undefined);
+      if (wrapped >= 0) goTo(wrapped);
+    } catch (err) {
+      const message = (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      setError(message || 'Failed to save marks');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleKey = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    const isTyping = target?.tagName === 'TEXTAREA' || target?.tagName === 'INPUT';
+
+    if (isTyping) {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        saveAndNext();
+      } else if (e.key === 'Escape') {
+        target?.blur();
+      }
+      return;
+    }
+
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    if (rubric && /^[1-9]$/.test(e.key)) {
+      const levelIndex = Number(e.key) - 1;
+      if (levelIndex < rubric.criteria[activeCriterion].levels.length) {
+        e.preventDefault();
+        chooseLevel(activeCriterion, levelIndex);
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        if (rubric) {
+          e.preventDefault();
+          setActiveCriterion(prev => Math.min(prev + 1, rubric.criteria.length - 1));
+        }
+        break;
+      case 'ArrowUp':
+        if (rubric) {
+          e.preventDefault();
+          setActiveCriterion(prev => Math.max(prev - 1, 0));
+        }
+        break;
+      case 'ArrowRight':
+      case 'j':
+        goTo(index + 1);
+        break;
+      case 'ArrowLeft':
+      case 'k':
+        goTo(index - 1);
+        break;
+      case 'Enter':
+        e.preventDefault();
+        saveAndNext();
+        break;
+      case 'f':
+        e.preventDefault();
+        feedbackRef.current?.focus();
+        break;
+      case 'Escape':
+        onClose();
+        break;
+    }
+  };
+
+  // The listener is registered once and always calls the latest handler
+  useEffect(() => {
+    keyHandlerRef.current = handleKey;
+  });
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <Card className="max-w-6xl w-full max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-start gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Grade by Question
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              {examTitle} · {gradedCount}/{tasks.length} graded
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            aria-label="Close grading"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg mb-6">
+          <h3 className="font-bold text-gray-900 dark:text-white mb-2">Question Prompt</h3>
+          <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+            {group.question?.prompt || `Question #${group.question_id}`}
+          </p>
+        </div>
+
+        {isDone ? (
+          <div className="text-center py-8">
+            <div className="text-5xl mb-4">✅</div>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              All {tasks.length} answers to this question are graded.
+            </p>
+            <Button onClick={onClose}>Back to Queue</Button>
+          </div>
+        ) : task && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Anonymised answer */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-bold text-gray-900 dark:text-white">
+                  Response {index + 1} of {tasks.length}
+                </h3>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => goTo(index - 1)} disabled={index === 0}>
+                    Previous
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => goTo(index + 1)} disabled={index === tasks.length - 1}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+
+              {graded[task.answer.id] !== undefined && (
+                <p className="mb-3 p-2 rounded bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">
+                  Saved with {graded[task.answer.id]} / {group.max_marks} marks. Saving again replaces the mark.
+                </p>
+              )}
+
+              <div className="p-4 bg-white dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600 min-h-[12rem]">
+                <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                  {task.answer.answer_text || task.answer.uploaded_file || 'No response provided'}
+                </p>
+              </div>
+
+              {task.suggestion && (
+                <div className="mt-3">
+                  <GradeSuggestionNote
+                    suggestion={task.suggestion}
+                    maxMarks={group.max_marks}
+                    onApply={rubric ? undefined : (suggested) => updateDraft({ marks: String(suggested) })}
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Rubric and marks */}
+            <div className="space-y-4">
+              {rubric ? (
+                <div className="space-y-3">
+                  {rubric.criteria.map((criterion, criterionIndex) => {
+                    const chosen = draft.scores.find(score => score.criterion_id === criterion.id);
+
+                    return (
+                      <div
+                        key={criterion.id}
+                        onClick={() => setActiveCriterion(criterionIndex)}
+                        className={`p-3 rounded-lg border ${criterionIndex === activeCriterion
+                          ? 'border-primary ring-2 ring-primary/30'
+                          : 'border-gray-200 dark:border-gray-700'}`}
+                      >
+                        <p className="font-medium text-gray-900 dark:text-white">{criterion.title}</p>
+                        {criterion.description && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{criterion.description}</p>
+                        )}
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {criterion.levels.map((level, levelIndex) => (
+                            <button
+                              key={levelIndex}
+                              type="button"
+                              onClick={() => chooseLevel(criterionIndex, levelIndex)}
+                              title={level.description}
+                              className={`px-3 py-1 rounded-lg text-sm border ${chosen?.level === level.label
+                                ? 'bg-primary text-white border-primary'
+                                : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                            >
+                              <span className="opacity-60 mr-1">{levelIndex + 1}</span>
+                              {level.label} · {level.points}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="grader-marks" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Marks Awarded
+                  </label>
+                  <input
+                    id="grader-marks"
+                    type="number"
+                    min="0"
+                    max={group.max_marks || undefined}
+                    step="0.5"
+                    value={draft.marks}
+                    onChange={(e) => updateDraft({ marks: e.target.value })}
+                    className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Add a rubric to this question to grade with level clicks.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="grader-feedback" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Feedback
+                </label>
+                <textarea
+                  id="grader-feedback"
+                  ref={feedbackRef}
+                  rows={3}
+                  value={draft.feedback}
+                  onChange={(e) => updateDraft({ feedback: e.target.value })}
+                  placeholder="Optional comment for the student"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-lg font-bold text-gray-900 dark:text-white">
+                  {Number.isFinite(marks) ? marks : '–'} / {group.max_marks}
+                </p>
+                <Button onClick={saveAndNext} disabled={isSaving}>
+                  {isSaving ? 'Saving...' : 'Save & Next'}
+                </Button>
+              </div>
+
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+              <details className="text-sm text-gray-600 dark:text-gray-400">
+                <summary className="cursor-pointer">Keyboard shortcuts</summary>
+                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                  {shortcuts.map(([keys, action]) => (
+                    <React.Fragment key={keys}>
+                      <dt className="font-mono">{keys}</dt>
+                      <dd>{action}</dd>
+                    </React.Fragment>
+                  ))}
+                </dl>
+              </details>
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default QuestionGrader;
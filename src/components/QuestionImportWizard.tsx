@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Button from './Button';
+import Modal from './Modal';
+import ProgressBar from './ProgressBar';
+import useQuestionImport from '../hooks/useQuestionImport';
+import type { Teacher } from '../services/api';
+import { CSV_COLUMNS, CSV_TEMPLATE, detectImportFormat } from '../utils/questionImport';
+import type { ImportFormat, ImportedQuestion } from '../utils/questionImport';
+
+interface QuestionImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bankId: number;
+  teachers: Teacher[];
+}
+
+const formatLabels: Record<ImportFormat, string> = {
+  qti: 'IMS QTI 2.1 (XML)',
+  gift: 'Moodle GIFT',
+  csv: 'CSV',
+};
+
+const typeLabels: Record<string, string> = {
+  mcq: 'Multiple Choice',
+  tf: 'True/False',
+  numeric: 'Numeric',
+  short: 'Short Answer',
+  essay: 'Essay',
+  file: 'File Upload',
+};
+
+// What each CSV column holds, shown next to the template download
+const csvColumnHelp: Record<string, string> = {
+  type: 'mcq, tf, numeric, short, essay or file',
+  prompt: 'The question text (required)',
+  marks: 'Default marks, 1 if left empty',
+  choices: 'Multiple choice options separated by |',
+  correct: 'Right choice letters or numbers (B or 2; A|C for several), or true/false',
+  answer: 'Numeric answer, or accepted short answers separated by |',
+  tolerance: 'How far a numeric answer may be off',
+  explanation: 'Shown to students after marking',
+  difficulty: 'easy, medium or hard',
+  tags: 'Topic tags separated by |',
+};
+
+const inputClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent';
+
+// Short description of the answer key for the preview table
+const describeAnswer = (question: ImportedQuestion): string => {
+  if (question.choices.length > 0) {
+    const correct = question.choices.filter(choice => choice.is_correct).map(choice => choice.choice_text);
+    return `${question.choices.length} choices; ${correct.join(', ') || 'none marked correct'}`;
+  }
+  const answer = question.metadata.correct_answer;
+  if (Array.isArray(answer)) return answer.join(' / ');
+  if (answer !== undefined) {
+    const grading = question.metadata.grading as { tolerance?: number } | undefined;
+    return grading?.tolerance ? `${answer} ± ${grading.tolerance}` : String(answer);
+  }
+  return '—';
+};
+
+const downloadTemplate = () => {
+  const url = URL.createObjectURL(new Blob([CSV_TEMPLATE], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'question-import-template.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Choose a file, check the preview, then create the questions in batches
+const QuestionImportWizard: React.FC<QuestionImportWizardProps> = ({ isOpen, onClose, bankId, teachers }) => {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [authorId, setAuthorId] = useState<number>(0);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { preview, readFile, isReading, importQuestions, isImporting, created, progress, failed, reset } = useQuestionImport(bankId);
+
+  useEffect(() => {
+    if (!authorId && teachers.length > 0) setAuthorId(teachers[0].id);
+  }, [teachers, authorId]);
+
+  const ready = useMemo(
+    () => (preview ?? []).filter(question => question.errors.length === 0 && (includeDuplicates || !question.duplicate)),
+    [preview, includeDuplicates]
+  );
+  const withErrors = (preview ?? []).filter(question => question.errors.length > 0).length;
+  const duplicates = (preview ?? []).filter(question => question.duplicate).length;
+  const isDone = created !== undefined && !isImporting;
+
+  const handleClose = () => {
+    reset();
+    setFile(null);
+    setError(null);
+    setIncludeDuplicates(false);
+    onClose();
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const text = await selected.text();
+    setFile({ name: selected.name, text });
+    setFormat(detectImportFormat(selected.name, text));
+    setError(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file) return;
+    setError(null);
+    try {
+      await readFile({ format, text: file.text });
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    try {
+      await importQuestions({ questions: ready, authorId });
+    } catch (err) {
+      setError((err as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to import questions');
+    }
+  };
+
+  const footer = isDone ? (
+    <div className="flex justify-end">
+      <Button onClick={handleClose}>Done</Button>
+    </div>
+  ) : preview ? (
+    <div className="flex justify-between gap-3">
+      <Button variant="outline" onClick={reset} disabled={isImporting}>
+        Back
+      </Button>
+      <Button onClick={handleImport} disabled={isImporting || ready.length === 0 || !authorId}>
+        {isImporting ? 'Importing...' : `Import ${ready.length} Question${ready.length === 1 ? '' : 's'}`}
+      </Button>
+    </div>
+  ) : (
+    <div className="flex justify-end gap-3">
+      <Button variant="outline" onClick={handleClose}>
+        Cancel
+      </Button>
+      <Button onClick={handlePreview} disabled={!file || isReading}>
+        {isReading ? 'Reading...' : 'Preview'}
+      </Button>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={isImporting ? () => undefined : handleClose} title="Import Questions" size="xl" footer={footer}>
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!preview && (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">File</label>
+            <input
+              type="file"
+              accept=".xml,.gift,.txt,.csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-700 dark:text-gray-300"
+            />
+          </div>
+
+          {file && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Format</label>
+              <select value={format} onChange={(e) => setFormat(e.target.value as ImportFormat)} className={inputClasses}>
+                {(Object.keys(formatLabels) as ImportFormat[]).map(key => (
+                  <option key={key} value={key}>{formatLabels[key]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="p-4 bg-gray-50 dark:bg-gray-800/50 rounded-lg text-sm">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-semibold text-gray-900 dark:text-white">CSV layout</h4>
+              <Button variant="outline" size="sm" onClick={downloadTemplate}>
+                Download Template
+              </Button>
+            </div>
+            <p className="text-gray-600 dark:text-gray-400 mb-2">
+              The first row names the columns, in any order. Only type and prompt are required.
+            </p>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1">
+              {CSV_COLUMNS.map(column => (
+                <React.Fragment key={column}>
+                  <dt className="font-mono text-gray-900 dark:text-white">{column}</dt>
+                  <dd className="text-gray-600 dark:text-gray-400">{csvColumnHelp[column]}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        </div>
+      )}
+
+      {preview && !progress && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="text-gray-900 dark:text-white">{preview.length} found in {file?.name}</span>
+            <span className="text-green-700 dark:text-green-300">{ready.length} ready</span>
+            {withErrors > 0 && <span className="text-red-600 dark:text-red-400">{withErrors} with errors</span>}
+            {duplicates > 0 && <span className="text-yellow-700 dark:text-yellow-300">{duplicates} duplicates</span>}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Author</label>
+              <select value={authorId || ''} onChange={(e) => setAuthorId(Number(e.target.value))} className={inputClasses}>
+                <option value="">Select Teacher</option>
+                {teachers.map(teacher => (
+                  <option key={teacher.id} value={teacher.id}>{teacher.full_name} ({teacher.email})</option>
+                ))}
+              </select>
+            </div>
+            {duplicates > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 sm:self-end sm:pb-2">
+                <input
+                  type="checkbox"
+                  checked={includeDuplicates}
+                  onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                />
+                Import duplicates anyway
+              </label>
+            )}
+          </div>
+
+          <div className="overflow-x-auto max-h-96 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+                <tr className="text-left text-gray-600 dark:text-gray-400">
+                  <th className="px-3 py-2">Row</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Prompt</th>
+                  <th className="px-3 py-2">Marks</th>
+                  <th className="px-3 py-2">Answer</th>
+                  <th className="px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {preview.map((question, index) => (
+                  <tr key={`${question.row}-${index}`} className={question.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/10' : ''}>
+                    <td className="px-3 py-2 text-gray-500 dark:text-gray-400" title={question.source}>{question.row}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-white">{typeLabels[question.type] || question.type}</td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white max-w-xs truncate" title={question.prompt}>{question.prompt || '—'}</td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-white">{question.default_marks}</td>
+                    <td className="px-3 py-2 text-gray-600 dark:text-gray-400 max-w-xs truncate">{describeAnswer(question)}</td>
+                    <td className="px-3 py-2">
+                      {question.errors.length > 0 ? (
+                        <ul className="text-red-600 dark:text-red-400 space-y-0.5">
+                          {question.errors.map(message => <li key={message}>{message}</li>)}
+                        </ul>
+                      ) : question.duplicate ? (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200 whitespace-nowrap">
+                          {question.duplicate === 'bank' ? 'Already in bank' : 'Repeated in file'}
+                        </span>
+                      ) : (
+                        <span className="text-green-700 dark:text-green-300">Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {progress && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700 dark:text-gray-300">
+            {isDone
+              ? `Created ${created} of ${progress.total} question${progress.total === 1 ? '' : 's'}.`
+              : `Creating questions: ${progress.done} of ${progress.total}`}
+          </p>
+          <ProgressBar progress={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} showPercentage />
+
+          {failed.length > 0 && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg text-sm">
+              <p className="font-medium text-red-800 dark:text-red-200 mb-1">Not imported</p>
+              <ul className="text-red-700 dark:text-red-300 space-y-0.5">
+                {failed.map(row => (
+                  <li key={row.row}>Row {row.row}: {row.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default QuestionImportWizard;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import Modal from './Modal';
+import Button from './Button';
+import { DEFAULT_RISK_SETTINGS, MAX_RISK_SCORE } from '../utils/proctoringRisk';
+import type { RiskSettings, RiskWeights } from '../utils/proctoringRisk';
+
+interface RiskSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: RiskSettings;
+  onSave: (settings: RiskSettings) => void;
+}
+
+const weightFields: { key: keyof RiskWeights; label: string; hint: string }[] = [
+  { key: 'tabSwitch', label: 'Tab switch', hint: 'Points each time the student leaves the exam tab' },
+  { key: 'hiddenMinute', label: 'Minute hidden', hint: 'Points per minute spent away from the exam' },
+  { key: 'multipleTabs', label: 'Extra tab', hint: 'Points per additional tab opened on the attempt' },
+  { key: 'cameraDenied', label: 'Camera refused', hint: 'Points once camera access is denied' },
+];
+
+const inputClass = 'w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white';
+
+const RiskSettingsModal: React.FC<RiskSettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [draft, setDraft] = useState<RiskSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  const setWeight = (key: keyof RiskWeights, value: string) => {
+    const number = Math.max(0, Number(value) || 0);
+    setDraft(prev => ({ ...prev, weights: { ...prev.weights, [key]: number } }));
+  };
+
+  const setThreshold = (value: string) => {
+    const number = Math.min(MAX_RISK_SCORE, Math.max(1, Number(value) || 1));
+    setDraft(prev => ({ ...prev, alertThreshold: number }));
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Risk Scoring"
+      footer={
+        <div className="flex justify-between w-full">
+          <Button variant="ghost" onClick={() => setDraft(DEFAULT_RISK_SETTINGS)}>
+            Reset to Defaults
+          </Button>
+          <div className="flex gap-3">
+            <Button variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => { onSave(draft); onClose(); }}>
+              Save
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Scores add up the weighted proctoring signals of each attempt and are capped at {MAX_RISK_SCORE}.
+        </p>
+
+        {weightFields.map(field => (
+          <div key={field.key} className="flex items-center justify-between gap-4">
+            <div>
+              <label htmlFor={`weight-${field.key}`} className="font-medium text-gray-900 dark:text-white">
+                {field.label}
+              </label>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{field.hint}</p>
+            </div>
+            <input
+              id={`weight-${field.key}`}
+              type="number"
+              min={0}
+              value={draft.weights[field.key]}
+              onChange={(e) => setWeight(field.key, e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <div>
+            <label htmlFor="alert-threshold" className="font-medium text-gray-900 dark:text-white">
+              Alert threshold
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Alert when an attempt reaches this score. Half of it marks medium risk.
+            </p>
+          </div>
+          <input
+            id="alert-threshold"
+            type="number"
+            min={1}
+            max={MAX_RISK_SCORE}
+            value={draft.alertThreshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RiskSettingsModal;
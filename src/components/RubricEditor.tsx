@@ -0,0 +1,146 @@
+import React from 'react';
+import Button from './Button';
+import { getRubricMaxPoints } from '../utils/rubric';
+import type { Rubric, RubricCriterion, RubricLevel } from '../utils/rubric';
+
+interface RubricEditorProps {
+  rubric: Rubric | null;
+  onChange: (rubric: Rubric | null) => void;
+  error?: string;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent';
+
+const defaultLevels: RubricLevel[] = [
+  { label: 'Excellent', points: 3 },
+  { label: 'Good', points: 2 },
+  { label: 'Needs work', points: 1 },
+  { label: 'Missing', points: 0 },
+];
+
+let criterionCounter = 0;
+const newCriterion = (): RubricCriterion => ({
+  id: `c${Date.now().toString(36)}${++criterionCounter}`,
+  title: '',
+  levels: defaultLevels.map(level => ({ ...level })),
+});
+
+const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onChange, error }) => {
+  const criteria = rubric?.criteria ?? [];
+
+  const update = (next: RubricCriterion[]) => {
+    onChange(next.length > 0 ? { ...rubric, criteria: next } : null);
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    update(criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<RubricLevel>) => {
+    const levels = criteria[criterionIndex].levels.map((level, i) => (i === levelIndex ? { ...level, ...changes } : level));
+    updateCriterion(criterionIndex, { levels });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Marking Rubric
+          {criteria.length > 0 && (
+            <span className="ml-2 font-normal text-gray-500 dark:text-gray-400">
+              {getRubricMaxPoints({ criteria })} points, scaled to the question's marks
+            </span>
+          )}
+        </label>
+        <Button type="button" variant="outline" size="sm" onClick={() => update([...criteria, newCriterion()])}>
+          Add Criterion
+        </Button>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-500">{error}</p>}
+
+      {criteria.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No rubric. Add criteria to mark this question by clicking point levels.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {criteria.map((criterion, criterionIndex) => (
+            <div key={criterion.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={criterion.title}
+                  onChange={(e) => updateCriterion(criterionIndex, { title: e.target.value })}
+                  className={inputClass}
+                  placeholder={`Criterion ${criterionIndex + 1}, e.g. Use of evidence`}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update(criteria.filter((_, i) => i !== criterionIndex))}
+                  className="text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  Remove
+                </Button>
+              </div>
+              <input
+                type="text"
+                value={criterion.description ?? ''}
+                onChange={(e) => updateCriterion(criterionIndex, { description: e.target.value || undefined })}
+                className={inputClass}
+                placeholder="What the grader should look for (optional)"
+              />
+
+              <div className="space-y-2 pl-4">
+                {criterion.levels.map((level, levelIndex) => (
+                  <div key={levelIndex} className="flex gap-2 items-center">
+                    <input
+                      type="text"
+                      value={level.label}
+                      onChange={(e) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })}
+                      className={inputClass}
+                      placeholder="Level"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={level.points}
+                      onChange={(e) => updateLevel(criterionIndex, levelIndex, { points: Number(e.target.value) })}
+                      className={`${inputClass} w-24`}
+                      aria-label="Points"
+                    />
+                    <span className="text-sm text-gray-500 dark:text-gray-400">pts</span>
+                    <button
+                      type="button"
+                      onClick={() => updateCriterion(criterionIndex, {
+                        levels: criterion.levels.filter((_, i) => i !== levelIndex),
+                      })}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label="Remove level"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => updateCriterion(criterionIndex, {
+                    levels: [...criterion.levels, { label: '', points: 0 }],
+                  })}
+                  className="text-sm text-primary hover:underline"
+                >
+                  + Add level
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RubricEditor;
@@ -0,0 +1,113 @@
+import React from 'react';
+import Button from './Button';
+import { scoreBreakdownToCsv } from '../utils/scoring';
+import type { ScoreResult, ScoreStatus } from '../utils/scoring';
+
+interface ScoreBreakdownProps {
+  result: ScoreResult;
+  fileName?: string; // offers a CSV download when set
+}
+
+const statusStyles: Record<ScoreStatus, { label: string; className: string }> = {
+  correct: { label: 'Correct', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200' },
+  partial: { label: 'Partial', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200' },
+  wrong: { label: 'Wrong', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200' },
+  unanswered: { label: 'Unanswered', className: 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-200' },
+  pending: { label: 'Pending', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200' },
+};
+
+// Per-question marks behind a total, in paper order
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ result, fileName }) => {
+  const handleDownload = () => {
+    const blob = new Blob([scoreBreakdownToCsv(result)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName ?? 'score-breakdown.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Total</p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-white">
+            {result.total} / {result.max_marks}
+            {result.percent !== null && (
+              <span className="ml-2 text-lg font-medium text-gray-600 dark:text-gray-400">({result.percent}%)</span>
+            )}
+          </p>
+          {result.penalty_total > 0 && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              Includes {result.penalty_total} deducted for wrong answers
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {(Object.keys(statusStyles) as ScoreStatus[]).map(status => (
+            <span key={status} className={`px-2 py-1 rounded-full font-medium ${statusStyles[status].className}`}>
+              {statusStyles[status].label}: {result.counts[status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {!result.complete && (
+        <p className="text-sm text-blue-700 dark:text-blue-300">
+          Some answers are still waiting for a teacher, so this total may go up.
+        </p>
+      )}
+
+      <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">#</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Awarded</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Penalty</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Net</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">How</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {result.lines.map((line, index) => (
+              <tr key={line.question_id}>
+                <td className="px-4 py-2 text-gray-900 dark:text-white whitespace-nowrap">
+                  {line.sequence ?? index + 1}
+                  {line.type && <span className="ml-1 text-xs text-gray-500 dark:text-gray-400 uppercase">{line.type}</span>}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[line.status].className}`}>
+                    {statusStyles[line.status].label}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-right text-gray-900 dark:text-white whitespace-nowrap">
+                  {line.awarded} / {line.max_marks}
+                </td>
+                <td className="px-4 py-2 text-right text-red-600 dark:text-red-400">
+                  {line.penalty > 0 ? `-${line.penalty}` : ''}
+                </td>
+                <td className="px-4 py-2 text-right font-medium text-gray-900 dark:text-white">{line.net}</td>
+                <td className="px-4 py-2 text-gray-600 dark:text-gray-400">{line.detail}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {fileName && (
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Scoring rules v{result.version}</span>
+          <Button size="sm" variant="outline" onClick={handleDownload}>
+            Download CSV
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreBreakdown;
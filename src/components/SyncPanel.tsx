@@ -0,0 +1,181 @@
+import React from 'react';
+import Modal from './Modal';
+import Button from './Button';
+import type { QueuedRequest, DeadLetterRequest, ProcessQueueResult } from '../services/offlineQueue';
+
+interface SyncPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  queue: QueuedRequest[];
+  deadLetters: DeadLetterRequest[];
+  isOnline: boolean;
+  isProcessing: boolean;
+  lastResult: ProcessQueueResult | null;
+  lastProcessedAt: Date | null;
+  onProcessNow: () => void;
+  onRetry: (requestId: string) => void;
+  onDiscard: (requestId: string) => void;
+  onRetryDeadLetter: (requestId: string) => void;
+  onDiscardDeadLetter: (requestId: string) => void;
+}
+
+const methodStyles: Record<QueuedRequest['method'], string> = {
+  GET: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  POST: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  PUT: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  DELETE: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const deadLetterReasons: Record<DeadLetterRequest['reason'], string> = {
+  non_retryable: 'Rejected by the server',
+  max_retries: 'Gave up after repeated failures',
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+const RequestSummary: React.FC<{ request: QueuedRequest }> = ({ request }) => (
+  <div className="min-w-0 flex-1">
+    <div className="flex items-center gap-2">
+      <span className={`px-2 py-0.5 rounded text-xs font-semibold ${methodStyles[request.method]}`}>
+        {request.method}
+      </span>
+      <span className="text-sm font-mono text-gray-900 dark:text-white truncate">{request.url}</span>
+    </div>
+    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+      Queued {formatTime(request.timestamp)} · {request.retries} {request.retries === 1 ? 'retry' : 'retries'}
+    </p>
+    {request.lastError && (
+      <p className="text-xs text-red-600 dark:text-red-400 mt-1 break-words">
+        {request.lastStatus ? `HTTP ${request.lastStatus}: ` : ''}{request.lastError}
+      </p>
+    )}
+  </div>
+);
+
+const SyncPanel: React.FC<SyncPanelProps> = ({
+  isOpen,
+  onClose,
+  queue,
+  deadLetters,
+  isOnline,
+  isProcessing,
+  lastResult,
+  lastProcessedAt,
+  onProcessNow,
+  onRetry,
+  onDiscard,
+  onRetryDeadLetter,
+  onDiscardDeadLetter,
+}) => {
+  const handleDiscard = (requestId: string, fromDeadLetter: boolean) => {
+    if (!window.confirm('Discard this request? The change it carries will not reach the server.')) {
+      return;
+    }
+    if (fromDeadLetter) {
+      onDiscardDeadLetter(requestId);
+    } else {
+      onDiscard(requestId);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Sync Status"
+      size="lg"
+      footer={
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {lastProcessedAt && lastResult
+              ? `Last sync ${lastProcessedAt.toLocaleTimeString()}: ${lastResult.successful} sent, ${lastResult.failed} retrying, ${lastResult.deadLettered} failed`
+              : 'Not synced yet'}
+          </p>
+          <Button
+            size="sm"
+            onClick={onProcessNow}
+            loading={isProcessing}
+            disabled={!isOnline || isProcessing || queue.length === 0}
+          >
+            Sync Now
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-6">
+        <div className="flex items-center gap-2 text-sm">
+          <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-500' : 'bg-yellow-500'}`}></span>
+          <span className="text-gray-700 dark:text-gray-300">
+            {isOnline ? 'Online' : 'Offline – requests will be sent when the connection returns'}
+          </span>
+        </div>
+
+        {/* Pending requests */}
+        <section>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            Pending ({queue.length})
+          </h3>
+          {queue.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Nothing waiting to be sent.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {queue.map(request => (
+                <li key={request.id} className="flex items-start gap-3 p-3">
+                  <RequestSummary request={request} />
+                  <div className="flex flex-col items-end gap-2 flex-shrink-0">
+                    {request.nextAttemptAt && request.nextAttemptAt > Date.now() && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">
+                        Next try {formatTime(request.nextAttemptAt)}
+                      </span>
+                    )}
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => onRetry(request.id)} disabled={!isOnline}>
+                        Retry
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDiscard(request.id, false)}>
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Dead-lettered requests */}
+        <section>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            Failed ({deadLetters.length})
+          </h3>
+          {deadLetters.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No failed requests.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-red-200 dark:border-red-900/50 rounded-lg">
+              {deadLetters.map(request => (
+                <li key={request.id} className="flex items-start gap-3 p-3">
+                  <RequestSummary request={request} />
+                  <div className="flex flex-col items-end gap-2 flex-shrink-0">
+                    <span className="text-xs text-red-600 dark:text-red-400">
+                      {deadLetterReasons[request.reason]}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => onRetryDeadLetter(request.id)} disabled={!isOnline}>
+                        Retry
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDiscard(request.id, true)}>
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </Modal>
+  );
+};
+
+export default SyncPanel;
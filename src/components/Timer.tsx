@@ -1,22 +1,37 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useServerTimeSync } from '../hooks/useServerTimeSync';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { getRemainingSeconds } from '../utils/examDeadline';
 
 interface TimerProps {
-  initialTime: number; // in seconds
+  initialTime?: number; // in seconds, counted from mount when no deadline is given
+  deadline?: Date | null; // authoritative end time, measured on the server clock
+  serverOffset?: number; // milliseconds to add to the client clock to get server time
+  totalTime?: number; // in seconds, for the progress ring
   onTimeUp?: () => void;
   onWarning?: (timeLeft: number) => void;
   warningTimes?: number[]; // in seconds (e.g., [300, 60] for 5min and 1min warnings)
 }
 
 const Timer: React.FC<TimerProps> = ({ 
-  initialTime, 
+  initialTime = 0, 
+  deadline,
+  serverOffset = 0,
+  totalTime,
   onTimeUp, 
   onWarning,
   warningTimes = [300, 60] // 5 minutes and 1 minute warnings
 }) => {
-  const [timeLeft, setTimeLeft] = useState(initialTime);
-  const [isRunning, setIsRunning] = useState(true);
-  const { getAdjustedTime, offset } = useServerTimeSync();
+  const [mountedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(mountedAt);
+  const firedWarnings = useRef<Set<number> | null>(null);
+  const hasFiredTimeUp = useRef(false);
+
+  // Always derive from an absolute end time so sleep or a slow tab can't stretch the countdown
+  const endsAt = useMemo(
+    () => deadline ? deadline : new Date(mountedAt + initialTime * 1000),
+    [deadline, mountedAt, initialTime]
+  );
+  const timeLeft = getRemainingSeconds(endsAt, deadline ? now + serverOffset : now);
+  const duration = totalTime ?? (deadline ? null : initialTime);
 
   // Format time for display
   const formatTime = useCallback((seconds: number): string => {
@@ -30,50 +45,49 @@ const Timer: React.FC<TimerProps> = ({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   }, []);
 
-  // Timer effect
+  const isRunning = timeLeft > 0;
+
+  // Timer effect: one interval for the whole countdown
   useEffect(() => {
-    if (!isRunning || timeLeft <= 0) return;
+    if (!isRunning) return;
 
-    const interval = setInterval(() => {
-      setTimeLeft(prev => {
-        const newTime = prev - 1;
-        
-        // Check for warnings
-        if (warningTimes.includes(newTime)) {
-          onWarning?.(newTime);
-        }
-        
-        // Time's up
-        if (newTime <= 0) {
-          setIsRunning(false);
-          onTimeUp?.();
-          return 0;
-        }
-        
-        return newTime;
-      });
-    }, 1000);
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(tick, 1000);
 
-    return () => clearInterval(interval);
-  }, [isRunning, timeLeft, warningTimes, onTimeUp, onWarning]);
+    // Recompute immediately when the page becomes visible again (e.g. after sleep)
+    const handleVisibilityChange = () => {
+      if (!document.hidden) tick();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
-  // Sync with server time periodically
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isRunning]);
+
+  // Warnings and time up
   useEffect(() => {
-    const interval = setInterval(() => {
-      const serverTime = getAdjustedTime();
-      const expectedTimeLeft = initialTime - Math.floor((serverTime.getTime() - new Date().getTime() + offset) / 1000);
-      
-      // Only adjust if difference is significant (more than 5 seconds)
-      if (Math.abs(timeLeft - expectedTimeLeft) > 5) {
-        setTimeLeft(Math.max(0, expectedTimeLeft));
+    // Warnings already behind us when the countdown starts (e.g. after a reload) count as shown
+    if (!firedWarnings.current && timeLeft > 0) {
+      firedWarnings.current = new Set(warningTimes.filter(warningTime => timeLeft < warningTime));
+    }
+
+    warningTimes.forEach(warningTime => {
+      if (firedWarnings.current && timeLeft > 0 && timeLeft <= warningTime && !firedWarnings.current.has(warningTime)) {
+        firedWarnings.current.add(warningTime);
+        onWarning?.(timeLeft);
       }
-    }, 30000); // Sync every 30 seconds
+    });
 
-    return () => clearInterval(interval);
-  }, [initialTime, offset, getAdjustedTime, timeLeft]);
+    if (timeLeft <= 0 && !hasFiredTimeUp.current) {
+      hasFiredTimeUp.current = true;
+      onTimeUp?.();
+    }
+  }, [timeLeft, warningTimes, onTimeUp, onWarning]);
 
   // Calculate progress percentage
-  const progress = (timeLeft / initialTime) * 100;
+  const progress = duration ? Math.min(100, (timeLeft / duration) * 100) : 100;
 
   // Determine color based on time left
   const getColorClass = () => {
@@ -0,0 +1,111 @@
+/**
+ * useAggregateComputation Hook
+ * Computes aggregates for an exam (and the rest of its grade when ranking by
+ * grade), previews them against the saved aggregates, and saves the changes.
+ */
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from 'react-query';
+import apiService from '../services/api';
+import type { AttemptAnswer, ExamAggregate, MonthlyExam } from '../services/api';
+import { computeAggregates, diffAggregates, getScopeExams } from '../utils/aggregates';
+import type { AggregateChange, AttemptPolicy, ExamScoringData, RankScope } from '../utils/aggregates';
+
+export interface AggregateSettings {
+  examId: number;
+  policy: AttemptPolicy;
+  scope: RankScope;
+}
+
+async function fetchScoringData(exam: MonthlyExam): Promise<{ data: ExamScoringData; aggregates: ExamAggregate[] }> {
+  const [attempts, examQuestions, examSubjects, aggregates] = await Promise.all([
+    apiService.getStudentAttempts({ monthly_exam_id: exam.id, status: 'graded' }),
+    apiService.getExamQuestions(exam.id),
+    apiService.getExamSubjects(exam.id),
+    apiService.getExamAggregates({ monthly_exam_id: exam.id }),
+  ]);
+
+  const answerLists = await Promise.all(
+    attempts.map(attempt => apiService.getAttemptAnswers({ attempt_id: attempt.id }))
+  );
+  const answers: Record<number, AttemptAnswer[]> = {};
+  attempts.forEach((attempt, index) => {
+    answers[attempt.id] = answerLists[index];
+  });
+
+  return { data: { exam, attempts, answers, examQuestions, examSubjects }, aggregates };
+}
+
+async function buildPreview({ examId, policy, scope }: AggregateSettings): Promise<AggregateChange[]> {
+  const [exam, exams] = await Promise.all([
+    apiService.getExam(examId),
+    scope === 'grade' ? apiService.getExams() : Promise.resolve([]),
+  ]);
+
+  const loaded = await Promise.all(getScopeExams(exam, exams, scope).map(fetchScoringData));
+  const computed = computeAggregates(loaded.map(item => item.data), policy);
+  return diffAggregates(computed, loaded.flatMap(item => item.aggregates));
+}
+
+export const useAggregateComputation = () => {
+  const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<AggregateChange[] | null>(null);
+
+  const previewMutation = useMutation(buildPreview, {
+    onSuccess: changes => setPreview(changes),
+    onError: (error: unknown) => {
+      console.error('Failed to compute aggregates:', error);
+    },
+  });
+
+  /**
+   * Write new and changed aggregates; publishing is left as it was
+   */
+  const saveMutation = useMutation(
+    async (changes: AggregateChange[]) => {
+      const writes = changes.filter(change => change.computed && (change.kind === 'new' || change.kind === 'changed'));
+
+      return Promise.all(writes.map(change => {
+        const result = change.computed!;
+        const values = {
+          total_marks: result.total_marks,
+          percent: result.percent,
+          rank: result.rank,
+          percentile: result.percentile,
+          passed: result.passed,
+        };
+
+        return change.existing
+          ? apiService.updateExamAggregate(change.existing.id, values)
+          : apiService.createExamAggregate({
+            monthly_exam_id: result.monthly_exam_id,
+            student_id: result.student_id,
+            ...values,
+            published: false,
+          });
+      }));
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries('exam-aggregates');
+        setPreview(null);
+      },
+      onError: (error: unknown) => {
+        console.error('Failed to save aggregates:', error);
+      },
+    }
+  );
+
+  return {
+    preview,
+    computePreview: previewMutation.mutateAsync,
+    isComputing: previewMutation.isLoading,
+    computeError: previewMutation.error,
+    clearPreview: () => setPreview(null),
+    save: saveMutation.mutateAsync,
+    isSaving: saveMutation.isLoading,
+    saveError: saveMutation.error,
+  };
+};
+
+export default useAggregateComputation;
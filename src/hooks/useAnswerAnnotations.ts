@@ -0,0 +1,91 @@
+/**
+ * useAnswerAnnotations Hook
+ * Loads and edits the grader's annotation overlay for a file answer. Edits
+ * stay local, with undo, until they are saved as one document.
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import apiService from '../services/api';
+import { ANNOTATION_VERSION, readAnnotations } from '../utils/annotations';
+import type { Annotation, AnnotationDocument } from '../utils/annotations';
+
+export const useAnswerAnnotations = (answerId: number, filePath: string) => {
+  const queryClient = useQueryClient();
+  const queryKey = ['answerAnnotations', answerId];
+
+  // null until the grader changes something; until then the saved document is shown
+  const [edits, setEdits] = useState<Annotation[] | null>(null);
+  const [history, setHistory] = useState<Annotation[][]>([]);
+
+  const { data: document, isLoading, isError } = useQuery<AnnotationDocument | null>(
+    queryKey,
+    () => apiService.getAnswerAnnotations(answerId)
+  );
+
+  const saved = useMemo(() => readAnnotations(document), [document]);
+  const annotations = edits ?? saved;
+
+  const change = useCallback((next: (current: Annotation[]) => Annotation[]) => {
+    const current = edits ?? saved;
+    setHistory(prev => [...prev, current]);
+    setEdits(next(current));
+  }, [edits, saved]);
+
+  const add = useCallback((annotation: Annotation) => {
+    change(current => [...current, annotation]);
+  }, [change]);
+
+  const remove = useCallback((id: string) => {
+    change(current => current.filter(item => item.id !== id));
+  }, [change]);
+
+  const undo = useCallback(() => {
+    if (history.length === 0) return;
+    setEdits(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
+  }, [history]);
+
+  const discard = useCallback(() => {
+    setEdits(null);
+    setHistory([]);
+  }, []);
+
+  const saveMutation = useMutation(
+    () => apiService.saveAnswerAnnotations(answerId, {
+      file_path: filePath,
+      version: ANNOTATION_VERSION,
+      annotations,
+    }),
+    {
+      onSuccess: (savedDocument) => {
+        queryClient.setQueryData(queryKey, savedDocument);
+        setEdits(null);
+        setHistory([]);
+      },
+      onError: (error: unknown) => {
+        console.error('Failed to save annotations:', error);
+      },
+    }
+  );
+
+  return {
+    annotations,
+    isLoading,
+    isError,
+    isDirty: edits !== null,
+    canUndo: history.length > 0,
+    // The student replaced the file after these notes were made
+    isOutdated: !!document && document.file_path !== filePath,
+    updatedAt: document?.updated_at,
+    add,
+    remove,
+    undo,
+    discard,
+    save: saveMutation.mutateAsync,
+    isSaving: saveMutation.isLoading,
+    saveError: saveMutation.isError,
+  };
+};
+
+export default useAnswerAnnotations;
@@ -0,0 +1,91 @@
+/**
+ * useAnswerFile Hook
+ * Downloads the file uploaded for an answer and prepares it for display:
+ * an object URL for images, an opened pdf.js document for PDFs
+ */
+
+import { useState, useEffect } from 'react';
+import { useQuery } from 'react-query';
+import apiService from '../services/api';
+import { openPdf } from '../services/pdfRenderer';
+import type { PdfDocument } from '../services/pdfRenderer';
+
+export type AnswerFileKind = 'image' | 'pdf' | 'other';
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp'];
+
+/**
+ * Decide how to show a file from its MIME type, falling back to the stored path's extension
+ */
+export function getFileKind(mimeType: string, filePath: string): AnswerFileKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+
+  const extension = filePath.split('?')[0].split('.').pop()?.toLowerCase() ?? '';
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+  if (extension === 'pdf') return 'pdf';
+  return 'other';
+}
+
+export const useAnswerFile = (answerId: number, filePath: string) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [pdf, setPdf] = useState<PdfDocument | null>(null);
+  const [pdfError, setPdfError] = useState(false);
+
+  const { data: blob, isLoading, isError } = useQuery(
+    ['answerFile', answerId, filePath],
+    () => apiService.getAnswerFile(answerId),
+    {
+      staleTime: Infinity, // an uploaded file never changes under the same path
+      retry: 1,
+    }
+  );
+
+  const kind = blob ? getFileKind(blob.type, filePath) : null;
+
+  useEffect(() => {
+    if (!blob) return;
+
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  useEffect(() => {
+    if (!blob || kind !== 'pdf') return;
+    let cancelled = false;
+    let opened: PdfDocument | null = null;
+
+    blob.arrayBuffer()
+      .then(openPdf)
+      .then(document => {
+        opened = document;
+        if (cancelled) {
+          document.destroy();
+        } else {
+          setPdf(document);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to open PDF:', error);
+        if (!cancelled) setPdfError(true);
+      });
+
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+      setPdf(null);
+    };
+  }, [blob, kind]);
+
+  return {
+    kind,
+    url, // object URL, also used for downloading
+    pdf,
+    pageCount: kind === 'image' ? 1 : pdf?.numPages ?? 0,
+    isLoading: isLoading || (kind === 'pdf' && !pdf && !pdfError),
+    isError: isError || pdfError,
+  };
+};
+
+export default useAnswerFile;
@@ -0,0 +1,150 @@
+/**
+ * useAttemptMonitor Hook
+ * Live per-attempt state for teacher monitoring: in-progress attempts are loaded
+ * over REST and kept current with deltas streamed by the WebSocket service.
+ * The teacher's open exams are watched too, so the first attempt on each shows up.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { useQuery } from 'react-query';
+import apiService from '../services/api';
+import type { MonthlyExam, StudentAttempt } from '../services/api';
+import websocketService from '../services/websocket';
+import type { ConnectionHealth } from '../services/websocket';
+import { mergeSnapshot, applyDelta, isExamOpen } from '../utils/attemptMonitor';
+import type { AttemptTable, MonitorDelta } from '../utils/attemptMonitor';
+
+export interface MonitoringEvent {
+  id: string;
+  attempt_id: number;
+  event_type: MonitorDelta['event'];
+  event_time: string;
+  details?: Record<string, unknown>;
+  student_name?: string;
+  exam_title?: string;
+}
+
+interface AttemptSnapshot {
+  attempts: StudentAttempt[];
+  fetchedAt: number; // when the request was sent, so deltas received meanwhile win
+}
+
+const MAX_FEED_EVENTS = 100;
+
+export const useAttemptMonitor = (refreshInterval: number = 30000) => {
+  const [attempts, setAttempts] = useState<AttemptTable>({});
+  const [events, setEvents] = useState<MonitoringEvent[]>([]);
+  const [health, setHealth] = useState<ConnectionHealth>(websocketService.getHealth());
+
+  const attemptsRef = useRef<AttemptTable>({});
+  const subscribedExams = useRef<Set<number>>(new Set());
+
+  useEffect(() => {
+    attemptsRef.current = attempts;
+  }, [attempts]);
+
+  // REST snapshot of in-progress attempts
+  const { data: snapshot, isLoading, isError, refetch } = useQuery<AttemptSnapshot>(
+    'inProgressAttempts',
+    async () => {
+      const fetchedAt = Date.now();
+      const inProgress = await apiService.getStudentAttempts({ status: 'in_progress' });
+      return { attempts: inProgress, fetchedAt };
+    },
+    {
+      staleTime: refreshInterval,
+      refetchInterval: refreshInterval,
+    }
+  );
+
+  useEffect(() => {
+    if (snapshot) {
+      setAttempts(prev => mergeSnapshot(prev, snapshot.attempts, snapshot.fetchedAt));
+    }
+  }, [snapshot]);
+
+  // Exams can start while the page is open, so the list is refreshed with the snapshot
+  const { data: exams = [] } = useQuery<MonthlyExam[]>(
+    'exams',
+    () => apiService.getExams(),
+    {
+      staleTime: refreshInterval,
+      refetchInterval: refreshInterval,
+    }
+  );
+
+  // Streamed deltas
+  useEffect(() => {
+    const handleDelta = (delta: MonitorDelta) => {
+      const receivedAt = Date.now();
+      const row = attemptsRef.current[delta.data.attempt_id];
+
+      setAttempts(prev => applyDelta(prev, delta, receivedAt));
+
+      const event: MonitoringEvent = {
+        id: `${delta.event}_${delta.data.attempt_id}_${receivedAt}`,
+        attempt_id: delta.data.attempt_id,
+        event_type: delta.event,
+        event_time: new Date(receivedAt).toISOString(),
+        details: { ...delta.data },
+        student_name: row?.student_name
+          ?? (delta.event === 'attempt_started' ? delta.data.student_name : undefined),
+        exam_title: row?.exam_title
+          ?? (delta.event === 'attempt_started' ? delta.data.exam_title : undefined),
+      };
+
+      setEvents(prev => [event, ...prev].slice(0, MAX_FEED_EVENTS));
+    };
+
+    const unsubscribers = [
+      websocketService.on('attempt_started', data => handleDelta({ event: 'attempt_started', data })),
+      websocketService.on('attempt_updated', data => handleDelta({ event: 'attempt_updated', data })),
+      websocketService.on('attempt_submitted', data => handleDelta({ event: 'attempt_submitted', data })),
+      websocketService.on('proctor_event', data => handleDelta({ event: 'proctor_event', data })),
+      websocketService.onHealthChange(setHealth),
+    ];
+
+    const token = localStorage.getItem('auth_token') || undefined;
+    websocketService.connect(token).catch(error => {
+      console.error('Failed to connect to monitoring server:', error);
+    });
+
+    const exams = subscribedExams.current;
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      exams.forEach(examId => websocketService.unsubscribeFromExam(String(examId)));
+      exams.clear();
+      websocketService.disconnect();
+    };
+  }, []);
+
+  // Subscribe to the monitoring channel of every open exam, before anyone starts it,
+  // and of every exam with an active attempt.
+  // The service sends subscriptions once connected and restores them after reconnects.
+  useEffect(() => {
+    const now = new Date();
+    const examIds = [
+      ...exams.filter(exam => isExamOpen(exam, now)).map(exam => exam.id),
+      ...Object.values(attempts).map(row => row.monthly_exam_id),
+    ];
+
+    examIds.forEach(examId => {
+      if (examId && !subscribedExams.current.has(examId)) {
+        subscribedExams.current.add(examId);
+        websocketService.subscribeToExam(String(examId));
+      }
+    });
+  }, [exams, attempts]);
+
+  return {
+    attempts,
+    events,
+    health,
+    isConnected: health.status === 'connected',
+    isLoading,
+    isError,
+    refetch,
+  };
+};
+
+export default useAttemptMonitor;
@@ -0,0 +1,67 @@
+/**
+ * useAttemptScore Hook
+ * Loads an attempt with its answers, questions and exam settings and scores
+ * it. Pass an attempt id, or an exam and student to use that student's result
+ * attempt.
+ */
+
+import { useQuery } from 'react-query';
+import apiService from '../services/api';
+import type { StudentAttempt } from '../services/api';
+import { scoreAttempt, pickResultAttempt } from '../utils/scoring';
+import { drawAttemptQuestions } from '../utils/pools';
+import type { ScoreResult } from '../utils/scoring';
+
+export interface AttemptScoreSource {
+  attemptId?: number | null;
+  examId?: number | null;
+  studentId?: number | null;
+}
+
+export interface AttemptScore {
+  attempt: StudentAttempt | null;
+  score: ScoreResult | null;
+}
+
+async function fetchAttemptScore({ attemptId, examId, studentId }: AttemptScoreSource): Promise<AttemptScore> {
+  const attempt = attemptId
+    ? await apiService.getStudentAttempt(attemptId)
+    : pickResultAttempt(await apiService.getStudentAttempts({
+      monthly_exam_id: examId ?? undefined,
+      student_id: studentId ?? undefined,
+    }));
+
+  if (!attempt) return { attempt: null, score: null };
+
+  const [answers, examQuestions, exam] = await Promise.all([
+    apiService.getAttemptAnswers({ attempt_id: attempt.id }),
+    apiService.getExamQuestions(attempt.monthly_exam_id),
+    apiService.getExam(attempt.monthly_exam_id),
+  ]);
+
+  const settings = exam ?? attempt.monthly_exam;
+  return { attempt, score: scoreAttempt(answers, drawAttemptQuestions(attempt, settings, examQuestions), settings) };
+}
+
+export const useAttemptScore = (source: AttemptScoreSource | null) => {
+  const enabled = !!source && (!!source.attemptId || (!!source.examId && !!source.studentId));
+
+  const { data, isLoading, isError, refetch } = useQuery<AttemptScore>(
+    ['attemptScore', source?.attemptId ?? null, source?.examId ?? null, source?.studentId ?? null],
+    () => fetchAttemptScore(source ?? {}),
+    {
+      enabled,
+      staleTime: 30 * 1000,
+    }
+  );
+
+  return {
+    attempt: data?.attempt ?? null,
+    score: data?.score ?? null,
+    isLoading: enabled && isLoading,
+    isError,
+    refetch,
+  };
+};
+
+export default useAttemptScore;
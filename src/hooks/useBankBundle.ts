@@ -0,0 +1,116 @@
+/**
+ * useBankBundle Hook
+ * Exports a question bank as a JSON bundle or QTI file, and brings a bundle
+ * into a bank at another school: authors and subjects are matched to that
+ * school's own, then the questions are created in batches.
+ */
+
+import { useState } from 'react';
+import { useMutation } from 'react-query';
+import apiService from '../services/api';
+import type { QuestionBank } from '../services/api';
+import { buildBankBundle, remapBankBundle } from '../utils/bankBundle';
+import type { BankBundle, BundleRemap } from '../utils/bankBundle';
+import { checkImportedQuestions } from '../utils/questionImport';
+import type { ImportedQuestion } from '../utils/questionImport';
+import { questionsToQti } from '../utils/qtiExport';
+import useQuestionImport from './useQuestionImport';
+
+export type BankExportFormat = 'json' | 'qti';
+
+export interface BankExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+export interface BundleTarget {
+  bundle: BankBundle;
+  schoolId: number;
+  bankId?: number; // existing bank at the school; a new one is made when unset
+  fallbackAuthorId: number; // for authors with no matching teacher
+}
+
+const fileSafe = (name: string) => name.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'question-bank';
+
+export const useBankBundle = () => {
+  const [remap, setRemap] = useState<BundleRemap | null>(null);
+  const questionImport = useQuestionImport();
+
+  const exportMutation = useMutation(
+    async ({ bank, format }: { bank: QuestionBank; format: BankExportFormat }): Promise<BankExportFile> => {
+      const questions = await apiService.getQuestions(bank.id);
+
+      if (format === 'qti') {
+        return { fileName: `${fileSafe(bank.name)}.qti.xml`, content: questionsToQti(questions, bank.name), mimeType: 'application/xml' };
+      }
+
+      const [teachers, subjects] = await Promise.all([apiService.getTeachers(), apiService.getSubjects(bank.school_id)]);
+      const bundle = buildBankBundle(bank, questions, teachers, subjects);
+      return { fileName: `${fileSafe(bank.name)}.bank.json`, content: JSON.stringify(bundle, null, 2), mimeType: 'application/json' };
+    },
+    {
+      onError: (error: unknown) => {
+        console.error('Failed to export question bank:', error);
+      },
+    }
+  );
+
+  const previewMutation = useMutation(
+    async ({ bundle, schoolId, bankId, fallbackAuthorId }: BundleTarget) => {
+      const [teachers, subjects, existing] = await Promise.all([
+        apiService.getTeachers(),
+        apiService.getSubjects(schoolId),
+        bankId ? apiService.getQuestions(bankId) : Promise.resolve([]),
+      ]);
+      const result = remapBankBundle(
+        bundle,
+        teachers.filter(teacher => teacher.school_id === schoolId),
+        subjects,
+        fallbackAuthorId
+      );
+      return { ...result, questions: checkImportedQuestions(result.questions, existing.map(question => question.prompt)) };
+    },
+    {
+      onSuccess: result => setRemap(result),
+      onError: (error: unknown) => {
+        console.error('Failed to prepare the bundle:', error);
+      },
+    }
+  );
+
+  /**
+   * Create the bank if needed, then its questions. Resolves with the bank id.
+   */
+  const importBundle = async ({ target, questions, bankName }: { target: BundleTarget; questions: ImportedQuestion[]; bankName: string }) => {
+    const bankId = target.bankId ?? (await apiService.createQuestionBank({
+      school_id: target.schoolId,
+      name: bankName,
+      created_by: target.fallbackAuthorId,
+    })).id;
+
+    await questionImport.importQuestions({ questions, authorId: target.fallbackAuthorId, targetBankId: bankId });
+    return bankId;
+  };
+
+  const reset = () => {
+    setRemap(null);
+    questionImport.reset();
+  };
+
+  return {
+    exportBank: exportMutation.mutateAsync,
+    isExporting: exportMutation.isLoading,
+    remap,
+    previewBundle: previewMutation.mutateAsync,
+    isPreviewing: previewMutation.isLoading,
+    importBundle,
+    isImporting: questionImport.isImporting,
+    created: questionImport.created,
+    progress: questionImport.progress,
+    failed: questionImport.failed,
+    reset,
+  };
+};
+
+export default useBankBundle;
@@ -0,0 +1,73 @@
+/**
+ * useBlueprintAutoFill Hook
+ * Picks bank questions that bring an exam closer to its blueprint, and adds
+ * them to the exam once the teacher has looked at the picks.
+ */
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from 'react-query';
+import apiService from '../services/api';
+import type { BackendQuestion, ExamBlueprint, ExamQuestion, ExamSubject } from '../services/api';
+import { autoFillBlueprint } from '../utils/blueprint';
+
+export interface AutoFillRequest {
+  blueprint: ExamBlueprint;
+  bankId?: number;
+  examQuestions: ExamQuestion[];
+  examSubjects: ExamSubject[];
+}
+
+export const useBlueprintAutoFill = (examId: number | string) => {
+  const queryClient = useQueryClient();
+  const [picks, setPicks] = useState<BackendQuestion[] | null>(null);
+
+  const pickMutation = useMutation(
+    async ({ blueprint, bankId, examQuestions, examSubjects }: AutoFillRequest) =>
+      autoFillBlueprint(blueprint, examQuestions, await apiService.getQuestions(bankId), examSubjects),
+    {
+      onSuccess: questions => setPicks(questions),
+      onError: (error: unknown) => {
+        console.error('Failed to pick questions for the blueprint:', error);
+      },
+    }
+  );
+
+  /**
+   * Add the picked questions after the exam's last question, with their default marks
+   */
+  const addMutation = useMutation(
+    ({ questions, examQuestions }: { questions: BackendQuestion[]; examQuestions: ExamQuestion[] }) => {
+      const lastSequence = examQuestions.reduce((last, item) => Math.max(last, item.sequence ?? 0), 0);
+
+      return apiService.addExamQuestions(examId, questions.map((question, index) => {
+        const subjectId = question.metadata?.subject_id;
+        return {
+          question_id: question.id,
+          marks: question.default_marks,
+          sequence: lastSequence + index + 1,
+          ...(subjectId !== undefined && subjectId !== null && { subject_id: Number(subjectId) }),
+        };
+      }));
+    },
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['exam-questions', String(examId)]);
+        setPicks(null);
+      },
+      onError: (error: unknown) => {
+        console.error('Failed to add the picked questions:', error);
+      },
+    }
+  );
+
+  return {
+    picks,
+    pickQuestions: pickMutation.mutateAsync,
+    isPicking: pickMutation.isLoading,
+    clearPicks: () => setPicks(null),
+    addPicks: addMutation.mutateAsync,
+    isAdding: addMutation.isLoading,
+  };
+};
+
+export default useBlueprintAutoFill;
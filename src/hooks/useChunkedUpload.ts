@@ -0,0 +1,250 @@
+/**
+ * useChunkedUpload Hook
+ * Drives a resumable upload for one file question: validation, progress,
+ * pause/resume, retry, and picking an interrupted upload back up after a reload
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  createUpload,
+  startUpload,
+  getActiveUpload,
+  loadUpload,
+  clearUpload,
+  validateFile,
+  getUploadedBytes,
+  isAbortError,
+} from '../services/uploadManager';
+import type { UploadSession, UploadHandle, FileRules } from '../services/uploadManager';
+
+interface ChunkedUploadConfig {
+  attemptId?: number | string;
+  questionId: number | string;
+  rules: FileRules;
+  onComplete: (filePath: string) => void;
+}
+
+export type UploadStatus = 'idle' | 'preparing' | 'uploading' | 'paused' | 'completed' | 'failed';
+
+interface ChunkedUploadState {
+  status: UploadStatus;
+  progress: number; // 0-100
+  uploadedBytes: number;
+  fileName: string | null;
+  fileSize: number;
+  error: string | null;
+  needsFile: boolean; // the stored copy is gone; the student has to pick the file again
+}
+
+const initialState: ChunkedUploadState = {
+  status: 'idle',
+  progress: 0,
+  uploadedBytes: 0,
+  fileName: null,
+  fileSize: 0,
+  error: null,
+  needsFile: false,
+};
+
+const percent = (bytes: number, total: number) =>
+  total > 0 ? Math.min(100, Math.round((bytes / total) * 100)) : 0;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : 'Failed to upload file. Please try again.';
+
+export const useChunkedUpload = (config: ChunkedUploadConfig) => {
+  const { attemptId, questionId, rules, onComplete } = config;
+
+  const [state, setState] = useState<ChunkedUploadState>(initialState);
+
+  const sessionRef = useRef<UploadSession | null>(null);
+  const fileRef = useRef<Blob | null>(null);
+  const handleRef = useRef<UploadHandle | null>(null);
+  const detachRef = useRef<(() => void) | null>(null);
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  // Follow a running upload; the upload itself outlives this component
+  const attach = useCallback((handle: UploadHandle, session: UploadSession) => {
+    detachRef.current?.();
+    handleRef.current = handle;
+
+    setState(prev => ({
+      ...prev,
+      status: 'uploading',
+      fileName: session.file_name,
+      fileSize: session.file_size,
+      uploadedBytes: handle.getUploadedBytes(),
+      progress: percent(handle.getUploadedBytes(), session.file_size),
+      error: null,
+      needsFile: false,
+    }));
+
+    detachRef.current = handle.subscribe((uploadedBytes, current) => {
+      sessionRef.current = current;
+      setState(prev => ({ ...prev, uploadedBytes, progress: percent(uploadedBytes, current.file_size) }));
+    });
+
+    handle.promise
+      .then(completed => {
+        sessionRef.current = completed;
+        setState(prev => ({ ...prev, status: 'completed', progress: 100, uploadedBytes: completed.file_size }));
+        onCompleteRef.current(completed.file_path!);
+      })
+      .catch(error => {
+        if (handleRef.current !== handle) return;
+
+        if (isAbortError(error)) {
+          setState(prev => ({ ...prev, status: 'paused' }));
+        } else {
+          console.error('File upload failed:', error);
+          setState(prev => ({ ...prev, status: 'failed', error: errorMessage(error) }));
+        }
+      })
+      .finally(() => {
+        if (handleRef.current === handle) {
+          handleRef.current = null;
+        }
+      });
+  }, []);
+
+  // Re-attach to a running upload, or pick up one left over from before a reload
+  useEffect(() => {
+    if (!attemptId) return;
+    let cancelled = false;
+
+    loadUpload(attemptId, questionId).then(stored => {
+      if (cancelled || !stored || stored.session.status === 'completed') return;
+
+      sessionRef.current = stored.session;
+      fileRef.current = stored.file;
+
+      const running = getActiveUpload(attemptId, questionId);
+      if (running) {
+        attach(running, stored.session);
+        return;
+      }
+
+      const restored = {
+        ...initialState,
+        fileName: stored.session.file_name,
+        fileSize: stored.session.file_size,
+        uploadedBytes: getUploadedBytes(stored.session),
+        progress: percent(getUploadedBytes(stored.session), stored.session.file_size),
+      };
+
+      if (!stored.file) {
+        setState({
+          ...restored,
+          status: 'failed',
+          error: 'The file from your interrupted upload is no longer available. Please choose it again.',
+          needsFile: true,
+        });
+        return;
+      }
+
+      // Continue uploads that were running when the page went away; paused ones wait for the student
+      if (stored.session.status === 'uploading' && navigator.onLine) {
+        attach(startUpload(stored.session, stored.file), stored.session);
+      } else {
+        setState({
+          ...restored,
+          status: stored.session.status === 'failed' ? 'failed' : 'paused',
+          error: stored.session.error || null,
+        });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      detachRef.current?.();
+      detachRef.current = null;
+      handleRef.current = null;
+    };
+  }, [attemptId, questionId, attach]);
+
+  // Stop this question's running upload and wait until it has stored its final state
+  const stopRunning = useCallback(async () => {
+    if (!attemptId) return;
+
+    const running = getActiveUpload(attemptId, questionId);
+    if (running) {
+      running.abort();
+      await running.promise.catch(() => undefined);
+    }
+  }, [attemptId, questionId]);
+
+  /**
+   * Validate and start uploading a newly chosen file; resolves false if it never started
+   */
+  const start = useCallback(async (file: File): Promise<boolean> => {
+    if (!attemptId) return false;
+
+    const invalid = validateFile(file, rules);
+    if (invalid) {
+      setState(prev => ({ ...prev, error: invalid }));
+      return false;
+    }
+
+    setState({ ...initialState, status: 'preparing', fileName: file.name, fileSize: file.size });
+
+    try {
+      await stopRunning();
+      await clearUpload(attemptId, questionId);
+      const session = await createUpload(attemptId, questionId, file);
+      sessionRef.current = session;
+      fileRef.current = file;
+      attach(startUpload(session, file), session);
+      return true;
+    } catch (error) {
+      console.error('Failed to start upload:', error);
+      // Nothing reached the server, so there is nothing to resume; let the student choose again
+      setState({ ...initialState, error: errorMessage(error) });
+      return false;
+    }
+  }, [attemptId, questionId, rules, attach, stopRunning]);
+
+  const pause = useCallback(() => {
+    handleRef.current?.abort();
+  }, []);
+
+  /**
+   * Continue a paused or failed upload from the last stored chunk
+   */
+  const resume = useCallback(() => {
+    if (sessionRef.current && fileRef.current && !handleRef.current) {
+      attach(startUpload(sessionRef.current, fileRef.current), sessionRef.current);
+    }
+  }, [attach]);
+
+  /**
+   * Abandon the upload and forget the stored file
+   */
+  const cancel = useCallback(async () => {
+    detachRef.current?.();
+    detachRef.current = null;
+    handleRef.current = null;
+    sessionRef.current = null;
+    fileRef.current = null;
+    setState(initialState);
+
+    await stopRunning();
+    if (attemptId) {
+      await clearUpload(attemptId, questionId);
+    }
+  }, [attemptId, questionId, stopRunning]);
+
+  return {
+    ...state,
+    isActive: state.status === 'preparing' || state.status === 'uploading',
+    start,
+    pause,
+    resume,
+    cancel,
+  };
+};
+
+export default useChunkedUpload;
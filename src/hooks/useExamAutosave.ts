@@ -1,38 +1,133 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import localforage from 'localforage';
 import apiService from '../services/api';
-import type { AttemptAnswer } from '../services/api';
+import {
+  recordAnswer,
+  replayJournal,
+  getPendingEntries,
+  importLegacyAnswers,
+} from '../services/answerJournal';
+import type { JournalEntry } from '../services/answerJournal';
+import { useServerTimeSync } from './useServerTimeSync';
 
 interface AutosaveState {
   isSaving: boolean;
   isSaved: boolean;
   isOffline: boolean;
   retryCount: number;
+  pendingAnswersCount: number;
+  conflictCount: number; // offline answers skipped because the server had a newer one
+  rejectedCount: number; // answers the server refused, set aside so the rest could sync
   lastSavedAt?: Date;
 }
 
+type AnswerInput = Pick<JournalEntry, 'question_id' | 'choice_id' | 'choice_ids' | 'answer_text' | 'uploaded_file'> & {
+  attempt_id?: number | string;
+};
+
+const MAX_RETRY_DELAY = 30000; // 30 seconds
+
 export const useExamAutosave = (
   attemptId: string,
   examId: string,
-  autosaveInterval: number = 10000 // 10 seconds default
+  autosaveInterval: number = 10000, // 10 seconds default
+  isActive: boolean = true // false in tabs that don't own the attempt
 ) => {
   const [autosaveState, setAutosaveState] = useState<AutosaveState>({
     isSaving: false,
     isSaved: false,
-    isOffline: false,
+    isOffline: !navigator.onLine,
     retryCount: 0,
+    pendingAnswersCount: 0,
+    conflictCount: 0,
+    rejectedCount: 0,
   });
 
-  const pendingAnswers = useRef<AttemptAnswer[]>([]);
-  const retryTimeouts = useRef<Map<string, any>>(new Map());
+  const { offset } = useServerTimeSync();
+  const serverOffset = useRef(offset);
   const isOnline = useRef<boolean>(navigator.onLine);
+  const isActiveRef = useRef(isActive);
+  // The flush in progress, if any; callers arriving meanwhile share its result
+  const currentFlush = useRef<Promise<boolean> | null>(null);
+  const retryCount = useRef(0);
+  const retryTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingQuestionIds = useRef<Set<string>>(new Set());
+  // Resolves once every answer handed to the journal so far has been written
+  const journalWrites = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    serverOffset.current = offset;
+  }, [offset]);
+
+  useEffect(() => {
+    isActiveRef.current = isActive;
+  }, [isActive]);
+
+  // Replay the journal to the server in order; resolves true once nothing is left in it
+  const flushAnswers = useCallback((): Promise<boolean> => {
+    if (!isActiveRef.current || !isOnline.current) return Promise.resolve(false);
+    if (currentFlush.current) return currentFlush.current;
+
+    const flush = async (): Promise<boolean> => {
+      if (retryTimeout.current) {
+        clearTimeout(retryTimeout.current);
+        retryTimeout.current = null;
+      }
+
+      try {
+        await journalWrites.current;
+
+        const result = await replayJournal(attemptId, {
+          save: (entry, idempotencyKey) => apiService.saveJournalEntry(attemptId, entry, idempotencyKey),
+          fetchServerAnswers: () => apiService.getAttemptAnswers({ attempt_id: Number(attemptId) }),
+          serverOffset: serverOffset.current,
+        });
+
+        const remaining = await getPendingEntries(attemptId);
+        pendingQuestionIds.current = new Set(remaining.map(entry => String(entry.question_id)));
+
+        const succeeded = result.remaining === 0;
+        retryCount.current = succeeded ? 0 : retryCount.current + 1;
+
+        setAutosaveState(prev => ({
+          ...prev,
+          isSaving: false,
+          isSaved: succeeded,
+          retryCount: retryCount.current,
+          pendingAnswersCount: remaining.length,
+          conflictCount: prev.conflictCount + result.conflicts,
+          rejectedCount: prev.rejectedCount + result.rejected,
+          lastSavedAt: result.synced > 0 ? new Date() : prev.lastSavedAt,
+        }));
+
+        // Retry with exponential backoff; the journal keeps the answers safe meanwhile
+        if (!succeeded) {
+          const delay = Math.min(Math.pow(2, retryCount.current) * 1000, MAX_RETRY_DELAY);
+          retryTimeout.current = setTimeout(() => {
+            retryTimeout.current = null;
+            flushAnswers();
+          }, delay);
+        }
+
+        return succeeded;
+      } catch (error) {
+        console.error('Failed to sync answers:', error);
+        setAutosaveState(prev => ({ ...prev, isSaving: false, isSaved: false }));
+        return false;
+      }
+    };
+
+    currentFlush.current = flush().finally(() => {
+      currentFlush.current = null;
+    });
+    return currentFlush.current;
+  }, [attemptId]);
 
   // Check online status
   useEffect(() => {
     const handleOnline = () => {
       isOnline.current = true;
       setAutosaveState(prev => ({ ...prev, isOffline: false }));
-      syncOfflineAnswers();
+      flushAnswers();
     };
 
     const handleOffline = () => {
@@ -47,160 +142,110 @@ export const useExamAutosave = (
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
+  }, [flushAnswers]);
+
+  // Pick up answers left over from a previous session (reload, crash, another tab) and send them
+  useEffect(() => {
+    if (!isActive) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        await importLegacyAnswers(attemptId, examId);
+        const pending = await getPendingEntries(attemptId);
+        if (cancelled) return;
+
+        pending.forEach(entry => pendingQuestionIds.current.add(String(entry.question_id)));
+        setAutosaveState(prev => ({ ...prev, pendingAnswersCount: pendingQuestionIds.current.size }));
+
+        if (pending.length > 0) {
+          flushAnswers();
+        }
+      } catch (error) {
+        console.error('Failed to restore saved answers:', error);
+      }
+    };
+
+    restore();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attemptId, examId, isActive, flushAnswers]);
+
+  // Write an answer to the journal; it is sent on the next autosave tick
+  const queueAnswer = useCallback((answer: AnswerInput) => {
+    const write = recordAnswer(attemptId, {
+      question_id: answer.question_id,
+      choice_id: answer.choice_id,
+      choice_ids: answer.choice_ids,
+      answer_text: answer.answer_text,
+      uploaded_file: answer.uploaded_file,
+    });
+    journalWrites.current = journalWrites.current.then(() => write).catch(error => {
+      console.error('Failed to record answer:', error);
+    });
+
+    pendingQuestionIds.current.add(String(answer.question_id));
 
-  // Save answer to queue
-  const queueAnswer = useCallback((answer: AttemptAnswer) => {
-    // Add to pending answers
-    pendingAnswers.current = [...pendingAnswers.current, answer];
-    
     // Update UI state
     setAutosaveState(prev => ({
       ...prev,
-      isSaving: true,
+      isSaving: isOnline.current,
       isSaved: false,
+      pendingAnswersCount: pendingQuestionIds.current.size,
     }));
-  }, []);
 
-  // Save answer immediately (bypass queue)
-  const saveAnswerImmediately = useCallback(async (answer: AttemptAnswer) => {
-    setAutosaveState(prev => ({
-      ...prev,
-      isSaving: true,
-      isSaved: false,
-    }));
+    return write;
+  }, [attemptId]);
 
-    try {
-      if (isOnline.current) {
-        await apiService.saveAnswer(attemptId, answer);
-        setAutosaveState(prev => ({
-          ...prev,
-          isSaving: false,
-          isSaved: true,
-          lastSavedAt: new Date(),
-          retryCount: 0,
-        }));
-      } else {
-        // Store in localStorage when offline
-        await localforage.setItem(`pending_answer_${Date.now()}`, {
-          ...answer,
-          attempt_id: attemptId,
-          exam_id: examId,
-          timestamp: Date.now(),
-        });
-        
-        setAutosaveState(prev => ({
-          ...prev,
-          isSaving: false,
-          isSaved: true,
-          isOffline: true,
-          lastSavedAt: new Date(),
-        }));
-      }
-    } catch (error) {
-      console.error('Failed to save answer:', error);
+  // Save answer immediately (bypass the autosave interval)
+  const saveAnswerImmediately = useCallback(async (answer: AnswerInput) => {
+    await queueAnswer(answer);
+
+    if (!isOnline.current) {
+      // Safe in the journal; it will be replayed when we reconnect
       setAutosaveState(prev => ({
         ...prev,
         isSaving: false,
-        isSaved: false,
-        retryCount: prev.retryCount + 1,
+        isSaved: true,
+        isOffline: true,
+        lastSavedAt: new Date(),
       }));
-      
-      // Retry with exponential backoff
-      setAutosaveState(current => {
-        if (current.retryCount < 3) {
-          const timeoutId = setTimeout(() => {
-            saveAnswerImmediately(answer);
-          }, Math.pow(2, current.retryCount) * 1000);
-          
-          retryTimeouts.current.set(answer.question_id, timeoutId);
-        }
-        return current;
-      });
+      return;
     }
-  }, [attemptId, examId]);
-
-  // Sync offline answers when coming back online
-  const syncOfflineAnswers = useCallback(async () => {
-    if (!isOnline.current) return;
-
-    try {
-      const keys = await localforage.keys();
-      const pendingKeys = keys.filter(key => key.startsWith('pending_answer_'));
-      
-      if (pendingKeys.length === 0) return;
-
-      for (const key of pendingKeys) {
-        try {
-          const answerData = await localforage.getItem<any>(key);
-          if (answerData && answerData.exam_id === examId) {
-            await apiService.saveAnswer(attemptId, {
-              attempt_id: attemptId,
-              question_id: answerData.question_id,
-              choice_id: answerData.choice_id,
-              answer_text: answerData.answer_text,
-              uploaded_file: answerData.uploaded_file,
-            });
-            
-            await localforage.removeItem(key);
-          }
-        } catch (error) {
-          console.error(`Failed to sync answer ${key}:`, error);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to sync offline answers:', error);
-    }
-  }, [attemptId, examId]);
 
-  // Autosave from queue at intervals
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (pendingAnswers.current.length > 0 && isOnline.current) {
-        const answersToSave = [...pendingAnswers.current];
-        pendingAnswers.current = [];
-        
-        setAutosaveState(prev => ({
-          ...prev,
-          isSaving: true,
-          isSaved: false,
-        }));
+    await flushAnswers();
+  }, [queueAnswer, flushAnswers]);
 
-        // Save all pending answers
-        answersToSave.forEach(async (answer) => {
-          try {
-            await apiService.saveAnswer(attemptId, answer);
-          } catch (error) {
-            console.error('Failed to autosave answer:', error);
-            // Re-add to queue for retry
-            pendingAnswers.current = [...pendingAnswers.current, answer];
-          }
-        });
+  // Autosave from the journal at intervals
+  useEffect(() => {
+    if (!isActive) return;
 
-        setAutosaveState(prev => ({
-          ...prev,
-          isSaving: false,
-          isSaved: true,
-          lastSavedAt: new Date(),
-        }));
+    const interval = setInterval(() => {
+      // The journal is the source of truth, so always check it rather than in-memory state
+      if (isOnline.current) {
+        flushAnswers();
       }
     }, autosaveInterval);
 
     return () => {
       clearInterval(interval);
-      
-      // Clear any retry timeouts
-      retryTimeouts.current.forEach(timeout => clearTimeout(timeout));
-      retryTimeouts.current.clear();
+
+      // Clear any pending retry
+      if (retryTimeout.current) {
+        clearTimeout(retryTimeout.current);
+        retryTimeout.current = null;
+      }
     };
-  }, [attemptId, autosaveInterval]);
+  }, [autosaveInterval, isActive, flushAnswers]);
 
   return {
     ...autosaveState,
     queueAnswer,
     saveAnswerImmediately,
-    pendingAnswersCount: pendingAnswers.current.length,
+    flushAnswers,
   };
 };
 
-export default useExamAutosave;
\ No newline at end of file
+export default useExamAutosave;
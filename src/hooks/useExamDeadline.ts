@@ -0,0 +1,159 @@
+/**
+ * useExamDeadline Hook
+ * Server-authoritative countdown for an exam attempt that survives reloads and device sleep
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useQuery } from 'react-query';
+import apiService from '../services/api';
+import type { MonthlyExam, StudentAttempt } from '../services/api';
+import { useServerTimeSync } from './useServerTimeSync';
+import { resolveAttemptDeadline, getRemainingSeconds } from '../utils/examDeadline';
+import type { SyncConfidence } from '../utils/clockSync';
+
+interface ExamDeadlineConfig {
+  attemptId?: string;
+  onExpire?: () => void; // the countdown ran out; not called when the server closed the attempt
+  statusCheckInterval?: number; // milliseconds
+}
+
+const DEADLINE_STORAGE_PREFIX = 'exam_deadline_';
+
+const readStoredDeadline = (attemptId?: string): Date | null => {
+  if (!attemptId) return null;
+  const stored = localStorage.getItem(`${DEADLINE_STORAGE_PREFIX}${attemptId}`);
+  if (!stored) return null;
+  const deadline = new Date(stored);
+  return isNaN(deadline.getTime()) ? null : deadline;
+};
+
+export const useExamDeadline = (config: ExamDeadlineConfig) => {
+  const {
+    attemptId,
+    onExpire,
+    statusCheckInterval = 60000, // 1 minute
+  } = config;
+
+  const { offset, confidence, uncertainty, lastSyncFailed } = useServerTimeSync();
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  const hasExpired = useRef(false);
+
+  onExpireRef.current = onExpire;
+
+  // Attempt holds started_at; the exam relationship may or may not be loaded with it
+  const { data: attempt, isLoading: isAttemptLoading } = useQuery<StudentAttempt>(
+    ['studentAttempt', attemptId],
+    () => apiService.getStudentAttempt(Number(attemptId)),
+    {
+      enabled: !!attemptId,
+      staleTime: Infinity,
+    }
+  );
+
+  const { data: fetchedExam, isLoading: isExamLoading } = useQuery<MonthlyExam>(
+    ['exam', attempt?.monthly_exam_id],
+    () => apiService.getExam(attempt!.monthly_exam_id),
+    {
+      enabled: !!attempt && !attempt.monthly_exam,
+      staleTime: Infinity,
+    }
+  );
+
+  // Periodic re-check catches extensions, early closes and submissions from elsewhere
+  const { data: attemptStatus } = useQuery(
+    ['attemptStatus', attemptId],
+    () => apiService.getAttemptStatus(attemptId!),
+    {
+      enabled: !!attemptId,
+      refetchInterval: statusCheckInterval,
+      refetchIntervalInBackground: true,
+      refetchOnWindowFocus: true,
+    }
+  );
+
+  const exam = attempt?.monthly_exam || fetchedExam;
+
+  const deadline = useMemo<Date | null>(() => {
+    if (attemptStatus?.deadline) {
+      const statusDeadline = new Date(attemptStatus.deadline);
+      if (!isNaN(statusDeadline.getTime())) return statusDeadline;
+    }
+
+    if (attempt) {
+      const resolved = resolveAttemptDeadline(attempt, exam);
+      if (resolved) return resolved;
+    }
+
+    // Fall back to the last known deadline (e.g. reloaded while offline)
+    return readStoredDeadline(attemptId);
+  }, [attemptStatus?.deadline, attempt, exam, attemptId]);
+
+  // Remember the deadline so a reload without connectivity keeps counting down
+  useEffect(() => {
+    if (attemptId && deadline) {
+      localStorage.setItem(`${DEADLINE_STORAGE_PREFIX}${attemptId}`, deadline.toISOString());
+    }
+  }, [attemptId, deadline]);
+
+  const totalSeconds = useMemo<number | null>(() => {
+    if (!deadline || !attempt?.started_at) return null;
+    const startedAt = new Date(attempt.started_at).getTime();
+    if (isNaN(startedAt)) return null;
+    return Math.max(0, Math.round((deadline.getTime() - startedAt) / 1000));
+  }, [deadline, attempt?.started_at]);
+
+  const isClosedByServer = !!attemptStatus && attemptStatus.status !== 'in_progress';
+  const remainingSeconds = deadline ? getRemainingSeconds(deadline, now + offset) : null;
+  // Before the first sync the offset is only a guess, and a fast client clock would end the exam early.
+  // Once a sync has failed (offline start, no endpoint) the local clock is the best there is, so use it.
+  const clockConfidence: SyncConfidence = confidence === 'none' && lastSyncFailed ? 'low' : confidence;
+  const isTimeUp = clockConfidence !== 'none' && remainingSeconds === 0;
+  const isExpired = isClosedByServer || isTimeUp;
+
+  // Tick every second; a precise timeout fires at the deadline itself
+  useEffect(() => {
+    if (!deadline) return;
+
+    const tick = () => setNow(Date.now());
+    const interval = setInterval(tick, 1000);
+    const msUntilDeadline = deadline.getTime() - (Date.now() + offset);
+    const timeout = msUntilDeadline > 0 ? setTimeout(tick, msUntilDeadline) : null;
+
+    // Timers are suspended while the laptop sleeps, so recompute as soon as the page is visible again
+    const handleVisibilityChange = () => {
+      if (!document.hidden) tick();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('focus', tick);
+
+    return () => {
+      clearInterval(interval);
+      if (timeout) clearTimeout(timeout);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('focus', tick);
+    };
+  }, [deadline, offset]);
+
+  // An attempt the server already closed has nothing left to submit
+  useEffect(() => {
+    if (isTimeUp && !isClosedByServer && !hasExpired.current) {
+      hasExpired.current = true;
+      onExpireRef.current?.();
+    }
+  }, [isTimeUp, isClosedByServer]);
+
+  return {
+    deadline,
+    totalSeconds,
+    remainingSeconds,
+    isExpired,
+    isClosedByServer,
+    isLoading: isAttemptLoading || isExamLoading,
+    serverOffset: offset,
+    clockConfidence,
+    clockUncertainty: uncertainty,
+  };
+};
+
+export default useExamDeadline;
@@ -0,0 +1,146 @@
+/**
+ * useExamMessages Hook
+ * Receives teacher announcements and private messages during an attempt, keeps
+ * them across reloads and records each acknowledgement as a proctoring event.
+ * Messages sent while the student was away are loaded from the API.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import apiService from '../services/api';
+import websocketService from '../services/websocket';
+import type { TeacherMessagePayload } from '../services/websocket';
+import { queueRequest, isRetryableError } from '../services/offlineQueue';
+
+interface ExamMessagesConfig {
+  attemptId?: number;
+  examId?: number;
+  enabled?: boolean; // false in tabs that don't own the attempt
+}
+
+export interface ReceivedMessage extends TeacherMessagePayload {
+  received_at: string;
+  acknowledged_at: string | null;
+}
+
+const storageKey = (attemptId: number) => `exam_messages_${attemptId}`;
+
+// Adds messages not seen yet, keeping the read state of the ones already held
+const mergeMessages = (prev: ReceivedMessage[], incoming: TeacherMessagePayload[]): ReceivedMessage[] => {
+  const known = new Set(prev.map(message => message.message_id));
+  const added = incoming
+    .filter(message => !known.has(message.message_id))
+    .map(message => ({ ...message, received_at: new Date().toISOString(), acknowledged_at: null }));
+
+  if (added.length === 0) return prev;
+  return [...prev, ...added].sort((a, b) => Date.parse(a.sent_at) - Date.parse(b.sent_at));
+};
+
+const loadMessages = (attemptId?: number): ReceivedMessage[] => {
+  if (!attemptId) return [];
+
+  try {
+    const stored = localStorage.getItem(storageKey(attemptId));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const useExamMessages = (config: ExamMessagesConfig) => {
+  const { attemptId, examId, enabled = true } = config;
+
+  const [messages, setMessages] = useState<ReceivedMessage[]>(() => loadMessages(attemptId));
+
+  useEffect(() => {
+    setMessages(loadMessages(attemptId));
+  }, [attemptId]);
+
+  // Persist so unread messages survive a reload
+  useEffect(() => {
+    if (attemptId) {
+      localStorage.setItem(storageKey(attemptId), JSON.stringify(messages));
+    }
+  }, [attemptId, messages]);
+
+  useEffect(() => {
+    if (!enabled || !attemptId || !examId) return;
+
+    const isForAttempt = (message: TeacherMessagePayload) =>
+      message.monthly_exam_id === examId && (message.scope === 'exam' || message.attempt_id === attemptId);
+
+    let cancelled = false;
+
+    const unsubscribe = websocketService.on('teacher_message', message => {
+      if (!isForAttempt(message)) return;
+      setMessages(prev => mergeMessages(prev, [message]));
+    });
+
+    apiService.getExamMessages({ monthly_exam_id: examId, attempt_id: attemptId })
+      .then(stored => {
+        if (!cancelled) setMessages(prev => mergeMessages(prev, stored.filter(isForAttempt)));
+      })
+      .catch(error => {
+        console.error('Failed to load exam messages:', error);
+      });
+
+    const token = localStorage.getItem('auth_token') || undefined;
+    websocketService.connect(token).catch(error => {
+      console.error('Failed to connect for exam messages:', error);
+    });
+    websocketService.subscribeToMessages(examId, attemptId);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      websocketService.unsubscribeFromMessages(examId, attemptId);
+      websocketService.disconnect();
+    };
+  }, [enabled, attemptId, examId]);
+
+  /**
+   * Mark a message as read and record the receipt for the audit trail
+   */
+  const acknowledge = useCallback(async (messageId: string) => {
+    const message = messages.find(existing => existing.message_id === messageId);
+    if (!attemptId || !message || message.acknowledged_at) return;
+
+    const acknowledgedAt = new Date().toISOString();
+    setMessages(prev => prev.map(existing =>
+      existing.message_id === messageId ? { ...existing, acknowledged_at: acknowledgedAt } : existing
+    ));
+
+    const event = {
+      attempt_id: attemptId,
+      event_type: 'message_acknowledged',
+      event_time: acknowledgedAt,
+      details: {
+        message_id: message.message_id,
+        scope: message.scope,
+        priority: message.priority,
+        body: message.body,
+        sent_at: message.sent_at,
+      },
+    };
+
+    try {
+      await apiService.sendProctoringEvent(event);
+    } catch (error) {
+      console.error('Failed to record message acknowledgement:', error);
+
+      // The receipt is part of the audit trail; let the sync queue deliver it
+      if (isRetryableError(error)) {
+        await queueRequest({ method: 'POST', url: '/proctoring-events', data: event });
+      }
+    }
+  }, [attemptId, messages]);
+
+  const unreadCount = messages.filter(message => !message.acknowledged_at).length;
+
+  return {
+    messages,
+    unreadCount,
+    acknowledge,
+  };
+};
+
+export default useExamMessages;
@@ -0,0 +1,100 @@
+/**
+ * useExamResult Hook
+ * Loads a student's attempt, the exam and its published aggregate, and only
+ * fetches the answers once the result may be shown.
+ */
+
+import { useQuery } from 'react-query';
+import apiService from '../services/api';
+import type { AttemptAnswer, ExamAggregate, ExamQuestion, MonthlyExam, StudentAttempt } from '../services/api';
+import { pickResultAttempt, scoreAttempt } from '../utils/scoring';
+import type { ScoreResult } from '../utils/scoring';
+import { getResultState } from '../utils/results';
+import { drawAttemptQuestions } from '../utils/pools';
+import type { ResultState } from '../utils/results';
+
+export interface ExamResult {
+  attempt: StudentAttempt;
+  exam: MonthlyExam | null;
+  aggregate: ExamAggregate | null;
+  state: ResultState;
+  answers: AttemptAnswer[];
+  examQuestions: ExamQuestion[]; // the questions this attempt was given
+  score: ScoreResult | null; // only once the result is published
+}
+
+// Student id for looking up attempts when the URL only names the exam
+const getStudentId = (): number | null => {
+  try {
+    const stored = localStorage.getItem('user');
+    if (!stored) return null;
+    const user = JSON.parse(stored);
+    const id = Number(user.student_id ?? user.id);
+    return Number.isFinite(id) ? id : null;
+  } catch {
+    return null;
+  }
+};
+
+async function fetchExamResult(examId: number, attemptId: number | null): Promise<ExamResult | null> {
+  let attempt: StudentAttempt | undefined;
+  if (attemptId) {
+    attempt = await apiService.getStudentAttempt(attemptId);
+  } else {
+    const studentId = getStudentId();
+    attempt = pickResultAttempt(await apiService.getStudentAttempts({
+      monthly_exam_id: examId,
+      student_id: studentId ?? undefined,
+    }));
+  }
+
+  // An attempt from a different exam in the URL is treated as missing
+  if (!attempt || attempt.monthly_exam_id !== examId) return null;
+
+  const [exam, aggregates] = await Promise.all([
+    attempt.monthly_exam ? Promise.resolve(attempt.monthly_exam) : apiService.getExam(examId),
+    apiService.getExamAggregates({ monthly_exam_id: examId, student_id: attempt.student_id }),
+  ]);
+  const aggregate = aggregates[0] ? await apiService.getExamAggregate(aggregates[0].id) : null;
+
+  const state = getResultState(attempt, exam, aggregate);
+  if (state !== 'published') {
+    return { attempt, exam: exam ?? null, aggregate, state, answers: [], examQuestions: [], score: null };
+  }
+
+  const [answers, allQuestions] = await Promise.all([
+    apiService.getAttemptAnswers({ attempt_id: attempt.id }),
+    apiService.getExamQuestions(examId),
+  ]);
+  const examQuestions = drawAttemptQuestions(attempt, exam, allQuestions);
+
+  return {
+    attempt,
+    exam: exam ?? null,
+    aggregate,
+    state,
+    answers,
+    examQuestions,
+    score: scoreAttempt(answers, examQuestions, exam),
+  };
+}
+
+export const useExamResult = (examId: number | null, attemptId: number | null = null) => {
+  const { data, isLoading, isError, refetch } = useQuery<ExamResult | null>(
+    ['examResult', examId, attemptId],
+    () => fetchExamResult(examId as number, attemptId),
+    {
+      enabled: !!examId,
+      staleTime: 60 * 1000, // 1 minute
+    }
+  );
+
+  return {
+    result: data ?? null,
+    isLoading,
+    isError,
+    refetch,
+  };
+};
+
+export default useExamResult;
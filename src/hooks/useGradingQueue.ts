@@ -0,0 +1,235 @@
+/**
+ * useGradingQueue Hook
+ * Loads submitted attempts and their answers for manual marking, saves marks,
+ * and moves each attempt to graded once its last answer is marked. On
+ * double-marked exams marks are recorded per marker and only the agreed or
+ * moderated mark is written to the answer.
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import apiService from '../services/api';
+import type { AttemptAnswer, AnswerMark, ExamQuestion, MonthlyExam, StudentAttempt } from '../services/api';
+import {
+  GRADABLE_STATUSES,
+  buildGradingQueue,
+  buildModerationQueue,
+  isAttemptFullyGraded,
+} from '../utils/gradingQueue';
+import type { GradingData, GradingTask, ModerationTask } from '../utils/gradingQueue';
+import { isDoubleMarked, resolveDoubleMarks, mergeMarkerFeedback } from '../utils/doubleMarking';
+import { scoreAttempt } from '../utils/scoring';
+import { drawAttemptQuestions } from '../utils/pools';
+import type { RubricScore } from '../utils/rubric';
+
+export const GRADING_QUEUE_KEY = 'gradingQueue';
+
+// Attempts whose answers are fetched per request
+const ANSWER_BATCH_SIZE = 50;
+
+export interface GradeInput {
+  task: GradingTask | ModerationTask;
+  marks: number;
+  rubric_scores?: RubricScore[];
+  feedback?: string;
+}
+
+// Teacher id for graded_by; the stored user carries teacher_id when it differs from the user id
+const getGraderId = (): number | null => {
+  try {
+    const stored = localStorage.getItem('user');
+    if (!stored) return null;
+    const user = JSON.parse(stored);
+    const id = Number(user.teacher_id ?? user.id);
+    return Number.isFinite(id) ? id : null;
+  } catch {
+    return null;
+  }
+};
+
+async function fetchGradingData(): Promise<GradingData> {
+  const batches = await Promise.all(
+    GRADABLE_STATUSES.map(status => apiService.getStudentAttempts({ status }))
+  );
+  const attempts = batches.flat();
+
+  const attemptIds = attempts.map(attempt => attempt.id);
+  const answerLists = await Promise.all(
+    Array.from({ length: Math.ceil(attemptIds.length / ANSWER_BATCH_SIZE) }, (_, index) =>
+      apiService.getAttemptAnswers({ attempt_ids: attemptIds.slice(index * ANSWER_BATCH_SIZE, (index + 1) * ANSWER_BATCH_SIZE) })
+    )
+  );
+
+  const examIds = Array.from(new Set(attempts.map(attempt => attempt.monthly_exam_id)));
+  const [questionLists, examList] = await Promise.all([
+    Promise.all(examIds.map(examId => apiService.getExamQuestions(examId))),
+    Promise.all(examIds.map(examId => apiService.getExam(examId))),
+  ]);
+
+  // Individual marker marks only exist for double-marked exams. The server
+  // holds back the other marker's mark until both are in, so marking stays blind.
+  const graderId = getGraderId();
+  const markLists = graderId === null ? [] : await Promise.all(
+    examList
+      .filter(exam => isDoubleMarked(exam))
+      .map(exam => apiService.getAnswerMarks({ monthly_exam_id: exam.id, marker_id: graderId }))
+  );
+
+  const answers: Record<number, AttemptAnswer[]> = {};
+  attempts.forEach(attempt => {
+    answers[attempt.id] = [];
+  });
+  answerLists.flat().forEach(answer => {
+    (answers[answer.attempt_id] ??= []).push(answer);
+  });
+
+  const examQuestions: Record<number, ExamQuestion[]> = {};
+  const exams: Record<number, MonthlyExam> = {};
+  examIds.forEach((examId, index) => {
+    examQuestions[examId] = questionLists[index];
+    exams[examId] = examList[index];
+  });
+
+  const marks: Record<number, AnswerMark[]> = {};
+  markLists.flat().forEach(mark => {
+    (marks[mark.attempt_answer_id] ??= []).push(mark);
+  });
+
+  return { attempts, answers, examQuestions, exams, marks };
+}
+
+// Tell other teachers marking has started
+async function markGradingStarted(attempt: StudentAttempt): Promise<StudentAttempt['status']> {
+  if (attempt.status !== 'submitted') return attempt.status;
+  await apiService.updateStudentAttempt(attempt.id, { status: 'grading' });
+  return 'grading';
+}
+
+export const useGradingQueue = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, isError, refetch } = useQuery<GradingData>(
+    GRADING_QUEUE_KEY,
+    fetchGradingData,
+    {
+      staleTime: 60 * 1000, // 1 minute
+    }
+  );
+
+  const graderId = useMemo(getGraderId, []);
+  const exams = useMemo(() => (data ? buildGradingQueue(data, graderId) : []), [data, graderId]);
+  const moderation = useMemo(() => (data ? buildModerationQueue(data, graderId) : []), [data, graderId]);
+
+  /**
+   * Save marks for one answer; the attempt becomes graded when nothing is left to mark
+   */
+  const gradeMutation = useMutation(
+    async ({ task, marks, rubric_scores, feedback }: GradeInput) => {
+      const current = queryClient.getQueryData<GradingData>(GRADING_QUEUE_KEY);
+      const gradedAt = new Date().toISOString();
+      const currentAnswers = current?.answers[task.attempt.id] || [task.answer];
+
+      let finalMarks = marks;
+      let finalRubric = rubric_scores;
+      let finalFeedback = feedback;
+      let answerMarks: AnswerMark[] | undefined;
+
+      const role = task.marker_role ?? ('first_mark' in task ? 'moderator' : undefined);
+      if (role) {
+        if (graderId === null) throw new Error('Only teachers can record marks on double-marked exams');
+
+        const mark = await apiService.createAnswerMark({
+          attempt_answer_id: task.answer.id,
+          monthly_exam_id: task.attempt.monthly_exam_id,
+          marker_id: graderId,
+          role,
+          marks,
+          ...(rubric_scores !== undefined && { rubric_scores }),
+          ...(feedback && { feedback }),
+        });
+        // Read back rather than merging locally: the other marker's mark only comes back once both are in
+        answerMarks = await apiService.getAnswerMarks({ attempt_answer_id: task.answer.id, marker_id: graderId });
+        if (!answerMarks.some(item => item.id === mark.id)) answerMarks = [...answerMarks, mark];
+
+        const threshold = current?.exams?.[task.attempt.monthly_exam_id]?.moderation_threshold;
+        const outcome = resolveDoubleMarks(answerMarks, task.max_marks, threshold);
+        if (outcome.final_marks === undefined) {
+          // Waiting for the other marker, or for the moderator
+          const status = await markGradingStarted(task.attempt);
+          return { attemptId: task.attempt.id, answers: currentAnswers, status, answerId: task.answer.id, answerMarks };
+        }
+
+        finalMarks = outcome.final_marks;
+        if (outcome.stage === 'agreed') {
+          // Each marker used the rubric separately, so only the averaged mark and their comments carry over
+          finalRubric = undefined;
+          finalFeedback = mergeMarkerFeedback(answerMarks);
+        }
+      }
+
+      const saved = await apiService.updateAttemptAnswer(task.answer.id, {
+        marks_awarded: finalMarks,
+        graded_by: graderId,
+        graded_at: gradedAt,
+        ...(finalRubric !== undefined && { rubric_scores: finalRubric }),
+        ...(finalFeedback !== undefined && { feedback: finalFeedback || null }),
+      });
+
+      const answer: AttemptAnswer = {
+        ...task.answer,
+        ...saved,
+        marks_awarded: finalMarks,
+        graded_at: saved?.graded_at ?? gradedAt,
+        ...(finalRubric !== undefined && { rubric_scores: finalRubric }),
+        ...(finalFeedback !== undefined && { feedback: finalFeedback }),
+      };
+
+      const answers = currentAnswers.map(item => (item.id === answer.id ? answer : item));
+      const settings = current?.exams?.[task.attempt.monthly_exam_id] ?? task.attempt.monthly_exam;
+      const examQuestions = drawAttemptQuestions(task.attempt, settings, current?.examQuestions[task.attempt.monthly_exam_id] || []);
+
+      let status = task.attempt.status;
+      if (isAttemptFullyGraded(answers, examQuestions)) {
+        // Same rules as the results breakdown, so negative marking and partial credit count
+        const score = scoreAttempt(answers, examQuestions, settings);
+
+        await apiService.updateStudentAttempt(task.attempt.id, {
+          status: 'graded',
+          total_score: score.total,
+          percent: score.percent ?? undefined,
+        });
+        status = 'graded';
+      } else {
+        status = await markGradingStarted(task.attempt);
+      }
+
+      return { attemptId: task.attempt.id, answers, status, answerId: task.answer.id, answerMarks };
+    },
+    {
+      onSuccess: ({ attemptId, answers, status, answerId, answerMarks }) => {
+        queryClient.setQueryData<GradingData | undefined>(GRADING_QUEUE_KEY, previous => previous && {
+          ...previous,
+          attempts: previous.attempts.map(attempt => (attempt.id === attemptId ? { ...attempt, status } : attempt)),
+          answers: { ...previous.answers, [attemptId]: answers },
+          ...(answerMarks && { marks: { ...previous.marks, [answerId]: answerMarks } }),
+        });
+      },
+      onError: (error: unknown) => {
+        console.error('Failed to save marks:', error);
+      },
+    }
+  );
+
+  return {
+    exams,
+    moderation,
+    pendingCount: exams.reduce((total, exam) => total + exam.pending_count, 0) + moderation.length,
+    isLoading,
+    isError,
+    refetch,
+    grade: gradeMutation.mutateAsync,
+    isSaving: gradeMutation.isLoading,
+  };
+};
+
+export default useGradingQueue;
@@ -0,0 +1,166 @@
+/**
+ * useOfflineQueue Hook
+ * Processes the offline request queue in the background and exposes it,
+ * along with the dead-letter store, for inspection and manual recovery.
+ * Only one tab (the leader) sends queued requests, so none is sent twice.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import apiService from '../services/api';
+import {
+  getQueue,
+  getDeadLetters,
+  processQueue,
+  removeRequest,
+  retryNow,
+  retryDeadLetter,
+  discardDeadLetter,
+} from '../services/offlineQueue';
+import type { QueuedRequest, DeadLetterRequest, ProcessQueueResult } from '../services/offlineQueue';
+import { clearJournal, replayJournal } from '../services/answerJournal';
+import { useTabLeadership } from './useTabLeadership';
+
+interface OfflineQueueState {
+  queue: QueuedRequest[];
+  deadLetters: DeadLetterRequest[];
+  isProcessing: boolean;
+  isOnline: boolean;
+  lastResult: ProcessQueueResult | null;
+  lastProcessedAt: Date | null;
+}
+
+/**
+ * Send a queued request. A submit first replays the answers journaled for its
+ * attempt and waits for a later pass while any are left, so it never closes
+ * the attempt ahead of them.
+ */
+const executeQueuedRequest = async (request: QueuedRequest): Promise<unknown> => {
+  const attemptId = request.submitsAttempt;
+  if (!attemptId) return apiService.replayQueuedRequest(request);
+
+  const { remaining } = await replayJournal(attemptId, {
+    save: (entry, idempotencyKey) => apiService.saveJournalEntry(attemptId, entry, idempotencyKey),
+    fetchServerAnswers: () => apiService.getAttemptAnswers({ attempt_id: Number(attemptId) }),
+  });
+  if (remaining > 0) {
+    throw new Error(`${remaining} answer${remaining === 1 ? ' is' : 's are'} still waiting to be saved`);
+  }
+
+  const result = await apiService.replayQueuedRequest(request);
+  await clearJournal(attemptId);
+  return result;
+};
+
+export const useOfflineQueue = (checkInterval: number = 5000) => {
+  const [state, setState] = useState<OfflineQueueState>({
+    queue: [],
+    deadLetters: [],
+    isProcessing: false,
+    isOnline: navigator.onLine,
+    lastResult: null,
+    lastProcessedAt: null,
+  });
+
+  const isProcessing = useRef(false);
+
+  // Every tab shows the queue, but only the leader sends it
+  const { isLeader } = useTabLeadership({ channelName: 'offline_request_queue' });
+  const isLeaderRef = useRef(isLeader);
+  isLeaderRef.current = isLeader;
+
+  const refresh = useCallback(async () => {
+    const [queue, deadLetters] = await Promise.all([getQueue(), getDeadLetters()]);
+    setState(prev => ({ ...prev, queue, deadLetters }));
+    return queue;
+  }, []);
+
+  /**
+   * Send queued requests whose backoff has elapsed (or all of them when forced)
+   */
+  const process = useCallback(async (force: boolean = false) => {
+    if (isProcessing.current || !isLeaderRef.current || !navigator.onLine) return;
+    isProcessing.current = true;
+    setState(prev => ({ ...prev, isProcessing: true }));
+
+    try {
+      const result = await processQueue(executeQueuedRequest, { force });
+      setState(prev => ({ ...prev, lastResult: result, lastProcessedAt: new Date() }));
+    } catch (error) {
+      console.error('Failed to process offline queue:', error);
+    } finally {
+      isProcessing.current = false;
+      setState(prev => ({ ...prev, isProcessing: false }));
+      await refresh();
+    }
+  }, [refresh]);
+
+  // Retry a queued request without waiting for its backoff
+  const retryRequest = useCallback(async (requestId: string) => {
+    await retryNow(requestId);
+    await process();
+  }, [process]);
+
+  const discardRequest = useCallback(async (requestId: string) => {
+    await removeRequest(requestId);
+    await refresh();
+  }, [refresh]);
+
+  // Give a dead-lettered request a fresh retry budget and send it
+  const retryDeadLetterRequest = useCallback(async (requestId: string) => {
+    await retryDeadLetter(requestId);
+    await process();
+  }, [process]);
+
+  const discardDeadLetterRequest = useCallback(async (requestId: string) => {
+    await discardDeadLetter(requestId);
+    await refresh();
+  }, [refresh]);
+
+  // Process when connectivity returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setState(prev => ({ ...prev, isOnline: true }));
+      process(true);
+    };
+
+    const handleOffline = () => {
+      setState(prev => ({ ...prev, isOnline: false }));
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [process]);
+
+  // Pick up requests queued anywhere in the app and retry them as their backoff elapses
+  useEffect(() => {
+    const tick = async () => {
+      const queue = await refresh();
+      const now = Date.now();
+      if (queue.some(request => !request.nextAttemptAt || request.nextAttemptAt <= now)) {
+        process();
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, checkInterval);
+
+    return () => clearInterval(interval);
+  }, [checkInterval, process, refresh]);
+
+  return {
+    ...state,
+    refresh,
+    processNow: () => process(true),
+    retryRequest,
+    discardRequest,
+    retryDeadLetterRequest,
+    discardDeadLetterRequest,
+  };
+};
+
+export default useOfflineQueue;
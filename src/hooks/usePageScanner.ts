@@ -0,0 +1,167 @@
+/**
+ * usePageScanner Hook
+ * Collects photographed answer pages: compresses each image as it is added,
+ * lets the student reorder and rotate pages, and assembles them into one PDF
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { compressImage, nextRotation } from '../utils/imageCompression';
+import type { CompressedImage, PageRotation } from '../utils/imageCompression';
+import { buildPdf } from '../utils/pdfBuilder';
+
+export interface ScannedPage {
+  id: string;
+  source: File; // kept so a rotation re-encodes from the original, not a copy
+  rotation: PageRotation;
+  image: CompressedImage;
+  previewUrl: string;
+}
+
+export const MAX_SCANNED_PAGES = 30;
+
+let pageCounter = 0;
+const nextPageId = () => `page-${Date.now()}-${++pageCounter}`;
+
+export const usePageScanner = () => {
+  const [pages, setPages] = useState<ScannedPage[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pagesRef = useRef<ScannedPage[]>([]);
+
+  useEffect(() => {
+    pagesRef.current = pages;
+  }, [pages]);
+
+  // Release every preview when the card goes away
+  useEffect(() => {
+    return () => {
+      pagesRef.current.forEach(page => URL.revokeObjectURL(page.previewUrl));
+    };
+  }, []);
+
+  /**
+   * Compress and append images, in the order they were chosen
+   */
+  const addImages = useCallback(async (files: FileList | File[]) => {
+    const images = Array.from(files).filter(file => file.type.startsWith('image/'));
+    const skipped = Array.from(files).length - images.length;
+    const room = MAX_SCANNED_PAGES - pagesRef.current.length;
+
+    setError(null);
+    if (images.length === 0) {
+      if (skipped > 0) setError('Only photos or images can be added as pages');
+      return;
+    }
+
+    setIsProcessing(true);
+    const failed: string[] = [];
+
+    for (const file of images.slice(0, Math.max(0, room))) {
+      try {
+        const image = await compressImage(file);
+        const page: ScannedPage = {
+          id: nextPageId(),
+          source: file,
+          rotation: 0,
+          image,
+          previewUrl: URL.createObjectURL(image.blob),
+        };
+        setPages(prev => [...prev, page]);
+      } catch (err) {
+        console.error('Failed to process image:', err);
+        failed.push(file.name);
+      }
+    }
+
+    setIsProcessing(false);
+
+    if (images.length > room) {
+      setError(`An answer can have at most ${MAX_SCANNED_PAGES} pages`);
+    } else if (failed.length > 0) {
+      setError(`Could not read ${failed.join(', ')}`);
+    } else if (skipped > 0) {
+      setError('Files that are not images were skipped');
+    }
+  }, []);
+
+  const movePage = useCallback((id: string, direction: -1 | 1) => {
+    setPages(prev => {
+      const index = prev.findIndex(page => page.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  /**
+   * Turn a page a quarter clockwise, for photos the camera saved sideways
+   */
+  const rotatePage = useCallback(async (id: string) => {
+    const page = pagesRef.current.find(item => item.id === id);
+    if (!page) return;
+
+    setIsProcessing(true);
+    try {
+      const rotation = nextRotation(page.rotation);
+      const image = await compressImage(page.source, { rotation });
+      const previewUrl = URL.createObjectURL(image.blob);
+
+      setPages(prev => prev.map(item => (item.id === id ? { ...item, rotation, image, previewUrl } : item)));
+      URL.revokeObjectURL(page.previewUrl);
+    } catch (err) {
+      console.error('Failed to rotate image:', err);
+      setError(`Could not rotate ${page.source.name}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, []);
+
+  const removePage = useCallback((id: string) => {
+    setPages(prev => {
+      const page = prev.find(item => item.id === id);
+      if (page) URL.revokeObjectURL(page.previewUrl);
+      return prev.filter(item => item.id !== id);
+    });
+  }, []);
+
+  const clear = useCallback(() => {
+    pagesRef.current.forEach(page => URL.revokeObjectURL(page.previewUrl));
+    setPages([]);
+    setError(null);
+  }, []);
+
+  /**
+   * Merge the pages, in their current order, into one PDF file
+   */
+  const buildDocument = useCallback(async (fileName: string): Promise<File> => {
+    const pdfPages = await Promise.all(
+      pagesRef.current.map(async page => ({
+        jpeg: new Uint8Array(await page.image.blob.arrayBuffer()),
+        width: page.image.width,
+        height: page.image.height,
+      }))
+    );
+
+    return new File([buildPdf(pdfPages)], fileName, { type: 'application/pdf' });
+  }, []);
+
+  return {
+    pages,
+    isProcessing,
+    error,
+    originalBytes: pages.reduce((total, page) => total + page.source.size, 0),
+    compressedBytes: pages.reduce((total, page) => total + page.image.blob.size, 0),
+    addImages,
+    movePage,
+    rotatePage,
+    removePage,
+    clear,
+    buildDocument,
+  };
+};
+
+export default usePageScanner;
@@ -0,0 +1,260 @@
+/**
+ * useProctoringRisk Hook
+ * Per-attempt proctoring summaries and risk scores for the monitoring grid.
+ * Seeds from the recorded events of active attempts, follows new ones over the
+ * WebSocket and raises an alert when an attempt crosses the risk threshold.
+ * Events are held per exam and only for attempts on the grid, so the store is
+ * bounded by what is being watched.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useQuery } from 'react-query';
+import apiService from '../services/api';
+import websocketService from '../services/websocket';
+import type { ProctorEventPayload } from '../services/websocket';
+import type { AttemptTable, MonitoredAttempt } from '../utils/attemptMonitor';
+import {
+  buildProctoringSummaries,
+  computeRiskScore,
+  getProctoringEventKey,
+  getHiddenMs,
+  getRiskLevel,
+  DEFAULT_RISK_SETTINGS,
+} from '../utils/proctoringRisk';
+import type { ProctoringSummary, RiskLevel, RiskSettings } from '../utils/proctoringRisk';
+
+export interface AttemptRisk {
+  score: number;
+  level: RiskLevel;
+  hiddenMs: number;
+}
+
+export interface RiskAlert {
+  attempt_id: number;
+  score: number;
+  raised_at: string;
+}
+
+const SETTINGS_KEY = 'proctoring_risk_settings';
+const TICK_INTERVAL = 5000; // re-score open hidden periods
+const PENDING_EVENTS_LIMIT = 200; // live events whose attempt hasn't reached the grid yet
+
+// Recorded events per exam id, each kept once under its event key
+type EventStore = Map<number, Map<string, ProctorEventPayload>>;
+
+// Rows streamed before their snapshot may not know their exam yet
+const examOf = (row: MonitoredAttempt): number => row.monthly_exam_id ?? 0;
+
+const loadSettings = (): RiskSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_RISK_SETTINGS;
+
+    const parsed = JSON.parse(stored) as Partial<RiskSettings>;
+    return {
+      weights: { ...DEFAULT_RISK_SETTINGS.weights, ...parsed.weights },
+      alertThreshold: parsed.alertThreshold ?? DEFAULT_RISK_SETTINGS.alertThreshold,
+    };
+  } catch {
+    return DEFAULT_RISK_SETTINGS;
+  }
+};
+
+export const useProctoringRisk = (attempts: AttemptTable) => {
+  const [summaries, setSummaries] = useState<Record<number, ProctoringSummary>>({});
+  const [settings, setSettings] = useState<RiskSettings>(loadSettings);
+  const [alerts, setAlerts] = useState<RiskAlert[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const knownEvents = useRef<EventStore>(new Map());
+  const pendingEvents = useRef<ProctorEventPayload[]>([]);
+  const alertedAttempts = useRef<Set<number>>(new Set());
+  const attemptsRef = useRef<AttemptTable>(attempts);
+
+  const rebuild = useCallback(() => {
+    const events = Array.from(knownEvents.current.values()).flatMap(bucket => Array.from(bucket.values()));
+    setSummaries(buildProctoringSummaries(events));
+  }, []);
+
+  // Events are recorded by the API and streamed live, in no particular order;
+  // keep each one once under its attempt's exam and rebuild the summaries in time order
+  const ingest = useCallback((events: ProctorEventPayload[]) => {
+    let changed = false;
+
+    events.forEach(event => {
+      const row = attemptsRef.current[event.attempt_id];
+      if (!row) {
+        // A live event can beat its attempt's start onto the grid; hold it until the row arrives
+        pendingEvents.current = [...pendingEvents.current, event].slice(-PENDING_EVENTS_LIMIT);
+        return;
+      }
+
+      const examId = examOf(row);
+      const bucket = knownEvents.current.get(examId) ?? new Map<string, ProctorEventPayload>();
+      knownEvents.current.set(examId, bucket);
+
+      const key = getProctoringEventKey(event);
+      if (!bucket.has(key)) {
+        bucket.set(key, event);
+        changed = true;
+      }
+    });
+
+    if (changed) rebuild();
+  }, [rebuild]);
+
+  // Drop the events of exams and attempts that have left the grid, and place held events
+  useEffect(() => {
+    attemptsRef.current = attempts;
+
+    // Re-bucket rather than delete in place: a row can learn its exam after its first events
+    const store: EventStore = new Map();
+    let pruned = false;
+    knownEvents.current.forEach(bucket => bucket.forEach((event, key) => {
+      const row = attempts[event.attempt_id];
+      if (!row) {
+        pruned = true;
+        return;
+      }
+
+      const examId = examOf(row);
+      const target = store.get(examId) ?? new Map<string, ProctorEventPayload>();
+      store.set(examId, target);
+      target.set(key, event);
+    }));
+    knownEvents.current = store;
+
+    alertedAttempts.current.forEach(attemptId => {
+      if (!attempts[attemptId]) alertedAttempts.current.delete(attemptId);
+    });
+    setAlerts(prev => {
+      const kept = prev.filter(alert => attempts[alert.attempt_id]);
+      return kept.length === prev.length ? prev : kept;
+    });
+
+    const ready = pendingEvents.current.filter(event => attempts[event.attempt_id]);
+    pendingEvents.current = pendingEvents.current.filter(event => !ready.includes(event));
+
+    ingest(ready);
+    if (pruned) rebuild();
+  }, [attempts, ingest, rebuild]);
+
+  // Exams on the grid, as a string key so the history only reloads when the set changes
+  const examKey = useMemo(() => Array.from(new Set(
+    Object.values(attempts)
+      .map(row => row.monthly_exam_id)
+      .filter((examId): examId is number => typeof examId === 'number')
+  )).sort((a, b) => a - b).join(','), [attempts]);
+
+  // History since the earliest active attempt started
+  const since = useMemo(() => {
+    const starts = Object.values(attempts)
+      .filter(row => row.status === 'in_progress' && row.started_at)
+      .map(row => Date.parse(row.started_at!))
+      .filter(time => !isNaN(time));
+
+    return starts.length > 0 ? new Date(Math.min(...starts)).toISOString() : null;
+  }, [attempts]);
+
+  const { data: history } = useQuery(
+    ['proctoringHistory', examKey, since],
+    async () => {
+      const lists = await Promise.all(examKey.split(',').map(examId =>
+        apiService.getProctoringEvents({ monthly_exam_id: Number(examId), start_date: since! })
+      ));
+      return lists.flat();
+    },
+    {
+      enabled: since !== null && examKey !== '',
+      staleTime: Infinity,
+    }
+  );
+
+  useEffect(() => {
+    if (!history) return;
+
+    ingest(history.filter(event => attemptsRef.current[event.attempt_id]).map(event => ({
+      id: event.id,
+      attempt_id: event.attempt_id,
+      event_type: event.event_type,
+      event_time: event.event_time,
+      details: event.details ?? undefined,
+    })));
+  }, [history, ingest]);
+
+  // Live events
+  useEffect(() => {
+    return websocketService.on('proctor_event', data => ingest([data]));
+  }, [ingest]);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const risks = useMemo(() => {
+    const result: Record<number, AttemptRisk> = {};
+
+    Object.values(attempts).forEach(row => {
+      const summary = summaries[row.attempt_id];
+      if (!summary) {
+        result[row.attempt_id] = { score: 0, level: 'low', hiddenMs: 0 };
+        return;
+      }
+
+      // A finished attempt can't be hidden any more; stop its clock at the finish time
+      const at = row.finished_at ? Date.parse(row.finished_at) : now;
+      const score = computeRiskScore(summary, settings.weights, at);
+      result[row.attempt_id] = {
+        score,
+        level: getRiskLevel(score, settings.alertThreshold),
+        hiddenMs: getHiddenMs(summary, at),
+      };
+    });
+
+    return result;
+  }, [attempts, summaries, settings, now]);
+
+  // Alert once per crossing; an attempt that drops back below the threshold can alert again
+  useEffect(() => {
+    const raised: RiskAlert[] = [];
+
+    Object.entries(risks).forEach(([id, risk]) => {
+      const attemptId = Number(id);
+
+      if (risk.score < settings.alertThreshold) {
+        alertedAttempts.current.delete(attemptId);
+      } else if (!alertedAttempts.current.has(attemptId) && attempts[attemptId]?.status === 'in_progress') {
+        alertedAttempts.current.add(attemptId);
+        raised.push({ attempt_id: attemptId, score: risk.score, raised_at: new Date().toISOString() });
+      }
+    });
+
+    if (raised.length > 0) {
+      setAlerts(prev => [
+        ...raised,
+        ...prev.filter(alert => !raised.some(r => r.attempt_id === alert.attempt_id)),
+      ]);
+    }
+  }, [risks, attempts, settings.alertThreshold]);
+
+  const dismissAlert = useCallback((attemptId: number) => {
+    setAlerts(prev => prev.filter(alert => alert.attempt_id !== attemptId));
+  }, []);
+
+  const updateSettings = useCallback((next: RiskSettings) => {
+    setSettings(next);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  }, []);
+
+  return {
+    summaries,
+    risks,
+    alerts,
+    settings,
+    dismissAlert,
+    updateSettings,
+  };
+};
+
+export default useProctoringRisk;
@@ -0,0 +1,122 @@
+/**
+ * useQuestionImport Hook
+ * Reads a QTI, GIFT or CSV file into a checked preview against the bank's
+ * existing prompts, then creates the chosen questions in batches and reports
+ * progress and any rows the server turned down.
+ */
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from 'react-query';
+import apiService from '../services/api';
+import { checkImportedQuestions, parseCsvQuestions } from '../utils/questionImport';
+import type { ImportedQuestion, ImportFormat } from '../utils/questionImport';
+import { parseGiftQuestions } from '../utils/giftParser';
+import { parseQtiQuestions } from '../utils/qtiParser';
+
+// Questions sent per request while importing
+const BATCH_SIZE = 25;
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface FailedImportRow {
+  row: number;
+  message: string;
+}
+
+const parsers: Record<ImportFormat, (text: string) => ImportedQuestion[]> = {
+  qti: text => parseQtiQuestions(text),
+  gift: parseGiftQuestions,
+  csv: parseCsvQuestions,
+};
+
+const errorMessage = (error: unknown) =>
+  (error as { response?: { data?: { message?: string } } })?.response?.data?.message || 'The server rejected these questions';
+
+export const useQuestionImport = (bankId?: number | string) => {
+  const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<ImportedQuestion[] | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [failed, setFailed] = useState<FailedImportRow[]>([]);
+
+  const previewMutation = useMutation(
+    async ({ format, text }: { format: ImportFormat; text: string }) => {
+      const existing = bankId ? await apiService.getQuestions(Number(bankId)) : [];
+      return checkImportedQuestions(parsers[format](text), existing.map(question => question.prompt));
+    },
+    {
+      onSuccess: questions => setPreview(questions),
+      onError: (error: unknown) => {
+        console.error('Failed to read the import file:', error);
+      },
+    }
+  );
+
+  /**
+   * Create the questions batch by batch. A rejected batch is recorded against
+   * its rows and the rest carry on; resolves with the number created.
+   * targetBankId sends them to another bank, such as one made for a bundle.
+   */
+  const importMutation = useMutation(
+    async ({ questions, authorId, targetBankId = bankId }: { questions: ImportedQuestion[]; authorId: number; targetBankId?: number | string }) => {
+      let created = 0;
+      const rejected: FailedImportRow[] = [];
+      setFailed([]);
+      setProgress({ done: 0, total: questions.length });
+
+      for (let start = 0; start < questions.length; start += BATCH_SIZE) {
+        const batch = questions.slice(start, start + BATCH_SIZE);
+        try {
+          const saved = await apiService.createQuestions(Number(targetBankId), batch.map(question => ({
+            author_id: question.author_id ?? authorId,
+            type: question.type,
+            prompt: question.prompt,
+            default_marks: question.default_marks,
+            metadata: question.metadata,
+            ...(question.choices.length > 0 && { choices: question.choices }),
+          })));
+          created += saved.length;
+        } catch (error) {
+          const message = errorMessage(error);
+          rejected.push(...batch.map(question => ({ row: question.row, message })));
+          setFailed([...rejected]);
+        }
+        setProgress({ done: Math.min(start + batch.length, questions.length), total: questions.length });
+      }
+
+      return created;
+    },
+    {
+      onSettled: (_created, _error, { targetBankId = bankId }) => {
+        queryClient.invalidateQueries(['questions', String(targetBankId)]);
+        queryClient.invalidateQueries('question-banks');
+      },
+      onError: (error: unknown) => {
+        console.error('Failed to import questions:', error);
+      },
+    }
+  );
+
+  const reset = () => {
+    setPreview(null);
+    setProgress(null);
+    setFailed([]);
+    importMutation.reset();
+  };
+
+  return {
+    preview,
+    readFile: previewMutation.mutateAsync,
+    isReading: previewMutation.isLoading,
+    importQuestions: importMutation.mutateAsync,
+    isImporting: importMutation.isLoading,
+    created: importMutation.data,
+    progress,
+    failed,
+    reset,
+  };
+};
+
+export default useQuestionImport;
@@ -1,52 +1,124 @@
 import { useState, useEffect, useCallback } from 'react';
 import apiService from '../services/api';
+import { createClockSample, estimateClockOffset, calculateDrift } from '../utils/clockSync';
+import type { ClockEstimate, ClockSample, SyncConfidence } from '../utils/clockSync';
 
 interface TimeSyncState {
   serverTime: Date | null;
   offset: number; // milliseconds
+  roundTripTime: number | null; // milliseconds
+  uncertainty: number | null; // +/- milliseconds
+  confidence: SyncConfidence;
+  drift: number | null; // milliseconds per minute since the previous sync
   isSyncing: boolean;
   lastSyncedAt: Date | null;
+  lastSyncFailed: boolean; // the most recent sync got no usable samples
 }
 
-export const useServerTimeSync = () => {
+interface ClockMeasurement {
+  estimate: ClockEstimate;
+  drift: number | null;
+  syncedAt: number;
+}
+
+// Reuse a measurement this recent instead of sampling again
+const MEASUREMENT_REUSE_MS = 60 * 1000;
+
+// Shared across hook instances so several consumers on one page don't each sample the server
+let lastMeasurement: ClockMeasurement | null = null;
+let inFlightMeasurement: Promise<ClockMeasurement | null> | null = null;
+
+const takeSamples = async (sampleCount: number): Promise<ClockMeasurement | null> => {
+  const samples: ClockSample[] = [];
+
+  // Take samples one after another so they don't compete for bandwidth
+  for (let i = 0; i < sampleCount; i++) {
+    try {
+      const requestSentAt = Date.now();
+      const response = await apiService.getServerTime();
+      const responseReceivedAt = Date.now();
+
+      const serverTime = response.epoch_ms ?? Date.parse(response.server_time);
+      if (isNaN(serverTime)) continue;
+
+      samples.push(createClockSample(requestSentAt, serverTime, responseReceivedAt));
+    } catch (error) {
+      console.warn('Clock sync sample failed:', error);
+    }
+  }
+
+  const estimate = estimateClockOffset(samples);
+  if (!estimate) return null;
+
+  const syncedAt = Date.now();
+  const drift = lastMeasurement
+    ? calculateDrift(lastMeasurement.estimate.offset, lastMeasurement.syncedAt, estimate.offset, syncedAt)
+    : null;
+
+  lastMeasurement = { estimate, drift, syncedAt };
+  return lastMeasurement;
+};
+
+const measureServerClock = (sampleCount: number): Promise<ClockMeasurement | null> => {
+  if (lastMeasurement && Date.now() - lastMeasurement.syncedAt < MEASUREMENT_REUSE_MS) {
+    return Promise.resolve(lastMeasurement);
+  }
+
+  if (!inFlightMeasurement) {
+    inFlightMeasurement = takeSamples(sampleCount).finally(() => {
+      inFlightMeasurement = null;
+    });
+  }
+
+  return inFlightMeasurement;
+};
+
+export const useServerTimeSync = (sampleCount: number = 5) => {
   const [timeSyncState, setTimeSyncState] = useState<TimeSyncState>({
     serverTime: null,
     offset: 0,
+    roundTripTime: null,
+    uncertainty: null,
+    confidence: 'none',
+    drift: null,
     isSyncing: false,
     lastSyncedAt: null,
+    lastSyncFailed: false,
   });
 
   const syncTime = useCallback(async () => {
     setTimeSyncState(prev => ({ ...prev, isSyncing: true }));
 
-    try {
-      // For now, we'll use client time since there's no specific time endpoint
-      // In a real implementation, you would call an endpoint that returns server time
-      const serverTime = new Date();
-      
-      // Calculate offset
-      const clientTime = new Date();
-      const offset = serverTime.getTime() - clientTime.getTime();
-      
-      setTimeSyncState({
-        serverTime,
-        offset,
-        isSyncing: false,
-        lastSyncedAt: new Date(),
-      });
-    } catch (error) {
-      console.error('Failed to sync time with server:', error);
-      setTimeSyncState(prev => ({ ...prev, isSyncing: false }));
+    const result = await measureServerClock(sampleCount);
+
+    if (!result) {
+      console.error('Failed to sync time with server: no usable samples');
+      setTimeSyncState(prev => ({ ...prev, isSyncing: false, lastSyncFailed: true }));
+      return;
     }
-  }, []);
+
+    const { estimate, drift, syncedAt } = result;
+
+    setTimeSyncState({
+      serverTime: new Date(syncedAt + estimate.offset),
+      offset: estimate.offset,
+      roundTripTime: estimate.roundTrip,
+      uncertainty: estimate.uncertainty,
+      confidence: estimate.confidence,
+      drift,
+      isSyncing: false,
+      lastSyncedAt: new Date(syncedAt),
+      lastSyncFailed: false,
+    });
+  }, [sampleCount]);
 
   // Sync time on mount and periodically
   useEffect(() => {
     syncTime();
-    
+
     // Sync every 5 minutes
     const interval = setInterval(syncTime, 5 * 60 * 1000);
-    
+
     return () => clearInterval(interval);
   }, [syncTime]);
 
@@ -63,4 +135,4 @@ export const useServerTimeSync = () => {
   };
 };
 
-export default useServerTimeSync;
\ No newline at end of file
+export default useServerTimeSync;
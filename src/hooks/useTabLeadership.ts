@@ -0,0 +1,70 @@
+/**
+ * useTabLeadership Hook
+ * Coordinates browser tabs that open the same exam attempt so only one of them
+ * (the leader) saves answers and runs proctoring
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { TabCoordinator } from '../services/tabCoordinator';
+import type { TabRole } from '../services/tabCoordinator';
+
+interface TabLeadershipConfig {
+  channelName: string;
+  enabled?: boolean;
+}
+
+interface TabLeadershipState {
+  role: TabRole;
+  leaderId: string | null;
+  detectedTab: { tabId: string; detectedAt: Date } | null; // last other tab seen while leading
+}
+
+export const useTabLeadership = (config: TabLeadershipConfig) => {
+  const { channelName, enabled = true } = config;
+
+  const [state, setState] = useState<TabLeadershipState>({
+    role: enabled ? 'electing' : 'leader',
+    leaderId: null,
+    detectedTab: null,
+  });
+
+  const coordinatorRef = useRef<TabCoordinator | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setState(prev => ({ ...prev, role: 'leader', leaderId: null }));
+      return;
+    }
+
+    const coordinator = new TabCoordinator({
+      channelName,
+      onRoleChange: (role, leaderId) => setState(prev => ({ ...prev, role, leaderId })),
+      onTabDetected: (tabId) => setState(prev => ({
+        ...prev,
+        detectedTab: { tabId, detectedAt: new Date() },
+      })),
+    });
+
+    coordinatorRef.current = coordinator;
+    coordinator.start();
+
+    return () => {
+      coordinator.stop();
+      coordinatorRef.current = null;
+    };
+  }, [channelName, enabled]);
+
+  // Move leadership to this tab (e.g. the student chose to continue here)
+  const takeOver = useCallback(() => {
+    coordinatorRef.current?.takeOver();
+  }, []);
+
+  return {
+    ...state,
+    isLeader: state.role === 'leader',
+    isFollower: state.role === 'follower',
+    takeOver,
+  };
+};
+
+export default useTabLeadership;
@@ -0,0 +1,151 @@
+/**
+ * useTeacherMessages Hook
+ * Sends announcements and private messages to students taking an exam and
+ * collects their acknowledgement receipts from the proctoring event stream.
+ * Messages are stored through the API, so the sent list and receipts survive a reload.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import apiService from '../services/api';
+import websocketService from '../services/websocket';
+import type { TeacherMessagePayload } from '../services/websocket';
+import type { AttemptTable } from '../utils/attemptMonitor';
+
+export interface MessageDraft {
+  scope: TeacherMessagePayload['scope'];
+  monthly_exam_id: number;
+  attempt_id?: number;
+  body: string;
+  priority: TeacherMessagePayload['priority'];
+}
+
+export interface SentMessage extends TeacherMessagePayload {
+  recipients: number[]; // attempts in progress when the message was sent
+}
+
+export interface MessageReceipt {
+  attempt_id: number;
+  acknowledged_at: string;
+}
+
+const getSenderName = (): string | undefined => {
+  try {
+    const stored = localStorage.getItem('user');
+    return stored ? JSON.parse(stored).name : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const addReceipt = (
+  receipts: Record<string, MessageReceipt[]>,
+  messageId: string,
+  receipt: MessageReceipt
+): Record<string, MessageReceipt[]> => {
+  const existing = receipts[messageId] || [];
+  if (existing.some(known => known.attempt_id === receipt.attempt_id)) return receipts;
+  return { ...receipts, [messageId]: [...existing, receipt] };
+};
+
+const recipientsOf = (draft: MessageDraft, attempts: AttemptTable): number[] =>
+  draft.scope === 'attempt'
+    ? [draft.attempt_id!]
+    : Object.values(attempts)
+        .filter(row => row.monthly_exam_id === draft.monthly_exam_id && row.status === 'in_progress')
+        .map(row => row.attempt_id);
+
+export const useTeacherMessages = (attempts: AttemptTable) => {
+  const [sent, setSent] = useState<SentMessage[]>([]);
+  const [receipts, setReceipts] = useState<Record<string, MessageReceipt[]>>({});
+
+  // A string key so the load only reruns when the set of exams changes
+  const examKey = useMemo(() => Array.from(new Set(
+    Object.values(attempts)
+      .map(row => row.monthly_exam_id)
+      .filter((examId): examId is number => typeof examId === 'number')
+  )).sort((a, b) => a - b).join(','), [attempts]);
+
+  // Restore messages sent earlier and the receipts recorded for them
+  useEffect(() => {
+    const examIds = examKey ? examKey.split(',').map(Number) : [];
+    if (examIds.length === 0) return;
+
+    let cancelled = false;
+
+    Promise.all(examIds.map(async examId => {
+      const [messages, acknowledgements] = await Promise.all([
+        apiService.getExamMessages({ monthly_exam_id: examId }),
+        apiService.getProctoringEvents({ monthly_exam_id: examId, event_type: 'message_acknowledged' }),
+      ]);
+      return { messages, acknowledgements };
+    }))
+      .then(results => {
+        if (cancelled) return;
+
+        setSent(prev => {
+          const known = new Set(prev.map(message => message.message_id));
+          const loaded = results
+            .flatMap(result => result.messages)
+            .filter(message => !known.has(message.message_id))
+            .map(message => ({ ...message, recipients: message.recipients ?? [] }));
+          return [...prev, ...loaded].sort((a, b) => Date.parse(b.sent_at) - Date.parse(a.sent_at));
+        });
+
+        setReceipts(prev => results
+          .flatMap(result => result.acknowledgements)
+          .reduce((acc, event) => {
+            const messageId = event.details?.message_id;
+            if (typeof messageId !== 'string') return acc;
+            return addReceipt(acc, messageId, { attempt_id: event.attempt_id, acknowledged_at: event.event_time });
+          }, prev));
+      })
+      .catch(error => {
+        console.error('Failed to load sent messages:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [examKey]);
+
+  // Acknowledgements are recorded as proctoring events by the student's client
+  useEffect(() => {
+    return websocketService.on('proctor_event', data => {
+      const messageId = data.details?.message_id;
+      if (data.event_type !== 'message_acknowledged' || typeof messageId !== 'string') return;
+
+      setReceipts(prev => addReceipt(prev, messageId, { attempt_id: data.attempt_id, acknowledged_at: data.event_time }));
+    });
+  }, []);
+
+  /**
+   * Store a message and relay it to connected students.
+   * Rejects if the server didn't accept it, so the composer can keep the draft.
+   */
+  const send = useCallback(async (draft: MessageDraft): Promise<SentMessage> => {
+    const message: SentMessage = {
+      ...draft,
+      attempt_id: draft.scope === 'attempt' ? draft.attempt_id : undefined,
+      sender_name: getSenderName(),
+      message_id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      sent_at: new Date().toISOString(),
+      recipients: recipientsOf(draft, attempts),
+    };
+
+    await apiService.createExamMessage(message);
+
+    // Students who are offline get it from the API when they reconnect
+    websocketService.sendTeacherMessage(message);
+
+    setSent(prev => [message, ...prev]);
+    return message;
+  }, [attempts]);
+
+  return {
+    sent,
+    receipts,
+    send,
+  };
+};
+
+export default useTeacherMessages;
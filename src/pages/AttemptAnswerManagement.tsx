@@ -1,10 +1,12 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import apiService from '../services/api';
 import type { AttemptAnswer, StudentAttempt, BackendQuestion } from '../services/api';
 import Card from '../components/Card';
 import Button from '../components/Button';
 import Modal from '../components/Modal';
+import GradeSuggestionNote from '../components/GradeSuggestionNote';
+import { suggestMarks } from '../utils/autoGrading';
 
 const AttemptAnswerManagement: React.FC = () => {
   const queryClient = useQueryClient();
@@ -14,6 +16,7 @@ const AttemptAnswerManagement: React.FC = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [selectedAnswer, setSelectedAnswer] = useState<AttemptAnswer | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const marksInputRef = useRef<HTMLInputElement>(null);
   
   // Filters
   const [filterAttemptId, setFilterAttemptId] = useState<number | null>(null);
@@ -129,6 +132,10 @@ const AttemptAnswerManagement: React.FC = () => {
     );
   };
 
+  const suggestion = showGradingModal && selectedAnswer
+    ? suggestMarks(selectedAnswer.question, selectedAnswer.answer_text, selectedAnswer.question?.default_marks || 0)
+    : null;
+
   const formatDateTime = (dateString?: string) => {
     if (!dateString) return 'N/A';
     return new Date(dateString).toLocaleString();
@@ -557,11 +564,22 @@ const AttemptAnswerManagement: React.FC = () => {
                   </div>
                 </div>
 
+                {suggestion && (
+                  <GradeSuggestionNote
+                    suggestion={suggestion}
+                    maxMarks={selectedAnswer.question?.default_marks || 0}
+                    onApply={(marks) => {
+                      if (marksInputRef.current) marksInputRef.current.value = String(marks);
+                    }}
+                  />
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                     Marks Awarded
                   </label>
                   <input
+                    ref={marksInputRef}
                     type="number"
                     name="marks_awarded"
                     defaultValue={selectedAnswer.marks_awarded || ''}
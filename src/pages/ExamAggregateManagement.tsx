@@ -6,6 +6,10 @@ import type { ExamAggregate, MonthlyExam, Student } from '../services/api';
 import Card from '../components/Card';
 import Button from '../components/Button';
 import Modal from '../components/Modal';
+import ScoreBreakdown from '../components/ScoreBreakdown';
+import ComputeAggregatesModal from '../components/ComputeAggregatesModal';
+import useAttemptScore from '../hooks/useAttemptScore';
+import { getStudentName } from '../utils/attemptMonitor';
 
 const ExamAggregateManagement: React.FC = () => {
   const navigate = useNavigate();
@@ -15,6 +19,8 @@ const ExamAggregateManagement: React.FC = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [selectedAggregate, setSelectedAggregate] = useState<ExamAggregate | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [breakdownAggregate, setBreakdownAggregate] = useState<ExamAggregate | null>(null);
+  const [showComputeModal, setShowComputeModal] = useState(false);
   
   // Filters
   const [filterExamId, setFilterExamId] = useState<number | null>(null);
@@ -83,6 +89,34 @@ const ExamAggregateManagement: React.FC = () => {
     }
   );
 
+  // Score breakdown for the aggregate being inspected
+  const {
+    attempt: breakdownAttempt,
+    score: breakdownScore,
+    isLoading: isBreakdownLoading,
+    isError: isBreakdownError,
+  } = useAttemptScore(
+    breakdownAggregate
+      ? { examId: breakdownAggregate.monthly_exam_id, studentId: breakdownAggregate.student_id }
+      : null
+  );
+
+  // Copy the computed total and percent onto the aggregate
+  const applyScoreMutation = useMutation(
+    ({ id, total_marks, percent }: { id: number; total_marks: number; percent?: number }) =>
+      apiService.updateExamAggregate(id, { total_marks, percent }),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['exam-aggregates', filterExamId, filterStudentId, filterPublished]);
+        setBreakdownAggregate(null);
+      },
+      onError: (error: unknown) => {
+        console.error('Failed to update aggregate:', error);
+        alert((error as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to update aggregate');
+      },
+    }
+  );
+
   const [formData, setFormData] = useState<Partial<ExamAggregate>>({
     monthly_exam_id: 0,
     student_id: 0,
@@ -209,9 +243,14 @@ const ExamAggregateManagement: React.FC = () => {
                   View and manage exam results and rankings
                 </p>
               </div>
-              <Button onClick={handleCreate} icon={<span>+</span>}>
-                Create Aggregate
-              </Button>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => setShowComputeModal(true)}>
+                  Compute Aggregates
+                </Button>
+                <Button onClick={handleCreate} icon={<span>+</span>}>
+                  Create Aggregate
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -366,9 +405,16 @@ const ExamAggregateManagement: React.FC = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           {aggregate.rank !== null && aggregate.rank !== undefined ? (
-                            <div className="text-sm font-medium text-gray-900 dark:text-white">
-                              #{aggregate.rank}
-                            </div>
+                            <>
+                              <div className="text-sm font-medium text-gray-900 dark:text-white">
+                                #{aggregate.rank}
+                              </div>
+                              {aggregate.percentile !== null && aggregate.percentile !== undefined && (
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                  {aggregate.percentile} percentile
+                                </div>
+                              )}
+                            </>
                           ) : (
                             <span className="text-sm text-gray-400">-</span>
                           )}
@@ -389,6 +435,13 @@ const ExamAggregateManagement: React.FC = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setBreakdownAggregate(aggregate)}
+                            >
+                              Breakdown
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -536,6 +589,64 @@ const ExamAggregateManagement: React.FC = () => {
             </form>
           </Modal>
 
+          {/* Compute Aggregates Modal */}
+          {showComputeModal && (
+            <ComputeAggregatesModal
+              isOpen={showComputeModal}
+              onClose={() => setShowComputeModal(false)}
+              exams={exams}
+              defaultExamId={filterExamId}
+            />
+          )}
+
+          {/* Score Breakdown Modal */}
+          <Modal
+            isOpen={!!breakdownAggregate}
+            onClose={() => setBreakdownAggregate(null)}
+            title="Score Breakdown"
+            size="xl"
+          >
+            {isBreakdownLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary"></div>
+              </div>
+            ) : isBreakdownError ? (
+              <p className="text-red-600 dark:text-red-400">Failed to load the attempt for this result.</p>
+            ) : !breakdownScore || !breakdownAttempt || !breakdownAggregate ? (
+              <p className="text-gray-600 dark:text-gray-400">This student has no submitted attempt for the exam.</p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {getStudentName(breakdownAttempt) || `Student #${breakdownAggregate.student_id}`}, attempt #{breakdownAttempt.id}
+                  {breakdownAttempt.finished_at && ` submitted ${formatDateTime(breakdownAttempt.finished_at)}`}
+                </p>
+                <ScoreBreakdown
+                  result={breakdownScore}
+                  fileName={`score-exam-${breakdownAggregate.monthly_exam_id}-student-${breakdownAggregate.student_id}.csv`}
+                />
+                {(breakdownScore.total !== breakdownAggregate.total_marks
+                  || (breakdownScore.percent ?? undefined) !== (breakdownAggregate.percent ?? undefined)) && (
+                  <div className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20">
+                    <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                      The stored result ({breakdownAggregate.total_marks ?? '-'} marks, {breakdownAggregate.percent ?? '-'}%) differs from this breakdown.
+                    </p>
+                    <Button
+                      size="sm"
+                      onClick={() => applyScoreMutation.mutate({
+                        id: breakdownAggregate.id,
+                        total_marks: breakdownScore.total,
+                        percent: breakdownScore.percent ?? undefined,
+                      })}
+                      disabled={applyScoreMutation.isLoading || !breakdownScore.complete}
+                    >
+                      {applyScoreMutation.isLoading ? 'Saving...' : 'Use Computed Score'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </Modal>
+
           {/* Delete Confirmation Modal */}
           <Modal
             isOpen={showDeleteModal}
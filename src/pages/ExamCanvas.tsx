@@ -1,8 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from 'react-query';
 import apiService from '../services/api';
-import type { ExamQuestion, AttemptAnswer } from '../services/api';
+import type { ExamQuestion, MonthlyExam, StudentAttempt } from '../services/api';
 import Header from '../components/Header';
 import Card from '../components/Card';
 import Button from '../components/Button';
@@ -10,7 +10,16 @@ import Timer from '../components/Timer';
 import ProgressBar from '../components/ProgressBar';
 import QuestionCard from '../components/QuestionCard';
 import ProctoringCapture from '../components/ProctoringCapture';
+import MessageTray from '../components/MessageTray';
 import { useExamAutosave } from '../hooks/useExamAutosave';
+import { useExamDeadline } from '../hooks/useExamDeadline';
+import { useTabLeadership } from '../hooks/useTabLeadership';
+import { useExamMessages } from '../hooks/useExamMessages';
+import { queueRequest, isRetryableError } from '../services/offlineQueue';
+import { clearJournal } from '../services/answerJournal';
+import { applyAttemptLayout, canonicalQuestions, getAttemptLayout } from '../utils/shuffle';
+import { drawAttemptQuestions } from '../utils/pools';
+import { hasAnswer, toAnswerFields } from '../utils/examAnswers';
 
 interface AnswerState {
   [questionId: string]: any;
@@ -25,9 +34,13 @@ const ExamCanvas: React.FC = () => {
   const [showReviewModal, setShowReviewModal] = useState(false);
   const [proctoringEvents, setProctoringEvents] = useState<any[]>([]);
   const [timeUp, setTimeUp] = useState(false);
+  const [submitQueued, setSubmitQueued] = useState(false);
+  const [isWaitingForAnswers, setIsWaitingForAnswers] = useState(false);
+  const hasSubmitted = useRef(false);
+  const recordedTabs = useRef<Set<string>>(new Set());
 
   // Fetch exam questions using React Query
-  const { data: examQuestions = [], isLoading, isError } = useQuery<ExamQuestion[]>(
+  const { data: serverQuestions = [], isLoading: isLoadingQuestions, isError } = useQuery<ExamQuestion[]>(
     ['examQuestions', examId],
     () => apiService.getExamQuestions(examId!),
     {
@@ -36,15 +49,60 @@ const ExamCanvas: React.FC = () => {
     }
   );
 
+  // The attempt's token seeds its question and choice order; shared with the deadline queries
+  const { data: attempt, isLoading: isLoadingAttempt } = useQuery<StudentAttempt>(
+    ['studentAttempt', attemptId],
+    () => apiService.getStudentAttempt(Number(attemptId)),
+    {
+      enabled: !!attemptId,
+      staleTime: Infinity,
+    }
+  );
+
+  const { data: fetchedExam, isLoading: isLoadingExam } = useQuery<MonthlyExam>(
+    ['exam', attempt?.monthly_exam_id],
+    () => apiService.getExam(attempt!.monthly_exam_id),
+    {
+      enabled: !!attempt && !attempt.monthly_exam,
+      staleTime: Infinity,
+    }
+  );
+
+  const isLoading = isLoadingQuestions || isLoadingAttempt || isLoadingExam;
+
+  // Same questions and order on every reload and device for this attempt
+  const examQuestions = useMemo(() => {
+    if (!attempt?.attempt_token) return canonicalQuestions(serverQuestions);
+    const exam = attempt.monthly_exam || fetchedExam;
+    const drawn = drawAttemptQuestions(attempt, exam, serverQuestions);
+    return applyAttemptLayout(drawn, getAttemptLayout(attempt, exam, drawn));
+  }, [attempt, fetchedExam, serverQuestions]);
+
+  // Only one tab may own the attempt; any others are locked until they take over
+  const { role: tabRole, isLeader, detectedTab, takeOver } = useTabLeadership({
+    channelName: `exam_attempt_${attemptId}`,
+    enabled: !!attemptId,
+  });
+
+  // Teacher announcements and private messages; only the owning tab receives and acknowledges them
+  const { messages, unreadCount, acknowledge } = useExamMessages({
+    attemptId: attemptId ? Number(attemptId) : undefined,
+    examId: examId ? Number(examId) : undefined,
+    enabled: isLeader,
+  });
+
   // Initialize autosave hook
   const { 
     isSaving, 
     isSaved, 
     isOffline, 
     retryCount, 
+    conflictCount,
+    rejectedCount,
     queueAnswer, 
-    saveAnswerImmediately 
-  } = useExamAutosave(attemptId!, examId!);
+    saveAnswerImmediately,
+    flushAnswers
+  } = useExamAutosave(attemptId!, examId!, undefined, isLeader);
 
   // Handle answer changes
   const handleAnswerChange = useCallback((questionId: string, answer: any) => {
@@ -53,26 +111,14 @@ const ExamCanvas: React.FC = () => {
       [questionId]: answer
     }));
     
+    // File answers hold the stored path of the upload; choice answers the picked choice ids
+    const questionType = examQuestions.find(item => String(item.question?.id) === String(questionId))?.question?.type;
+
     // Queue answer for autosave
-    const attemptAnswer: Omit<AttemptAnswer, 'id'> = {
-      attempt_id: attemptId!,
-      question_id: questionId,
-      // Map answer based on question type
-      ...(typeof answer === 'string' ? { answer_text: answer } : {}),
-      ...(typeof answer === 'boolean' ? { answer_text: answer.toString() } : {}),
-      ...(typeof answer === 'number' ? { answer_text: answer.toString() } : {}),
-      ...(typeof answer === 'object' && answer?.id ? { choice_id: answer.id } : {}),
-      ...(typeof answer === 'string' && answer.startsWith('http') ? { uploaded_file: answer } : {}),
-    };
+    const attemptAnswer = { attempt_id: attemptId!, ...toAnswerFields(questionId, questionType, answer) };
     
     queueAnswer(attemptAnswer);
-  }, [attemptId, queueAnswer]);
-
-  // Handle time up
-  const handleTimeUp = useCallback(() => {
-    setTimeUp(true);
-    handleSubmitExam();
-  }, []);
+  }, [attemptId, examQuestions, queueAnswer]);
 
   // Handle warnings
   const handleTimeWarning = useCallback((timeLeft: number) => {
@@ -89,7 +135,7 @@ const ExamCanvas: React.FC = () => {
 
   // Handle proctoring events
   const handleProctoringEvent = useCallback((eventType: string, details?: any) => {
-    if (!attemptId) return;
+    if (!attemptId || !isLeader) return;
     
     const event = {
       attempt_id: attemptId,
@@ -104,33 +150,96 @@ const ExamCanvas: React.FC = () => {
     if (attemptId) {
       apiService.sendProctoringEvent(event).catch(console.error);
     }
-  }, [attemptId]);
+  }, [attemptId, isLeader]);
 
-  // Handle image capture
-  const handleImageCapture = useCallback((blob: Blob) => {
-    // In a real implementation, you would upload the image and send the path
-    // For now, we'll just log the event
-    console.log('Captured image blob:', blob);
-    handleProctoringEvent('snapshot_captured', { size: blob.size });
-  }, [handleProctoringEvent]);
+  // Record each extra tab opened on this attempt
+  useEffect(() => {
+    if (!detectedTab || recordedTabs.current.has(detectedTab.tabId)) return;
+    recordedTabs.current.add(detectedTab.tabId);
+
+    handleProctoringEvent('multiple_tabs', {
+      other_tab_id: detectedTab.tabId,
+      detected_at: detectedTab.detectedAt.toISOString(),
+    });
+  }, [detectedTab, handleProctoringEvent]);
+
+  // Handle image capture: the snapshot is stored on the server and the event only links to it,
+  // so monitors are sent a short reference rather than the image every 30 seconds
+  const handleImageCapture = useCallback(async (blob: Blob) => {
+    if (!attemptId || !isLeader) return;
+
+    try {
+      const snapshot = await apiService.uploadProctoringSnapshot(attemptId, blob);
+      handleProctoringEvent('camera_snapshot', { snapshot_id: snapshot.id, image_url: snapshot.url, size: blob.size });
+    } catch (error) {
+      console.error('Failed to upload camera snapshot:', error);
+    }
+  }, [attemptId, isLeader, handleProctoringEvent]);
 
   // Submit exam
   const handleSubmitExam = useCallback(async () => {
-    if (!attemptId) return;
+    if (!attemptId || !isLeader || hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    // Never lose a submission to a network failure: the sync queue delivers it,
+    // after the answers still in the journal
+    const queueSubmit = async () => {
+      await queueRequest({ method: 'POST', url: `/student-attempts/${attemptId}/submit`, submitsAttempt: attemptId });
+      setIsWaitingForAnswers(false);
+      setSubmitQueued(true);
+    };
     
     try {
-      // Save any pending answers before submitting
-      // This would be handled by the autosave hook in a real implementation
-      
-      const result = await apiService.submitAttempt(attemptId);
+      // The attempt can't close while answers are still only on this device;
+      // the autosave keeps retrying them and the submit follows once they're in
+      const answersSaved = await flushAnswers();
+      if (!answersSaved && !navigator.onLine) {
+        await queueSubmit();
+        return;
+      }
+      if (!answersSaved) {
+        hasSubmitted.current = false;
+        setIsWaitingForAnswers(true);
+        return;
+      }
+      setIsWaitingForAnswers(false);
+
+      await apiService.submitAttempt(attemptId);
+      await clearJournal(attemptId);
       
       // Navigate to results page
       navigate(`/results/${examId}/attempt/${attemptId}`);
     } catch (err) {
       console.error('Failed to submit exam:', err);
+
+      if (isRetryableError(err)) {
+        await queueSubmit();
+        return;
+      }
+
+      hasSubmitted.current = false;
       // Show error message to user
     }
-  }, [attemptId, examId, navigate]);
+  }, [attemptId, examId, isLeader, navigate, flushAnswers]);
+
+  // Resume a held submit once the autosave has emptied the journal, or hand it to the sync queue on going offline
+  useEffect(() => {
+    if (isWaitingForAnswers && (isSaved || isOffline)) {
+      handleSubmitExam();
+    }
+  }, [isWaitingForAnswers, isSaved, isOffline, handleSubmitExam]);
+
+  // Handle time up
+  const handleTimeUp = useCallback(() => {
+    setTimeUp(true);
+    handleSubmitExam();
+  }, [handleSubmitExam]);
+
+  // Countdown derived from the attempt's server-side start time and the exam's limits
+  const { deadline, totalSeconds, remainingSeconds, serverOffset, isClosedByServer } = useExamDeadline({
+    attemptId,
+    onExpire: handleTimeUp,
+  });
 
   // Handle tab switch
   useEffect(() => {
@@ -167,7 +276,7 @@ const ExamCanvas: React.FC = () => {
   };
 
   // Calculate progress
-  const answeredCount = Object.keys(answers).length;
+  const answeredCount = Object.values(answers).filter(hasAnswer).length;
   const progress = examQuestions.length > 0 
     ? (answeredCount / examQuestions.length) * 100 
     : 0;
@@ -175,7 +284,30 @@ const ExamCanvas: React.FC = () => {
   // Get current question
   const currentQuestion = examQuestions[currentQuestionIndex]?.question;
 
-  if (isLoading) {
+  if (tabRole === 'follower') {
+    return (
+      <div className="min-h-screen bg-background-light dark:bg-background-dark">
+        <Header />
+        <main className="px-4 sm:px-6 lg:px-8 py-8">
+          <div className="max-w-2xl mx-auto">
+            <Card className="text-center p-8">
+              <div className="text-5xl mb-4">🔒</div>
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Exam Open Elsewhere</h2>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                This exam is already open in another tab or window. Answers are only saved from one
+                tab at a time. Close this tab, or continue here to lock the other one.
+              </p>
+              <Button onClick={takeOver}>
+                Continue in This Tab
+              </Button>
+            </Card>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (isLoading || tabRole === 'electing') {
     return (
       <div className="min-h-screen bg-background-light dark:bg-background-dark">
         <Header />
@@ -212,14 +344,22 @@ const ExamCanvas: React.FC = () => {
     <div className="min-h-screen bg-background-light dark:bg-background-dark">
       <Header 
         showTimer 
-        timeRemaining={examQuestions.length * 60} // Placeholder, should come from backend
+        timeRemaining={remainingSeconds ?? undefined}
         onHelp={() => alert('Need help with the exam?')}
       />
       
-      {/* Proctoring capture component */}
-      <ProctoringCapture 
-        onCapture={handleImageCapture}
-        onEvent={handleProctoringEvent}
+      {/* Proctoring capture component; only the owning tab holds the camera */}
+      {isLeader && (
+        <ProctoringCapture 
+          onCapture={handleImageCapture}
+          onEvent={handleProctoringEvent}
+        />
+      )}
+
+      <MessageTray
+        messages={messages}
+        unreadCount={unreadCount}
+        onAcknowledge={acknowledge}
       />
       
       <main className="px-4 sm:px-6 lg:px-8 py-8">
@@ -235,11 +375,14 @@ const ExamCanvas: React.FC = () => {
                 <ProgressBar progress={progress} showPercentage animated />
               </div>
               <div className="flex-shrink-0">
-                <Timer 
-                  initialTime={examQuestions.length * 60} // Placeholder
-                  onTimeUp={handleTimeUp}
-                  onWarning={handleTimeWarning}
-                />
+                {deadline && (
+                  <Timer 
+                    deadline={deadline}
+                    serverOffset={serverOffset}
+                    totalTime={totalSeconds ?? undefined}
+                    onWarning={handleTimeWarning}
+                  />
+                )}
               </div>
             </div>
             
@@ -253,7 +396,7 @@ const ExamCanvas: React.FC = () => {
                     w-8 h-8 rounded-full flex items-center justify-center text-sm font-medium transition-colors
                     ${index === currentQuestionIndex 
                       ? 'bg-primary text-white' 
-                      : answers[examQuestions[index].question.id] 
+                      : hasAnswer(answers[examQuestions[index].question.id])
                         ? 'bg-green-500 text-white' 
                         : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-600'
                     }
@@ -291,6 +434,16 @@ const ExamCanvas: React.FC = () => {
                   Retrying... ({retryCount})
                 </span>
               )}
+              {conflictCount > 0 && (
+                <span className="text-orange-600 dark:text-orange-400">
+                  {conflictCount} offline {conflictCount === 1 ? 'answer was' : 'answers were'} replaced by a newer saved answer
+                </span>
+              )}
+              {rejectedCount > 0 && (
+                <span className="text-red-600 dark:text-red-400">
+                  {rejectedCount} {rejectedCount === 1 ? 'answer was' : 'answers were'} refused by the server
+                </span>
+              )}
             </div>
           </div>
           
@@ -299,6 +452,7 @@ const ExamCanvas: React.FC = () => {
             <Card className="mb-8">
               <QuestionCard
                 question={currentQuestion}
+                attemptId={attemptId}
                 selectedAnswer={answers[currentQuestion.id]}
                 onAnswerChange={(answer) => handleAnswerChange(currentQuestion.id, answer)}
               />
@@ -345,8 +499,64 @@ const ExamCanvas: React.FC = () => {
         </div>
       </main>
       
+      {/* Submission queued overlay */}
+      {submitQueued && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <Card className="max-w-md w-full text-center p-8">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Submission Saved</h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              We couldn't reach the server. Your submission is stored on this device and will be sent
+              automatically when the connection returns. You can follow it under Sync Status.
+            </p>
+            <Button onClick={() => navigate('/dashboard')}>
+              Back to Dashboard
+            </Button>
+          </Card>
+        </div>
+      )}
+
+      {/* Submit held for unsaved answers */}
+      {isWaitingForAnswers && !timeUp && !submitQueued && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <Card className="max-w-md w-full text-center p-8">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Saving Your Answers</h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              Some answers have not reached the server yet. Your exam will be submitted as soon as they are saved.
+            </p>
+          </Card>
+        </div>
+      )}
+
+      {/* Time up overlay */}
+      {timeUp && !submitQueued && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <Card className="max-w-md w-full text-center p-8">
+            <div className="text-5xl mb-4">⏰</div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Time's Up</h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              Your answers are being submitted...
+            </p>
+          </Card>
+        </div>
+      )}
+
+      {/* Closed elsewhere: submitted from another device or ended by the teacher */}
+      {isClosedByServer && !timeUp && !submitQueued && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <Card className="max-w-md w-full text-center p-8">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Attempt Closed</h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              This attempt has already been submitted or was closed by your teacher, so no more answers can be saved.
+            </p>
+            <Button onClick={() => navigate('/dashboard')}>
+              Back to Dashboard
+            </Button>
+          </Card>
+        </div>
+      )}
+
       {/* Review modal */}
-      {showReviewModal && (
+      {showReviewModal && !timeUp && !submitQueued && !isClosedByServer && !isWaitingForAnswers && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <Card className="max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="flex justify-between items-center mb-6">
@@ -373,10 +583,13 @@ const ExamCanvas: React.FC = () => {
                 
                 <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
                   <h3 className="font-bold text-gray-900 dark:text-white mb-2">Time Remaining</h3>
-                  <Timer 
-                    initialTime={examQuestions.length * 60} // Placeholder
-                    onTimeUp={handleTimeUp}
-                  />
+                  {deadline && (
+                    <Timer 
+                      deadline={deadline}
+                      serverOffset={serverOffset}
+                      totalTime={totalSeconds ?? undefined}
+                    />
+                  )}
                 </div>
               </div>
               
@@ -384,7 +597,7 @@ const ExamCanvas: React.FC = () => {
                 <h3 className="font-bold text-gray-900 dark:text-white mb-4">Questions Overview</h3>
                 <div className="space-y-3">
                   {examQuestions.map((eq, index) => {
-                    const isAnswered = !!answers[eq.question.id];
+                    const isAnswered = hasAnswer(answers[eq.question.id]);
                     return (
                       <div 
                         key={eq.question.id}
@@ -2,10 +2,12 @@ import React, { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from 'react-query';
 import apiService from '../services/api';
-import type { MonthlyExam, ExamQuestion, BackendQuestion, QuestionBank } from '../services/api';
+import type { MonthlyExam, ExamQuestion, BackendQuestion, QuestionBank, ExamSubject, PoolRule, ExamBlueprint } from '../services/api';
 import Card from '../components/Card';
 import Button from '../components/Button';
 import Modal from '../components/Modal';
+import PoolRulesPanel from '../components/PoolRulesPanel';
+import BlueprintPanel from '../components/BlueprintPanel';
 
 const ExamQuestions: React.FC = () => {
   const { examId } = useParams<{ examId: string }>();
@@ -38,6 +40,13 @@ const ExamQuestions: React.FC = () => {
     { enabled: !!examId }
   );
 
+  // Fetch exam subjects, which questions can count towards
+  const { data: examSubjects = [] } = useQuery<ExamSubject[]>(
+    ['exam-subjects', examId],
+    () => apiService.getExamSubjects(examId!),
+    { enabled: !!examId }
+  );
+
   // Fetch question banks
   const { data: questionBanks = [] } = useQuery<QuestionBank[]>(
     'question-banks',
@@ -81,7 +90,7 @@ const ExamQuestions: React.FC = () => {
 
   // Update question mutation
   const updateQuestionMutation = useMutation(
-    ({ id, data }: { id: number; data: { marks?: number | null; sequence?: number | null; pool_tag?: string | null } }) =>
+    ({ id, data }: { id: number; data: { marks?: number | null; sequence?: number | null; pool_tag?: string | null; subject_id?: number | null } }) =>
       apiService.updateExamQuestion(id, data),
     {
       onSuccess: () => {
@@ -104,6 +113,26 @@ const ExamQuestions: React.FC = () => {
     }
   );
 
+  // Save the exam's pool draw rules
+  const updatePoolRulesMutation = useMutation(
+    (poolRules: PoolRule[]) => apiService.updateExam(examId!, { pool_rules: poolRules }),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['exam', examId]);
+      },
+    }
+  );
+
+  // Save the exam's blueprint
+  const updateBlueprintMutation = useMutation(
+    (blueprint: ExamBlueprint | null) => apiService.updateExam(examId!, { blueprint }),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(['exam', examId]);
+      },
+    }
+  );
+
   const handleAddQuestions = () => {
     setShowAddModal(true);
     setSelectedBankId(null);
@@ -279,6 +308,24 @@ const ExamQuestions: React.FC = () => {
             </Card>
           </div>
 
+          {/* Blueprint */}
+          <BlueprintPanel
+            exam={exam}
+            examQuestions={examQuestions}
+            examSubjects={examSubjects}
+            questionBanks={questionBanks}
+            onSave={(blueprint) => updateBlueprintMutation.mutate(blueprint)}
+            isSaving={updateBlueprintMutation.isLoading}
+          />
+
+          {/* Question Pools */}
+          <PoolRulesPanel
+            exam={exam}
+            examQuestions={examQuestions}
+            onSave={(rules) => updatePoolRulesMutation.mutate(rules)}
+            isSaving={updatePoolRulesMutation.isLoading}
+          />
+
           {/* Questions List */}
           {isLoadingQuestions ? (
             <Card className="text-center p-12">
@@ -679,6 +726,7 @@ const ExamQuestions: React.FC = () => {
                 const marksInput = document.getElementById('edit-marks') as HTMLInputElement;
                 const sequenceInput = document.getElementById('edit-sequence') as HTMLInputElement;
                 const poolTagInput = document.getElementById('edit-pool-tag') as HTMLInputElement;
+                const subjectInput = document.getElementById('edit-subject') as HTMLSelectElement | null;
                 
                 updateQuestionMutation.mutate({
                   id: selectedQuestion.id,
@@ -686,6 +734,7 @@ const ExamQuestions: React.FC = () => {
                     marks: marksInput.value !== '' ? parseFloat(marksInput.value) : null,
                     sequence: sequenceInput.value !== '' ? parseInt(sequenceInput.value) : null,
                     pool_tag: poolTagInput.value || null,
+                    ...(subjectInput && { subject_id: subjectInput.value ? Number(subjectInput.value) : null }),
                   },
                 });
               }}
@@ -758,9 +807,31 @@ const ExamQuestions: React.FC = () => {
                 placeholder="e.g., easy, medium, hard"
               />
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                Tag questions for random selection from pools. Questions with the same tag can be randomly selected.
+                Tag questions for random selection from pools. Set how many to draw from each pool under Question Pools.
               </p>
             </div>
+            {examSubjects.length > 0 && (
+              <div>
+                <label htmlFor="edit-subject" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Subject
+                </label>
+                <select
+                  id="edit-subject"
+                  defaultValue={selectedQuestion.subject_id ?? ''}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="">No subject</option>
+                  {examSubjects.map(examSubject => (
+                    <option key={examSubject.id} value={examSubject.subject_id}>
+                      {examSubject.subject?.name || `Subject #${examSubject.subject_id}`}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  The question's marks count towards this subject's max and pass marks when aggregates are computed.
+                </p>
+              </div>
+            )}
           </div>
         )}
       </Modal>
@@ -6,6 +6,9 @@ import type { QuestionBank, School, Teacher } from '../services/api';
 import Card from '../components/Card';
 import Button from '../components/Button';
 import Modal from '../components/Modal';
+import BankBundleImportModal from '../components/BankBundleImportModal';
+import useBankBundle from '../hooks/useBankBundle';
+import type { BankExportFormat } from '../hooks/useBankBundle';
 
 interface QuestionBankFormData {
   school_id: number;
@@ -19,6 +22,8 @@ const QuestionBankManagement: React.FC = () => {
 
   const [showFormModal, setShowFormModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [exportBankTarget, setExportBankTarget] = useState<QuestionBank | null>(null);
   const [selectedBank, setSelectedBank] = useState<QuestionBank | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedSchoolId, setSelectedSchoolId] = useState<number | null>(null);
@@ -88,6 +93,24 @@ const QuestionBankManagement: React.FC = () => {
     }
   );
 
+  const { exportBank, isExporting } = useBankBundle();
+
+  const handleExport = async (format: BankExportFormat) => {
+    if (!exportBankTarget) return;
+    try {
+      const file = await exportBank({ bank: exportBankTarget, format });
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      setExportBankTarget(null);
+    } catch (error) {
+      alert((error as { response?: { data?: { message?: string } } })?.response?.data?.message || 'Failed to export question bank');
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       school_id: selectedSchoolId || 0,
@@ -210,9 +233,14 @@ const QuestionBankManagement: React.FC = () => {
                   Organize questions into reusable question banks
                 </p>
               </div>
-              <Button onClick={handleCreate} icon={<span>+</span>}>
-                Create Bank
-              </Button>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => setShowImportModal(true)}>
+                  Import Bundle
+                </Button>
+                <Button onClick={handleCreate} icon={<span>+</span>}>
+                  Create Bank
+                </Button>
+              </div>
             </div>
 
             {/* School Filter */}
@@ -309,6 +337,13 @@ const QuestionBankManagement: React.FC = () => {
                             >
                               Manage Questions
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setExportBankTarget(bank)}
+                            >
+                              Export
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -334,6 +369,40 @@ const QuestionBankManagement: React.FC = () => {
             </Card>
           )}
 
+          {/* Export Modal */}
+          <Modal
+            isOpen={!!exportBankTarget}
+            onClose={() => setExportBankTarget(null)}
+            title="Export Question Bank"
+            size="sm"
+          >
+            <div className="space-y-4">
+              <p className="text-gray-600 dark:text-gray-400">
+                Export {exportBankTarget?.name} with its questions, choices and metadata.
+              </p>
+              <div className="space-y-3">
+                <Button className="w-full" onClick={() => handleExport('json')} disabled={isExporting}>
+                  JSON Bundle
+                </Button>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  For sharing with another school in the network. Keeps difficulty, tags, rubrics and subjects.
+                </p>
+                <Button variant="outline" className="w-full" onClick={() => handleExport('qti')} disabled={isExporting}>
+                  QTI 2.1 XML
+                </Button>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  For other assessment systems. Keeps questions, answers, marks and explanations.
+                </p>
+              </div>
+            </div>
+          </Modal>
+
+          <BankBundleImportModal
+            isOpen={showImportModal}
+            onClose={() => setShowImportModal(false)}
+            schools={schools}
+          />
+
           {/* Create/Edit Modal */}
           <Modal
             isOpen={showFormModal}
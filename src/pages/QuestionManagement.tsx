@@ -6,6 +6,11 @@ import type { BackendQuestion, Choice, QuestionBank, Teacher } from '../services
 import Card from '../components/Card';
 import Button from '../components/Button';
 import Modal from '../components/Modal';
+import RubricEditor from '../components/RubricEditor';
+import QuestionImportWizard from '../components/QuestionImportWizard';
+import { getRubric, validateRubric } from '../utils/rubric';
+import type { Rubric } from '../utils/rubric';
+import { DIFFICULTIES, getQuestionDifficulty, getQuestionTopics, parseTopics } from '../utils/blueprint';
 
 interface QuestionFormData {
   bank_id: number;
@@ -22,6 +27,9 @@ interface QuestionFormData {
   }>;
 }
 
+// Open-ended types that can be marked with a rubric
+const RUBRIC_TYPES: QuestionFormData['type'][] = ['essay', 'short'];
+
 const QuestionManagement: React.FC = () => {
   const { bankId } = useParams<{ bankId: string }>();
   const navigate = useNavigate();
@@ -29,6 +37,7 @@ const QuestionManagement: React.FC = () => {
 
   const [showFormModal, setShowFormModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [selectedQuestion, setSelectedQuestion] = useState<BackendQuestion | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [filterType, setFilterType] = useState<string>('');
@@ -42,6 +51,7 @@ const QuestionManagement: React.FC = () => {
     choices: [],
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [topicsText, setTopicsText] = useState('');
 
   // Fetch question bank
   const { data: questionBank } = useQuery<QuestionBank>(
@@ -122,6 +132,7 @@ const QuestionManagement: React.FC = () => {
       default_marks: 10,
       choices: [],
     });
+    setTopicsText('');
     setFormErrors({});
   };
 
@@ -153,6 +164,7 @@ const QuestionManagement: React.FC = () => {
         position: c.position,
       })) || [],
     });
+    setTopicsText(getQuestionTopics(question).join(', '));
     setFormErrors({});
     setShowFormModal(true);
   };
@@ -197,6 +209,14 @@ const QuestionManagement: React.FC = () => {
       }
     }
 
+    const rubric = getRubric(formData.metadata);
+    if (RUBRIC_TYPES.includes(formData.type) && rubric) {
+      const rubricErrors = validateRubric(rubric);
+      if (rubricErrors.length > 0) {
+        errors.rubric = rubricErrors.join('. ');
+      }
+    }
+
     if (Object.keys(errors).length > 0) {
       setFormErrors(errors);
       return;
@@ -231,6 +251,27 @@ const QuestionManagement: React.FC = () => {
     setFormData({ ...formData, choices: newChoices });
   };
 
+  const handleRubricChange = (rubric: Rubric | null) => {
+    const metadata = { ...(formData.metadata || {}) };
+    if (rubric) {
+      metadata.rubric = rubric;
+    } else {
+      delete metadata.rubric;
+    }
+    setFormData({ ...formData, metadata });
+  };
+
+  // Difficulty and topic tags are read by exam blueprints
+  const handleMetadataChange = (key: 'difficulty' | 'tags', value: string | string[] | undefined) => {
+    const metadata = { ...(formData.metadata || {}) };
+    if (value === undefined || value.length === 0) {
+      delete metadata[key];
+    } else {
+      metadata[key] = value;
+    }
+    setFormData({ ...formData, metadata });
+  };
+
   const handleTypeChange = (newType: QuestionFormData['type']) => {
     setFormData({
       ...formData,
@@ -308,9 +349,14 @@ const QuestionManagement: React.FC = () => {
                   Manage questions in this question bank
                 </p>
               </div>
-              <Button onClick={handleCreate} icon={<span>+</span>}>
-                Add Question
-              </Button>
+              <div className="flex gap-3">
+                <Button variant="outline" onClick={() => setShowImportWizard(true)}>
+                  Import Questions
+                </Button>
+                <Button onClick={handleCreate} icon={<span>+</span>}>
+                  Add Question
+                </Button>
+              </div>
             </div>
 
             {/* Filters */}
@@ -513,6 +559,41 @@ const QuestionManagement: React.FC = () => {
                 )}
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Difficulty
+                  </label>
+                  <select
+                    value={getQuestionDifficulty(formData) ?? ''}
+                    onChange={(e) => handleMetadataChange('difficulty', e.target.value || undefined)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent capitalize"
+                  >
+                    <option value="">Not set</option>
+                    {DIFFICULTIES.map((difficulty) => (
+                      <option key={difficulty} value={difficulty}>
+                        {difficulty}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Topic Tags
+                  </label>
+                  <input
+                    type="text"
+                    value={topicsText}
+                    onChange={(e) => {
+                      setTopicsText(e.target.value);
+                      handleMetadataChange('tags', parseTopics(e.target.value));
+                    }}
+                    placeholder="e.g. fractions, decimals"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent"
+                  />
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                   Author (Teacher) <span className="text-red-500">*</span>
@@ -599,6 +680,14 @@ const QuestionManagement: React.FC = () => {
                 </div>
               )}
 
+              {RUBRIC_TYPES.includes(formData.type) && (
+                <RubricEditor
+                  rubric={formData.metadata?.rubric ?? null}
+                  onChange={handleRubricChange}
+                  error={formErrors.rubric}
+                />
+              )}
+
               <div className="flex justify-end gap-3 pt-4">
                 <Button
                   type="button"
@@ -618,6 +707,14 @@ const QuestionManagement: React.FC = () => {
             </form>
           </Modal>
 
+          {/* Import Wizard */}
+          <QuestionImportWizard
+            isOpen={showImportWizard}
+            onClose={() => setShowImportWizard(false)}
+            bankId={Number(bankId)}
+            teachers={teachers}
+          />
+
           {/* Delete Confirmation Modal */}
           <Modal
             isOpen={showDeleteModal}
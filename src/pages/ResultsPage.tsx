@@ -1,29 +1,39 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { useParams, useNavigate } from 'react-router-dom';
 import Button from '../components/Button';
 import Card from '../components/Card';
-import ScoreBadge from '../components/ScoreBadge';
 import ProgressBar from '../components/ProgressBar';
 import ConfettiEffect from '../components/ConfettiEffect';
-import { mockExams } from '../utils/mockData';
+import QuestionCard from '../components/QuestionCard';
+import useExamResult from '../hooks/useExamResult';
+import { getExamTitle } from '../utils/attemptMonitor';
+import { canShowCorrectAnswers, getDisplayScore, getReviewAnswer, toReviewQuestion } from '../utils/results';
+import { applyAttemptLayout, getAttemptLayout } from '../utils/shuffle';
 
 const ResultsPage: React.FC = () => {
-  const { examId } = useParams<{ examId: string }>();
+  const { examId, attemptId } = useParams<{ examId: string; attemptId?: string }>();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
   const [showConfetti, setShowConfetti] = useState(false);
-  
-  const exam = mockExams.find(e => e.id === examId);
-  const score = parseInt(searchParams.get('score') || '0');
-  const total = parseInt(searchParams.get('total') || '1');
-  const percentage = parseInt(searchParams.get('percentage') || '0');
+  const [showReview, setShowReview] = useState(false);
+
+  const { result, isLoading, isError } = useExamResult(
+    examId ? Number(examId) : null,
+    attemptId ? Number(attemptId) : null
+  );
+
+  const published = result?.state === 'published';
+  const { total: score, percent: percentage, rank } = result
+    ? getDisplayScore(result.attempt, result.aggregate, result.score)
+    : { total: 0, percent: 0, rank: undefined };
+  const maxMarks = result?.score?.max_marks ?? 0;
 
   useEffect(() => {
-    if (percentage >= 80) {
+    if (published && percentage >= 80) {
       setShowConfetti(true);
-      setTimeout(() => setShowConfetti(false), 5000);
+      const timer = setTimeout(() => setShowConfetti(false), 5000);
+      return () => clearTimeout(timer);
     }
-  }, [percentage]);
+  }, [published, percentage]);
 
   const getPerformanceMessage = () => {
     if (percentage >= 90) return { message: "Outstanding! 🌟", color: "text-green-600 dark:text-green-400" };
@@ -51,14 +61,22 @@ const ResultsPage: React.FC = () => {
     navigate(`/exam/${examId}`);
   };
 
-  if (!exam) {
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background-light dark:bg-background-dark flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (isError || !result) {
     return (
       <div className="min-h-screen bg-background-light dark:bg-background-dark flex items-center justify-center">
         <Card className="text-center">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
-            Exam not found
+            {isError ? 'Failed to load your result' : 'Result not found'}
           </h1>
-          <Button onClick={() => navigate('/dashboard')}>
+          <Button onClick={handleBackToDashboard}>
             Back to Dashboard
           </Button>
         </Card>
@@ -66,24 +84,74 @@ const ResultsPage: React.FC = () => {
     );
   }
 
+  const { attempt, exam, answers, examQuestions } = result;
+  const examTitle = getExamTitle({ ...attempt, monthly_exam: exam ?? attempt.monthly_exam }) || 'exam';
+
+  if (result.state !== 'published') {
+    const waiting = {
+      not_submitted: {
+        icon: '📝',
+        title: 'This exam hasn\'t been submitted yet',
+        message: 'Finish and submit the exam to get your result.',
+      },
+      grading: {
+        icon: '⏳',
+        title: 'Your answers are being marked',
+        message: 'Your result will appear here once your teachers have finished marking.',
+      },
+      unpublished: {
+        icon: '📬',
+        title: 'Results aren\'t published yet',
+        message: 'Your result will appear here once your school publishes it.',
+      },
+    }[result.state];
+
+    return (
+      <div className="min-h-screen bg-background-light dark:bg-background-dark flex items-center justify-center p-4">
+        <Card className="text-center max-w-lg">
+          <div className="text-5xl mb-4">{waiting.icon}</div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{waiting.title}</h1>
+          <p className="text-gray-600 dark:text-gray-400 mb-2">{examTitle}</p>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">{waiting.message}</p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            {result.state === 'not_submitted' && attempt.status === 'in_progress' && (
+              <Button onClick={() => navigate(`/exam/${examId}/attempt/${attempt.id}`)}>
+                Continue Exam
+              </Button>
+            )}
+            <Button variant="secondary" onClick={handleBackToDashboard}>
+              Back to Dashboard
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const counts = result.score?.counts;
+  const revealAnswers = canShowCorrectAnswers(result.state, exam);
+  const passed = exam?.passing_percentage !== undefined && exam.passing_percentage !== null
+    ? percentage >= exam.passing_percentage
+    : undefined;
+
   return (
     <div className="min-h-screen bg-background-light dark:bg-background-dark relative overflow-hidden">
       <ConfettiEffect active={showConfetti} />
-      
-      <main className="flex items-center justify-center p-4 min-h-screen">
-        <div className="w-full max-w-lg mx-auto text-center z-10">
+
+      <main className="flex flex-col items-center p-4 min-h-screen">
+        <div className="w-full max-w-lg mx-auto text-center z-10 pt-8">
           {/* Mascot */}
           <div className="mb-6">
-            <div className="w-48 h-48 mx-auto bg-center bg-no-repeat bg-cover rounded-full animate-bounce-gentle" 
+            <div className="w-48 h-48 mx-auto bg-center bg-no-repeat bg-cover rounded-full animate-bounce-gentle"
                  style={{backgroundImage: 'url("https://lh3.googleusercontent.com/aida-public/AB6AXuD0glcgWsxhIlmkVr7duML6SGKfG_zUGFRAAZTyf6dU6qoLj6E4HvFlwV7XTIPUOaKBsHknozAUu4xXxJFJ3TzIWpzEFnS2mb07K3NMMAvSAv_NE24xy62Tqubw_X2Riul36j04NBbzjxCa6SdC3Bo4ybthoZf9OOQfQmq9Dpxto2J_5LPRNJkK3L5Ts3QiO_fbbm6XlHxCwaoFXM_Wnhvp0Av2bIvjSkeELVXS41So4nNgjCXLfUyJeFvjIiA4uxqg6CABze7WA7E")'}}></div>
           </div>
 
           {/* Title */}
           <h1 className="text-4xl font-bold text-text-light dark:text-text-dark mb-2">
-            Well done, Aisha! 🎊
+            {attempt.student?.first_name ? `Well done, ${attempt.student.first_name}! 🎊` : 'Well done! 🎊'}
           </h1>
           <p className="text-lg text-text-light/80 dark:text-text-dark/80 mb-8">
-            You've successfully completed the {exam.title}. Let's see how you did!
+            You've completed the {examTitle}. Let's see how you did!
           </p>
 
           {/* Performance Message */}
@@ -98,46 +166,73 @@ const ResultsPage: React.FC = () => {
                 <span className="text-sm text-text-light/70 dark:text-text-dark/70 mb-1">Your Score</span>
                 <div className="flex items-baseline gap-2 mb-2">
                   <span className="text-4xl font-extrabold text-primary">{score}</span>
-                  <span className="text-2xl font-semibold text-text-light/50 dark:text-text-dark/50">
-                    / {total}
-                  </span>
+                  {maxMarks > 0 && (
+                    <span className="text-2xl font-semibold text-text-light/50 dark:text-text-dark/50">
+                      / {maxMarks}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center text-success-light dark:text-success-dark">
                   <span className="text-lg mr-1">{getScoreEmoji()}</span>
                   <span className="text-sm font-medium">{percentage}%</span>
                 </div>
               </div>
-              
+
               <div className="flex flex-col items-center justify-center p-4 bg-background-light dark:bg-background-dark/20 rounded-lg">
                 <span className="text-sm text-text-light/70 dark:text-text-dark/70 mb-1">Performance</span>
                 <div className="text-4xl font-extrabold text-text-light dark:text-text-dark mb-2">
                   {percentage}%
                 </div>
-                <ProgressBar 
-                  progress={percentage} 
+                <ProgressBar
+                  progress={percentage}
                   color={percentage >= 80 ? 'success' : percentage >= 60 ? 'warning' : 'error'}
                   animated
                 />
+                {passed !== undefined && (
+                  <span className={`mt-2 text-sm font-medium ${passed ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {passed ? 'Passed' : 'Not passed'} (pass mark {exam?.passing_percentage}%)
+                  </span>
+                )}
               </div>
             </div>
+            {rank !== undefined && (
+              <p className="mt-4 text-sm text-text-light/70 dark:text-text-dark/70">
+                Class rank: <span className="font-bold text-text-light dark:text-text-dark">#{rank}</span>
+              </p>
+            )}
           </Card>
 
           {/* Detailed Results */}
-          <Card className="mb-8">
-            <h3 className="text-lg font-bold text-text-light dark:text-text-dark mb-4">
-              Exam Details 📊
-            </h3>
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                <div className="font-bold text-lg text-green-600 dark:text-green-400">{score}</div>
-                <div className="text-gray-600 dark:text-gray-400">Correct</div>
-              </div>
-              <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                <div className="font-bold text-lg text-red-600 dark:text-red-400">{total - score}</div>
-                <div className="text-gray-600 dark:text-gray-400">Incorrect</div>
+          {counts && (
+            <Card className="mb-8">
+              <h3 className="text-lg font-bold text-text-light dark:text-text-dark mb-4">
+                Exam Details 📊
+              </h3>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div className="font-bold text-lg text-green-600 dark:text-green-400">{counts.correct}</div>
+                  <div className="text-gray-600 dark:text-gray-400">Correct</div>
+                </div>
+                <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div className="font-bold text-lg text-yellow-600 dark:text-yellow-400">{counts.partial}</div>
+                  <div className="text-gray-600 dark:text-gray-400">Partial</div>
+                </div>
+                <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div className="font-bold text-lg text-red-600 dark:text-red-400">{counts.wrong}</div>
+                  <div className="text-gray-600 dark:text-gray-400">Incorrect</div>
+                </div>
+                <div className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div className="font-bold text-lg text-gray-600 dark:text-gray-400">{counts.unanswered}</div>
+                  <div className="text-gray-600 dark:text-gray-400">Unanswered</div>
+                </div>
               </div>
-            </div>
-          </Card>
+              {result.score && result.score.penalty_total > 0 && (
+                <p className="mt-3 text-sm text-red-600 dark:text-red-400">
+                  {result.score.penalty_total} marks were deducted for wrong answers.
+                </p>
+              )}
+            </Card>
+          )}
 
           {/* Achievement Badge */}
           {percentage >= 80 && (
@@ -163,7 +258,16 @@ const ResultsPage: React.FC = () => {
             >
               Back to Dashboard
             </Button>
-            {percentage < 70 && (
+            {examQuestions.length > 0 && (
+              <Button
+                onClick={() => setShowReview(prev => !prev)}
+                variant="outline"
+                icon={<span>📝</span>}
+              >
+                {showReview ? 'Hide Review' : 'Review Answers'}
+              </Button>
+            )}
+            {exam?.allow_multiple_attempts && percentage < 70 && (
               <Button
                 onClick={handleRetakeExam}
                 icon={<span>🔄</span>}
@@ -176,15 +280,68 @@ const ResultsPage: React.FC = () => {
           {/* Encouragement Message */}
           <div className="mt-8 p-4 bg-primary/10 rounded-lg">
             <p className="text-sm text-primary font-medium">
-              {percentage >= 80 
-                ? "🌟 Amazing work! You're on fire! Keep up the excellent progress!" 
-                : percentage >= 60 
-                  ? "💪 Good effort! Practice makes perfect. You're getting better every day!" 
+              {percentage >= 80
+                ? "🌟 Amazing work! You're on fire! Keep up the excellent progress!"
+                : percentage >= 60
+                  ? "💪 Good effort! Practice makes perfect. You're getting better every day!"
                   : "📚 Don't worry! Every expert was once a beginner. Keep learning and growing!"
               }
             </p>
           </div>
         </div>
+
+        {/* Answer Review */}
+        {showReview && result.score && (
+          <div className="w-full max-w-3xl mx-auto mt-8 space-y-6 z-10">
+            {!revealAnswers && (
+              <p className="text-sm text-center text-text-light/70 dark:text-text-dark/70">
+                Correct answers aren't shown for this exam.
+              </p>
+            )}
+            {/* Same question and choice order the student had during the exam */}
+            {applyAttemptLayout(examQuestions, getAttemptLayout(attempt, exam ?? attempt.monthly_exam, examQuestions)).map((examQuestion, index) => {
+              const question = examQuestion.question;
+              const line = result.score?.lines.find(item => item.question_id === examQuestion.question_id);
+              if (!question || !line) return null;
+              const answer = answers.find(item => item.question_id === line.question_id);
+
+              return (
+                <Card key={line.question_id}>
+                  <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                    <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                      Question {index + 1}
+                    </span>
+                    <span className="text-sm font-bold text-gray-900 dark:text-white">
+                      {line.status === 'pending' ? 'Not marked' : `${line.net} / ${line.max_marks} marks`}
+                      {line.penalty > 0 && (
+                        <span className="ml-1 font-normal text-red-600 dark:text-red-400">(−{line.penalty} for a wrong answer)</span>
+                      )}
+                    </span>
+                  </div>
+                  <QuestionCard
+                    question={toReviewQuestion(question, line.max_marks, revealAnswers)}
+                    attemptId={attempt.id}
+                    answerId={answer?.id}
+                    selectedAnswer={getReviewAnswer(question.type, answer)}
+                    onAnswerChange={() => undefined}
+                    isReviewMode
+                    showExplanation
+                    showCorrectAnswer={revealAnswers}
+                  />
+                  {line.status === 'unanswered' && (
+                    <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">You didn't answer this question.</p>
+                  )}
+                  {answer?.feedback && (
+                    <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                      <h4 className="font-bold text-gray-800 dark:text-gray-200 mb-1">Teacher feedback</h4>
+                      <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{answer.feedback}</p>
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        )}
       </main>
     </div>
   );
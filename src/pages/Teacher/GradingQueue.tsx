@@ -1,110 +1,115 @@
-import React, { useState } from 'react';
-import { useQuery } from 'react-query';
-import apiService from '../../services/api';
-import type { StudentAttempt, AttemptAnswer } from '../../services/api';
+import React, { useState, useMemo } from 'react';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
 import ProgressBar from '../../components/ProgressBar';
+import QuestionGrader from '../../components/QuestionGrader';
+import FileAnnotator from '../../components/FileAnnotator';
+import ModerationPanel from '../../components/ModerationPanel';
+import GradeSuggestionNote from '../../components/GradeSuggestionNote';
+import { useGradingQueue } from '../../hooks/useGradingQueue';
+import { validateMarks } from '../../utils/gradingQueue';
+import type { ExamGroup, GradingTask, QuestionGroup } from '../../utils/gradingQueue';
 
-interface GradingItem {
-  attempt: StudentAttempt;
-  answers: AttemptAnswer[];
-  student_name: string;
-  exam_title: string;
-}
+type SortOption = 'date' | 'student' | 'exam';
+
+// Open-ended text answers can be graded question by question against a rubric
+const BY_QUESTION_TYPES = ['essay', 'short'];
+
+const typeLabels: Record<string, string> = {
+  essay: 'Essay',
+  short: 'Short answer',
+  file: 'File upload',
+  mcq: 'Multiple choice',
+  tf: 'True/False',
+  numeric: 'Numeric',
+};
+
+const fieldClass = 'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white';
+
+const submittedAt = (task: GradingTask) => new Date(task.attempt.finished_at || 0).getTime();
 
 const TeacherGradingQueue: React.FC = () => {
-  const [gradingItems, setGradingItems] = useState<GradingItem[]>([]);
-  const [filteredItems, setFilteredItems] = useState<GradingItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'date' | 'student' | 'exam'>('date');
-  const [selectedItem, setSelectedItem] = useState<GradingItem | null>(null);
-  const [grades, setGrades] = useState<Record<string, number>>({});
+  const [sortBy, setSortBy] = useState<SortOption>('date');
+  const [selected, setSelected] = useState<{ examId: number; questionId: number } | null>(null);
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [byQuestion, setByQuestion] = useState<{ examTitle: string; group: QuestionGroup } | null>(null);
+  const [annotatingId, setAnnotatingId] = useState<number | null>(null);
 
-  // Fetch grading queue using React Query
-  const { data: items = [], isLoading, isError, refetch } = useQuery<GradingItem[]>(
-    'gradingQueue',
-    async () => {
-      // In a real implementation, you would fetch from an endpoint
-      // For now, we'll simulate with a placeholder
-      return [];
-    },
-    {
-      staleTime: 5 * 60 * 1000, // 5 minutes
-    }
-  );
+  const { exams, moderation, pendingCount, isLoading, isError, refetch, grade } = useGradingQueue();
+
+  // Search matches the exam title or a student; sorting applies to exams and to answers within a question
+  const filteredExams = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+
+    const sortTasks = (tasks: GradingTask[]) => [...tasks].sort((a, b) =>
+      sortBy === 'student' ? a.student_name.localeCompare(b.student_name) : submittedAt(b) - submittedAt(a)
+    );
 
-  // Filter and sort items
-  React.useEffect(() => {
-    let result = [...items];
-    
-    // Apply search filter
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      result = result.filter(item => 
-        item.student_name.toLowerCase().includes(term) ||
-        item.exam_title.toLowerCase().includes(term)
-      );
+    const result: ExamGroup[] = exams
+      .map(exam => {
+        if (!term || exam.exam_title.toLowerCase().includes(term)) {
+          return { ...exam, questions: exam.questions.map(group => ({ ...group, tasks: sortTasks(group.tasks) })) };
+        }
+        const questions = exam.questions
+          .map(group => ({
+            ...group,
+            tasks: sortTasks(group.tasks.filter(task => task.student_name.toLowerCase().includes(term))),
+          }))
+          .filter(group => group.tasks.length > 0);
+        return { ...exam, questions };
+      })
+      .filter(exam => exam.questions.length > 0);
+
+    return result.sort((a, b) => sortBy === 'exam'
+      ? a.exam_title.localeCompare(b.exam_title)
+      : new Date(b.latest_submission || 0).getTime() - new Date(a.latest_submission || 0).getTime()
+    );
+  }, [exams, searchTerm, sortBy]);
+
+  const selectedExam = selected ? filteredExams.find(exam => exam.monthly_exam_id === selected.examId) : undefined;
+  const selectedGroup = selectedExam?.questions.find(group => group.question_id === selected?.questionId);
+
+  // Anonymised grading covers every answer to the question, whatever the search matched
+  const openByQuestion = (examId: number, questionId: number) => {
+    const exam = exams.find(item => item.monthly_exam_id === examId);
+    const group = exam?.questions.find(item => item.question_id === questionId);
+    if (exam && group) {
+      setByQuestion({ examTitle: exam.exam_title, group });
     }
-    
-    // Apply sorting
-    result.sort((a, b) => {
-      switch (sortBy) {
-        case 'date':
-          return new Date(b.attempt.finished_at || '').getTime() - new Date(a.attempt.finished_at || '').getTime();
-        case 'student':
-          return a.student_name.localeCompare(b.student_name);
-        case 'exam':
-          return a.exam_title.localeCompare(b.exam_title);
-        default:
-          return 0;
-      }
-    });
-    
-    setFilteredItems(result);
-  }, [items, searchTerm, sortBy]);
+  };
 
-  // Handle grade change
-  const handleGradeChange = (answerId: string, marks: number) => {
-    setGrades(prev => ({
-      ...prev,
-      [answerId]: marks
-    }));
+  const closeGrading = () => {
+    setSelected(null);
+    setErrors({});
+    setAnnotatingId(null);
   };
 
-  // Submit grades
-  const handleSubmitGrades = async () => {
-    if (!selectedItem) return;
-    
+  const handleSave = async (task: GradingTask) => {
+    const answerId = task.answer.id;
+    const marks = parseFloat(drafts[answerId] ?? '');
+    const invalid = validateMarks(marks, task.max_marks);
+    if (invalid) {
+      setErrors(prev => ({ ...prev, [answerId]: invalid }));
+      return;
+    }
+
+    setSavingId(answerId);
+    setErrors(prev => ({ ...prev, [answerId]: '' }));
     try {
-      // Update grades for each answer
-      for (const answer of selectedItem.answers) {
-        if (grades[answer.id!]) {
-          // In a real implementation, you would call an API endpoint to update the grade
-          // await apiService.updateAttemptAnswer(answer.id!, {
-          //   marks_awarded: grades[answer.id!],
-          //   auto_graded: false,
-          //   graded_by: 'teacher_id', // Current teacher ID
-          //   graded_at: new Date().toISOString(),
-          // });
-        }
-      }
-      
-      // Mark attempt as graded
-      // await apiService.updateStudentAttempt(selectedItem.attempt.id, {
-      //   status: 'graded',
-      //   total_score: Object.values(grades).reduce((sum, grade) => sum + grade, 0),
-      // });
-      
-      // Refresh the queue
-      refetch();
-      
-      // Close the grading modal
-      setSelectedItem(null);
-      setGrades({});
+      await grade({ task, marks });
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[answerId];
+        return next;
+      });
     } catch (err) {
-      console.error('Failed to submit grades:', err);
-      // Show error message to user
+      const message = (err as { response?: { data?: { message?: string } } })?.response?.data?.message;
+      setErrors(prev => ({ ...prev, [answerId]: message || 'Failed to save marks' }));
+    } finally {
+      setSavingId(null);
     }
   };
 
@@ -133,7 +138,7 @@ const TeacherGradingQueue: React.FC = () => {
               <p className="text-gray-600 dark:text-gray-400 mb-6">
                 There was a problem loading the grading queue. Please try again later.
               </p>
-              <Button onClick={() => window.location.reload()}>
+              <Button onClick={() => refetch()}>
                 Retry
               </Button>
             </Card>
@@ -155,11 +160,11 @@ const TeacherGradingQueue: React.FC = () => {
                   Grading Queue
                 </h1>
                 <p className="text-gray-600 dark:text-gray-400">
-                  Review and grade student exam submissions
+                  Mark essay, short-answer and file responses, one question at a time
                 </p>
               </div>
               <div className="bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 px-4 py-2 rounded-lg">
-                <span className="font-bold">{filteredItems.length}</span> items need grading
+                <span className="font-bold">{pendingCount}</span> answers need grading
               </div>
             </div>
           </div>
@@ -173,14 +178,14 @@ const TeacherGradingQueue: React.FC = () => {
                   placeholder="Search by student or exam..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                  className={`w-full ${fieldClass}`}
                 />
               </div>
               <div className="flex gap-2">
                 <select
                   value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as any)}
-                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                  onChange={(e) => setSortBy(e.target.value as SortOption)}
+                  className={fieldClass}
                 >
                   <option value="date">Sort by Date</option>
                   <option value="student">Sort by Student</option>
@@ -190,8 +195,14 @@ const TeacherGradingQueue: React.FC = () => {
             </div>
           </div>
           
+          {moderation.length > 0 && (
+            <div className="mb-8">
+              <ModerationPanel tasks={moderation} onModerate={grade} />
+            </div>
+          )}
+
           {/* Grading queue */}
-          {filteredItems.length === 0 ? (
+          {filteredExams.length === 0 && moderation.length === 0 ? (
             <Card className="text-center p-12">
               <div className="text-5xl mb-4">✅</div>
               <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
@@ -203,148 +214,237 @@ const TeacherGradingQueue: React.FC = () => {
             </Card>
           ) : (
             <div className="space-y-6">
-              {filteredItems.map((item) => (
-                <Card key={item.attempt.id} className="hover:shadow-lg transition-shadow">
-                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-                    <div className="flex-1">
-                      <div className="flex flex-wrap items-center gap-2 mb-2">
-                        <h3 className="font-bold text-gray-900 dark:text-white">
-                          {item.student_name}
+              {filteredExams.map((exam) => {
+                const total = exam.pending_count + exam.graded_count;
+
+                return (
+                  <Card key={exam.monthly_exam_id}>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+                      <div>
+                        <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+                          {exam.exam_title}
+                          {exam.double_marked && (
+                            <span className="ml-2 align-middle px-2 py-0.5 rounded text-xs font-medium bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-200">
+                              Double marked
+                            </span>
+                          )}
                         </h3>
-                        <span className="text-gray-500 dark:text-gray-400">•</span>
-                        <span className="text-primary font-medium">
-                          {item.exam_title}
-                        </span>
-                      </div>
-                      
-                      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400 mb-3">
-                        <span>
-                          Submitted: {new Date(item.attempt.finished_at || '').toLocaleDateString()}
-                        </span>
-                        <span>•</span>
-                        <span>
-                          Duration: {item.attempt.duration_seconds 
-                            ? `${Math.floor(item.attempt.duration_seconds / 60)}m ${item.attempt.duration_seconds % 60}s`
-                            : 'Unknown'}
-                        </span>
+                        {exam.latest_submission && (
+                          <p className="text-sm text-gray-600 dark:text-gray-400">
+                            Last submission: {new Date(exam.latest_submission).toLocaleString()}
+                          </p>
+                        )}
                       </div>
-                      
-                      <div className="flex items-center gap-2">
-                        <span className="text-sm text-gray-600 dark:text-gray-400">
-                          Progress:
-                        </span>
-                        <ProgressBar 
-                          progress={75} // Placeholder, should be calculated
-                          className="flex-1 max-w-xs"
+                      <div className="flex items-center gap-2 md:w-80">
+                        <ProgressBar
+                          progress={total > 0 ? (exam.graded_count / total) * 100 : 0}
+                          className="flex-1"
                         />
-                        <span className="text-sm text-gray-600 dark:text-gray-400">
-                          12/16 answered
+                        <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                          {exam.graded_count}/{total} marked
                         </span>
                       </div>
                     </div>
-                    
-                    <div className="flex gap-2">
-                      <Button 
-                        variant="secondary" 
-                        onClick={() => setSelectedItem(item)}
-                      >
-                        Grade Now
-                      </Button>
+
+                    <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {exam.questions.map((group) => (
+                        <div key={group.question_id} className="py-3 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex flex-wrap items-center gap-2 mb-1">
+                              <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                                {typeLabels[group.question?.type ?? ''] ?? 'Question'}
+                              </span>
+                              <span className="text-sm text-gray-600 dark:text-gray-400">
+                                {group.max_marks} marks
+                              </span>
+                            </div>
+                            <p className="text-gray-900 dark:text-white truncate">
+                              {group.question?.prompt || `Question #${group.question_id}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="text-sm text-gray-600 dark:text-gray-400">
+                              {group.tasks.length} to mark
+                            </span>
+                            {BY_QUESTION_TYPES.includes(group.question?.type ?? '') && (
+                              <Button
+                                variant="outline"
+                                onClick={() => openByQuestion(exam.monthly_exam_id, group.question_id)}
+                              >
+                                Grade by Question
+                              </Button>
+                            )}
+                            <Button
+                              variant="secondary"
+                              onClick={() => setSelected({ examId: exam.monthly_exam_id, questionId: group.question_id })}
+                            >
+                              Grade Now
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                  </div>
-                </Card>
-              ))}
+                  </Card>
+                );
+              })}
             </div>
           )}
         </div>
       </div>
       
+      {byQuestion && (
+        <QuestionGrader
+          key={`${byQuestion.examTitle}-${byQuestion.group.question_id}`}
+          examTitle={byQuestion.examTitle}
+          group={byQuestion.group}
+          onGrade={grade}
+          onClose={() => setByQuestion(null)}
+        />
+      )}
+
       {/* Grading modal */}
-      {selectedItem && (
+      {selected && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <Card className="max-w-4xl w-full max-h-[90vh] overflow-y-auto">
-            <div className="flex justify-between items-center mb-6">
+            <div className="flex justify-between items-start gap-4 mb-6">
               <div>
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
-                  Grade Submission
+                  Grade Question
                 </h2>
                 <p className="text-gray-600 dark:text-gray-400">
-                  {selectedItem.student_name} - {selectedItem.exam_title}
+                  {selectedExam?.exam_title}
                 </p>
+                {selectedExam?.double_marked && (
+                  <p className="mt-1 text-sm text-purple-700 dark:text-purple-300">
+                    Blind double marking: the other marker won't see your marks, and large differences go to the moderator.
+                  </p>
+                )}
               </div>
               <button 
-                onClick={() => setSelectedItem(null)}
+                onClick={closeGrading}
                 className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                aria-label="Close grading"
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
                 </svg>
               </button>
             </div>
-            
-            <div className="space-y-6">
-              <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
-                <h3 className="font-bold text-gray-900 dark:text-white mb-4">Essay Questions</h3>
-                
-                <div className="space-y-6">
-                  {selectedItem.answers
-                    .filter(answer => answer.question_id) // Filter for essay/file questions
-                    .map((answer) => (
-                      <div key={answer.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
-                        <div className="mb-4">
-                          <h4 className="font-bold text-gray-900 dark:text-white mb-2">
-                            Question Prompt
-                          </h4>
-                          <p className="text-gray-700 dark:text-gray-300">
-                            {/* Question prompt would go here */}
-                            Explain the process of photosynthesis in detail.
-                          </p>
-                        </div>
-                        
-                        <div className="mb-4">
-                          <h4 className="font-bold text-gray-900 dark:text-white mb-2">
-                            Student Response
-                          </h4>
-                          <div className="p-3 bg-white dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
-                            <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
-                              {answer.answer_text || 'No response provided'}
-                            </p>
-                          </div>
-                        </div>
-                        
+
+            {!selectedGroup ? (
+              <div className="text-center py-8">
+                <div className="text-5xl mb-4">✅</div>
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Every answer to this question has been graded.
+                </p>
+                <Button onClick={closeGrading}>Back to Queue</Button>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                  <h3 className="font-bold text-gray-900 dark:text-white mb-2">Question Prompt</h3>
+                  <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {selectedGroup.question?.prompt || `Question #${selectedGroup.question_id}`}
+                  </p>
+                  {selectedGroup.question?.metadata?.explanation && (
+                    <p className="mt-3 text-sm text-blue-700 dark:text-blue-300">
+                      <span className="font-medium">Grading criteria:</span> {selectedGroup.question.metadata.explanation}
+                    </p>
+                  )}
+                </div>
+
+                {selectedGroup.tasks.map((task) => {
+                  const answerId = task.answer.id;
+
+                  return (
+                    <div key={answerId} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                      <div className="flex flex-wrap justify-between gap-2 mb-3">
                         <div>
-                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                            Marks Awarded (out of 10)
-                          </label>
-                          <div className="flex items-center gap-3">
-                            <input
-                              type="number"
-                              min="0"
-                              max={10}
-                              value={grades[answer.id!] || ''}
-                              onChange={(e) => handleGradeChange(answer.id!, parseFloat(e.target.value) || 0)}
-                              className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
-                            />
-                            <span className="text-gray-600 dark:text-gray-400">
-                              / 10
-                            </span>
+                          <h4 className="font-bold text-gray-900 dark:text-white">{task.student_name}</h4>
+                          {task.display_position && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">Shown to the student as Q{task.display_position}</p>
+                          )}
+                        </div>
+                        {task.attempt.finished_at && (
+                          <span className="text-sm text-gray-600 dark:text-gray-400">
+                            Submitted {new Date(task.attempt.finished_at).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="mb-4 p-3 bg-white dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
+                        {task.answer.uploaded_file ? (
+                          <div className="space-y-3">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                              <p className="text-gray-700 dark:text-gray-300 break-all">
+                                📎 {task.answer.uploaded_file}
+                              </p>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setAnnotatingId(annotatingId === answerId ? null : answerId)}
+                              >
+                                {annotatingId === answerId ? 'Hide File' : 'View & Annotate'}
+                              </Button>
+                            </div>
+                            {annotatingId === answerId && (
+                              <FileAnnotator answerId={answerId} filePath={task.answer.uploaded_file} />
+                            )}
                           </div>
+                        ) : (
+                          <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                            {task.answer.answer_text || 'No response provided'}
+                          </p>
+                        )}
+                      </div>
+
+                      {task.suggestion && (
+                        <div className="mb-4">
+                          <GradeSuggestionNote
+                            suggestion={task.suggestion}
+                            maxMarks={task.max_marks}
+                            onApply={(marks) => setDrafts(prev => ({ ...prev, [answerId]: String(marks) }))}
+                          />
                         </div>
+                      )}
+
+                      <div className="flex flex-wrap items-center gap-3">
+                        <label htmlFor={`marks-${answerId}`} className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Marks Awarded
+                        </label>
+                        <input
+                          id={`marks-${answerId}`}
+                          type="number"
+                          min="0"
+                          max={task.max_marks || undefined}
+                          step="0.5"
+                          value={drafts[answerId] ?? ''}
+                          onChange={(e) => setDrafts(prev => ({ ...prev, [answerId]: e.target.value }))}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSave(task);
+                          }}
+                          className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                        />
+                        <span className="text-gray-600 dark:text-gray-400">
+                          / {task.max_marks}
+                        </span>
+                        <Button
+                          size="sm"
+                          onClick={() => handleSave(task)}
+                          disabled={savingId === answerId || drafts[answerId] === undefined || drafts[answerId] === ''}
+                        >
+                          {savingId === answerId ? 'Saving...' : 'Save'}
+                        </Button>
                       </div>
-                    ))
-                  }
-                </div>
-              </div>
-              
-              <div className="flex justify-end gap-3">
-                <Button variant="secondary" onClick={() => setSelectedItem(null)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleSubmitGrades} className="text-black">
-                  Submit Grades
-                </Button>
+
+                      {errors[answerId] && (
+                        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{errors[answerId]}</p>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-            </div>
+            )}
           </Card>
         </div>
       )}
@@ -352,4 +452,4 @@ const TeacherGradingQueue: React.FC = () => {
   );
 };
 
-export default TeacherGradingQueue;
\ No newline at end of file
+export default TeacherGradingQueue;
@@ -1,72 +1,87 @@
 import React, { useState, useEffect } from 'react';
-import { useQuery } from 'react-query';
-import io from 'socket.io-client';
-import apiService from '../../services/api';
-import type { StudentAttempt } from '../../services/api';
 import Card from '../../components/Card';
 import Button from '../../components/Button';
+import { useAttemptMonitor } from '../../hooks/useAttemptMonitor';
+import type { MonitoringEvent } from '../../hooks/useAttemptMonitor';
+import type { MonitoredAttempt } from '../../utils/attemptMonitor';
+import type { ConnectionStatus } from '../../services/websocket';
+import { formatDuration } from '../../utils/proctoringRisk';
+import { useProctoringRisk } from '../../hooks/useProctoringRisk';
+import type { AttemptRisk } from '../../hooks/useProctoringRisk';
+import ProctoringTile from '../../components/ProctoringTile';
+import RiskSettingsModal from '../../components/RiskSettingsModal';
+import MessageComposer from '../../components/MessageComposer';
+import { useTeacherMessages } from '../../hooks/useTeacherMessages';
 
-interface MonitoringEvent {
-  id: string;
-  attempt_id: string;
-  event_type: string;
-  event_time: string;
-  details?: any;
-  student_name?: string;
-  exam_title?: string;
-}
+type SortOrder = 'risk' | 'name' | 'started';
+type RiskFilter = 'all' | 'medium' | 'high';
+
+const noRisk: AttemptRisk = { score: 0, level: 'low', hiddenMs: 0 };
+
+const statusStyles: Record<MonitoredAttempt['status'], string> = {
+  in_progress: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200',
+  submitted: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200',
+  grading: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+  graded: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200',
+  abandoned: 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200',
+};
+
+const connectionStyles: Record<ConnectionStatus, { dot: string; text: string; label: string }> = {
+  idle: { dot: 'bg-gray-400', text: 'text-gray-600 dark:text-gray-400', label: 'Not Connected' },
+  connecting: { dot: 'bg-yellow-500 animate-pulse', text: 'text-yellow-600 dark:text-yellow-400', label: 'Connecting...' },
+  connected: { dot: 'bg-green-500 animate-pulse', text: 'text-green-600 dark:text-green-400', label: 'Live Monitoring' },
+  reconnecting: { dot: 'bg-yellow-500 animate-pulse', text: 'text-yellow-600 dark:text-yellow-400', label: 'Reconnecting...' },
+  disconnected: { dot: 'bg-red-500', text: 'text-red-600 dark:text-red-400', label: 'Disconnected' },
+};
+
+const formatStatus = (status: MonitoredAttempt['status']) =>
+  status.replace('_', ' ').replace(/^\w/, c => c.toUpperCase());
 
 const TeacherMonitoring: React.FC = () => {
-  const [events, setEvents] = useState<MonitoringEvent[]>([]);
   const [filteredEvents, setFilteredEvents] = useState<MonitoringEvent[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [eventTypeFilter, setEventTypeFilter] = useState<string>('all');
-  const [selectedAttempt, setSelectedAttempt] = useState<StudentAttempt | null>(null);
-  const [socket, setSocket] = useState<any>(null);
+  const [selectedAttemptId, setSelectedAttemptId] = useState<number | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>('risk');
+  const [riskFilter, setRiskFilter] = useState<RiskFilter>('all');
+  const [showRiskSettings, setShowRiskSettings] = useState(false);
+  const [composer, setComposer] = useState<{ attemptId: number | null } | null>(null);
 
-  // Fetch in-progress attempts using React Query
-  const { data: attempts = [], isLoading, isError } = useQuery<StudentAttempt[]>(
-    'inProgressAttempts',
-    async () => {
-      // In a real implementation, you would have an endpoint for this
-      // For now, we'll simulate with a placeholder
-      return [];
-    },
-    {
-      staleTime: 30 * 1000, // 30 seconds
-      refetchInterval: 30 * 1000, // Refetch every 30 seconds
-    }
-  );
+  // In-progress attempts from the backend, kept live by the WebSocket stream
+  const { attempts: attemptTable, events, health, isConnected, isLoading, isError } = useAttemptMonitor();
+  const connection = connectionStyles[health.status];
 
-  // Initialize WebSocket connection
-  useEffect(() => {
-    const newSocket = io('http://localhost:3000'); // Adjust to your WebSocket server
-    
-    newSocket.on('connect', () => {
-      console.log('Connected to WebSocket server');
-    });
-    
-    newSocket.on('exam_monitor', (data) => {
-      // Handle incoming monitoring events
-      const event: MonitoringEvent = {
-        id: Date.now().toString(),
-        attempt_id: data.attempt_id,
-        event_type: data.event_type,
-        event_time: new Date().toISOString(),
-        details: data.details,
-        student_name: data.student_name,
-        exam_title: data.exam_title,
-      };
-      
-      setEvents(prev => [event, ...prev].slice(0, 100)); // Keep only last 100 events
+  // Proctoring summaries and weighted risk per attempt
+  const { summaries, risks, alerts, settings, dismissAlert, updateSettings } = useProctoringRisk(attemptTable);
+
+  // Announcements and private messages, with acknowledgement receipts
+  const { sent: sentMessages, receipts, send: sendMessage } = useTeacherMessages(attemptTable);
+
+  const startedAt = (attempt: MonitoredAttempt) => (attempt.started_at ? Date.parse(attempt.started_at) : 0);
+  const attempts = Object.values(attemptTable).sort((a, b) => startedAt(b) - startedAt(a));
+  const visibleAttempts = attempts
+    .filter(attempt => {
+      const level = (risks[attempt.attempt_id] ?? noRisk).level;
+      if (riskFilter === 'high') return level === 'high';
+      if (riskFilter === 'medium') return level !== 'low';
+      return true;
+    })
+    .sort((a, b) => {
+      if (sortOrder === 'risk') {
+        return (risks[b.attempt_id] ?? noRisk).score - (risks[a.attempt_id] ?? noRisk).score;
+      }
+      if (sortOrder === 'name') {
+        return (a.student_name || '').localeCompare(b.student_name || '');
+      }
+      return startedAt(b) - startedAt(a);
     });
-    
-    setSocket(newSocket);
-    
-    return () => {
-      newSocket.close();
-    };
-  }, []);
+  const activeCount = attempts.filter(attempt => attempt.status === 'in_progress').length;
+  const selectedAttempt = selectedAttemptId !== null ? attemptTable[selectedAttemptId] ?? null : null;
+  const selectedRisk = selectedAttempt ? risks[selectedAttempt.attempt_id] ?? noRisk : null;
+  const selectedSummary = selectedAttempt ? summaries[selectedAttempt.attempt_id] : undefined;
+  const selectedAttemptEvents = selectedAttempt
+    ? events.filter(event => event.attempt_id === selectedAttempt.attempt_id).slice(0, 10)
+    : [];
 
   // Filter events based on search and type filters
   useEffect(() => {
@@ -94,8 +109,8 @@ const TeacherMonitoring: React.FC = () => {
   const eventTypes = Array.from(new Set(events.map(event => event.event_type)));
 
   // Handle attempt selection
-  const handleSelectAttempt = (attempt: StudentAttempt) => {
-    setSelectedAttempt(attempt);
+  const handleSelectAttempt = (attempt: MonitoredAttempt) => {
+    setSelectedAttemptId(attempt.attempt_id);
   };
 
   if (isLoading) {
@@ -148,20 +163,114 @@ const TeacherMonitoring: React.FC = () => {
                   Monitor students taking exams in real-time
                 </p>
               </div>
-              <div className="flex items-center gap-2">
-                <div className="w-3 h-3 rounded-full bg-green-500 animate-pulse"></div>
-                <span className="text-green-600 dark:text-green-400 font-medium">
-                  Live Monitoring
-                </span>
+              <div className="flex flex-col items-end">
+                <div className="flex items-center gap-2">
+                  <div className={`w-3 h-3 rounded-full ${connection.dot}`}></div>
+                  <span className={`font-medium ${connection.text}`}>
+                    {connection.label}
+                  </span>
+                </div>
+                {health.lastEventAt && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    Last event {new Date(health.lastEventAt).toLocaleTimeString()}
+                  </span>
+                )}
+                <Button
+                  size="sm"
+                  className="mt-2"
+                  onClick={() => setComposer({ attemptId: null })}
+                  disabled={activeCount === 0}
+                >
+                  Message Students
+                </Button>
               </div>
             </div>
           </div>
+
+          {/* Connection health */}
+          {health.status === 'reconnecting' && (
+            <div className="mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 text-sm">
+              Connection to the monitoring server was lost
+              {health.lastDisconnectedAt && ` at ${new Date(health.lastDisconnectedAt).toLocaleTimeString()}`}.
+              {' '}Reconnecting{health.reconnectAttempt > 0 && ` (attempt ${health.reconnectAttempt})`}; events
+              from the gap will be loaded once the connection is back.
+              {health.lastError && <span className="block mt-1 text-xs opacity-75">{health.lastError}</span>}
+            </div>
+          )}
+          {health.status === 'connected' && health.isReplaying && (
+            <div className="mb-6 p-4 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 text-sm">
+              Reconnected. Loading events missed while offline...
+            </div>
+          )}
+          {health.status === 'connected' && !health.isReplaying && health.lastReplay && (
+            <div className="mb-6 p-4 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 text-sm">
+              Reconnected at {new Date(health.lastReplay.at).toLocaleTimeString()}.
+              {' '}{health.lastReplay.count} missed {health.lastReplay.count === 1 ? 'event was' : 'events were'} recovered
+              since {new Date(health.lastReplay.since).toLocaleTimeString()}.
+            </div>
+          )}
           
-          {/* In-progress attempts */}
+          {/* Risk alerts */}
+          {alerts.length > 0 && (
+            <div className="mb-6 space-y-2">
+              {alerts.map(alert => {
+                const row = attemptTable[alert.attempt_id];
+                return (
+                  <div
+                    key={alert.attempt_id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800"
+                  >
+                    <p className="text-sm text-red-800 dark:text-red-200">
+                      <span className="font-bold">{row?.student_name || `Attempt #${alert.attempt_id}`}</span>
+                      {' '}reached risk score {alert.score} at {new Date(alert.raised_at).toLocaleTimeString()}
+                    </p>
+                    <div className="flex gap-2">
+                      {row && (
+                        <Button size="sm" variant="secondary" onClick={() => handleSelectAttempt(row)}>
+                          View
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => dismissAlert(alert.attempt_id)}>
+                        Dismiss
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Proctoring grid */}
           <div className="mb-8">
-            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
-              Active Exams ({attempts.length})
-            </h2>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Active Exams ({activeCount})
+              </h2>
+
+              <div className="flex flex-col sm:flex-row gap-3">
+                <select
+                  value={riskFilter}
+                  onChange={(e) => setRiskFilter(e.target.value as RiskFilter)}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="all">All Risk Levels</option>
+                  <option value="medium">Medium and High</option>
+                  <option value="high">High Only</option>
+                </select>
+                <select
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary/50 focus:border-primary dark:bg-gray-800 dark:text-white"
+                >
+                  <option value="risk">Highest Risk First</option>
+                  <option value="name">Student Name</option>
+                  <option value="started">Most Recently Started</option>
+                </select>
+                <Button variant="outline" onClick={() => setShowRiskSettings(true)}>
+                  Risk Settings
+                </Button>
+              </div>
+            </div>
             
             {attempts.length === 0 ? (
               <Card className="text-center p-12">
@@ -173,54 +282,72 @@ const TeacherMonitoring: React.FC = () => {
                   There are currently no students taking exams
                 </p>
               </Card>
+            ) : visibleAttempts.length === 0 ? (
+              <Card className="text-center p-12">
+                <p className="text-gray-600 dark:text-gray-400">
+                  No attempts at this risk level
+                </p>
+              </Card>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {attempts.map((attempt) => (
-                  <Card key={attempt.id} className="hover:shadow-lg transition-shadow">
-                    <div className="flex justify-between items-start mb-4">
-                      <div>
-                        <h3 className="font-bold text-gray-900 dark:text-white">
-                          Student Name
-                        </h3>
-                        <p className="text-primary">Exam Title</p>
-                      </div>
-                      <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 rounded-full text-xs font-medium">
-                        In Progress
-                      </span>
-                    </div>
-                    
-                    <div className="space-y-2 mb-4">
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-600 dark:text-gray-400">Started:</span>
-                        <span className="font-medium">
-                          {attempt.started_at 
-                            ? new Date(attempt.started_at).toLocaleTimeString() 
-                            : 'Just now'}
-                        </span>
-                      </div>
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-600 dark:text-gray-400">Duration:</span>
-                        <span className="font-medium">
-                          {attempt.duration_seconds 
-                            ? `${Math.floor(attempt.duration_seconds / 60)}m ${attempt.duration_seconds % 60}s`
-                            : '0m 0s'}
-                        </span>
-                      </div>
-                    </div>
-                    
-                    <Button 
-                      variant="secondary" 
-                      size="sm"
-                      onClick={() => handleSelectAttempt(attempt)}
-                    >
-                      View Details
-                    </Button>
-                  </Card>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                {visibleAttempts.map((attempt) => (
+                  <ProctoringTile
+                    key={attempt.attempt_id}
+                    attempt={attempt}
+                    summary={summaries[attempt.attempt_id]}
+                    risk={risks[attempt.attempt_id] ?? noRisk}
+                    onSelect={handleSelectAttempt}
+                  />
                 ))}
               </div>
             )}
           </div>
           
+          {/* Sent messages and receipts */}
+          {sentMessages.length > 0 && (
+            <div className="mb-8">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+                Sent Messages
+              </h2>
+              <div className="space-y-3">
+                {sentMessages.map(message => {
+                  const messageReceipts = receipts[message.message_id] || [];
+                  const target = message.scope === 'attempt'
+                    ? attemptTable[message.attempt_id!]?.student_name || `Attempt #${message.attempt_id}`
+                    : `Everyone on ${Object.values(attemptTable).find(row => row.monthly_exam_id === message.monthly_exam_id)?.exam_title || `Exam #${message.monthly_exam_id}`}`;
+
+                  return (
+                    <Card key={message.message_id} className="p-4">
+                      <div className="flex flex-col md:flex-row md:items-start justify-between gap-2">
+                        <div>
+                          <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">
+                            {message.priority === 'warning' ? 'Warning' : 'Announcement'} to {target}
+                            {' '}· {new Date(message.sent_at).toLocaleTimeString()}
+                          </p>
+                          <p className="text-gray-900 dark:text-white whitespace-pre-wrap">{message.body}</p>
+                        </div>
+                        <span className={`flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${
+                          messageReceipts.length >= message.recipients.length && message.recipients.length > 0
+                            ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+                            : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+                        }`}>
+                          {messageReceipts.length} / {message.recipients.length} acknowledged
+                        </span>
+                      </div>
+                      {messageReceipts.length > 0 && (
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                          {messageReceipts
+                            .map(receipt => `${attemptTable[receipt.attempt_id]?.student_name || `Attempt #${receipt.attempt_id}`} at ${new Date(receipt.acknowledged_at).toLocaleTimeString()}`)
+                            .join(', ')}
+                        </p>
+                      )}
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Monitoring events */}
           <div>
             <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
@@ -328,7 +455,7 @@ const TeacherMonitoring: React.FC = () => {
                 Attempt Details
               </h2>
               <button 
-                onClick={() => setSelectedAttempt(null)}
+                onClick={() => setSelectedAttemptId(null)}
                 className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
               >
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -341,18 +468,22 @@ const TeacherMonitoring: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
                   <h3 className="font-bold text-gray-900 dark:text-white mb-2">Student</h3>
-                  <p className="text-gray-700 dark:text-gray-300">Student Name</p>
+                  <p className="text-gray-700 dark:text-gray-300">
+                    {selectedAttempt.student_name || `Student #${selectedAttempt.student_id ?? '?'}`}
+                  </p>
                 </div>
                 
                 <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
                   <h3 className="font-bold text-gray-900 dark:text-white mb-2">Exam</h3>
-                  <p className="text-gray-700 dark:text-gray-300">Exam Title</p>
+                  <p className="text-gray-700 dark:text-gray-300">
+                    {selectedAttempt.exam_title || `Exam #${selectedAttempt.monthly_exam_id ?? '?'}`}
+                  </p>
                 </div>
                 
                 <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
                   <h3 className="font-bold text-gray-900 dark:text-white mb-2">Status</h3>
-                  <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 rounded-full text-xs font-medium">
-                    In Progress
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[selectedAttempt.status]}`}>
+                    {formatStatus(selectedAttempt.status)}
                   </span>
                 </div>
                 
@@ -365,26 +496,74 @@ const TeacherMonitoring: React.FC = () => {
                   </p>
                 </div>
               </div>
+
+              {selectedRisk && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                    <h3 className="text-sm text-gray-600 dark:text-gray-400">Risk score</h3>
+                    <p className="text-xl font-bold text-gray-900 dark:text-white">{selectedRisk.score}</p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                    <h3 className="text-sm text-gray-600 dark:text-gray-400">Tab switches</h3>
+                    <p className="text-xl font-bold text-gray-900 dark:text-white">{selectedSummary?.tab_switches ?? 0}</p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                    <h3 className="text-sm text-gray-600 dark:text-gray-400">Time hidden</h3>
+                    <p className="text-xl font-bold text-gray-900 dark:text-white">{formatDuration(selectedRisk.hiddenMs)}</p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                    <h3 className="text-sm text-gray-600 dark:text-gray-400">Proctoring events</h3>
+                    <p className="text-xl font-bold text-gray-900 dark:text-white">{selectedSummary?.event_count ?? 0}</p>
+                  </div>
+                </div>
+              )}
+
+              {selectedSummary?.latest_snapshot && (
+                <div>
+                  <h3 className="font-bold text-gray-900 dark:text-white mb-2">
+                    Latest Snapshot ({new Date(selectedSummary.latest_snapshot.captured_at).toLocaleTimeString()})
+                  </h3>
+                  <img
+                    src={selectedSummary.latest_snapshot.image}
+                    alt="Latest camera snapshot"
+                    className="w-full rounded-lg"
+                  />
+                </div>
+              )}
               
               <div>
                 <h3 className="font-bold text-gray-900 dark:text-white mb-4">Recent Activity</h3>
                 <div className="space-y-3">
-                  {/* Placeholder for activity log */}
-                  <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                    <p className="text-gray-700 dark:text-gray-300">
-                      Student started the exam
-                    </p>
+                  {selectedAttemptEvents.length === 0 ? (
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      2 minutes ago
+                      No activity received since monitoring started
                     </p>
-                  </div>
+                  ) : (
+                    selectedAttemptEvents.map(event => (
+                      <div key={event.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <p className="text-gray-700 dark:text-gray-300">
+                          {event.event_type === 'proctor_event' && event.details?.event_type
+                            ? String(event.details.event_type)
+                            : event.event_type}
+                        </p>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {new Date(event.event_time).toLocaleTimeString()}
+                        </p>
+                      </div>
+                    ))
+                  )}
                 </div>
               </div>
               
               <div className="flex justify-end gap-3">
-                <Button variant="secondary" onClick={() => setSelectedAttempt(null)}>
+                <Button variant="secondary" onClick={() => setSelectedAttemptId(null)}>
                   Close
                 </Button>
+                {selectedAttempt.status === 'in_progress' && (
+                  <Button variant="outline" onClick={() => setComposer({ attemptId: selectedAttempt.attempt_id })}>
+                    Message Student
+                  </Button>
+                )}
                 <Button className="text-black">
                   View Proctoring Events
                 </Button>
@@ -393,6 +572,23 @@ const TeacherMonitoring: React.FC = () => {
           </Card>
         </div>
       )}
+
+      {composer && (
+        <MessageComposer
+          onClose={() => setComposer(null)}
+          attempts={attempts}
+          initialAttemptId={composer.attemptId}
+          isConnected={isConnected}
+          onSend={sendMessage}
+        />
+      )}
+
+      <RiskSettingsModal
+        isOpen={showRiskSettings}
+        onClose={() => setShowRiskSettings(false)}
+        settings={settings}
+        onSave={updateSettings}
+      />
     </div>
   );
 };
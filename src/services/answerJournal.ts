@@ -0,0 +1,308 @@
+/**
+ * Answer Journal
+ * Durable, per-attempt record of answers that haven't reached the server yet.
+ * Entries are sequence-numbered, only the latest write per question is kept,
+ * and replay skips answers the server already holds a newer version of.
+ * Answers the server refuses outright are set aside so they can't hold up the rest.
+ */
+
+import localforage from 'localforage';
+import type { AttemptAnswer } from './api';
+import { getErrorStatus, isRetryableError } from './offlineQueue';
+
+export interface JournalEntry {
+  seq: number;
+  question_id: number | string;
+  choice_id?: number | string;
+  choice_ids?: number[]; // every pick on a question with several correct answers
+  answer_text?: string;
+  uploaded_file?: string;
+  recorded_at: number; // client clock, milliseconds
+  base_saved_at?: string; // server saved_at this client last saw for the question
+}
+
+export interface JournalConflict {
+  entry: JournalEntry;
+  server_saved_at: string;
+  detected_at: number;
+}
+
+export interface JournalRejection {
+  entry: JournalEntry;
+  status?: number;
+  error: string;
+  rejected_at: number;
+}
+
+interface LegacyPendingAnswer {
+  attempt_id: string;
+  exam_id: string;
+  question_id: number | string;
+  choice_id?: number | string;
+  choice_ids?: number[];
+  answer_text?: string;
+  uploaded_file?: string;
+  timestamp?: number;
+}
+
+interface AnswerJournal {
+  attempt_id: string;
+  next_seq: number;
+  pending: Record<string, JournalEntry>;
+  saved_at: Record<string, string>;
+  conflicts: JournalConflict[];
+  rejected?: JournalRejection[]; // missing from journals written before rejections were kept
+}
+
+export interface ReplayOptions {
+  save: (entry: JournalEntry, idempotencyKey: string) => Promise<AttemptAnswer>;
+  fetchServerAnswers?: () => Promise<AttemptAnswer[]>;
+  serverOffset?: number; // milliseconds to add to recorded_at to get server time
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  rejected: number;
+  remaining: number;
+}
+
+const JOURNAL_KEY_PREFIX = 'answer_journal_';
+const LEGACY_KEY_PREFIX = 'pending_answer_';
+
+// Serialises read-modify-write cycles per attempt so concurrent saves can't lose entries
+const locks = new Map<string, Promise<unknown>>();
+
+const journalKey = (attemptId: string) => `${JOURNAL_KEY_PREFIX}${attemptId}`;
+
+const emptyJournal = (attemptId: string): AnswerJournal => ({
+  attempt_id: attemptId,
+  next_seq: 1,
+  pending: {},
+  saved_at: {},
+  conflicts: [],
+  rejected: [],
+});
+
+async function readJournal(attemptId: string): Promise<AnswerJournal> {
+  return (await localforage.getItem<AnswerJournal>(journalKey(attemptId))) || emptyJournal(attemptId);
+}
+
+function withJournal<T>(attemptId: string, update: (journal: AnswerJournal) => T | Promise<T>): Promise<T> {
+  const previous = locks.get(attemptId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(async () => {
+    const journal = await readJournal(attemptId);
+    const result = await update(journal);
+    await localforage.setItem(journalKey(attemptId), journal);
+    return result;
+  });
+
+  locks.set(attemptId, next);
+  return next;
+}
+
+const parseTime = (value?: string): number | null => {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Record an answer, replacing any unsynced answer to the same question
+ */
+export async function recordAnswer(
+  attemptId: string,
+  answer: Pick<JournalEntry, 'question_id' | 'choice_id' | 'choice_ids' | 'answer_text' | 'uploaded_file'>,
+  recordedAt: number = Date.now()
+): Promise<JournalEntry> {
+  return withJournal(attemptId, (journal) => {
+    const questionKey = String(answer.question_id);
+    const entry: JournalEntry = {
+      seq: journal.next_seq,
+      question_id: answer.question_id,
+      choice_id: answer.choice_id,
+      choice_ids: answer.choice_ids,
+      answer_text: answer.answer_text,
+      uploaded_file: answer.uploaded_file,
+      recorded_at: recordedAt,
+      base_saved_at: journal.saved_at[questionKey],
+    };
+
+    journal.next_seq += 1;
+    journal.pending[questionKey] = entry;
+    return entry;
+  });
+}
+
+/**
+ * Unsynced entries in the order they were written
+ */
+export async function getPendingEntries(attemptId: string): Promise<JournalEntry[]> {
+  const journal = await readJournal(attemptId);
+  return Object.values(journal.pending).sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Answers that were dropped because the server held a newer version
+ */
+export async function getConflicts(attemptId: string): Promise<JournalConflict[]> {
+  const journal = await readJournal(attemptId);
+  return journal.conflicts;
+}
+
+/**
+ * Answers the server refused, such as a validation error on a closed question
+ */
+export async function getRejectedEntries(attemptId: string): Promise<JournalRejection[]> {
+  const journal = await readJournal(attemptId);
+  return journal.rejected ?? [];
+}
+
+/**
+ * Mark an entry as stored on the server.
+ * A newer write to the same question made while the request was in flight stays pending.
+ */
+export async function markSynced(attemptId: string, entry: JournalEntry, serverSavedAt?: string): Promise<void> {
+  await withJournal(attemptId, (journal) => {
+    const questionKey = String(entry.question_id);
+
+    if (serverSavedAt) {
+      journal.saved_at[questionKey] = serverSavedAt;
+    }
+
+    const current = journal.pending[questionKey];
+    if (current && current.seq === entry.seq) {
+      delete journal.pending[questionKey];
+    } else if (current && serverSavedAt) {
+      current.base_saved_at = serverSavedAt;
+    }
+  });
+}
+
+async function markConflict(attemptId: string, entry: JournalEntry, serverSavedAt: string): Promise<void> {
+  await withJournal(attemptId, (journal) => {
+    const questionKey = String(entry.question_id);
+
+    journal.conflicts.push({ entry, server_saved_at: serverSavedAt, detected_at: Date.now() });
+    journal.saved_at[questionKey] = serverSavedAt;
+
+    if (journal.pending[questionKey]?.seq === entry.seq) {
+      delete journal.pending[questionKey];
+    }
+  });
+}
+
+async function markRejected(attemptId: string, entry: JournalEntry, error: unknown): Promise<void> {
+  await withJournal(attemptId, (journal) => {
+    const questionKey = String(entry.question_id);
+
+    (journal.rejected ??= []).push({
+      entry,
+      status: getErrorStatus(error),
+      error: error instanceof Error ? error.message : String(error),
+      rejected_at: Date.now(),
+    });
+
+    if (journal.pending[questionKey]?.seq === entry.seq) {
+      delete journal.pending[questionKey];
+    }
+  });
+}
+
+/**
+ * Send pending entries to the server in sequence order.
+ * Stops at the first network or server failure so later answers never overtake
+ * earlier ones; calling it again resumes where it left off. An entry the server
+ * rejects (a 4xx that retrying won't fix) is set aside and replay carries on.
+ */
+export async function replayJournal(attemptId: string, options: ReplayOptions): Promise<ReplayResult> {
+  const { save, fetchServerAnswers, serverOffset = 0 } = options;
+  const entries = await getPendingEntries(attemptId);
+  let synced = 0;
+  let conflicts = 0;
+  let rejected = 0;
+
+  if (entries.length === 0) {
+    return { synced, conflicts, rejected, remaining: 0 };
+  }
+
+  // Latest server copy of each answer, for conflict detection
+  const serverSavedAt = new Map<string, string>();
+  if (fetchServerAnswers) {
+    try {
+      const serverAnswers = await fetchServerAnswers();
+      serverAnswers.forEach(answer => {
+        if (answer.saved_at) serverSavedAt.set(String(answer.question_id), answer.saved_at);
+      });
+    } catch (error) {
+      console.warn('Could not load server answers; replaying without conflict detection:', error);
+    }
+  }
+
+  for (const entry of entries) {
+    const serverCopy = serverSavedAt.get(String(entry.question_id));
+    const serverTime = parseTime(serverCopy);
+    const baseTime = parseTime(entry.base_saved_at);
+
+    // Conflict: the server copy changed since this client last saw it, and after this answer was written
+    if (serverCopy && serverTime !== null
+      && (baseTime === null || serverTime > baseTime)
+      && serverTime > entry.recorded_at + serverOffset) {
+      await markConflict(attemptId, entry, serverCopy);
+      conflicts++;
+      continue;
+    }
+
+    try {
+      const saved = await save(entry, `${attemptId}:${entry.question_id}:${entry.seq}`);
+      await markSynced(attemptId, entry, saved?.saved_at);
+      synced++;
+    } catch (error) {
+      if (isRetryableError(error)) {
+        console.error(`Failed to replay answer #${entry.seq}:`, error);
+        break;
+      }
+      console.error(`Server rejected answer #${entry.seq}; setting it aside:`, error);
+      await markRejected(attemptId, entry, error);
+      rejected++;
+    }
+  }
+
+  const remaining = (await getPendingEntries(attemptId)).length;
+  return { synced, conflicts, rejected, remaining };
+}
+
+/**
+ * Move answers stored under the old one-key-per-answer scheme into the journal
+ */
+export async function importLegacyAnswers(attemptId: string, examId: string): Promise<number> {
+  const keys = await localforage.keys();
+  const legacy: Array<{ key: string; answer: LegacyPendingAnswer }> = [];
+
+  for (const key of keys.filter(k => k.startsWith(LEGACY_KEY_PREFIX))) {
+    const answer = await localforage.getItem<LegacyPendingAnswer>(key);
+    if (answer && String(answer.attempt_id) === attemptId && String(answer.exam_id) === examId) {
+      legacy.push({ key, answer });
+    }
+  }
+
+  legacy.sort((a, b) => (a.answer.timestamp || 0) - (b.answer.timestamp || 0));
+
+  for (const { key, answer } of legacy) {
+    await recordAnswer(attemptId, answer, answer.timestamp || Date.now());
+    await localforage.removeItem(key);
+  }
+
+  return legacy.length;
+}
+
+/**
+ * Remove the journal once the attempt is submitted
+ */
+export async function clearJournal(attemptId: string): Promise<void> {
+  const previous = locks.get(attemptId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(() => localforage.removeItem(journalKey(attemptId)));
+
+  locks.set(attemptId, next);
+  await next;
+}
@@ -1,5 +1,10 @@
 import axios from 'axios';
 import type { AxiosInstance } from 'axios';
+import type { QueuedRequest } from './offlineQueue';
+import type { JournalEntry } from './answerJournal';
+import type { RubricScore } from '../utils/rubric';
+import type { Annotation, AnnotationDocument } from '../utils/annotations';
+import type { TeacherMessagePayload } from './websocketEvents';
 
 // Define TypeScript interfaces for our data models
 export interface User {
@@ -106,6 +111,30 @@ export interface TeacherSubject {
   updated_at?: string;
 }
 
+// Draw this many questions from the exam questions tagged with pool_tag
+export interface PoolRule {
+  pool_tag: string;
+  draw_count: number;
+  balance_marks?: boolean; // every drawn question is worth the pool's average marks
+}
+
+// What a blueprint target counts by; subject keys are subject ids
+export type BlueprintDimension = 'type' | 'subject' | 'difficulty' | 'topic';
+
+export interface BlueprintTarget {
+  dimension: BlueprintDimension;
+  key: string;
+  questions?: number;
+  marks?: number;
+}
+
+// Planned balance of an exam's questions
+export interface ExamBlueprint {
+  total_questions?: number;
+  total_marks?: number;
+  targets: BlueprintTarget[];
+}
+
 export interface MonthlyExam {
   id: number;
   school_id: number;
@@ -127,8 +156,14 @@ export interface MonthlyExam {
   passing_percentage?: number;
   access_code?: string;
   random_pool?: boolean;
+  pool_rules?: PoolRule[]; // used when random_pool is on
+  blueprint?: ExamBlueprint | null;
   show_answers_after?: boolean;
   auto_publish_results?: boolean;
+  grading_mode?: 'single' | 'double_blind'; // double_blind: two independent markers per answer
+  marker_ids?: number[]; // teachers who share the double marking
+  moderator_id?: number | null; // settles answers whose two marks disagree
+  moderation_threshold?: number; // allowed gap between the two marks, % of the question's marks
   school?: School;
   grade?: Grade;
   section?: Section;
@@ -161,7 +196,7 @@ export interface Question {
   prompt: string;
   type: 'mcq' | 'tf' | 'numeric' | 'short' | 'essay' | 'file';
   default_marks: number;
-  choices?: Choice[];
+  choices?: Array<Omit<Choice, 'is_correct'> & { is_correct?: boolean }>; // is_correct is left out in review when answers are hidden
   metadata?: any;
 }
 
@@ -202,12 +237,15 @@ export interface AttemptAnswer {
   attempt_id: number;
   question_id: number;
   choice_id?: number;
+  choice_ids?: number[]; // every choice picked on a question with several correct answers
   answer_text?: string;
   uploaded_file?: string;
   marks_awarded?: number;
   auto_graded?: boolean;
   graded_by?: number; // Teacher ID
   graded_at?: string;
+  rubric_scores?: RubricScore[]; // per-criterion levels when marked with a rubric
+  feedback?: string; // grader's comment for the student
   saved_at?: string;
   attempt?: StudentAttempt;
   question?: BackendQuestion;
@@ -217,6 +255,20 @@ export interface AttemptAnswer {
   updated_at?: string;
 }
 
+// One marker's independent mark under double-blind marking; marks_awarded holds the final result
+export interface AnswerMark {
+  id: number;
+  attempt_answer_id: number;
+  monthly_exam_id: number;
+  marker_id: number; // Teacher ID
+  role: 'first' | 'second' | 'moderator';
+  marks: number;
+  rubric_scores?: RubricScore[];
+  feedback?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface ProctoringEvent {
   id: number;
   attempt_id: number;
@@ -228,6 +280,20 @@ export interface ProctoringEvent {
   updated_at?: string;
 }
 
+// A teacher message as stored by the server, so it can be delivered after the fact
+export interface ExamMessage extends TeacherMessagePayload {
+  recipients?: number[]; // attempts in progress when it was sent
+}
+
+// Server-side state of a resumable (chunked) file upload
+export interface ResumableUpload {
+  upload_id: string;
+  chunk_size: number;
+  uploaded_chunks: number[]; // indexes the server has stored
+  status: 'pending' | 'completed';
+  file_path?: string;
+}
+
 export interface ExamAggregate {
   id: number;
   monthly_exam_id: number;
@@ -235,6 +301,8 @@ export interface ExamAggregate {
   total_marks?: number;
   percent?: number;
   rank?: number;
+  percentile?: number; // share of the ranked students at or below this score
+  passed?: boolean; // every subject's pass marks and the exam's passing percentage met
   published: boolean;
   published_at?: string;
   monthly_exam?: MonthlyExam;
@@ -262,6 +330,7 @@ export interface ExamQuestion {
   marks?: number;
   sequence?: number;
   pool_tag?: string;
+  subject_id?: number | null; // exam subject the question's marks count towards
   question?: BackendQuestion;
   monthly_exam?: MonthlyExam;
   created_at?: string;
@@ -494,11 +563,30 @@ class ApiService {
 
 
   // Save answer
-  async saveAnswer(attemptId: number | string, answer: Omit<AttemptAnswer, 'id'>): Promise<AttemptAnswer> {
-    const response = await this.axiosInstance.post(`/student-attempts/${attemptId}/answer`, answer);
+  async saveAnswer(
+    attemptId: number | string,
+    answer: Omit<AttemptAnswer, 'id'>,
+    options?: { idempotencyKey?: string }
+  ): Promise<AttemptAnswer> {
+    const response = await this.axiosInstance.post(`/student-attempts/${attemptId}/answer`, answer, {
+      // Lets the server recognise a replayed save it has already applied
+      headers: options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+    });
     return response.data.data;
   }
 
+  // Send an answer from the offline journal under its idempotency key
+  async saveJournalEntry(attemptId: number | string, entry: JournalEntry, idempotencyKey: string): Promise<AttemptAnswer> {
+    return this.saveAnswer(attemptId, {
+      attempt_id: Number(attemptId),
+      question_id: Number(entry.question_id),
+      choice_id: entry.choice_id !== undefined ? Number(entry.choice_id) : undefined,
+      choice_ids: entry.choice_ids,
+      answer_text: entry.answer_text,
+      uploaded_file: entry.uploaded_file,
+    }, { idempotencyKey });
+  }
+
   // Submit exam
   async submitAttempt(attemptId: number | string): Promise<{ 
     status: 'submitted' | 'queued_for_grading'; 
@@ -514,12 +602,35 @@ class ApiService {
     status: string; 
     total_score?: number; 
     percent?: number; 
-    results_url?: string 
+    results_url?: string;
+    deadline?: string; // Authoritative end of the attempt, including any extensions
   }> {
     const response = await this.axiosInstance.get(`/student-attempts/${attemptId}/status`);
     return response.data.data;
   }
 
+  // Get the server clock (used for round-trip clock synchronization)
+  async getServerTime(): Promise<{
+    server_time: string;
+    epoch_ms?: number
+  }> {
+    const response = await this.axiosInstance.get('/server-time', {
+      timeout: 5000, // Slow samples are useless for clock sync
+    });
+    return response.data.data;
+  }
+
+  // Replay a request stored by the offline queue
+  async replayQueuedRequest(request: Pick<QueuedRequest, 'method' | 'url' | 'data' | 'headers'>): Promise<unknown> {
+    const response = await this.axiosInstance.request({
+      method: request.method,
+      url: request.url,
+      data: request.data,
+      headers: request.headers,
+    });
+    return response.data?.data;
+  }
+
   // Student Attempt CRUD endpoints
   async getStudentAttempts(params?: {
     monthly_exam_id?: number;
@@ -583,6 +694,7 @@ class ApiService {
   // Attempt Answer CRUD endpoints
   async getAttemptAnswers(params?: {
     attempt_id?: number;
+    attempt_ids?: number[]; // answers for several attempts in one request
     question_id?: number;
     graded?: boolean;
     auto_graded?: boolean;
@@ -590,6 +702,7 @@ class ApiService {
     let url = '/attempt-answers';
     const queryParams = new URLSearchParams();
     if (params?.attempt_id) queryParams.append('attempt_id', params.attempt_id.toString());
+    if (params?.attempt_ids?.length) queryParams.append('attempt_ids', params.attempt_ids.join(','));
     if (params?.question_id) queryParams.append('question_id', params.question_id.toString());
     if (params?.graded !== undefined) queryParams.append('graded', params.graded.toString());
     if (params?.auto_graded !== undefined) queryParams.append('auto_graded', params.auto_graded.toString());
@@ -608,6 +721,7 @@ class ApiService {
     attempt_id: number;
     question_id: number;
     choice_id?: number;
+    choice_ids?: number[];
     answer_text?: string;
     uploaded_file?: string;
     marks_awarded?: number;
@@ -624,12 +738,15 @@ class ApiService {
     attempt_id?: number;
     question_id?: number;
     choice_id?: number | null;
+    choice_ids?: number[] | null;
     answer_text?: string | null;
     uploaded_file?: string | null;
     marks_awarded?: number | null;
     auto_graded?: boolean;
     graded_by?: number | null;
     graded_at?: string | null;
+    rubric_scores?: RubricScore[] | null;
+    feedback?: string | null;
     saved_at?: string | null;
   }): Promise<AttemptAnswer> {
     const response = await this.axiosInstance.put(`/attempt-answers/${id}`, answerData);
@@ -640,6 +757,58 @@ class ApiService {
     await this.axiosInstance.delete(`/attempt-answers/${id}`);
   }
 
+  // Double-blind marking endpoints
+  async getAnswerMarks(params: {
+    monthly_exam_id?: number;
+    attempt_answer_id?: number;
+    marker_id?: number; // only this teacher's marks until both marks on an answer are in
+  }): Promise<AnswerMark[]> {
+    let url = '/answer-marks';
+    const queryParams = new URLSearchParams();
+    if (params.monthly_exam_id) queryParams.append('monthly_exam_id', params.monthly_exam_id.toString());
+    if (params.attempt_answer_id) queryParams.append('attempt_answer_id', params.attempt_answer_id.toString());
+    if (params.marker_id) queryParams.append('marker_id', params.marker_id.toString());
+    if (queryParams.toString()) url += `?${queryParams.toString()}`;
+
+    const response = await this.axiosInstance.get(url);
+    return response.data.data || [];
+  }
+
+  async createAnswerMark(markData: Omit<AnswerMark, 'id' | 'created_at' | 'updated_at'>): Promise<AnswerMark> {
+    const response = await this.axiosInstance.post('/answer-marks', markData);
+    return response.data.data;
+  }
+
+  // The file uploaded for an answer, streamed through the API so access rules apply
+  async getAnswerFile(answerId: number): Promise<Blob> {
+    const response = await this.axiosInstance.get(`/attempt-answers/${answerId}/file`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // Grader annotations for a file answer; null when nobody has annotated it yet
+  async getAnswerAnnotations(answerId: number): Promise<AnnotationDocument | null> {
+    try {
+      const response = await this.axiosInstance.get(`/attempt-answers/${answerId}/annotations`);
+      return response.data.data ?? null;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async saveAnswerAnnotations(answerId: number, document: {
+    file_path: string;
+    version: number;
+    annotations: Annotation[];
+  }): Promise<AnnotationDocument> {
+    const response = await this.axiosInstance.put(`/attempt-answers/${answerId}/annotations`, document);
+    return response.data.data;
+  }
+
   // Upload file presign
   async getPresignedUrl(examId: string, fileName: string, fileType: string): Promise<{ 
     upload_url: string; 
@@ -661,6 +830,65 @@ class ApiService {
     });
   }
 
+  // Store a proctoring camera snapshot; events refer to it instead of carrying the image
+  async uploadProctoringSnapshot(attemptId: number | string, image: Blob): Promise<{
+    id: number;
+    file_path: string;
+    url: string; // short-lived link the monitoring grid can display
+  }> {
+    const formData = new FormData();
+    formData.append('image', image, 'snapshot.jpg');
+    const response = await this.axiosInstance.post(`/student-attempts/${attemptId}/snapshots`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data.data;
+  }
+
+  // Start a resumable upload for a file answer
+  async createUpload(attemptId: number | string, upload: {
+    question_id: number | string;
+    file_name: string;
+    file_type: string;
+    file_size: number;
+    checksum: string; // SHA-256 of the whole file, hex
+    chunk_size: number;
+  }): Promise<ResumableUpload> {
+    const response = await this.axiosInstance.post(`/student-attempts/${attemptId}/uploads`, upload);
+    return response.data.data;
+  }
+
+  // Get the chunks a resumable upload already has
+  async getUpload(uploadId: string): Promise<ResumableUpload> {
+    const response = await this.axiosInstance.get(`/uploads/${uploadId}`);
+    return response.data.data;
+  }
+
+  // Upload one chunk of a resumable upload
+  async uploadChunk(uploadId: string, index: number, chunk: Blob, options: {
+    offset: number;
+    totalSize: number;
+    checksum: string; // SHA-256 of the chunk, hex
+    signal?: AbortSignal;
+    onProgress?: (loadedBytes: number) => void;
+  }): Promise<void> {
+    const end = options.offset + chunk.size - 1;
+    await this.axiosInstance.put(`/uploads/${uploadId}/chunks/${index}`, chunk, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${options.offset}-${end}/${options.totalSize}`,
+        'X-Chunk-Checksum': options.checksum,
+      },
+      signal: options.signal,
+      onUploadProgress: (event) => options.onProgress?.(event.loaded),
+    });
+  }
+
+  // Assemble a resumable upload; the server verifies the whole-file checksum
+  async completeUpload(uploadId: string, checksum: string): Promise<{ file_path: string; checksum: string }> {
+    const response = await this.axiosInstance.post(`/uploads/${uploadId}/complete`, { checksum });
+    return response.data.data;
+  }
+
   // Send proctoring event
   async sendProctoringEvent(event: Omit<ProctoringEvent, 'id' | 'created_at' | 'updated_at'>): Promise<ProctoringEvent> {
     const response = await this.axiosInstance.post('/proctoring-events', event);
@@ -676,6 +904,7 @@ class ApiService {
   // Proctoring Event CRUD endpoints
   async getProctoringEvents(params?: {
     attempt_id?: number;
+    monthly_exam_id?: number;
     event_type?: string;
     start_date?: string;
     end_date?: string;
@@ -683,6 +912,7 @@ class ApiService {
     let url = '/proctoring-events';
     const queryParams = new URLSearchParams();
     if (params?.attempt_id) queryParams.append('attempt_id', params.attempt_id.toString());
+    if (params?.monthly_exam_id) queryParams.append('monthly_exam_id', params.monthly_exam_id.toString());
     if (params?.event_type) queryParams.append('event_type', params.event_type);
     if (params?.start_date) queryParams.append('start_date', params.start_date);
     if (params?.end_date) queryParams.append('end_date', params.end_date);
@@ -721,6 +951,30 @@ class ApiService {
     await this.axiosInstance.delete(`/proctoring-events/${id}`);
   }
 
+  // Teacher messages. With both ids the server returns the exam's announcements
+  // and the private messages to that attempt.
+  async getExamMessages(params: {
+    monthly_exam_id?: number;
+    attempt_id?: number;
+    since?: string;
+  }): Promise<ExamMessage[]> {
+    let url = '/exam-messages';
+    const queryParams = new URLSearchParams();
+    if (params.monthly_exam_id) queryParams.append('monthly_exam_id', params.monthly_exam_id.toString());
+    if (params.attempt_id) queryParams.append('attempt_id', params.attempt_id.toString());
+    if (params.since) queryParams.append('since', params.since);
+    if (queryParams.toString()) url += `?${queryParams.toString()}`;
+
+    const response = await this.axiosInstance.get(url);
+    return response.data.data;
+  }
+
+  // Store a message under its client-generated id; a repeat POST with the same id is a no-op
+  async createExamMessage(message: ExamMessage): Promise<ExamMessage> {
+    const response = await this.axiosInstance.post('/exam-messages', message);
+    return response.data.data;
+  }
+
   // Exam Aggregate CRUD endpoints
   async getExamAggregates(params?: {
     monthly_exam_id?: number;
@@ -749,6 +1003,8 @@ class ApiService {
     total_marks?: number;
     percent?: number;
     rank?: number;
+    percentile?: number;
+    passed?: boolean;
     published?: boolean;
     published_at?: string;
   }): Promise<ExamAggregate> {
@@ -762,6 +1018,8 @@ class ApiService {
     total_marks?: number;
     percent?: number;
     rank?: number;
+    percentile?: number;
+    passed?: boolean;
     published?: boolean;
     published_at?: string;
   }): Promise<ExamAggregate> {
@@ -1214,6 +1472,7 @@ class ApiService {
     marks?: number | null;
     sequence?: number | null;
     pool_tag?: string | null;
+    subject_id?: number | null;
   }): Promise<ExamQuestion> {
     const response = await this.axiosInstance.put(`/exam-questions/${examQuestionId}`, examQuestionData);
     return response.data.data;
@@ -1229,6 +1488,7 @@ class ApiService {
     marks?: number;
     sequence?: number;
     pool_tag?: string;
+    subject_id?: number | null;
   }>): Promise<ExamQuestion[]> {
     const response = await this.axiosInstance.post('/exam-questions/batch', {
       monthly_exam_id: examId,
@@ -1237,6 +1497,25 @@ class ApiService {
     return response.data.data || [];
   }
 
+  async createQuestions(bankId: number, questions: Array<{
+    author_id: number;
+    type: 'mcq' | 'tf' | 'numeric' | 'short' | 'essay' | 'file';
+    prompt: string;
+    default_marks: number;
+    metadata?: Record<string, unknown>;
+    choices?: Array<{
+      choice_text: string;
+      is_correct?: boolean;
+      position?: number;
+    }>;
+  }>): Promise<BackendQuestion[]> {
+    const response = await this.axiosInstance.post('/questions/batch', {
+      bank_id: bankId,
+      questions,
+    });
+    return response.data.data || [];
+  }
+
   // Exam Subject CRUD operations
   async getExamSubjects(examId?: string | number): Promise<ExamSubject[]> {
     const url = examId ? `/exam-subjects?monthly_exam_id=${examId}` : '/exam-subjects';
@@ -0,0 +1,115 @@
+/**
+ * Monitor Replay
+ * Rebuilds the monitoring events a client missed while its WebSocket was down,
+ * from the REST endpoints, so live views don't have silent gaps.
+ */
+
+import apiService from './api';
+import type { WebSocketEvent } from './websocketEvents';
+
+const isAfter = (time: string | undefined, since: number): time is string =>
+  !!time && Date.parse(time) >= since;
+
+/**
+ * Events on the given exams with a timestamp at or after `since`, oldest first.
+ * Events exactly at `since` are included; callers de-duplicate them.
+ */
+export async function fetchMissedEvents(examIds: number[], since: string): Promise<WebSocketEvent[]> {
+  const sinceTime = Date.parse(since);
+  if (isNaN(sinceTime) || examIds.length === 0) return [];
+
+  const events: WebSocketEvent[] = [];
+
+  // Attempts that started or finished during the gap
+  const attemptLists = await Promise.all(
+    examIds.map(examId => apiService.getStudentAttempts({ monthly_exam_id: examId }))
+  );
+
+  attemptLists.flat().forEach(attempt => {
+    if (isAfter(attempt.started_at, sinceTime)) {
+      events.push({
+        event: 'attempt_started',
+        data: {
+          attempt_id: attempt.id,
+          monthly_exam_id: attempt.monthly_exam_id,
+          student_id: attempt.student_id,
+          student_name: attempt.student
+            ? `${attempt.student.first_name} ${attempt.student.last_name}`.trim()
+            : undefined,
+          started_at: attempt.started_at,
+        },
+        timestamp: attempt.started_at,
+      });
+    }
+
+    if (attempt.status !== 'in_progress' && isAfter(attempt.finished_at, sinceTime)) {
+      events.push({
+        event: 'attempt_submitted',
+        data: {
+          attempt_id: attempt.id,
+          status: attempt.status,
+          finished_at: attempt.finished_at,
+          total_score: attempt.total_score,
+          percent: attempt.percent,
+        },
+        timestamp: attempt.finished_at,
+      });
+    }
+  });
+
+  // Proctoring events recorded during the gap, filtered to the exams by the server
+  const proctoringLists = await Promise.all(
+    examIds.map(examId => apiService.getProctoringEvents({ monthly_exam_id: examId, start_date: since }))
+  );
+  proctoringLists
+    .flat()
+    .filter(event => isAfter(event.event_time, sinceTime))
+    .forEach(event => {
+      events.push({
+        event: 'proctor_event',
+        data: {
+          id: event.id,
+          attempt_id: event.attempt_id,
+          event_type: event.event_type,
+          event_time: event.event_time,
+          details: event.details ?? undefined,
+        },
+        timestamp: event.event_time,
+      });
+    });
+
+  return events.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+/**
+ * Teacher messages on the subscribed message channels sent at or after `since`,
+ * oldest first. Exam channels carry announcements, attempt channels private messages.
+ */
+export async function fetchMissedMessages(
+  channels: { examIds: number[]; attemptIds: number[] },
+  since: string
+): Promise<WebSocketEvent[]> {
+  const sinceTime = Date.parse(since);
+  if (isNaN(sinceTime)) return [];
+
+  const [announcements, privateMessages] = await Promise.all([
+    Promise.all(channels.examIds.map(examId => apiService.getExamMessages({ monthly_exam_id: examId, since }))),
+    Promise.all(channels.attemptIds.map(attemptId => apiService.getExamMessages({ attempt_id: attemptId, since }))),
+  ]);
+
+  const messages = [
+    ...announcements.flat().filter(message => message.scope === 'exam'),
+    ...privateMessages.flat().filter(message =>
+      message.scope === 'attempt' && channels.attemptIds.includes(message.attempt_id!)
+    ),
+  ];
+
+  return messages
+    .filter(message => isAfter(message.sent_at, sinceTime))
+    .map((message): WebSocketEvent => ({
+      event: 'teacher_message',
+      data: message,
+      timestamp: message.sent_at,
+    }))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
@@ -1,6 +1,8 @@
 /**
  * Offline Queue Manager
- * Manages queued API requests when offline and syncs when back online
+ * Manages queued API requests when offline and syncs when back online.
+ * Failed requests are retried with exponential backoff; requests that can't
+ * succeed by retrying are kept in a dead-letter store instead of being dropped.
  */
 
 import localforage from 'localforage';
@@ -13,10 +15,34 @@ export interface QueuedRequest {
   headers?: Record<string, string>;
   timestamp: number;
   retries: number;
+  nextAttemptAt?: number; // not retried before this time (ms)
+  lastError?: string;
+  lastStatus?: number; // HTTP status of the last failure, if any
+  submitsAttempt?: string; // attempt this request submits; its journaled answers are sent first
+}
+
+export type DeadLetterReason = 'non_retryable' | 'max_retries';
+
+export interface DeadLetterRequest extends QueuedRequest {
+  failedAt: number;
+  reason: DeadLetterReason;
+}
+
+export interface ProcessQueueResult {
+  successful: number;
+  failed: number; // failed on this pass, still queued for another retry
+  deadLettered: number;
+  deferred: number; // skipped because their backoff hasn't elapsed
 }
 
 const QUEUE_KEY = 'offline_request_queue';
-const MAX_RETRIES = 3;
+const DEAD_LETTER_KEY = 'offline_request_dead_letter';
+const MAX_RETRIES = 8;
+const BASE_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 5 * 60 * 1000; // 5 minutes
+
+// Status codes that are worth retrying even though they are 4xx
+const RETRYABLE_CLIENT_STATUSES = [408, 425, 429];
 
 /**
  * Add a request to the offline queue
@@ -61,65 +87,223 @@ export async function clearQueue(): Promise<void> {
 }
 
 /**
- * Mark a request as retried
+ * HTTP status of a failed request, if the server answered at all
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { response?: { status?: unknown } } | null)?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether retrying a failed request could succeed.
+ * Network errors, timeouts and 5xx responses are retryable; other 4xx responses are not.
  */
-export async function incrementRetry(requestId: string): Promise<boolean> {
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+
+  if (status === undefined) return true; // network error or no response
+  if (status >= 500) return true;
+  return RETRYABLE_CLIENT_STATUSES.includes(status);
+}
+
+/**
+ * Delay before the next retry: exponential backoff with "equal jitter",
+ * so clients that went offline together don't all retry at the same moment
+ */
+export function getBackoffDelay(retries: number, random: () => number = Math.random): number {
+  const exponential = Math.min(BASE_RETRY_DELAY * Math.pow(2, retries), MAX_RETRY_DELAY);
+  const half = exponential / 2;
+  return Math.round(half + random() * half);
+}
+
+const describeError = (error: unknown): string => {
+  const responseMessage = (error as { response?: { data?: { message?: unknown } } } | null)?.response?.data?.message;
+  if (typeof responseMessage === 'string') return responseMessage;
+  if (error instanceof Error) return error.message;
+  return String(error);
+};
+
+/**
+ * Get all dead-lettered requests
+ */
+export async function getDeadLetters(): Promise<DeadLetterRequest[]> {
+  return (await localforage.getItem<DeadLetterRequest[]>(DEAD_LETTER_KEY)) || [];
+}
+
+/**
+ * Move a request from the queue to the dead-letter store
+ */
+export async function moveToDeadLetter(requestId: string, reason: DeadLetterReason, error?: unknown): Promise<void> {
   const queue = await getQueue();
   const request = queue.find(req => req.id === requestId);
-  
+
+  if (!request) return;
+
+  const deadLetter: DeadLetterRequest = {
+    ...request,
+    lastError: error !== undefined ? describeError(error) : request.lastError,
+    lastStatus: error !== undefined ? getErrorStatus(error) : request.lastStatus,
+    nextAttemptAt: undefined,
+    failedAt: Date.now(),
+    reason,
+  };
+
+  const deadLetters = await getDeadLetters();
+  deadLetters.push(deadLetter);
+  await localforage.setItem(DEAD_LETTER_KEY, deadLetters);
+  await localforage.setItem(QUEUE_KEY, queue.filter(req => req.id !== requestId));
+}
+
+/**
+ * Put a dead-lettered request back on the queue with a fresh retry budget
+ */
+export async function retryDeadLetter(requestId: string): Promise<boolean> {
+  const deadLetters = await getDeadLetters();
+  const deadLetter = deadLetters.find(req => req.id === requestId);
+
+  if (!deadLetter) return false;
+
+  const queue = await getQueue();
+  queue.push({
+    id: deadLetter.id,
+    method: deadLetter.method,
+    url: deadLetter.url,
+    data: deadLetter.data,
+    headers: deadLetter.headers,
+    submitsAttempt: deadLetter.submitsAttempt,
+    timestamp: deadLetter.timestamp,
+    retries: 0,
+    lastError: deadLetter.lastError,
+    lastStatus: deadLetter.lastStatus,
+  });
+
+  await localforage.setItem(QUEUE_KEY, queue);
+  await localforage.setItem(DEAD_LETTER_KEY, deadLetters.filter(req => req.id !== requestId));
+  return true;
+}
+
+/**
+ * Permanently discard a dead-lettered request
+ */
+export async function discardDeadLetter(requestId: string): Promise<void> {
+  const deadLetters = await getDeadLetters();
+  await localforage.setItem(DEAD_LETTER_KEY, deadLetters.filter(req => req.id !== requestId));
+}
+
+/**
+ * Clear the dead-letter store
+ */
+export async function clearDeadLetters(): Promise<void> {
+  await localforage.removeItem(DEAD_LETTER_KEY);
+}
+
+/**
+ * Make a queued request eligible for the next processing pass immediately
+ */
+export async function retryNow(requestId: string): Promise<void> {
+  const queue = await getQueue();
+  const request = queue.find(req => req.id === requestId);
+
+  if (!request) return;
+
+  request.nextAttemptAt = undefined;
+  await localforage.setItem(QUEUE_KEY, queue);
+}
+
+/**
+ * Record a failed attempt and schedule the next retry.
+ * Returns false when the request was moved to the dead-letter store instead.
+ */
+export async function incrementRetry(requestId: string, error?: unknown): Promise<boolean> {
+  const queue = await getQueue();
+  const request = queue.find(req => req.id === requestId);
+
   if (!request) return false;
-  
+
   request.retries += 1;
-  
-  // Remove if max retries exceeded
+  request.lastError = error !== undefined ? describeError(error) : request.lastError;
+  request.lastStatus = error !== undefined ? getErrorStatus(error) : request.lastStatus;
+
+  // Keep it for the user to inspect if max retries exceeded
   if (request.retries >= MAX_RETRIES) {
-    await removeRequest(requestId);
+    await localforage.setItem(QUEUE_KEY, queue);
+    await moveToDeadLetter(requestId, 'max_retries');
     return false;
   }
-  
+
+  request.nextAttemptAt = Date.now() + getBackoffDelay(request.retries);
   await localforage.setItem(QUEUE_KEY, queue);
   return true;
 }
 
 /**
- * Process queue when back online
+ * Process queue when back online.
+ * Requests still waiting out their backoff are skipped unless `force` is set.
  */
 export async function processQueue(
-  executeRequest: (request: QueuedRequest) => Promise<any>
-): Promise<{ successful: number; failed: number }> {
+  executeRequest: (request: QueuedRequest) => Promise<any>,
+  options: { force?: boolean } = {}
+): Promise<ProcessQueueResult> {
   const queue = await getQueue();
+  const now = Date.now();
   let successful = 0;
   let failed = 0;
+  let deadLettered = 0;
+  let deferred = 0;
 
   for (const request of queue) {
+    if (!options.force && request.nextAttemptAt && request.nextAttemptAt > now) {
+      deferred++;
+      continue;
+    }
+
     try {
       await executeRequest(request);
       await removeRequest(request.id);
       successful++;
     } catch (error) {
       console.error(`Failed to process queued request ${request.id}:`, error);
-      const canRetry = await incrementRetry(request.id);
-      if (!canRetry) {
+
+      if (!isRetryableError(error)) {
+        await moveToDeadLetter(request.id, 'non_retryable', error);
+        deadLettered++;
+        continue;
+      }
+
+      const canRetry = await incrementRetry(request.id, error);
+      if (canRetry) {
         failed++;
+      } else {
+        deadLettered++;
       }
     }
   }
 
-  return { successful, failed };
+  return { successful, failed, deadLettered, deferred };
 }
 
 /**
  * Get queue statistics
  */
-export async function getQueueStats(): Promise<{ total: number; oldest: Date | null }> {
+export async function getQueueStats(): Promise<{
+  total: number;
+  oldest: Date | null;
+  deadLettered: number;
+  nextRetryAt: Date | null;
+}> {
   const queue = await getQueue();
-  const oldest = queue.length > 0 
+  const deadLetters = await getDeadLetters();
+  const oldest = queue.length > 0
     ? new Date(Math.min(...queue.map(req => req.timestamp)))
     : null;
+  const scheduled = queue
+    .map(req => req.nextAttemptAt)
+    .filter((time): time is number => time !== undefined);
 
   return {
     total: queue.length,
     oldest,
+    deadLettered: deadLetters.length,
+    nextRetryAt: scheduled.length > 0 ? new Date(Math.min(...scheduled)) : null,
   };
 }
-
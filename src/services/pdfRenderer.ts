@@ -0,0 +1,56 @@
+/**
+ * PDF Renderer
+ * Thin wrapper over pdf.js for showing PDF answers page by page. pdf.js and
+ * its worker are loaded on first use so they stay out of the main bundle.
+ */
+
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+
+export type PdfDocument = PDFDocumentProxy;
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+async function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+/**
+ * Open a PDF from its bytes
+ */
+export async function openPdf(data: ArrayBuffer): Promise<PdfDocument> {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+}
+
+/**
+ * Draw one page (1-based) into a canvas at the given CSS width, sharp on high-DPI screens.
+ * Returns the render task so a newer render can cancel it.
+ */
+export async function renderPdfPage(
+  document: PdfDocument,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  cssWidth: number
+): Promise<{ task: RenderTask; aspectRatio: number }> {
+  const page = await document.getPage(pageNumber);
+  const unscaled = page.getViewport({ scale: 1 });
+  const outputScale = window.devicePixelRatio || 1;
+  const viewport = page.getViewport({ scale: (cssWidth / unscaled.width) * outputScale });
+
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  canvas.style.width = `${cssWidth}px`;
+  canvas.style.height = `${Math.floor(viewport.height / outputScale)}px`;
+
+  const task = page.render({ canvas, viewport });
+  return { task, aspectRatio: unscaled.height / unscaled.width };
+}
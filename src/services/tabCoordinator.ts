@@ -0,0 +1,262 @@
+/**
+ * Tab Coordinator
+ * Elects a single leader among browser tabs that share a channel name, using
+ * BroadcastChannel. Leadership carries a term number so a tab that takes over
+ * always wins against heartbeats from the tab it replaced.
+ */
+
+export type TabRole = 'electing' | 'leader' | 'follower';
+
+export type TabMessage =
+  | { type: 'hello'; tabId: string }
+  | { type: 'leader'; tabId: string; term: number }
+  | { type: 'claim'; tabId: string; term: number }
+  | { type: 'resign'; tabId: string };
+
+// The subset of BroadcastChannel the coordinator relies on
+export interface TabChannel {
+  postMessage(message: TabMessage): void;
+  onmessage: ((event: MessageEvent<TabMessage>) => void) | null;
+  close(): void;
+}
+
+export interface TabCoordinatorOptions {
+  channelName: string;
+  onRoleChange?: (role: TabRole, leaderId: string | null) => void;
+  onTabDetected?: (tabId: string) => void; // called on the leader when another tab opens
+  heartbeatInterval?: number; // milliseconds
+  leaseTimeout?: number; // milliseconds without a heartbeat before followers elect a new leader
+  electionTimeout?: number; // milliseconds to wait for an existing leader
+  claimWindow?: number; // milliseconds competing claims have to object
+  createChannel?: (name: string) => TabChannel | null;
+}
+
+// Hidden tabs may only run timers about once a minute, so a healthy leader in the
+// background can go that long between heartbeats. A leader that closes resigns instead.
+const DEFAULT_LEASE_TIMEOUT = 65000;
+
+const defaultCreateChannel = (name: string): TabChannel | null => {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  return new BroadcastChannel(name) as unknown as TabChannel;
+};
+
+export class TabCoordinator {
+  readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  private options: Required<Omit<TabCoordinatorOptions, 'onRoleChange' | 'onTabDetected'>> &
+    Pick<TabCoordinatorOptions, 'onRoleChange' | 'onTabDetected'>;
+  private channel: TabChannel | null = null;
+  private role: TabRole = 'electing';
+  private term = 0;
+  private leaderId: string | null = null;
+  private lastHeartbeat = 0;
+  private pendingTerm: number | null = null; // set while this tab's claim is open
+  private electionTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private watchdogTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: TabCoordinatorOptions) {
+    this.options = {
+      heartbeatInterval: 1000,
+      leaseTimeout: DEFAULT_LEASE_TIMEOUT,
+      electionTimeout: 500,
+      claimWindow: 200,
+      createChannel: defaultCreateChannel,
+      ...options,
+    };
+  }
+
+  start() {
+    this.channel = this.options.createChannel(this.options.channelName);
+
+    // Without BroadcastChannel there is nobody to coordinate with
+    if (!this.channel) {
+      this.becomeLeader(this.term + 1);
+      return;
+    }
+
+    this.channel.onmessage = (event) => this.handleMessage(event.data);
+    this.post({ type: 'hello', tabId: this.tabId });
+    this.scheduleElection(this.options.electionTimeout);
+
+    this.watchdogTimer = setInterval(() => {
+      const leaderSilent = Date.now() - this.lastHeartbeat > this.options.leaseTimeout;
+      if (this.role === 'follower' && leaderSilent) {
+        this.scheduleElection(0);
+      }
+    }, this.options.heartbeatInterval);
+
+    window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  stop() {
+    this.resign();
+    this.clearTimers();
+    window.removeEventListener('pagehide', this.handlePageHide);
+
+    if (this.channel) {
+      this.channel.onmessage = null;
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+
+  /**
+   * Make this tab the leader, demoting the current one
+   */
+  takeOver() {
+    this.becomeLeader(Math.max(this.term, this.pendingTerm ?? 0) + 1);
+  }
+
+  getRole(): TabRole {
+    return this.role;
+  }
+
+  getLeaderId(): string | null {
+    return this.leaderId;
+  }
+
+  private handlePageHide = () => {
+    this.resign();
+  };
+
+  private resign() {
+    if (this.role === 'leader') {
+      this.post({ type: 'resign', tabId: this.tabId });
+    }
+  }
+
+  private handleMessage(message: TabMessage) {
+    if (!message || message.tabId === this.tabId) return;
+
+    switch (message.type) {
+      case 'hello':
+        if (this.role === 'leader') {
+          this.announce();
+          this.options.onTabDetected?.(message.tabId);
+        }
+        break;
+
+      case 'leader': {
+        const outranks = message.term > this.term
+          || (message.term === this.term && (this.role !== 'leader' || message.tabId < this.tabId));
+
+        if (outranks) {
+          this.becomeFollower(message.tabId, message.term);
+        } else if (this.role === 'leader') {
+          this.announce();
+        }
+        break;
+      }
+
+      case 'claim':
+        if (this.role === 'leader') {
+          // Remind the claimant that this tab is still here
+          this.announce();
+        } else if (this.pendingTerm !== null) {
+          const outranks = message.term > this.pendingTerm
+            || (message.term === this.pendingTerm && message.tabId < this.tabId);
+          if (outranks) {
+            // Withdraw and wait for the winner to announce itself
+            this.pendingTerm = null;
+            this.scheduleElection(this.options.electionTimeout);
+          }
+        }
+        break;
+
+      case 'resign':
+        if (message.tabId === this.leaderId) {
+          this.leaderId = null;
+          this.scheduleElection(0);
+        }
+        break;
+    }
+  }
+
+  private scheduleElection(delay: number) {
+    this.clearElectionTimer();
+    this.setRole('electing', null);
+    this.electionTimer = setTimeout(() => this.claim(), delay);
+  }
+
+  private claim() {
+    const term = this.term + 1;
+    this.pendingTerm = term;
+    this.post({ type: 'claim', tabId: this.tabId, term });
+
+    this.electionTimer = setTimeout(() => {
+      if (this.pendingTerm === term) {
+        this.becomeLeader(term);
+      }
+    }, this.options.claimWindow);
+  }
+
+  private becomeLeader(term: number) {
+    this.clearElectionTimer();
+    this.pendingTerm = null;
+    this.term = term;
+    this.setRole('leader', this.tabId);
+    this.announce();
+
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    if (this.channel) {
+      this.heartbeatTimer = setInterval(() => this.announce(), this.options.heartbeatInterval);
+    }
+  }
+
+  private becomeFollower(leaderId: string, term: number) {
+    this.clearElectionTimer();
+    this.pendingTerm = null;
+    this.term = term;
+    this.lastHeartbeat = Date.now();
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    this.setRole('follower', leaderId);
+  }
+
+  private announce() {
+    this.post({ type: 'leader', tabId: this.tabId, term: this.term });
+  }
+
+  private setRole(role: TabRole, leaderId: string | null) {
+    const changed = role !== this.role || leaderId !== this.leaderId;
+    this.role = role;
+    this.leaderId = leaderId;
+    if (changed) {
+      this.options.onRoleChange?.(role, leaderId);
+    }
+  }
+
+  private post(message: TabMessage) {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.error('Failed to post tab coordination message:', error);
+    }
+  }
+
+  private clearElectionTimer() {
+    if (this.electionTimer) {
+      clearTimeout(this.electionTimer);
+      this.electionTimer = null;
+    }
+  }
+
+  private clearTimers() {
+    this.clearElectionTimer();
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+}
+
+export default TabCoordinator;
@@ -0,0 +1,338 @@
+/**
+ * Upload Manager
+ * Chunked, resumable uploads for file answers. The file and the upload's
+ * progress are kept in IndexedDB so an upload interrupted by a network drop or
+ * a page reload continues from the last stored chunk, and the server verifies
+ * the assembled file against a SHA-256 checksum.
+ */
+
+import localforage from 'localforage';
+import apiService from './api';
+import { getBackoffDelay, isRetryableError } from './offlineQueue';
+
+export interface UploadSession {
+  attempt_id: number | string;
+  question_id: number | string;
+  upload_id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  checksum: string;
+  chunk_size: number;
+  uploaded_chunks: number[];
+  status: 'uploading' | 'paused' | 'completed' | 'failed';
+  file_path?: string;
+  error?: string;
+  updated_at: number;
+}
+
+export interface FileRules {
+  allowedFileTypes?: string[]; // extensions, e.g. ['pdf', 'jpg']
+  maxFileSizeMb?: number;
+}
+
+type ProgressListener = (uploadedBytes: number, session: UploadSession) => void;
+
+export interface RunUploadOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+}
+
+// An upload running in the background
+export interface UploadHandle {
+  promise: Promise<UploadSession>;
+  getUploadedBytes: () => number;
+  subscribe: (listener: ProgressListener) => () => void;
+  abort: () => void;
+}
+
+export const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024; // 2 MB
+export const MAX_CHUNK_RETRIES = 5;
+
+const SESSION_PREFIX = 'upload_session_';
+const FILE_PREFIX = 'upload_file_';
+
+const sessionKey = (attemptId: number | string, questionId: number | string) =>
+  `${SESSION_PREFIX}${attemptId}_${questionId}`;
+
+const fileKey = (attemptId: number | string, questionId: number | string) =>
+  `${FILE_PREFIX}${attemptId}_${questionId}`;
+
+// Uploads keep running when their question card unmounts, so cards re-attach by key
+const activeUploads = new Map<string, UploadHandle>();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Upload paused', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Check a file against the question's allowed types and size limit; returns an error message or null
+ */
+export function validateFile(file: { name: string; size: number }, rules: FileRules): string | null {
+  const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+  const allowed = rules.allowedFileTypes?.map(type => type.replace(/^\./, '').toLowerCase());
+
+  if (allowed && allowed.length > 0 && !allowed.includes(extension)) {
+    return `${file.name} is not an accepted file type. Allowed: ${allowed.join(', ')}`;
+  }
+
+  if (rules.maxFileSizeMb && file.size > rules.maxFileSizeMb * 1024 * 1024) {
+    return `${file.name} is ${(file.size / 1024 / 1024).toFixed(1)} MB; the limit is ${rules.maxFileSizeMb} MB`;
+  }
+
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+
+  return null;
+}
+
+/**
+ * SHA-256 of a blob, hex encoded. Web Crypto only exists on secure (HTTPS or
+ * localhost) pages, so anywhere else the upload stops with a clear message.
+ */
+export async function computeChecksum(blob: Blob): Promise<string> {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('File uploads need a secure (HTTPS) connection to check the file. Please contact your school.');
+  }
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return toHex(digest);
+}
+
+/**
+ * Number of chunks a file of the given size is split into
+ */
+export function getChunkCount(fileSize: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / chunkSize));
+}
+
+/**
+ * Bytes already stored on the server
+ */
+export function getUploadedBytes(session: Pick<UploadSession, 'file_size' | 'chunk_size' | 'uploaded_chunks'>): number {
+  return session.uploaded_chunks.reduce((total, index) => {
+    const start = index * session.chunk_size;
+    return total + Math.max(0, Math.min(session.chunk_size, session.file_size - start));
+  }, 0);
+}
+
+async function saveSession(session: UploadSession): Promise<UploadSession> {
+  const saved = { ...session, updated_at: Date.now() };
+  await localforage.setItem(sessionKey(session.attempt_id, session.question_id), saved);
+  return saved;
+}
+
+/**
+ * The stored upload for a question and its file, if one exists
+ */
+export async function loadUpload(
+  attemptId: number | string,
+  questionId: number | string
+): Promise<{ session: UploadSession; file: Blob | null } | null> {
+  const session = await localforage.getItem<UploadSession>(sessionKey(attemptId, questionId));
+  if (!session) return null;
+
+  const file = await localforage.getItem<Blob>(fileKey(attemptId, questionId));
+  return { session, file };
+}
+
+/**
+ * Forget a question's upload and its stored file
+ */
+export async function clearUpload(attemptId: number | string, questionId: number | string): Promise<void> {
+  await localforage.removeItem(sessionKey(attemptId, questionId));
+  await localforage.removeItem(fileKey(attemptId, questionId));
+}
+
+/**
+ * Register a new upload with the server and store the file so it can resume after a reload
+ */
+export async function createUpload(
+  attemptId: number | string,
+  questionId: number | string,
+  file: File
+): Promise<UploadSession> {
+  const checksum = await computeChecksum(file);
+  const fileType = file.type || 'application/octet-stream';
+
+  const upload = await apiService.createUpload(attemptId, {
+    question_id: questionId,
+    file_name: file.name,
+    file_type: fileType,
+    file_size: file.size,
+    checksum,
+    chunk_size: DEFAULT_CHUNK_SIZE,
+  });
+
+  // Store the file before the first chunk leaves, so a reload can pick it up
+  await localforage.setItem(fileKey(attemptId, questionId), file);
+
+  return saveSession({
+    attempt_id: attemptId,
+    question_id: questionId,
+    upload_id: upload.upload_id,
+    file_name: file.name,
+    file_type: fileType,
+    file_size: file.size,
+    checksum,
+    chunk_size: upload.chunk_size || DEFAULT_CHUNK_SIZE,
+    uploaded_chunks: upload.uploaded_chunks || [],
+    status: 'uploading',
+    updated_at: Date.now(),
+  });
+}
+
+/**
+ * Mark an upload paused, e.g. when the student pauses it
+ */
+export async function pauseUpload(session: UploadSession): Promise<UploadSession> {
+  return saveSession({ ...session, status: 'paused' });
+}
+
+/**
+ * Upload the chunks the server doesn't have yet, then complete the upload.
+ *
+ * Each chunk is retried with backoff on network and 5xx errors. Aborting the
+ * signal pauses the upload; the stored session resumes it later. Resolves with
+ * the completed session, which carries the stored file path.
+ */
+export async function runUpload(session: UploadSession, file: Blob, options: RunUploadOptions = {}): Promise<UploadSession> {
+  const { signal, onProgress } = options;
+
+  // The server is the source of truth for which chunks arrived
+  const remote = await apiService.getUpload(session.upload_id);
+  let current = await saveSession({
+    ...session,
+    uploaded_chunks: remote.uploaded_chunks,
+    status: 'uploading',
+    error: undefined,
+  });
+  onProgress?.(getUploadedBytes(current), current);
+
+  if (remote.status !== 'completed') {
+    const chunkCount = getChunkCount(current.file_size, current.chunk_size);
+
+    for (let index = 0; index < chunkCount; index++) {
+      if (current.uploaded_chunks.includes(index)) continue;
+
+      const offset = index * current.chunk_size;
+      const chunk = file.slice(offset, offset + current.chunk_size);
+      const checksum = await computeChecksum(chunk);
+      const uploadedBefore = getUploadedBytes(current);
+
+      for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) throw new DOMException('Upload paused', 'AbortError');
+
+        try {
+          await apiService.uploadChunk(current.upload_id, index, chunk, {
+            offset,
+            totalSize: current.file_size,
+            checksum,
+            signal,
+            onProgress: loaded => onProgress?.(uploadedBefore + loaded, current),
+          });
+          break;
+        } catch (error) {
+          if (signal?.aborted) throw new DOMException('Upload paused', 'AbortError');
+          if (!isRetryableError(error) || attempt >= MAX_CHUNK_RETRIES) throw error;
+
+          await sleep(getBackoffDelay(attempt), signal);
+        }
+      }
+
+      current = await saveSession({
+        ...current,
+        uploaded_chunks: [...current.uploaded_chunks, index].sort((a, b) => a - b),
+      });
+      onProgress?.(getUploadedBytes(current), current);
+    }
+  }
+
+  const result = await apiService.completeUpload(current.upload_id, current.checksum);
+  if (result.checksum.toLowerCase() !== current.checksum.toLowerCase()) {
+    throw new Error('The uploaded file did not match the original. Please upload it again.');
+  }
+
+  current = await saveSession({ ...current, status: 'completed', file_path: result.file_path });
+
+  // The answer now points at the stored file; the local copy is no longer needed
+  await localforage.removeItem(fileKey(current.attempt_id, current.question_id));
+  return current;
+}
+
+/**
+ * Record a failure so the card can offer a retry after a reload
+ */
+export async function failUpload(session: UploadSession, error: string): Promise<UploadSession> {
+  return saveSession({ ...session, status: 'failed', error });
+}
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Run an upload in the background, or return the one already running for the question.
+ * A stopped upload is stored as paused and a failed one as failed.
+ */
+export function startUpload(session: UploadSession, file: Blob): UploadHandle {
+  const key = sessionKey(session.attempt_id, session.question_id);
+  const running = activeUploads.get(key);
+  if (running) return running;
+
+  const controller = new AbortController();
+  const listeners = new Set<ProgressListener>();
+  let uploadedBytes = getUploadedBytes(session);
+
+  const promise = runUpload(session, file, {
+    signal: controller.signal,
+    onProgress: (bytes, current) => {
+      uploadedBytes = bytes;
+      listeners.forEach(listener => listener(bytes, current));
+    },
+  })
+    .catch(async error => {
+      const latest = (await loadUpload(session.attempt_id, session.question_id))?.session ?? session;
+
+      if (isAbortError(error)) {
+        await pauseUpload(latest);
+      } else {
+        const message = error instanceof Error && error.message ? error.message : 'Upload failed';
+        await failUpload(latest, message);
+      }
+      throw error;
+    })
+    .finally(() => {
+      activeUploads.delete(key);
+    });
+
+  // Nobody may be listening if the card has unmounted
+  promise.catch(() => undefined);
+
+  const handle: UploadHandle = {
+    promise,
+    getUploadedBytes: () => uploadedBytes,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    abort: () => controller.abort(),
+  };
+
+  activeUploads.set(key, handle);
+  return handle;
+}
+
+/**
+ * The upload running for a question, if any
+ */
+export function getActiveUpload(attemptId: number | string, questionId: number | string): UploadHandle | undefined {
+  return activeUploads.get(sessionKey(attemptId, questionId));
+}
@@ -1,135 +1,432 @@
 /**
  * WebSocket Service for Real-time Monitoring
- * Handles connection to Laravel WebSocket server for live exam monitoring
+ * Handles connection to Laravel WebSocket server for live exam monitoring.
+ * Reconnects indefinitely, restores channel subscriptions and replays missed events.
  */
 
 import { io, Socket } from 'socket.io-client';
+import { getEventKey, parseWebSocketEvent } from './websocketEvents';
+import { fetchMissedEvents, fetchMissedMessages } from './monitorReplay';
+import type {
+  WebSocketEventType,
+  WebSocketEventPayloads,
+  WebSocketEvent,
+  WebSocketListener,
+  TeacherMessagePayload,
+} from './websocketEvents';
 
-export type WebSocketEventType = 
-  | 'attempt_started'
-  | 'attempt_updated'
-  | 'attempt_submitted'
-  | 'proctor_event'
-  | 'connection_status';
-
-export interface WebSocketEvent {
-  event: WebSocketEventType;
-  data: any;
-  timestamp: string;
+export type {
+  WebSocketEventType,
+  WebSocketEventPayloads,
+  WebSocketEvent,
+  WebSocketListener,
+  AttemptStartedPayload,
+  AttemptUpdatedPayload,
+  AttemptSubmittedPayload,
+  ProctorEventPayload,
+  TeacherMessagePayload,
+  ConnectionStatusPayload,
+} from './websocketEvents';
+
+type ListenerRegistry = {
+  [K in WebSocketEventType]?: Set<WebSocketListener<K>>;
+};
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface ConnectionHealth {
+  status: ConnectionStatus;
+  reconnectAttempt: number; // attempts since the connection was lost
+  lastConnectedAt: string | null;
+  lastDisconnectedAt: string | null;
+  lastEventAt: string | null; // server timestamp of the newest event received
+  lastError: string | null;
+  isReplaying: boolean;
+  lastReplay: { since: string; count: number; at: string } | null;
 }
 
+const initialHealth: ConnectionHealth = {
+  status: 'idle',
+  reconnectAttempt: 0,
+  lastConnectedAt: null,
+  lastDisconnectedAt: null,
+  lastEventAt: null,
+  lastError: null,
+  isReplaying: false,
+  lastReplay: null,
+};
+
+const MONITOR_CHANNEL = /^exam\.(\d+)\.monitor$/;
+const MESSAGE_CHANNEL = /^(exam|attempt)\.(\d+)\.messages$/;
+
+const messageChannel = (scope: TeacherMessagePayload['scope'], id: number) =>
+  scope === 'exam' ? `exam.${id}.messages` : `attempt.${id}.messages`;
+
+// How many recent event keys to remember for de-duplicating replayed events
+const SEEN_EVENTS_LIMIT = 500;
+
 class WebSocketService {
   private socket: Socket | null = null;
   private url: string;
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private listeners: Map<string, Set<(data: any) => void>> = new Map();
+  private maxInitialAttempts = 5; // connect() rejects after this many failures; the socket keeps retrying
+  private listeners: ListenerRegistry = {};
+  private channels = new Map<string, number>(); // subscribed channels and how many callers hold each
+  private connections = 0; // callers that connected and haven't disconnected yet
+  private hasConnected = false;
+  private replayBuffer: unknown[] | null = null; // live frames held back while a replay runs
+  private seenEvents = new Set<string>();
+  private seenOrder: string[] = [];
+  private health: ConnectionHealth = { ...initialHealth };
+  private healthListeners = new Set<(health: ConnectionHealth) => void>();
 
   constructor(url: string = 'http://localhost:8000') {
     this.url = url;
   }
 
   /**
-   * Connect to WebSocket server
+   * Connect to WebSocket server.
+   * Resolves on the first successful connection; after that the socket reconnects
+   * indefinitely, re-subscribes its channels and replays events missed in the gap.
+   * Every call must be paired with a disconnect(); the socket stays open until the last one.
    */
   connect(token?: string): Promise<void> {
+    this.connections++;
+
     return new Promise((resolve, reject) => {
       if (this.socket?.connected) {
         resolve();
         return;
       }
 
+      // Already connecting
+      if (this.socket) {
+        this.socket.once('connect', () => resolve());
+        return;
+      }
+
+      let failedAttempts = 0;
+      this.updateHealth({ status: 'connecting', lastError: null });
+
       this.socket = io(this.url, {
         auth: token ? { token } : undefined,
         transports: ['websocket', 'polling'],
         reconnection: true,
-        reconnectionAttempts: this.maxReconnectAttempts,
+        reconnectionAttempts: Infinity,
         reconnectionDelay: 1000,
+        reconnectionDelayMax: 30000,
+        randomizationFactor: 0.5,
       });
 
       this.socket.on('connect', () => {
         console.log('WebSocket connected');
-        this.reconnectAttempts = 0;
+        const isReconnect = this.hasConnected;
+        this.hasConnected = true;
+        failedAttempts = 0;
+
+        this.updateHealth({
+          status: 'connected',
+          reconnectAttempt: 0,
+          lastConnectedAt: new Date().toISOString(),
+          lastError: null,
+        });
+
+        // The server forgets channel subscriptions when the socket drops
+        this.channels.forEach((_holders, channel) => this.emitSubscription('subscribe', channel));
         this.emit('connection_status', { connected: true });
+
+        if (isReconnect) {
+          this.replayMissedEvents();
+        }
         resolve();
       });
 
       this.socket.on('disconnect', (reason) => {
         console.log('WebSocket disconnected:', reason);
+        this.updateHealth({
+          status: reason === 'io client disconnect' ? 'disconnected' : 'reconnecting',
+          lastDisconnectedAt: new Date().toISOString(),
+        });
         this.emit('connection_status', { connected: false });
+
+        // socket.io doesn't retry on its own after the server closes the connection
+        if (reason === 'io server disconnect') {
+          this.socket?.connect();
+        }
       });
 
       this.socket.on('connect_error', (error) => {
         console.error('WebSocket connection error:', error);
-        this.reconnectAttempts++;
-        
-        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+        failedAttempts++;
+        this.updateHealth({
+          status: this.hasConnected ? 'reconnecting' : 'connecting',
+          lastError: error.message,
+        });
+
+        if (!this.hasConnected && failedAttempts === this.maxInitialAttempts) {
           reject(error);
         }
       });
 
-      // Listen for exam monitoring events
-      this.socket.on('exam.monitor', (event: WebSocketEvent) => {
-        this.emit(event.event, event.data);
+      this.socket.io.on('reconnect_attempt', (attempt) => {
+        this.updateHealth({ reconnectAttempt: attempt });
       });
+
+      // Listen for exam monitoring events and teacher messages
+      const onFrame = (frame: unknown) => {
+        if (this.replayBuffer) {
+          this.replayBuffer.push(frame);
+          return;
+        }
+        this.handleFrame(frame);
+      };
+      this.socket.on('exam.monitor', onFrame);
+      this.socket.on('exam.message', onFrame);
     });
   }
 
   /**
-   * Disconnect from WebSocket server
+   * Release a connection made with connect(); the socket closes when no caller holds one.
+   * Listeners are left alone: each caller removes its own with the function on() returned.
    */
   disconnect(): void {
+    this.connections = Math.max(0, this.connections - 1);
+    if (this.connections > 0) return;
+
     if (this.socket) {
       this.socket.disconnect();
+      this.socket.removeAllListeners();
+      this.socket.io.removeAllListeners();
       this.socket = null;
     }
-    this.listeners.clear();
+    this.channels.clear();
+    this.hasConnected = false;
+    this.replayBuffer = null;
+    this.seenEvents.clear();
+    this.seenOrder = [];
+    this.updateHealth({ ...initialHealth, status: 'disconnected' });
   }
 
   /**
-   * Subscribe to exam monitoring channel
+   * Subscribe to exam monitoring channel.
+   * The subscription is remembered and sent again after every reconnect.
    */
   subscribeToExam(examId: string): void {
-    if (!this.socket?.connected) {
-      console.warn('WebSocket not connected. Cannot subscribe to exam.');
+    this.subscribe(`exam.${examId}.monitor`);
+  }
+
+  /**
+   * Unsubscribe from exam monitoring channel
+   */
+  unsubscribeFromExam(examId: string): void {
+    this.unsubscribe(`exam.${examId}.monitor`);
+  }
+
+  /**
+   * Subscribe a student to the announcements of their exam and the private messages of their attempt
+   */
+  subscribeToMessages(examId: number, attemptId: number): void {
+    this.subscribe(messageChannel('exam', examId));
+    this.subscribe(messageChannel('attempt', attemptId));
+  }
+
+  /**
+   * Unsubscribe from exam announcements and attempt messages
+   */
+  unsubscribeFromMessages(examId: number, attemptId: number): void {
+    this.unsubscribe(messageChannel('exam', examId));
+    this.unsubscribe(messageChannel('attempt', attemptId));
+  }
+
+  /**
+   * Relay a stored message to the students who are connected now.
+   * Returns false if the socket is down; students pick it up from the API instead.
+   */
+  sendTeacherMessage(message: TeacherMessagePayload): boolean {
+    if (!this.socket?.connected) return false;
+
+    const channel = message.scope === 'attempt'
+      ? messageChannel('attempt', message.attempt_id!)
+      : messageChannel('exam', message.monthly_exam_id);
+
+    this.socket.emit('message.send', { channel, message });
+    return true;
+  }
+
+  // Channels are shared: the server is only told about the first subscriber and the last to leave
+  private subscribe(channel: string): void {
+    const holders = this.channels.get(channel) ?? 0;
+    this.channels.set(channel, holders + 1);
+
+    if (holders === 0 && this.socket?.connected) {
+      this.emitSubscription('subscribe', channel);
+    }
+  }
+
+  private unsubscribe(channel: string): void {
+    const holders = this.channels.get(channel);
+    if (!holders) return;
+
+    if (holders > 1) {
+      this.channels.set(channel, holders - 1);
       return;
     }
 
-    this.socket.emit('subscribe', { channel: `exam.${examId}.monitor` });
+    this.channels.delete(channel);
+    if (this.socket?.connected) {
+      this.emitSubscription('unsubscribe', channel);
+    }
   }
 
   /**
-   * Unsubscribe from exam monitoring channel
+   * Current connection health
    */
-  unsubscribeFromExam(examId: string): void {
-    if (!this.socket?.connected) return;
+  getHealth(): ConnectionHealth {
+    return this.health;
+  }
+
+  /**
+   * Observe connection health; returns an unsubscribe function
+   */
+  onHealthChange(callback: (health: ConnectionHealth) => void): () => void {
+    this.healthListeners.add(callback);
+    return () => {
+      this.healthListeners.delete(callback);
+    };
+  }
+
+  private emitSubscription(action: 'subscribe' | 'unsubscribe', channel: string): void {
+    this.socket?.emit(action, { channel });
+  }
 
-    this.socket.emit('unsubscribe', { channel: `exam.${examId}.monitor` });
+  private updateHealth(changes: Partial<ConnectionHealth>): void {
+    this.health = { ...this.health, ...changes };
+    this.healthListeners.forEach(callback => callback(this.health));
   }
 
   /**
-   * Listen to a specific event
+   * Load events missed while disconnected through REST and apply them in order.
+   * Live frames that arrive meanwhile are held back so they can't be overtaken by older ones.
    */
-  on(event: WebSocketEventType, callback: (data: any) => void): () => void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
+  private async replayMissedEvents(): Promise<void> {
+    const since = this.health.lastEventAt ?? this.health.lastDisconnectedAt;
+    const channels = Array.from(this.channels.keys());
+    const examIds = channels
+      .map(channel => MONITOR_CHANNEL.exec(channel))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => Number(match[1]));
+    const messageChannels = channels
+      .map(channel => MESSAGE_CHANNEL.exec(channel))
+      .filter((match): match is RegExpExecArray => match !== null);
+    const messageTargets = {
+      examIds: messageChannels.filter(match => match[1] === 'exam').map(match => Number(match[2])),
+      attemptIds: messageChannels.filter(match => match[1] === 'attempt').map(match => Number(match[2])),
+    };
+
+    if (!since || (examIds.length === 0 && messageChannels.length === 0) || this.replayBuffer) return;
+
+    this.replayBuffer = [];
+    this.updateHealth({ isReplaying: true });
+
+    try {
+      const [events, messages] = await Promise.all([
+        fetchMissedEvents(examIds, since),
+        fetchMissedMessages(messageTargets, since),
+      ]);
+      const missed = [...events, ...messages]
+        .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+      const count = missed.filter(event => this.handleFrame(event)).length;
+
+      this.updateHealth({
+        isReplaying: false,
+        lastReplay: { since, count, at: new Date().toISOString() },
+      });
+    } catch (error) {
+      console.error('Failed to replay missed monitoring events:', error);
+      this.updateHealth({
+        isReplaying: false,
+        lastError: `Could not load events missed since ${since}`,
+      });
+    } finally {
+      const buffered = this.replayBuffer || [];
+      this.replayBuffer = null;
+      buffered.forEach(frame => this.handleFrame(frame));
     }
+  }
 
-    this.listeners.get(event)!.add(callback);
+  /**
+   * Remember an event; returns false if it was already seen
+   */
+  private markSeen(event: WebSocketEvent): boolean {
+    const key = getEventKey(event);
+
+    if (this.seenEvents.has(key)) return false;
+
+    this.seenEvents.add(key);
+    this.seenOrder.push(key);
+    if (this.seenOrder.length > SEEN_EVENTS_LIMIT) {
+      this.seenEvents.delete(this.seenOrder.shift()!);
+    }
+    return true;
+  }
+
+  /**
+   * Listen to a specific event; the callback receives that event's payload type
+   */
+  on<K extends WebSocketEventType>(event: K, callback: WebSocketListener<K>): () => void {
+    const registry = this.listeners as { [E in K]?: Set<WebSocketListener<E>> };
+    const callbacks = registry[event] ?? new Set<WebSocketListener<K>>();
+    registry[event] = callbacks;
+
+    callbacks.add(callback);
 
     // Return unsubscribe function
     return () => {
-      this.listeners.get(event)?.delete(callback);
+      callbacks.delete(callback);
     };
   }
 
+  /**
+   * Validate a frame from the server and pass it on; malformed frames are dropped
+   */
+  private handleFrame(frame: unknown): boolean {
+    const result = parseWebSocketEvent(frame);
+
+    if (!result.ok) {
+      console.warn('Dropping malformed WebSocket frame:', result.error, frame);
+      return false;
+    }
+
+    if (!this.markSeen(result.event)) return false;
+
+    const { timestamp } = result.event;
+    const lastEventAt = this.health.lastEventAt;
+    if (!lastEventAt || Date.parse(timestamp) > Date.parse(lastEventAt)) {
+      this.updateHealth({ lastEventAt: timestamp });
+    }
+
+    this.dispatch(result.event);
+    return true;
+  }
+
+  private dispatch(event: WebSocketEvent): void {
+    // `event` and `data` are correlated by the WebSocketEvent union
+    this.emit(event.event, event.data as WebSocketEventPayloads[typeof event.event]);
+  }
+
   /**
    * Emit event to listeners
    */
-  private emit(event: WebSocketEventType, data: any): void {
-    const callbacks = this.listeners.get(event);
+  private emit<K extends WebSocketEventType>(event: K, data: WebSocketEventPayloads[K]): void {
+    const callbacks = (this.listeners as { [E in K]?: Set<WebSocketListener<E>> })[event];
     if (callbacks) {
-      callbacks.forEach(callback => callback(data));
+      callbacks.forEach(callback => {
+        // One failing listener must not stop the others from receiving the event
+        try {
+          callback(data);
+        } catch (error) {
+          console.error(`WebSocket listener for ${event} failed:`, error);
+        }
+      });
     }
   }
 
@@ -143,7 +440,7 @@ class WebSocketService {
   /**
    * Send a custom event to server
    */
-  send(event: string, data: any): void {
+  send(event: string, data: unknown): void {
     if (!this.socket?.connected) {
       console.warn('Cannot send event: WebSocket not connected');
       return;
@@ -0,0 +1,268 @@
+/**
+ * WebSocket Event Schema
+ * Payload types for every monitoring event, and runtime validation of incoming
+ * frames so a backend shape change is caught at the socket instead of crashing
+ * a listener.
+ */
+
+import type { StudentAttempt } from './api';
+
+export type WebSocketEventType =
+  | 'attempt_started'
+  | 'attempt_updated'
+  | 'attempt_submitted'
+  | 'proctor_event'
+  | 'teacher_message'
+  | 'connection_status';
+
+export interface AttemptStartedPayload {
+  attempt_id: number;
+  monthly_exam_id: number;
+  student_id: number;
+  student_name?: string;
+  exam_title?: string;
+  started_at: string;
+}
+
+export interface AttemptUpdatedPayload {
+  attempt_id: number;
+  answered_count?: number;
+  total_questions?: number;
+  last_saved_at?: string;
+  status?: StudentAttempt['status'];
+}
+
+export interface AttemptSubmittedPayload {
+  attempt_id: number;
+  status: StudentAttempt['status'];
+  finished_at: string;
+  total_score?: number;
+  percent?: number;
+}
+
+export interface ProctorEventPayload {
+  id?: number; // stored proctoring event id, once the server has saved it
+  attempt_id: number;
+  event_type: string;
+  event_time: string;
+  details?: Record<string, unknown>;
+}
+
+export interface TeacherMessagePayload {
+  message_id: string;
+  scope: 'exam' | 'attempt'; // whole exam, or one private attempt
+  monthly_exam_id: number;
+  attempt_id?: number; // set when scope is 'attempt'
+  body: string;
+  priority: 'info' | 'warning';
+  sender_name?: string;
+  sent_at: string;
+}
+
+export interface ConnectionStatusPayload {
+  connected: boolean;
+}
+
+// Payload carried by each event type
+export interface WebSocketEventPayloads {
+  attempt_started: AttemptStartedPayload;
+  attempt_updated: AttemptUpdatedPayload;
+  attempt_submitted: AttemptSubmittedPayload;
+  proctor_event: ProctorEventPayload;
+  teacher_message: TeacherMessagePayload;
+  connection_status: ConnectionStatusPayload;
+}
+
+// One frame per event type, discriminated on `event`
+export type WebSocketEvent = {
+  [K in WebSocketEventType]: {
+    event: K;
+    data: WebSocketEventPayloads[K];
+    timestamp: string;
+  };
+}[WebSocketEventType];
+
+export type WebSocketListener<K extends WebSocketEventType> = (data: WebSocketEventPayloads[K]) => void;
+
+export type ParseResult =
+  | { ok: true; event: WebSocketEvent }
+  | { ok: false; error: string };
+
+type FieldCheck = (data: Record<string, unknown>, problems: string[]) => void;
+
+const ATTEMPT_STATUSES: StudentAttempt['status'][] = ['in_progress', 'submitted', 'grading', 'graded', 'abandoned'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(Date.parse(value));
+
+const number = (field: string, required = true): FieldCheck => (data, problems) => {
+  const value = data[field];
+  if (value === undefined || value === null) {
+    if (required) problems.push(`${field} is required`);
+  } else if (typeof value !== 'number' || !isFinite(value)) {
+    problems.push(`${field} must be a number`);
+  }
+};
+
+const string = (field: string, required = true): FieldCheck => (data, problems) => {
+  const value = data[field];
+  if (value === undefined || value === null) {
+    if (required) problems.push(`${field} is required`);
+  } else if (typeof value !== 'string') {
+    problems.push(`${field} must be a string`);
+  }
+};
+
+const timestamp = (field: string, required = true): FieldCheck => (data, problems) => {
+  const value = data[field];
+  if (value === undefined || value === null) {
+    if (required) problems.push(`${field} is required`);
+  } else if (!isTimestamp(value)) {
+    problems.push(`${field} must be a date string`);
+  }
+};
+
+const status = (field: string, required = true): FieldCheck => (data, problems) => {
+  const value = data[field];
+  if (value === undefined || value === null) {
+    if (required) problems.push(`${field} is required`);
+  } else if (!ATTEMPT_STATUSES.includes(value as StudentAttempt['status'])) {
+    problems.push(`${field} must be one of ${ATTEMPT_STATUSES.join(', ')}`);
+  }
+};
+
+const record = (field: string): FieldCheck => (data, problems) => {
+  const value = data[field];
+  if (value !== undefined && value !== null && !isRecord(value)) {
+    problems.push(`${field} must be an object`);
+  }
+};
+
+const oneOf = (field: string, values: string[]): FieldCheck => (data, problems) => {
+  if (!values.includes(data[field] as string)) {
+    problems.push(`${field} must be one of ${values.join(', ')}`);
+  }
+};
+
+const boolean = (field: string): FieldCheck => (data, problems) => {
+  if (typeof data[field] !== 'boolean') {
+    problems.push(`${field} must be a boolean`);
+  }
+};
+
+const payloadSchemas: Record<WebSocketEventType, FieldCheck[]> = {
+  attempt_started: [
+    number('attempt_id'),
+    number('monthly_exam_id'),
+    number('student_id'),
+    string('student_name', false),
+    string('exam_title', false),
+    timestamp('started_at'),
+  ],
+  attempt_updated: [
+    number('attempt_id'),
+    number('answered_count', false),
+    number('total_questions', false),
+    timestamp('last_saved_at', false),
+    status('status', false),
+  ],
+  attempt_submitted: [
+    number('attempt_id'),
+    status('status'),
+    timestamp('finished_at'),
+    number('total_score', false),
+    number('percent', false),
+  ],
+  proctor_event: [
+    number('id', false),
+    number('attempt_id'),
+    string('event_type'),
+    timestamp('event_time'),
+    record('details'),
+  ],
+  teacher_message: [
+    string('message_id'),
+    oneOf('scope', ['exam', 'attempt']),
+    number('monthly_exam_id'),
+    number('attempt_id', false),
+    string('body'),
+    oneOf('priority', ['info', 'warning']),
+    string('sender_name', false),
+    timestamp('sent_at'),
+    (data, problems) => {
+      if (data.scope === 'attempt' && typeof data.attempt_id !== 'number') {
+        problems.push('attempt_id is required for private messages');
+      }
+    },
+  ],
+  connection_status: [
+    boolean('connected'),
+  ],
+};
+
+const isEventType = (value: unknown): value is WebSocketEventType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(payloadSchemas, value);
+
+/**
+ * Check the payload of an event of a known type
+ */
+export function validatePayload(event: WebSocketEventType, data: unknown): string[] {
+  if (!isRecord(data)) return ['data must be an object'];
+
+  const problems: string[] = [];
+  payloadSchemas[event].forEach(check => check(data, problems));
+  return problems;
+}
+
+/**
+ * Validate a raw frame received from the socket
+ */
+export function parseWebSocketEvent(frame: unknown): ParseResult {
+  if (!isRecord(frame)) {
+    return { ok: false, error: 'frame must be an object' };
+  }
+
+  if (!isEventType(frame.event)) {
+    return { ok: false, error: `unknown event type ${JSON.stringify(frame.event)}` };
+  }
+
+  if (!isTimestamp(frame.timestamp)) {
+    return { ok: false, error: `${frame.event}: timestamp must be a date string` };
+  }
+
+  const problems = validatePayload(frame.event, frame.data);
+  if (problems.length > 0) {
+    return { ok: false, error: `${frame.event}: ${problems.join('; ')}` };
+  }
+
+  return {
+    ok: true,
+    event: { event: frame.event, data: frame.data, timestamp: frame.timestamp } as WebSocketEvent,
+  };
+}
+
+/**
+ * Identity of an event for de-duplication. Events that can also arrive through a
+ * REST replay are keyed on what both copies agree on, not the frame timestamp:
+ * the server stamps live frames when it emits them, while replayed ones carry
+ * the time the event happened.
+ */
+export function getEventKey(event: WebSocketEvent): string {
+  switch (event.event) {
+    case 'attempt_started':
+    case 'attempt_submitted':
+      return `${event.event}|${event.data.attempt_id}`;
+    case 'proctor_event':
+      // Not the stored id: a live frame may be sent before the event is saved
+      return `${event.event}|${event.data.attempt_id}|${event.data.event_type}|${event.data.event_time}`;
+    case 'teacher_message':
+      return `${event.event}|${event.data.message_id}`;
+    case 'attempt_updated':
+      return `${event.event}|${event.data.attempt_id}|${event.timestamp}`;
+    default:
+      return `${event.event}|${event.timestamp}`;
+  }
+}
@@ -1,5 +1,8 @@
+/**
+ * @jest-environment jsdom
+ */
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, act } from '@testing-library/react';
 import Timer from '../components/Timer';
 
 describe('Timer', () => {
@@ -15,4 +18,19 @@ describe('Timer', () => {
     rerender(<Timer initialTime={125} />);
     expect(screen.getByText('02:05')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('does not replay warnings already passed when it mounts', () => {
+    jest.useFakeTimers();
+    const onWarning = jest.fn();
+    render(<Timer deadline={new Date(Date.now() + 120 * 1000)} warningTimes={[600, 300, 60]} onWarning={onWarning} />);
+
+    expect(onWarning).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(61 * 1000);
+    });
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith(59);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  assignRanks,
+  combineAttempts,
+  computeAggregates,
+  diffAggregates,
+  getScopeExams,
+  scoreAttemptBySubject,
+} from '../utils/aggregates';
+import type { AttemptResult, ExamScoringData } from '../utils/aggregates';
+import type { AttemptAnswer, BackendQuestion, ExamAggregate, ExamQuestion, ExamSubject, MonthlyExam, StudentAttempt } from '../services/api';
+
+const exam = (overrides: Partial<MonthlyExam> = {}): MonthlyExam => ({
+  id: 10,
+  school_id: 1,
+  grade_id: 5,
+  section_id: 1,
+  month: 11,
+  year: 2025,
+  exam_date: '2025-11-01',
+  online_enabled: true,
+  ...overrides,
+});
+
+const question = (id: number): BackendQuestion => ({
+  id,
+  bank_id: 1,
+  author_id: 1,
+  type: 'essay',
+  prompt: `Question ${id}`,
+  default_marks: 10,
+});
+
+const attempt = (id: number, studentId: number, overrides: Partial<StudentAttempt> = {}): StudentAttempt => ({
+  id,
+  monthly_exam_id: 10,
+  student_id: studentId,
+  status: 'graded',
+  finished_at: `2025-11-0${id}T10:00:00Z`,
+  attempt_token: `token-${id}`,
+  ...overrides,
+});
+
+// Every question is an essay, so the teacher's mark is the score
+const marked = (attemptId: number, marks: number[]): AttemptAnswer[] => marks.map((mark, index) => ({
+  id: attemptId * 10 + index,
+  attempt_id: attemptId,
+  question_id: index + 1,
+  answer_text: 'Answer',
+  marks_awarded: mark,
+  graded_by: 3,
+  graded_at: '2025-11-02T09:00:00Z',
+}));
+
+// Questions 1 and 2 are maths, question 3 is science
+const examQuestions: ExamQuestion[] = [
+  { id: 1, monthly_exam_id: 10, question_id: 1, sequence: 1, subject_id: 100, question: question(1) },
+  { id: 2, monthly_exam_id: 10, question_id: 2, sequence: 2, subject_id: 100, question: question(2) },
+  { id: 3, monthly_exam_id: 10, question_id: 3, sequence: 3, subject_id: 200, question: question(3) },
+];
+
+const examSubjects: ExamSubject[] = [
+  { id: 1, monthly_exam_id: 10, subject_id: 100, max_marks: 50, pass_marks: 20 },
+  { id: 2, monthly_exam_id: 10, subject_id: 200, max_marks: 50, pass_marks: 20 },
+];
+
+const result = (attemptId: number, percent: number, finished_at: string): AttemptResult => ({
+  attempt_id: attemptId,
+  finished_at,
+  total_marks: percent,
+  max_marks: 100,
+  percent,
+  subjects: [],
+});
+
+describe('aggregates', () => {
+  describe('getScopeExams', () => {
+    it('should rank a section alone or with the rest of its grade for the month', () => {
+      const own = exam();
+      const others = [
+        own,
+        exam({ id: 11, section_id: 2 }),
+        exam({ id: 12, section_id: 3, month: 12 }),
+        exam({ id: 13, section_id: 4, grade_id: 6 }),
+      ];
+      expect(getScopeExams(own, others, 'section').map(item => item.id)).toEqual([10]);
+      expect(getScopeExams(own, others, 'grade').map(item => item.id)).toEqual([10, 11]);
+    });
+  });
+
+  describe('scoreAttemptBySubject', () => {
+    it('should scale each subject to its max marks and check its pass marks', () => {
+      const scored = scoreAttemptBySubject(attempt(1, 1), marked(1, [8, 6, 3]), { exam: exam(), examQuestions, examSubjects });
+      expect(scored.subjects).toEqual([
+        { subject_id: 100, name: undefined, marks: 35, max_marks: 50, pass_marks: 20, passed: true },
+        { subject_id: 200, name: undefined, marks: 15, max_marks: 50, pass_marks: 20, passed: false },
+      ]);
+      expect(scored.total_marks).toBe(50);
+      expect(scored.max_marks).toBe(100);
+      expect(scored.percent).toBe(50);
+    });
+
+    it('should count questions outside any subject as they are', () => {
+      const scored = scoreAttemptBySubject(attempt(1, 1), marked(1, [8, 6, 3]), { exam: exam(), examQuestions, examSubjects: [] });
+      expect(scored.subjects).toEqual([]);
+      expect(scored.total_marks).toBe(17);
+      expect(scored.max_marks).toBe(30);
+    });
+  });
+
+  describe('combineAttempts', () => {
+    const attempts = [result(1, 60, '2025-11-01'), result(2, 80, '2025-11-02'), result(3, 70, '2025-11-03')];
+
+    it('should pick the best, latest or average attempt', () => {
+      expect(combineAttempts(attempts, 'best')).toMatchObject({ attempt_ids: [2], percent: 80 });
+      expect(combineAttempts(attempts, 'latest')).toMatchObject({ attempt_ids: [3], percent: 70 });
+      expect(combineAttempts(attempts, 'average')).toMatchObject({ attempt_ids: [1, 2, 3], total_marks: 70, percent: 70 });
+    });
+
+    it('should prefer the later attempt when the best scores tie', () => {
+      expect(combineAttempts([result(1, 80, '2025-11-01'), result(2, 80, '2025-11-02')], 'best').attempt_ids).toEqual([2]);
+    });
+  });
+
+  describe('assignRanks', () => {
+    it('should share ranks on ties and skip the places they take', () => {
+      const ranked = assignRanks([{ percent: 90 }, { percent: 75 }, { percent: 90 }, { percent: 60 }]);
+      expect(ranked.map(item => item.rank)).toEqual([1, 3, 1, 4]);
+      expect(ranked.map(item => item.percentile)).toEqual([75, 37.5, 75, 12.5]);
+    });
+  });
+
+  describe('computeAggregates', () => {
+    const data: ExamScoringData = {
+      exam: exam({ passing_percentage: 40 }),
+      attempts: [
+        attempt(1, 1),
+        attempt(2, 1),
+        attempt(3, 2),
+        attempt(4, 3, { status: 'grading' }),
+      ],
+      answers: {
+        1: marked(1, [4, 4, 4]),
+        2: marked(2, [8, 8, 8]),
+        3: marked(3, [10, 10, 2]),
+      },
+      examQuestions,
+      examSubjects,
+    };
+
+    it('should rank students on graded attempts only', () => {
+      const results = computeAggregates([data], 'best');
+      expect(results.map(item => [item.student_id, item.total_marks, item.rank, item.passed])).toEqual([
+        [1, 80, 1, true],
+        [2, 60, 2, false], // science is below its pass marks
+      ]);
+    });
+
+    it('should follow the attempt policy', () => {
+      const results = computeAggregates([data], 'latest');
+      expect(results.find(item => item.student_id === 1)?.attempt_ids).toEqual([2]);
+      expect(computeAggregates([data], 'average').find(item => item.student_id === 1)?.total_marks).toBe(60);
+    });
+  });
+
+  describe('diffAggregates', () => {
+    const computed = computeAggregates([{
+      exam: exam(),
+      attempts: [attempt(1, 1), attempt(2, 2)],
+      answers: { 1: marked(1, [10, 10, 10]), 2: marked(2, [5, 5, 5]) },
+      examQuestions,
+      examSubjects: [],
+    }]);
+
+    const saved = (overrides: Partial<ExamAggregate>): ExamAggregate => ({
+      id: overrides.student_id ?? 0,
+      monthly_exam_id: 10,
+      student_id: 0,
+      published: true,
+      ...overrides,
+    });
+
+    it('should sort computed results into new, changed and unchanged', () => {
+      const changes = diffAggregates(computed, [
+        saved({ student_id: 1, total_marks: 30, percent: 100, rank: 1, percentile: 75, passed: true }),
+        saved({ student_id: 3, total_marks: 12 }),
+      ]);
+
+      expect(changes.map(change => [change.student_id, change.kind])).toEqual([
+        [1, 'unchanged'],
+        [2, 'new'],
+        [3, 'missing'],
+      ]);
+    });
+
+    it('should list the fields that would change', () => {
+      const [first] = diffAggregates(computed, [saved({ student_id: 1, total_marks: 28, percent: 93.33, rank: 1 })]);
+      expect(first.kind).toBe('changed');
+      expect(first.fields).toEqual(['total_marks', 'percent', 'percentile', 'passed']);
+    });
+  });
+});
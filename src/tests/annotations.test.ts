@@ -0,0 +1,111 @@
+import {
+  createAnnotationId,
+  toPagePoint,
+  simplifyStroke,
+  rectFromPoints,
+  numberComments,
+  readAnnotations,
+} from '../utils/annotations';
+import type { Annotation } from '../utils/annotations';
+
+describe('annotations', () => {
+  describe('createAnnotationId', () => {
+    it('returns unique ids', () => {
+      const ids = new Set(Array.from({ length: 50 }, () => createAnnotationId()));
+      expect(ids.size).toBe(50);
+    });
+  });
+
+  describe('toPagePoint', () => {
+    const rect = { left: 100, top: 50, width: 200, height: 400 };
+
+    it('converts client coordinates to page fractions', () => {
+      expect(toPagePoint(200, 150, rect)).toEqual({ x: 0.5, y: 0.25 });
+    });
+
+    it('clamps points outside the page', () => {
+      expect(toPagePoint(50, 900, rect)).toEqual({ x: 0, y: 1 });
+    });
+  });
+
+  describe('simplifyStroke', () => {
+    it('drops points closer than the minimum distance', () => {
+      const points = [
+        { x: 0, y: 0 },
+        { x: 0.001, y: 0 },
+        { x: 0.1, y: 0 },
+        { x: 0.1005, y: 0 },
+        { x: 0.2, y: 0 },
+      ];
+
+      expect(simplifyStroke(points)).toEqual([
+        { x: 0, y: 0 },
+        { x: 0.1, y: 0 },
+        { x: 0.2, y: 0 },
+      ]);
+    });
+
+    it('always keeps the last point', () => {
+      const points = [{ x: 0, y: 0 }, { x: 0.5, y: 0.5 }, { x: 0.5001, y: 0.5 }];
+      const result = simplifyStroke(points);
+
+      expect(result[result.length - 1]).toEqual({ x: 0.5001, y: 0.5 });
+    });
+
+    it('leaves short strokes untouched', () => {
+      const points = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+      expect(simplifyStroke(points)).toBe(points);
+    });
+  });
+
+  describe('rectFromPoints', () => {
+    it('normalises drags in any direction', () => {
+      expect(rectFromPoints({ x: 0.6, y: 0.5 }, { x: 0.2, y: 0.1 })).toEqual({
+        x: 0.2,
+        y: 0.1,
+        width: expect.closeTo(0.4),
+        height: expect.closeTo(0.4),
+      });
+    });
+  });
+
+  describe('numberComments', () => {
+    it('numbers comments in reading order across pages', () => {
+      const annotations: Annotation[] = [
+        { id: 'c', type: 'comment', page: 1, x: 0.1, y: 0.1, text: 'Third' },
+        { id: 's', type: 'stamp', page: 0, x: 0.5, y: 0.5, stamp: 'tick' },
+        { id: 'b', type: 'comment', page: 0, x: 0.1, y: 0.8, text: 'Second' },
+        { id: 'a', type: 'comment', page: 0, x: 0.9, y: 0.2, text: 'First' },
+      ];
+
+      const numbers = numberComments(annotations);
+
+      expect(numbers.get('a')).toBe(1);
+      expect(numbers.get('b')).toBe(2);
+      expect(numbers.get('c')).toBe(3);
+      expect(numbers.has('s')).toBe(false);
+    });
+  });
+
+  describe('readAnnotations', () => {
+    it('returns an empty list when there is no document', () => {
+      expect(readAnnotations(null)).toEqual([]);
+      expect(readAnnotations(undefined)).toEqual([]);
+    });
+
+    it('drops malformed and unknown annotations', () => {
+      const valid: Annotation = { id: 'p', type: 'pen', page: 0, color: '#000', width: 0.004, points: [{ x: 0, y: 0 }] };
+      const document = {
+        annotations: [
+          valid,
+          { id: 'x', type: 'stamp', page: 0, x: 0.1, y: 0.1, stamp: 'smiley' },
+          { id: 'y', type: 'laser', page: 0 },
+          { type: 'comment', page: 0, x: 0, y: 0, text: 'no id' },
+          null,
+        ] as unknown as Annotation[],
+      };
+
+      expect(readAnnotations(document)).toEqual([valid]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  recordAnswer,
+  getPendingEntries,
+  getConflicts,
+  getRejectedEntries,
+  markSynced,
+  replayJournal,
+} from '../services/answerJournal';
+
+// In-memory localforage
+jest.mock('localforage', () => {
+  const store = new Map<string, unknown>();
+  return {
+    getItem: jest.fn(async (key: string) => (store.has(key) ? JSON.parse(JSON.stringify(store.get(key))) : null)),
+    setItem: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, JSON.parse(JSON.stringify(value)));
+      return value;
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    keys: jest.fn(async () => Array.from(store.keys())),
+    clear: () => store.clear(),
+  };
+});
+
+describe('answerJournal', () => {
+  let attemptId: string;
+  let attemptCounter = 0;
+
+  beforeEach(() => {
+    attemptCounter += 1;
+    attemptId = `attempt-${attemptCounter}`;
+  });
+
+  it('should keep only the latest write per question, in sequence order', async () => {
+    await recordAnswer(attemptId, { question_id: 1, answer_text: 'first' });
+    await recordAnswer(attemptId, { question_id: 2, answer_text: 'other' });
+    await recordAnswer(attemptId, { question_id: 1, answer_text: 'second' });
+
+    const entries = await getPendingEntries(attemptId);
+
+    expect(entries.map(entry => entry.answer_text)).toEqual(['other', 'second']);
+    expect(entries[1].seq).toBe(3);
+  });
+
+  it('should keep a newer write pending when an older one finishes syncing', async () => {
+    const older = await recordAnswer(attemptId, { question_id: 1, answer_text: 'old' });
+    await recordAnswer(attemptId, { question_id: 1, answer_text: 'new' });
+
+    await markSynced(attemptId, older, '2025-11-01T10:00:00Z');
+
+    const entries = await getPendingEntries(attemptId);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].answer_text).toBe('new');
+  });
+
+  it('should be safe to replay twice', async () => {
+    await recordAnswer(attemptId, { question_id: 1, answer_text: 'a' });
+    const save = jest.fn().mockResolvedValue({ saved_at: '2025-11-01T10:00:00Z' });
+
+    const first = await replayJournal(attemptId, { save });
+    const second = await replayJournal(attemptId, { save });
+
+    expect(first).toEqual({ synced: 1, conflicts: 0, rejected: 0, remaining: 0 });
+    expect(second).toEqual({ synced: 0, conflicts: 0, rejected: 0, remaining: 0 });
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not overwrite a newer server answer', async () => {
+    await recordAnswer(attemptId, { question_id: 1, answer_text: 'offline' }, Date.parse('2025-11-01T10:00:00Z'));
+    const save = jest.fn();
+
+    const result = await replayJournal(attemptId, {
+      save,
+      fetchServerAnswers: async () => [
+        { id: 9, attempt_id: 1, question_id: 1, answer_text: 'online', saved_at: '2025-11-01T10:05:00Z' },
+      ],
+    });
+
+    expect(result.conflicts).toBe(1);
+    expect(save).not.toHaveBeenCalled();
+    expect(await getConflicts(attemptId)).toHaveLength(1);
+  });
+
+  it('should stop at the first failure to preserve order', async () => {
+    await recordAnswer(attemptId, { question_id: 1, answer_text: 'a' });
+    await recordAnswer(attemptId, { question_id: 2, answer_text: 'b' });
+    const save = jest.fn().mockRejectedValue(new Error('network'));
+
+    const result = await replayJournal(attemptId, { save });
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(result.remaining).toBe(2);
+  });
+
+  it('should set aside an answer the server rejects and carry on', async () => {
+    await recordAnswer(attemptId, { question_id: 1, answer_text: 'too long' });
+    await recordAnswer(attemptId, { question_id: 2, answer_text: 'b' });
+    const save = jest.fn()
+      .mockRejectedValueOnce({ response: { status: 422 } })
+      .mockResolvedValueOnce({ saved_at: '2025-11-01T10:00:00Z' });
+
+    const result = await replayJournal(attemptId, { save });
+
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ synced: 1, conflicts: 0, rejected: 1, remaining: 0 });
+    expect(await getRejectedEntries(attemptId)).toMatchObject([{ entry: { question_id: 1 }, status: 422 }]);
+  });
+});
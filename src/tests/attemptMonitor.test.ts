@@ -0,0 +1,88 @@
+import { mergeSnapshot, applyDelta, isExamOpen } from '../utils/attemptMonitor';
+import type { StudentAttempt } from '../services/api';
+
+const attempt = (overrides: Partial<StudentAttempt> = {}): StudentAttempt => ({
+  id: 1,
+  monthly_exam_id: 10,
+  student_id: 100,
+  status: 'in_progress',
+  started_at: '2025-11-01T10:00:00Z',
+  attempt_token: 'token',
+  student: { id: 100, school_id: 1, admission_no: 'A1', first_name: 'Sara', last_name: 'Khan' },
+  ...overrides,
+});
+
+describe('attemptMonitor', () => {
+  describe('mergeSnapshot', () => {
+    it('should add attempts from the snapshot', () => {
+      const table = mergeSnapshot({}, [attempt()], 1000);
+
+      expect(table[1].student_name).toBe('Sara Khan');
+      expect(table[1].status).toBe('in_progress');
+    });
+
+    it('should keep a status streamed after the snapshot was requested', () => {
+      let table = mergeSnapshot({}, [attempt()], 1000);
+      table = applyDelta(table, {
+        event: 'attempt_submitted',
+        data: { attempt_id: 1, status: 'submitted', finished_at: '2025-11-01T10:30:00Z' },
+      }, 2000);
+
+      table = mergeSnapshot(table, [attempt()], 1500);
+
+      expect(table[1].status).toBe('submitted');
+    });
+
+    it('should keep streamed progress when a snapshot arrives', () => {
+      let table = applyDelta({}, {
+        event: 'attempt_updated',
+        data: { attempt_id: 1, answered_count: 4, total_questions: 10 },
+      }, 1000);
+
+      table = mergeSnapshot(table, [attempt()], 2000);
+
+      expect(table[1].answered_count).toBe(4);
+      expect(table[1].student_name).toBe('Sara Khan');
+    });
+
+    it('should drop in-progress attempts that left the snapshot', () => {
+      let table = mergeSnapshot({}, [attempt()], 1000);
+      table = mergeSnapshot(table, [], 2000);
+
+      expect(table[1]).toBeUndefined();
+    });
+  });
+
+  describe('applyDelta', () => {
+    it('should count proctoring events per attempt', () => {
+      let table = mergeSnapshot({}, [attempt()], 1000);
+      table = applyDelta(table, {
+        event: 'proctor_event',
+        data: { attempt_id: 1, event_type: 'tab_hidden', event_time: '2025-11-01T10:05:00Z' },
+      }, 2000);
+      table = applyDelta(table, {
+        event: 'proctor_event',
+        data: { attempt_id: 1, event_type: 'tab_visible', event_time: '2025-11-01T10:06:00Z' },
+      }, 3000);
+
+      expect(table[1].proctor_event_count).toBe(2);
+      expect(table[1].last_proctor_event?.event_type).toBe('tab_visible');
+    });
+  });
+
+  describe('isExamOpen', () => {
+    const now = new Date('2025-11-01T10:30');
+
+    it('should be open on the exam date until it closes', () => {
+      expect(isExamOpen({ online_enabled: true, exam_date: '2025-11-01', end_time: '11:30' }, now)).toBe(true);
+      expect(isExamOpen({ online_enabled: true, exam_date: '2025-11-01', end_time: '10:00' }, now)).toBe(false);
+      expect(isExamOpen({ online_enabled: true, exam_date: '2025-11-01' }, now)).toBe(true);
+    });
+
+    it('should be closed for other days and offline exams', () => {
+      expect(isExamOpen({ online_enabled: true, exam_date: '2025-11-02', end_time: '11:30' }, now)).toBe(false);
+      expect(isExamOpen({ online_enabled: true, exam_date: '2025-10-31' }, now)).toBe(false);
+      expect(isExamOpen({ online_enabled: false, exam_date: '2025-11-01' }, now)).toBe(false);
+    });
+  });
+});
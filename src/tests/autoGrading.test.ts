@@ -0,0 +1,185 @@
+import {
+  getAnswerSpec,
+  countSignificantFigures,
+  parseNumericAnswer,
+  isWithinTolerance,
+  normalizeAnswer,
+  editDistance,
+  gradeWithSpec,
+  suggestMarks,
+} from '../utils/autoGrading';
+import type { NumericAnswerSpec, ShortAnswerSpec } from '../utils/autoGrading';
+
+describe('autoGrading', () => {
+  describe('getAnswerSpec', () => {
+    it('should fall back to correct_answer', () => {
+      expect(getAnswerSpec('numeric', { correct_answer: 3.14 })).toMatchObject({ type: 'numeric', value: 3.14 });
+      expect(getAnswerSpec('short', { correct_answer: 'Paris' })).toMatchObject({ type: 'short', accepted: ['Paris'] });
+    });
+
+    it('should read the grading block', () => {
+      const spec = getAnswerSpec('short', { grading: { accepted: ['Paris', 'Paris, France'], max_edit_distance: 1 } });
+      expect(spec).toMatchObject({ accepted: ['Paris', 'Paris, France'], max_edit_distance: 1 });
+    });
+
+    it('should return null when nothing can be graded', () => {
+      expect(getAnswerSpec('numeric', {})).toBeNull();
+      expect(getAnswerSpec('numeric', { correct_answer: 'abc' })).toBeNull();
+      expect(getAnswerSpec('essay', { correct_answer: 'x' })).toBeNull();
+      expect(getAnswerSpec('short', null)).toBeNull();
+    });
+  });
+
+  describe('countSignificantFigures', () => {
+    it('should follow the usual rules for zeros', () => {
+      expect(countSignificantFigures('1200')).toBe(2);
+      expect(countSignificantFigures('1200.')).toBe(4);
+      expect(countSignificantFigures('0.00450')).toBe(3);
+      expect(countSignificantFigures('-1.20e3')).toBe(3);
+      expect(countSignificantFigures('0')).toBe(1);
+    });
+  });
+
+  describe('parseNumericAnswer', () => {
+    it('should split the number from its unit', () => {
+      expect(parseNumericAnswer('9.81 m/s^2')).toEqual({ value: 9.81, unit: 'm/s^2', significant_figures: 3 });
+      expect(parseNumericAnswer('-1.2e3kg')).toEqual({ value: -1200, unit: 'kg', significant_figures: 2 });
+      expect(parseNumericAnswer('1,200')).toMatchObject({ value: 1200, unit: '' });
+      expect(parseNumericAnswer('.5')).toMatchObject({ value: 0.5 });
+    });
+
+    it('should reject text without a number', () => {
+      expect(parseNumericAnswer('abc')).toBeNull();
+      expect(parseNumericAnswer('-')).toBeNull();
+      expect(parseNumericAnswer('')).toBeNull();
+    });
+  });
+
+  describe('isWithinTolerance', () => {
+    it('should support absolute and relative tolerances', () => {
+      expect(isWithinTolerance(10.4, 10, 0.5)).toBe(true);
+      expect(isWithinTolerance(10.6, 10, 0.5)).toBe(false);
+      expect(isWithinTolerance(104, 100, 0.05, 'relative')).toBe(true);
+      expect(isWithinTolerance(106, 100, 0.05, 'relative')).toBe(false);
+      expect(isWithinTolerance(0.1 + 0.2, 0.3)).toBe(true);
+    });
+  });
+
+  describe('numeric grading', () => {
+    const spec: NumericAnswerSpec = {
+      type: 'numeric',
+      value: 9.81,
+      tolerance: 0.01,
+      units: ['m/s^2', 'm s^-2'],
+      units_required: true,
+      significant_figures: 3,
+      partial_credit: {
+        bands: [{ tolerance: 0.1, tolerance_mode: 'relative', credit: 0.5 }],
+        wrong_units: 0.5,
+        wrong_significant_figures: 0.8,
+      },
+    };
+
+    it('should give full marks for a correct value and unit', () => {
+      const result = gradeWithSpec('9.81 m/s^2', spec, 4);
+      expect(result).toMatchObject({ marks_awarded: 4, credit: 1, correct: true });
+      expect(result.explanation).toContain('within ±0.01 of 9.81');
+    });
+
+    it('should accept unit spacing variants', () => {
+      expect(gradeWithSpec('9.80 m s^-2', spec, 4).correct).toBe(true);
+    });
+
+    it('should apply partial credit for tolerance bands, units and precision', () => {
+      expect(gradeWithSpec('10.2 m/s^2', spec, 4).marks_awarded).toBe(2);
+      expect(gradeWithSpec('9.81', spec, 4).marks_awarded).toBe(2);
+      expect(gradeWithSpec('9.810 m/s^2', spec, 4).marks_awarded).toBe(3.2);
+      expect(gradeWithSpec('9.81 km', spec, 4).explanation).toContain('Unit "km" is not accepted');
+    });
+
+    it('should give nothing for values outside every tolerance', () => {
+      const result = gradeWithSpec('12 m/s^2', spec, 4);
+      expect(result).toMatchObject({ marks_awarded: 0, correct: false });
+      expect(result.explanation).toContain('not close enough');
+    });
+
+    it('should explain missing or non-numeric answers', () => {
+      expect(gradeWithSpec('', spec, 4).explanation).toBe('No answer given');
+      expect(gradeWithSpec('about ten', spec, 4).explanation).toBe('The answer is not a number');
+    });
+  });
+
+  describe('normalizeAnswer', () => {
+    it('should normalise case and whitespace', () => {
+      expect(normalizeAnswer('  New   York ')).toBe('new york');
+      expect(normalizeAnswer('New York', { whitespace: 'ignore' })).toBe('newyork');
+      expect(normalizeAnswer(' New York', { case_sensitive: true, whitespace: 'exact' })).toBe(' New York');
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count single-character edits', () => {
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('paris', 'paris')).toBe(0);
+      expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    });
+  });
+
+  describe('short answer grading', () => {
+    const spec: ShortAnswerSpec = {
+      type: 'short',
+      accepted: ['photosynthesis'],
+      patterns: ['^photo-?synthesis$'],
+      max_edit_distance: 2,
+      near_miss_credit: 0.75,
+      partial_credit: [
+        { accepted: ['respiration'], credit: 0.25, feedback: 'Related process, but not the one asked about' },
+        { patterns: ['light'], credit: 0.5 },
+      ],
+    };
+
+    it('should match accepted answers regardless of case and spacing', () => {
+      expect(gradeWithSpec('  Photosynthesis ', spec, 2)).toMatchObject({ marks_awarded: 2, correct: true });
+    });
+
+    it('should match regex patterns', () => {
+      const result = gradeWithSpec('Photo-synthesis', spec, 2);
+      expect(result.correct).toBe(true);
+      expect(result.explanation).toContain('pattern');
+    });
+
+    it('should give near-miss credit for spelling slips', () => {
+      const result = gradeWithSpec('photosynthesys', spec, 2);
+      expect(result.marks_awarded).toBe(1.5);
+      expect(result.explanation).toContain('Within 1 edit of "photosynthesis"');
+    });
+
+    it('should apply the best matching partial-credit rule', () => {
+      expect(gradeWithSpec('respiration', spec, 2)).toMatchObject({
+        marks_awarded: 0.5,
+        explanation: 'Related process, but not the one asked about',
+      });
+      expect(gradeWithSpec('using light energy', spec, 2).marks_awarded).toBe(1);
+    });
+
+    it('should give nothing for other answers', () => {
+      expect(gradeWithSpec('digestion', spec, 2)).toMatchObject({
+        marks_awarded: 0,
+        explanation: 'Does not match any accepted answer',
+      });
+    });
+
+    it('should ignore invalid patterns', () => {
+      expect(gradeWithSpec('x', { type: 'short', accepted: ['x'], patterns: ['('] }, 1).correct).toBe(true);
+    });
+  });
+
+  describe('suggestMarks', () => {
+    it('should grade from question metadata', () => {
+      const question = { type: 'short', metadata: { correct_answer: 'Paris' } };
+      expect(suggestMarks(question, 'paris', 3)?.marks_awarded).toBe(3);
+      expect(suggestMarks({ type: 'essay', metadata: {} }, 'text', 3)).toBeNull();
+      expect(suggestMarks(undefined, 'text', 3)).toBeNull();
+    });
+  });
+});
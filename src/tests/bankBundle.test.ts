@@ -0,0 +1,110 @@
+/**
+ * @jest-environment jsdom
+ */
+import { BANK_BUNDLE_VERSION, buildBankBundle, parseBankBundle, remapBankBundle } from '../utils/bankBundle';
+import { questionsToQti } from '../utils/qtiExport';
+import { parseQtiQuestions } from '../utils/qtiParser';
+import type { BackendQuestion, QuestionBank, Subject, Teacher } from '../services/api';
+
+const bank: QuestionBank = { id: 4, school_id: 1, name: 'Science 9', created_by: 10, school: { id: 1, name: 'North High' } };
+
+const teacher = (id: number, school_id: number, full_name: string, email: string): Teacher => ({ id, school_id, full_name, email });
+
+const subject = (id: number, school_id: number, name: string, code: string): Subject => ({
+  id,
+  school_id,
+  name,
+  code,
+  default_max_marks: 100,
+  pass_marks: 40,
+});
+
+const questions: BackendQuestion[] = [
+  {
+    id: 1,
+    bank_id: 4,
+    author_id: 10,
+    type: 'mcq',
+    prompt: 'Which gas do plants take in?',
+    default_marks: 2,
+    metadata: { difficulty: 'easy', tags: ['plants'], subject_id: 7, explanation: 'Photosynthesis uses CO2' },
+    choices: [
+      { id: 2, question_id: 1, choice_text: 'Carbon dioxide', is_correct: true, position: 2 },
+      { id: 1, question_id: 1, choice_text: 'Oxygen', is_correct: false, position: 1 },
+    ],
+  },
+  { id: 2, bank_id: 4, author_id: 11, type: 'numeric', prompt: 'g in m/s² to one decimal place?', default_marks: 1, metadata: { correct_answer: 9.8, grading: { value: 9.8, tolerance: 0.1 } } },
+  { id: 3, bank_id: 4, author_id: 10, type: 'short', prompt: 'Name the closest star.', default_marks: 1, metadata: { correct_answer: ['Sun', 'The Sun'] } },
+  { id: 4, bank_id: 4, author_id: 12, type: 'essay', prompt: 'Explain <convection> & "heat".', default_marks: 5, metadata: {} },
+];
+
+const sourceTeachers = [
+  teacher(10, 1, 'Ada Lovelace', 'ada@north.example'),
+  teacher(11, 1, 'Alan Turing', 'alan@north.example'),
+  teacher(12, 1, 'Grace Hopper', 'grace@north.example'),
+];
+
+describe('bankBundle', () => {
+  const bundle = buildBankBundle(bank, questions, sourceTeachers, [subject(7, 1, 'Biology', 'BIO')], new Date('2026-01-05T00:00:00Z'));
+
+  describe('buildBankBundle', () => {
+    it('should carry the bank, its authors and subjects, and ordered choices', () => {
+      expect(bundle).toMatchObject({
+        format: 'question-bank-bundle',
+        version: BANK_BUNDLE_VERSION,
+        exported_at: '2026-01-05T00:00:00.000Z',
+        bank: { name: 'Science 9', school_id: 1, school_name: 'North High' },
+      });
+      expect(bundle.authors.map(author => author.email)).toEqual(['ada@north.example', 'alan@north.example', 'grace@north.example']);
+      expect(bundle.subjects).toEqual([{ id: 7, name: 'Biology', code: 'BIO' }]);
+      expect(bundle.questions[0].choices.map(choice => choice.choice_text)).toEqual(['Oxygen', 'Carbon dioxide']);
+    });
+  });
+
+  describe('parseBankBundle', () => {
+    it('should read back an exported bundle', () => {
+      const result = parseBankBundle(JSON.stringify(bundle));
+      expect(result.ok).toBe(true);
+      expect(result.ok && result.bundle.questions).toHaveLength(4);
+    });
+
+    it('should reject other files and newer versions', () => {
+      expect(parseBankBundle('not json')).toEqual({ ok: false, error: 'The file is not valid JSON' });
+      expect(parseBankBundle('{"questions": []}')).toEqual({ ok: false, error: 'The file is not a question bank bundle' });
+      expect(parseBankBundle(JSON.stringify({ ...bundle, version: BANK_BUNDLE_VERSION + 1 })).ok).toBe(false);
+    });
+  });
+
+  describe('remapBankBundle', () => {
+    const targetTeachers = [teacher(50, 2, 'A. Lovelace', 'ADA@north.example'), teacher(51, 2, 'Alan Turing', 'alan@south.example')];
+
+    it('should match authors by email then name, and fall back for the rest', () => {
+      const remap = remapBankBundle(bundle, targetTeachers, [], 99);
+      expect(remap.authors.map(match => match.target_id)).toEqual([50, 51, null]);
+      expect(remap.questions.map(question => question.author_id)).toEqual([50, 51, 50, 99]);
+    });
+
+    it('should swap subjects for the school\'s own by code, or drop them', () => {
+      const matched = remapBankBundle(bundle, targetTeachers, [subject(30, 2, 'Life Science', 'bio')], 99);
+      expect(matched.questions[0].metadata).toEqual({ difficulty: 'easy', tags: ['plants'], subject_id: 30, explanation: 'Photosynthesis uses CO2' });
+
+      const unmatched = remapBankBundle(bundle, targetTeachers, [subject(31, 2, 'Chemistry', 'CHEM')], 99);
+      expect(unmatched.subjects[0].target_id).toBeNull();
+      expect(unmatched.questions[0].metadata.subject_id).toBeUndefined();
+    });
+  });
+
+  describe('QTI export', () => {
+    it('should read back through the QTI import', () => {
+      const [mcq, numeric, short, essay] = parseQtiQuestions(questionsToQti(questions, bank.name));
+
+      expect(mcq).toMatchObject({ type: 'mcq', prompt: 'Which gas do plants take in?', default_marks: 2, errors: [] });
+      expect(mcq.choices.map(choice => [choice.choice_text, choice.is_correct])).toEqual([['Oxygen', false], ['Carbon dioxide', true]]);
+      expect(mcq.metadata.explanation).toBe('Photosynthesis uses CO2');
+      expect(numeric.metadata).toEqual({ correct_answer: 9.8, grading: { value: 9.8, tolerance: 0.1 } });
+      expect(numeric.prompt).toBe('g in m/s² to one decimal place?');
+      expect(short.metadata.correct_answer).toEqual(['Sun', 'The Sun']);
+      expect(essay).toMatchObject({ type: 'essay', prompt: 'Explain <convection> & "heat".', default_marks: 5 });
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { autoFillBlueprint, compareBlueprint, getQuestionDifficulty, getQuestionTopics } from '../utils/blueprint';
+import type { BackendQuestion, ExamBlueprint, ExamQuestion, ExamSubject } from '../services/api';
+
+const question = (id: number, type: BackendQuestion['type'], marks: number, metadata: Record<string, unknown> = {}): BackendQuestion => ({
+  id,
+  bank_id: 1,
+  author_id: 1,
+  type,
+  prompt: `Question ${id}`,
+  default_marks: marks,
+  metadata,
+});
+
+const onExam = (item: BackendQuestion, overrides: Partial<ExamQuestion> = {}): ExamQuestion => ({
+  id: item.id,
+  monthly_exam_id: 10,
+  question_id: item.id,
+  sequence: item.id,
+  question: item,
+  ...overrides,
+});
+
+const examSubjects: ExamSubject[] = [
+  { id: 1, monthly_exam_id: 10, subject_id: 100, max_marks: 10, pass_marks: 4 },
+];
+
+describe('blueprint', () => {
+  describe('metadata', () => {
+    it('should read difficulty and topic tags from question metadata', () => {
+      expect(getQuestionDifficulty(question(1, 'mcq', 1, { difficulty: ' Hard ' }))).toBe('hard');
+      expect(getQuestionTopics(question(1, 'mcq', 1, { tags: ['Fractions', 'decimals', 'fractions'] }))).toEqual(['fractions', 'decimals']);
+      expect(getQuestionTopics(question(1, 'mcq', 1, { tags: 'fractions, , decimals' }))).toEqual(['fractions', 'decimals']);
+    });
+  });
+
+  describe('compareBlueprint', () => {
+    const examQuestions = [
+      onExam(question(1, 'mcq', 2, { difficulty: 'easy', tags: ['fractions'] }), { subject_id: 100 }),
+      onExam(question(2, 'mcq', 2, { difficulty: 'hard' }), { subject_id: 100 }),
+      onExam(question(3, 'essay', 5, { difficulty: 'hard', tags: ['fractions'] }), { marks: 8 }),
+    ];
+
+    it('should count questions and marks against each target', () => {
+      const blueprint: ExamBlueprint = {
+        total_questions: 3,
+        total_marks: 10,
+        targets: [
+          { dimension: 'type', key: 'mcq', questions: 2 },
+          { dimension: 'difficulty', key: 'hard', questions: 1, marks: 10 },
+          { dimension: 'topic', key: 'fractions', marks: 12 },
+        ],
+      };
+      const coverage = compareBlueprint(blueprint, examQuestions, examSubjects);
+
+      expect(coverage).toMatchObject({ questions: 3, marks: 12, questions_status: 'met', marks_status: 'over' });
+      expect(coverage.targets.map(row => [row.questions, row.marks, row.status])).toEqual([
+        [2, 4, 'met'],
+        [2, 10, 'over'],
+        [2, 10, 'under'],
+      ]);
+      expect(coverage.met).toBe(false);
+    });
+
+    it('should check question marks against each exam subject\'s max marks', () => {
+      const coverage = compareBlueprint({ targets: [] }, examQuestions, examSubjects);
+      expect(coverage.subjects).toEqual([
+        { subject_id: 100, name: undefined, marks: 4, max_marks: 10, status: 'under' },
+      ]);
+    });
+  });
+
+  describe('autoFillBlueprint', () => {
+    const bank = [
+      question(10, 'mcq', 1, { difficulty: 'easy' }),
+      question(11, 'mcq', 1, { difficulty: 'hard' }),
+      question(12, 'essay', 5, { difficulty: 'hard' }),
+      question(13, 'mcq', 1, { difficulty: 'hard' }),
+      question(14, 'tf', 1, { difficulty: 'hard' }),
+      question(15, 'essay', 5, { difficulty: 'hard' }),
+    ];
+
+    it('should fill the gaps without going past a target', () => {
+      const blueprint: ExamBlueprint = {
+        targets: [
+          { dimension: 'type', key: 'mcq', questions: 2 },
+          { dimension: 'type', key: 'essay', questions: 1 },
+          { dimension: 'difficulty', key: 'hard', questions: 2 },
+        ],
+      };
+      const picked = autoFillBlueprint(blueprint, [onExam(bank[0])], bank);
+      expect(picked.map(item => item.id)).toEqual([11, 12]);
+    });
+
+    it('should stop at the total marks and the subject max marks', () => {
+      const withSubject = bank.map(item => ({ ...item, metadata: { ...item.metadata, subject_id: 100 } }));
+      expect(autoFillBlueprint({ total_marks: 3, targets: [] }, [], bank).map(item => item.id)).toEqual([10, 11, 13]);
+      // 9 of the subject's 10 marks: the last essay would take it to 14
+      expect(autoFillBlueprint({ total_marks: 20, targets: [] }, [], withSubject, examSubjects).map(item => item.id)).toEqual([10, 11, 12, 13, 14]);
+    });
+
+    it('should skip questions already on the exam', () => {
+      const picked = autoFillBlueprint({ total_questions: 2, targets: [] }, [onExam(bank[0])], bank);
+      expect(picked.map(item => item.id)).toEqual([11]);
+    });
+  });
+});
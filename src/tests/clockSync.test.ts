@@ -0,0 +1,46 @@
+import { createClockSample, estimateClockOffset, calculateDrift } from '../utils/clockSync';
+
+describe('clockSync', () => {
+  it('should compute offset from the round-trip midpoint', () => {
+    // Client clock is 10s behind the server, 200ms round trip
+    const sample = createClockSample(1000, 11100, 1200);
+
+    expect(sample.roundTrip).toBe(200);
+    expect(sample.offset).toBe(10000);
+  });
+
+  it('should reject latency spikes and disagreeing offsets', () => {
+    const estimate = estimateClockOffset([
+      { offset: 5000, roundTrip: 80 },
+      { offset: 5010, roundTrip: 90 },
+      { offset: 4995, roundTrip: 85 },
+      { offset: 5005, roundTrip: 100 },
+      { offset: 9000, roundTrip: 2000 }, // slow response
+      { offset: 7000, roundTrip: 95 }, // bad server stamp
+    ]);
+
+    expect(estimate).not.toBeNull();
+    expect(estimate!.samplesRejected).toBe(2);
+    expect(estimate!.offset).toBeGreaterThanOrEqual(4995);
+    expect(estimate!.offset).toBeLessThanOrEqual(5010);
+    expect(estimate!.confidence).toBe('high');
+  });
+
+  it('should report low confidence for slow, noisy samples', () => {
+    const estimate = estimateClockOffset([
+      { offset: 0, roundTrip: 3000 },
+      { offset: 400, roundTrip: 3100 },
+    ]);
+
+    expect(estimate!.confidence).toBe('low');
+  });
+
+  it('should return null without samples', () => {
+    expect(estimateClockOffset([])).toBeNull();
+  });
+
+  it('should compute drift per minute', () => {
+    expect(calculateDrift(100, 0, 160, 5 * 60000)).toBe(12);
+    expect(calculateDrift(100, 1000, 160, 1000)).toBeNull();
+  });
+});
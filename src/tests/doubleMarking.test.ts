@@ -0,0 +1,139 @@
+import {
+  assignMarkers,
+  getMarkerRole,
+  getModerationLimit,
+  resolveDoubleMarks,
+  mergeMarkerFeedback,
+  validateDoubleMarking,
+} from '../utils/doubleMarking';
+import type { AnswerMark } from '../services/api';
+
+const mark = (overrides: Partial<AnswerMark> = {}): AnswerMark => ({
+  id: 1,
+  attempt_answer_id: 11,
+  monthly_exam_id: 10,
+  marker_id: 1,
+  role: 'first',
+  marks: 6,
+  ...overrides,
+});
+
+const exam = {
+  grading_mode: 'double_blind' as const,
+  marker_ids: [3, 1, 2],
+  moderator_id: 9,
+  moderation_threshold: 20,
+};
+
+describe('doubleMarking', () => {
+  describe('assignMarkers', () => {
+    it('should rotate pairs through the marker pool', () => {
+      expect(assignMarkers(0, [3, 1, 2])).toEqual([1, 2]);
+      expect(assignMarkers(1, [3, 1, 2])).toEqual([2, 3]);
+      expect(assignMarkers(2, [3, 1, 2])).toEqual([3, 1]);
+      expect(assignMarkers(3, [3, 1, 2])).toEqual([1, 2]);
+    });
+
+    it('should need two distinct markers', () => {
+      expect(assignMarkers(5, [4])).toBeNull();
+      expect(assignMarkers(5, [4, 4])).toBeNull();
+    });
+  });
+
+  describe('getMarkerRole', () => {
+    it('should report the slot a teacher holds', () => {
+      expect(getMarkerRole(1, exam, 2)).toBe('first');
+      expect(getMarkerRole(1, exam, 3)).toBe('second');
+      expect(getMarkerRole(1, exam, 1)).toBeNull();
+      expect(getMarkerRole(1, exam, null)).toBeNull();
+    });
+  });
+
+  describe('resolveDoubleMarks', () => {
+    it('should wait until both markers have marked', () => {
+      expect(resolveDoubleMarks([mark()], 10)).toEqual({ stage: 'marking' });
+    });
+
+    it('should average marks within the threshold', () => {
+      const outcome = resolveDoubleMarks(
+        [mark({ marks: 6 }), mark({ id: 2, marker_id: 2, role: 'second', marks: 7 })],
+        10,
+        10
+      );
+
+      expect(outcome).toEqual({ stage: 'agreed', final_marks: 6.5, difference: 1 });
+    });
+
+    it('should send larger differences to moderation', () => {
+      const outcome = resolveDoubleMarks(
+        [mark({ marks: 2 }), mark({ id: 2, marker_id: 2, role: 'second', marks: 8 })],
+        10,
+        10
+      );
+
+      expect(outcome).toEqual({ stage: 'moderation', difference: 6 });
+    });
+
+    it('should use the moderator mark as final', () => {
+      const outcome = resolveDoubleMarks(
+        [
+          mark({ marks: 2 }),
+          mark({ id: 2, marker_id: 2, role: 'second', marks: 8 }),
+          mark({ id: 3, marker_id: 9, role: 'moderator', marks: 5 }),
+        ],
+        10
+      );
+
+      expect(outcome.stage).toBe('moderated');
+      expect(outcome.final_marks).toBe(5);
+    });
+
+    it('should use the latest mark when a marker re-submitted', () => {
+      const outcome = resolveDoubleMarks(
+        [
+          mark({ id: 1, marks: 1, created_at: '2025-11-02T09:00:00Z' }),
+          mark({ id: 4, marks: 7, created_at: '2025-11-02T10:00:00Z' }),
+          mark({ id: 2, marker_id: 2, role: 'second', marks: 7 }),
+        ],
+        10
+      );
+
+      expect(outcome).toEqual({ stage: 'agreed', final_marks: 7, difference: 0 });
+    });
+  });
+
+  describe('getModerationLimit', () => {
+    it('should be a percentage of the question marks', () => {
+      expect(getModerationLimit(20, 15)).toBe(3);
+      expect(getModerationLimit(10)).toBe(1);
+    });
+  });
+
+  describe('mergeMarkerFeedback', () => {
+    it('should keep both comments without repeats', () => {
+      expect(mergeMarkerFeedback([
+        mark({ feedback: 'Good structure' }),
+        mark({ id: 2, role: 'second', feedback: 'Cite sources' }),
+      ])).toBe('Good structure\n\nCite sources');
+      expect(mergeMarkerFeedback([
+        mark({ feedback: 'Well argued' }),
+        mark({ id: 2, role: 'second', feedback: ' Well argued ' }),
+      ])).toBe('Well argued');
+      expect(mergeMarkerFeedback([mark()])).toBeUndefined();
+    });
+  });
+
+  describe('validateDoubleMarking', () => {
+    it('should accept single marking without further settings', () => {
+      expect(validateDoubleMarking({ grading_mode: 'single' })).toBeNull();
+    });
+
+    it('should require two markers and an independent moderator', () => {
+      expect(validateDoubleMarking(exam)).toBeNull();
+      expect(validateDoubleMarking({ ...exam, marker_ids: [1] })).toBe('Choose at least two markers');
+      expect(validateDoubleMarking({ ...exam, moderator_id: null })).toBe('Choose a moderator');
+      expect(validateDoubleMarking({ ...exam, moderator_id: 2 })).toBe('The moderator cannot also be a marker');
+      expect(validateDoubleMarking({ ...exam, moderation_threshold: 150 })).toMatch(/between 0 and 100/);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment jsdom
+ */
+import { render, screen, fireEvent } from '@testing-library/react';
+import MCQQuestionCard from '../components/QuestionCard/MCQQuestionCard';
+import apiService from '../services/api';
+import type { AttemptAnswer, BackendQuestion, ExamQuestion } from '../services/api';
+import { recordAnswer, replayJournal } from '../services/answerJournal';
+import { allowsMultipleChoices, hasAnswer, toAnswerFields } from '../utils/examAnswers';
+import { toReviewQuestion } from '../utils/results';
+import { scoreAttempt } from '../utils/scoring';
+
+// In-memory localforage
+jest.mock('localforage', () => {
+  const store = new Map<string, unknown>();
+  return {
+    getItem: jest.fn(async (key: string) => (store.has(key) ? JSON.parse(JSON.stringify(store.get(key))) : null)),
+    setItem: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, JSON.parse(JSON.stringify(value)));
+      return value;
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    keys: jest.fn(async () => Array.from(store.keys())),
+  };
+});
+
+const question: BackendQuestion = {
+  id: 5,
+  bank_id: 1,
+  author_id: 1,
+  type: 'mcq',
+  prompt: 'Which are noble gases?',
+  default_marks: 4,
+  choices: [
+    { id: 1, question_id: 5, choice_text: 'Neon', is_correct: true },
+    { id: 2, question_id: 5, choice_text: 'Oxygen', is_correct: false },
+    { id: 3, question_id: 5, choice_text: 'Argon', is_correct: true },
+  ],
+};
+
+const examQuestions: ExamQuestion[] = [{ id: 1, monthly_exam_id: 10, question_id: 5, sequence: 1, question }];
+
+describe('examAnswers', () => {
+  it('should only count picks and given values as answers', () => {
+    expect(hasAnswer([])).toBe(false);
+    expect(hasAnswer(['1'])).toBe(true);
+    expect(hasAnswer(false)).toBe(true);
+    expect(hasAnswer('')).toBe(false);
+  });
+
+  it('should keep the multiple-answer layout when the answer key is hidden', () => {
+    const review = toReviewQuestion(question, 4, false);
+    expect(review.choices?.some(choice => 'is_correct' in choice)).toBe(false);
+    expect(allowsMultipleChoices(review)).toBe(true);
+  });
+
+  it('should carry every pick from the card through the journal to the score', async () => {
+    const onChoiceSelect = jest.fn();
+    render(<MCQQuestionCard question={toReviewQuestion(question, 4)} onChoiceSelect={onChoiceSelect} />);
+
+    expect(screen.getAllByRole('checkbox')).toHaveLength(3);
+    fireEvent.click(screen.getByLabelText('Neon'));
+    fireEvent.click(screen.getByLabelText('Oxygen'));
+    fireEvent.click(screen.getByLabelText('Argon'));
+    fireEvent.click(screen.getByLabelText('Oxygen'));
+    expect(onChoiceSelect).toHaveBeenLastCalledWith(['1', '3']);
+
+    const fields = toAnswerFields(5, 'mcq', onChoiceSelect.mock.calls.at(-1)[0]);
+    expect(fields).toEqual({ question_id: 5, choice_ids: [1, 3] });
+
+    const saveAnswer = jest.spyOn(apiService, 'saveAnswer').mockImplementation(
+      async (_attemptId, answer) => ({ id: 1, ...answer, saved_at: '2025-11-01T10:00:00Z' }) as AttemptAnswer
+    );
+    await recordAnswer('attempt-7', fields);
+    const saved: AttemptAnswer[] = [];
+    await replayJournal('attempt-7', {
+      save: async (entry, idempotencyKey) => {
+        const answer = await apiService.saveJournalEntry(7, entry, idempotencyKey);
+        saved.push(answer);
+        return answer;
+      },
+    });
+
+    expect(saveAnswer).toHaveBeenCalledWith(7, expect.objectContaining({ choice_ids: [1, 3] }), { idempotencyKey: 'attempt-7:5:1' });
+    expect(scoreAttempt(saved, examQuestions).lines[0]).toMatchObject({ status: 'correct', awarded: 4 });
+  });
+
+  it('should give partial credit for a pick that is half right', () => {
+    const answer = { id: 1, attempt_id: 7, ...toAnswerFields(5, 'mcq', ['1']) } as AttemptAnswer;
+    expect(scoreAttempt([answer], examQuestions).lines[0]).toMatchObject({ status: 'partial', awarded: 2 });
+  });
+});
@@ -0,0 +1,38 @@
+import { parseExamEndTime, resolveAttemptDeadline, getRemainingSeconds } from '../utils/examDeadline';
+
+describe('examDeadline', () => {
+  it('should combine a time-of-day end_time with exam_date', () => {
+    const endTime = parseExamEndTime({ exam_date: '2025-11-01', end_time: '11:30' });
+
+    expect(endTime).toEqual(new Date('2025-11-01T11:30'));
+  });
+
+  it('should end at the duration limit when it comes first', () => {
+    const deadline = resolveAttemptDeadline(
+      { started_at: '2025-11-01T10:00:00Z' },
+      { exam_date: '2025-11-01', end_time: '2025-11-01T12:00:00Z', duration_minutes: 45 }
+    );
+
+    expect(deadline).toEqual(new Date('2025-11-01T10:45:00Z'));
+  });
+
+  it('should end at end_time for late starters', () => {
+    const deadline = resolveAttemptDeadline(
+      { started_at: '2025-11-01T11:40:00Z' },
+      { exam_date: '2025-11-01', end_time: '2025-11-01T12:00:00Z', duration_minutes: 45 }
+    );
+
+    expect(deadline).toEqual(new Date('2025-11-01T12:00:00Z'));
+  });
+
+  it('should return null without any limit', () => {
+    expect(resolveAttemptDeadline({ started_at: '2025-11-01T10:00:00Z' }, { exam_date: '2025-11-01' })).toBeNull();
+  });
+
+  it('should never report negative remaining time', () => {
+    const deadline = new Date('2025-11-01T10:00:00Z');
+
+    expect(getRemainingSeconds(deadline, deadline.getTime() - 1500)).toBe(2);
+    expect(getRemainingSeconds(deadline, deadline.getTime() + 5000)).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  buildGradingQueue,
+  buildModerationQueue,
+  requiresManualGrading,
+  isAttemptFullyGraded,
+  getMaxMarks,
+  validateMarks,
+} from '../utils/gradingQueue';
+import type { StudentAttempt, AttemptAnswer, AnswerMark, BackendQuestion, ExamQuestion, MonthlyExam } from '../services/api';
+
+const question = (id: number, type: BackendQuestion['type'], default_marks = 5): BackendQuestion => ({
+  id,
+  bank_id: 1,
+  author_id: 1,
+  type,
+  prompt: `Question ${id}`,
+  default_marks,
+});
+
+const attempt = (overrides: Partial<StudentAttempt> = {}): StudentAttempt => ({
+  id: 1,
+  monthly_exam_id: 10,
+  student_id: 100,
+  status: 'submitted',
+  finished_at: '2025-11-01T10:30:00Z',
+  attempt_token: 'token',
+  student: { id: 100, school_id: 1, admission_no: 'A1', first_name: 'Sara', last_name: 'Khan' },
+  ...overrides,
+});
+
+const answer = (overrides: Partial<AttemptAnswer> = {}): AttemptAnswer => ({
+  id: 1,
+  attempt_id: 1,
+  question_id: 1,
+  ...overrides,
+});
+
+const examQuestions: ExamQuestion[] = [
+  { id: 1, monthly_exam_id: 10, question_id: 1, marks: 10, sequence: 2, question: question(1, 'essay') },
+  { id: 2, monthly_exam_id: 10, question_id: 2, sequence: 1, question: question(2, 'mcq', 2) },
+  { id: 3, monthly_exam_id: 10, question_id: 3, sequence: 3, question: question(3, 'file', 4) },
+];
+
+describe('gradingQueue', () => {
+  describe('requiresManualGrading', () => {
+    it('should include open-ended types and anything the auto-grader skipped', () => {
+      expect(requiresManualGrading(answer(), question(1, 'essay'))).toBe(true);
+      expect(requiresManualGrading(answer(), question(1, 'short'))).toBe(true);
+      expect(requiresManualGrading(answer({ auto_graded: true }), question(1, 'mcq'))).toBe(false);
+      expect(requiresManualGrading(answer({ auto_graded: false }), question(1, 'numeric'))).toBe(true);
+    });
+  });
+
+  describe('getMaxMarks', () => {
+    it('should prefer the exam override over the question default', () => {
+      expect(getMaxMarks(1, examQuestions)).toBe(10);
+      expect(getMaxMarks(2, examQuestions)).toBe(2);
+    });
+  });
+
+  describe('buildGradingQueue', () => {
+    it('should group pending answers by exam and question in exam order', () => {
+      const exams = buildGradingQueue({
+        attempts: [attempt(), attempt({ id: 2, student_id: 101, student: undefined })],
+        answers: {
+          1: [
+            answer({ id: 11, question_id: 1 }),
+            answer({ id: 12, question_id: 2, auto_graded: true, marks_awarded: 2 }),
+            answer({ id: 13, question_id: 3 }),
+          ],
+          2: [
+            answer({ id: 21, attempt_id: 2, question_id: 1 }),
+            answer({ id: 23, attempt_id: 2, question_id: 3, marks_awarded: 3, graded_at: '2025-11-02T09:00:00Z' }),
+          ],
+        },
+        examQuestions: { 10: examQuestions },
+      });
+
+      expect(exams).toHaveLength(1);
+      expect(exams[0].pending_count).toBe(3);
+      expect(exams[0].graded_count).toBe(1);
+      expect(exams[0].questions.map(group => group.question_id)).toEqual([1, 3]);
+      expect(exams[0].questions[0].tasks.map(task => task.student_name)).toEqual(['Sara Khan', 'Student #101']);
+      expect(exams[0].questions[0].max_marks).toBe(10);
+    });
+
+    it('should skip attempts that are not awaiting marks', () => {
+      const exams = buildGradingQueue({
+        attempts: [attempt({ status: 'graded' })],
+        answers: { 1: [answer()] },
+        examQuestions: { 10: examQuestions },
+      });
+
+      expect(exams).toEqual([]);
+    });
+  });
+
+  describe('double marking', () => {
+    const doubleMarkedExam = {
+      id: 10,
+      grading_mode: 'double_blind',
+      marker_ids: [1, 2],
+      moderator_id: 9,
+      moderation_threshold: 10,
+    } as MonthlyExam;
+
+    const mark = (overrides: Partial<AnswerMark>): AnswerMark => ({
+      id: 1,
+      attempt_answer_id: 11,
+      monthly_exam_id: 10,
+      marker_id: 2,
+      role: 'first',
+      marks: 5,
+      ...overrides,
+    });
+
+    // Answer 11 goes to teachers 2 then 1, answer 12 to teachers 1 then 2
+    const data = (marks: Record<number, AnswerMark[]> = {}) => ({
+      attempts: [attempt()],
+      answers: { 1: [answer({ id: 11, question_id: 1 }), answer({ id: 12, question_id: 3 })] },
+      examQuestions: { 10: examQuestions },
+      exams: { 10: doubleMarkedExam },
+      marks,
+    });
+
+    it('should only give a marker their assigned, unmarked answers', () => {
+      const exams = buildGradingQueue(data({ 11: [mark({})] }), 2);
+
+      expect(exams[0].double_marked).toBe(true);
+      expect(exams[0].pending_count).toBe(1);
+      expect(exams[0].questions[0].tasks[0].answer.id).toBe(12);
+      expect(exams[0].questions[0].tasks[0].marker_role).toBe('second');
+    });
+
+    it('should hide double-marked answers from teachers outside the pool', () => {
+      expect(buildGradingQueue(data(), 9)).toEqual([]);
+    });
+
+    it('should send disagreeing marks to the moderator only', () => {
+      const marks = {
+        11: [mark({ marks: 2 }), mark({ id: 2, marker_id: 1, role: 'second', marks: 9 })],
+        12: [mark({ id: 3, attempt_answer_id: 12, marker_id: 1, marks: 3 }), mark({ id: 4, attempt_answer_id: 12, role: 'second', marks: 3 })],
+      };
+
+      const tasks = buildModerationQueue(data(marks), 9);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0].answer.id).toBe(11);
+      expect(tasks[0].difference).toBe(7);
+      expect(tasks[0].max_marks).toBe(10);
+
+      expect(buildModerationQueue(data(marks), 1)).toEqual([]);
+    });
+  });
+
+  describe('isAttemptFullyGraded', () => {
+    it('should wait for every manual answer', () => {
+      const answers = [
+        answer({ id: 11, question_id: 1, marks_awarded: 7, graded_at: '2025-11-02T09:00:00Z' }),
+        answer({ id: 12, question_id: 2, auto_graded: true, marks_awarded: 2 }),
+        answer({ id: 13, question_id: 3 }),
+      ];
+
+      expect(isAttemptFullyGraded(answers, examQuestions)).toBe(false);
+
+      answers[2] = { ...answers[2], marks_awarded: 0, graded_at: '2025-11-02T09:05:00Z' };
+      expect(isAttemptFullyGraded(answers, examQuestions)).toBe(true);
+    });
+  });
+
+  describe('validateMarks', () => {
+    it('should keep marks between zero and the maximum', () => {
+      expect(validateMarks(4, 5)).toBeNull();
+      expect(validateMarks(-1, 5)).toContain('negative');
+      expect(validateMarks(6, 5)).toContain('exceed 5');
+      expect(validateMarks(NaN, 5)).toBe('Enter a number');
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { fitWithin, rotatedSize, nextRotation } from '../utils/imageCompression';
+
+describe('imageCompression', () => {
+  describe('fitWithin', () => {
+    it('should scale the longest side down to the limit', () => {
+      expect(fitWithin(4000, 3000, 2000)).toEqual({ width: 2000, height: 1500 });
+      expect(fitWithin(3000, 4000, 2000)).toEqual({ width: 1500, height: 2000 });
+    });
+
+    it('should never scale small images up', () => {
+      expect(fitWithin(800, 600, 2000)).toEqual({ width: 800, height: 600 });
+    });
+  });
+
+  describe('rotation', () => {
+    it('should swap dimensions for quarter turns only', () => {
+      expect(rotatedSize(200, 100, 90)).toEqual({ width: 100, height: 200 });
+      expect(rotatedSize(200, 100, 180)).toEqual({ width: 200, height: 100 });
+      expect(rotatedSize(200, 100, 270)).toEqual({ width: 100, height: 200 });
+    });
+
+    it('should cycle clockwise back to upright', () => {
+      expect(nextRotation(0)).toBe(90);
+      expect(nextRotation(270)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { fetchMissedEvents, fetchMissedMessages } from '../services/monitorReplay';
+import apiService from '../services/api';
+import type { StudentAttempt, ProctoringEvent, ExamMessage } from '../services/api';
+
+// Mock the apiService
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: {
+    getStudentAttempts: jest.fn(),
+    getProctoringEvents: jest.fn(),
+    getExamMessages: jest.fn(),
+  },
+}));
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const attempt = (overrides: Partial<StudentAttempt> = {}): StudentAttempt => ({
+  id: 1,
+  monthly_exam_id: 10,
+  student_id: 100,
+  status: 'in_progress',
+  started_at: '2025-11-01T10:00:00Z',
+  attempt_token: 'token',
+  ...overrides,
+});
+
+const proctoringEvent = (overrides: Partial<ProctoringEvent> = {}): ProctoringEvent => ({
+  id: 1,
+  attempt_id: 1,
+  event_type: 'tab_switch',
+  event_time: '2025-11-01T10:20:00Z',
+  ...overrides,
+});
+
+const message = (overrides: Partial<ExamMessage> = {}): ExamMessage => ({
+  message_id: 'msg_1',
+  scope: 'exam',
+  monthly_exam_id: 10,
+  body: 'Question 7 has a typo',
+  priority: 'info',
+  sent_at: '2025-11-01T10:20:00Z',
+  ...overrides,
+});
+
+describe('fetchMissedEvents', () => {
+  const since = '2025-11-01T10:10:00Z';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.getProctoringEvents.mockResolvedValue([]);
+  });
+
+  it('should rebuild starts and submissions that happened during the gap', async () => {
+    mockedApi.getStudentAttempts.mockResolvedValue([
+      attempt({ id: 1, started_at: '2025-11-01T10:00:00Z' }),
+      attempt({ id: 2, started_at: '2025-11-01T10:15:00Z' }),
+      attempt({ id: 3, status: 'submitted', finished_at: '2025-11-01T10:12:00Z' }),
+    ]);
+
+    const events = await fetchMissedEvents([10], since);
+
+    expect(events).toMatchObject([
+      { event: 'attempt_submitted', data: { attempt_id: 3 } },
+      { event: 'attempt_started', data: { attempt_id: 2 } },
+    ]);
+  });
+
+  it('should ask the server for each monitored exam\'s proctoring events', async () => {
+    mockedApi.getStudentAttempts.mockResolvedValue([attempt({ id: 1 })]);
+    mockedApi.getProctoringEvents.mockImplementation(async params => (params?.monthly_exam_id === 10
+      ? [proctoringEvent({ id: 7, attempt_id: 1 }), proctoringEvent({ id: 8, attempt_id: 1, event_time: '2025-11-01T10:05:00Z' })]
+      : []));
+
+    const events = await fetchMissedEvents([10, 11], since);
+
+    expect(mockedApi.getProctoringEvents).toHaveBeenCalledWith({ monthly_exam_id: 10, start_date: since });
+    expect(mockedApi.getProctoringEvents).toHaveBeenCalledWith({ monthly_exam_id: 11, start_date: since });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ event: 'proctor_event', data: { id: 7, attempt_id: 1, event_type: 'tab_switch' } });
+  });
+
+  it('should include events exactly at the last seen timestamp', async () => {
+    mockedApi.getStudentAttempts.mockResolvedValue([attempt({ started_at: since })]);
+
+    const events = await fetchMissedEvents([10], since);
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('should not call the API without exams or a valid timestamp', async () => {
+    expect(await fetchMissedEvents([], since)).toEqual([]);
+    expect(await fetchMissedEvents([10], 'not a date')).toEqual([]);
+    expect(mockedApi.getStudentAttempts).not.toHaveBeenCalled();
+  });
+});
+
+describe('fetchMissedMessages', () => {
+  const since = '2025-11-01T10:10:00Z';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should rebuild announcements and private messages sent during the gap', async () => {
+    mockedApi.getExamMessages.mockImplementation(async params => (params.attempt_id
+      ? [message({ message_id: 'msg_private', scope: 'attempt', attempt_id: 1, sent_at: '2025-11-01T10:15:00Z' })]
+      : [message({ message_id: 'msg_announcement' })]));
+
+    const events = await fetchMissedMessages({ examIds: [10], attemptIds: [1] }, since);
+
+    expect(mockedApi.getExamMessages).toHaveBeenCalledWith({ monthly_exam_id: 10, since });
+    expect(mockedApi.getExamMessages).toHaveBeenCalledWith({ attempt_id: 1, since });
+    expect(events).toMatchObject([
+      { event: 'teacher_message', data: { message_id: 'msg_private' }, timestamp: '2025-11-01T10:15:00Z' },
+      { event: 'teacher_message', data: { message_id: 'msg_announcement' } },
+    ]);
+  });
+
+  it('should drop private messages to other attempts and messages from before the gap', async () => {
+    mockedApi.getExamMessages.mockImplementation(async params => (params.attempt_id
+      ? [message({ message_id: 'msg_other', scope: 'attempt', attempt_id: 2 })]
+      : [
+          message({ message_id: 'msg_old', sent_at: '2025-11-01T10:05:00Z' }),
+          message({ message_id: 'msg_leaked', scope: 'attempt', attempt_id: 2 }),
+        ]));
+
+    const events = await fetchMissedMessages({ examIds: [10], attemptIds: [1] }, since);
+
+    expect(events).toEqual([]);
+  });
+
+  it('should not call the API without message channels', async () => {
+    expect(await fetchMissedMessages({ examIds: [], attemptIds: [] }, since)).toEqual([]);
+    expect(mockedApi.getExamMessages).not.toHaveBeenCalled();
+  });
+});
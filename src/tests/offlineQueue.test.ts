@@ -0,0 +1,104 @@
+import {
+  queueRequest,
+  getQueue,
+  getDeadLetters,
+  processQueue,
+  retryDeadLetter,
+  isRetryableError,
+  getBackoffDelay,
+} from '../services/offlineQueue';
+
+// In-memory localforage
+jest.mock('localforage', () => {
+  const store = new Map<string, unknown>();
+  return {
+    getItem: jest.fn(async (key: string) => (store.has(key) ? JSON.parse(JSON.stringify(store.get(key))) : null)),
+    setItem: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, JSON.parse(JSON.stringify(value)));
+      return value;
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+
+describe('offlineQueue', () => {
+  beforeEach(async () => {
+    const localforage = jest.requireMock('localforage');
+    await localforage.removeItem('offline_request_queue');
+    await localforage.removeItem('offline_request_dead_letter');
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry network errors and server errors', () => {
+      expect(isRetryableError(new Error('Network Error'))).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+      expect(isRetryableError(httpError(429))).toBe(true);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryableError(httpError(422))).toBe(false);
+      expect(isRetryableError(httpError(404))).toBe(false);
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially within the jitter range', () => {
+      expect(getBackoffDelay(1, () => 0)).toBe(1000);
+      expect(getBackoffDelay(1, () => 1)).toBe(2000);
+      expect(getBackoffDelay(3, () => 0)).toBe(4000);
+    });
+
+    it('should be capped', () => {
+      expect(getBackoffDelay(30, () => 1)).toBe(5 * 60 * 1000);
+    });
+  });
+
+  describe('processQueue', () => {
+    it('should dead-letter non-retryable failures instead of dropping them', async () => {
+      await queueRequest({ method: 'POST', url: '/student-attempts/1/submit' });
+
+      const result = await processQueue(jest.fn().mockRejectedValue(httpError(422)));
+
+      expect(result.deadLettered).toBe(1);
+      expect(await getQueue()).toHaveLength(0);
+      const deadLetters = await getDeadLetters();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0].reason).toBe('non_retryable');
+      expect(deadLetters[0].lastStatus).toBe(422);
+    });
+
+    it('should keep retryable failures queued with a backoff', async () => {
+      await queueRequest({ method: 'POST', url: '/student-attempts/1/submit' });
+      const execute = jest.fn().mockRejectedValue(new Error('Network Error'));
+
+      const first = await processQueue(execute);
+      const second = await processQueue(execute);
+
+      expect(first.failed).toBe(1);
+      expect(second.deferred).toBe(1);
+      expect(execute).toHaveBeenCalledTimes(1);
+
+      const [request] = await getQueue();
+      expect(request.retries).toBe(1);
+      expect(request.nextAttemptAt).toBeGreaterThan(Date.now());
+    });
+
+    it('should send a dead letter again once retried', async () => {
+      await queueRequest({ method: 'POST', url: '/student-attempts/1/submit', submitsAttempt: '1' });
+      await processQueue(jest.fn().mockRejectedValue(httpError(409)));
+      const [deadLetter] = await getDeadLetters();
+
+      await retryDeadLetter(deadLetter.id);
+      const execute = jest.fn().mockResolvedValue({});
+      const result = await processQueue(execute);
+
+      expect(result.successful).toBe(1);
+      expect(execute).toHaveBeenCalledWith(expect.objectContaining({ submitsAttempt: '1' }));
+      expect(await getDeadLetters()).toHaveLength(0);
+    });
+  });
+});
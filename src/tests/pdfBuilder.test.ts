@@ -0,0 +1,61 @@
+import { buildPdfBytes, getPageLayout } from '../utils/pdfBuilder';
+
+const toText = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+// Enough of a JPEG for the builder, which embeds the bytes untouched
+const fakeJpeg = (size: number) => new Uint8Array(size).fill(0xab);
+
+describe('pdfBuilder', () => {
+  describe('getPageLayout', () => {
+    it('should fit a portrait image inside an A4 page with margins', () => {
+      const layout = getPageLayout(1000, 2000);
+
+      expect(layout.pageWidth).toBeCloseTo(595.28);
+      expect(layout.pageHeight).toBeCloseTo(841.89);
+      expect(layout.drawHeight).toBeCloseTo(841.89 - 36);
+      expect(layout.drawWidth / layout.drawHeight).toBeCloseTo(0.5);
+      // The layout rounds to 2 decimals, so the centre can be off by half a hundredth
+      expect(layout.x).toBeCloseTo((layout.pageWidth - layout.drawWidth) / 2, 1);
+    });
+
+    it('should turn the page to landscape for landscape images', () => {
+      const layout = getPageLayout(2000, 1000);
+
+      expect(layout.pageWidth).toBeGreaterThan(layout.pageHeight);
+      expect(layout.drawWidth).toBeCloseTo(841.89 - 36);
+    });
+  });
+
+  describe('buildPdfBytes', () => {
+    it('should write one page per image', () => {
+      const text = toText(buildPdfBytes([
+        { jpeg: fakeJpeg(10), width: 100, height: 200 },
+        { jpeg: fakeJpeg(20), width: 300, height: 100 },
+      ]));
+
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      expect(text).toContain('/Count 2');
+      expect(text).toContain('/Width 100 /Height 200');
+      expect(text).toContain('/Filter /DCTDecode /Length 20');
+      expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    });
+
+    it('should point the cross-reference table at each object', () => {
+      const bytes = buildPdfBytes([{ jpeg: fakeJpeg(50), width: 10, height: 10 }]);
+      const text = toText(bytes);
+
+      const xrefOffset = Number(text.match(/startxref\n(\d+)/)![1]);
+      expect(text.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+      const entries = text.slice(xrefOffset).split('\n').slice(3, 8);
+      entries.forEach((entry, index) => {
+        const offset = Number(entry.slice(0, 10));
+        expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it('should refuse an empty document', () => {
+      expect(() => buildPdfBytes([])).toThrow('at least one page');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { drawAttemptQuestions, getActivePoolRules, getPoolCoverage } from '../utils/pools';
+import type { BackendQuestion, ExamQuestion, PoolRule } from '../services/api';
+
+const question = (id: number): BackendQuestion => ({
+  id,
+  bank_id: 1,
+  author_id: 1,
+  type: 'essay',
+  prompt: `Question ${id}`,
+  default_marks: 2,
+});
+
+const examQuestion = (id: number, pool_tag?: string, marks?: number): ExamQuestion => ({
+  id,
+  monthly_exam_id: 10,
+  question_id: id,
+  sequence: id,
+  pool_tag,
+  marks,
+  question: question(id),
+});
+
+// Question 1 is always asked; 2-5 are algebra with different marks; 6-7 are geometry
+const examQuestions = [
+  examQuestion(1),
+  examQuestion(2, 'algebra', 1),
+  examQuestion(3, 'algebra', 2),
+  examQuestion(4, 'algebra', 3),
+  examQuestion(5, 'algebra', 6),
+  examQuestion(6, 'geometry'),
+  examQuestion(7, 'geometry'),
+];
+
+const rules: PoolRule[] = [{ pool_tag: 'algebra', draw_count: 2 }];
+const exam = { random_pool: true, pool_rules: rules };
+const ids = (items: ExamQuestion[]) => items.map(item => item.question_id);
+
+describe('pools', () => {
+  describe('getActivePoolRules', () => {
+    it('should only use rules when random_pool is on', () => {
+      expect(getActivePoolRules({ random_pool: false, pool_rules: rules })).toEqual([]);
+      expect(getActivePoolRules(exam)).toEqual(rules);
+    });
+  });
+
+  describe('drawAttemptQuestions', () => {
+    it('should keep untagged questions and pools without a rule', () => {
+      const drawn = ids(drawAttemptQuestions({ attempt_token: 'token-a' }, exam, examQuestions));
+      expect(drawn).toHaveLength(5);
+      expect(drawn.includes(1) && drawn.includes(6) && drawn.includes(7)).toBe(true);
+      expect(drawn.filter(id => id >= 2 && id <= 5)).toHaveLength(2);
+    });
+
+    it('should draw the same questions for the same attempt', () => {
+      const first = ids(drawAttemptQuestions({ attempt_token: 'token-a' }, exam, examQuestions));
+      expect(ids(drawAttemptQuestions({ attempt_token: 'token-a' }, exam, [...examQuestions].reverse()))).toEqual(first);
+    });
+
+    it('should vary the draw between attempts', () => {
+      const draws = new Set(['a', 'b', 'c', 'd', 'e', 'f'].map(token =>
+        ids(drawAttemptQuestions({ attempt_token: token }, exam, examQuestions)).join(',')
+      ));
+      expect(draws.size > 1).toBe(true);
+    });
+
+    it('should use every question when the exam doesn\'t draw from pools', () => {
+      expect(ids(drawAttemptQuestions({ attempt_token: 'token-a' }, { pool_rules: rules }, examQuestions))).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    });
+
+    it('should give every drawn question the pool average when balancing marks', () => {
+      const balanced = { random_pool: true, pool_rules: [{ pool_tag: 'algebra', draw_count: 2, balance_marks: true }] };
+      const drawn = drawAttemptQuestions({ attempt_token: 'token-a' }, balanced, examQuestions)
+        .filter(item => item.pool_tag === 'algebra');
+      expect(drawn.map(item => item.marks)).toEqual([3, 3]);
+    });
+  });
+
+  describe('getPoolCoverage', () => {
+    it('should report each pool against its rule and flag short pools', () => {
+      const coverage = getPoolCoverage(examQuestions, [
+        { pool_tag: 'algebra', draw_count: 2, balance_marks: true },
+        { pool_tag: 'geometry', draw_count: 3 },
+        { pool_tag: 'calculus', draw_count: 1 },
+      ]);
+
+      expect(coverage.map(pool => [pool.pool_tag, pool.available, pool.drawn, pool.short])).toEqual([
+        ['algebra', 4, 2, false],
+        ['calculus', 0, 0, true],
+        ['geometry', 2, 2, true],
+      ]);
+      expect(coverage[0]).toMatchObject({ min_marks: 1, max_marks: 6, balanced_marks: 3 });
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  applyProctoringEvent,
+  buildProctoringSummaries,
+  computeRiskScore,
+  getHiddenMs,
+  getRiskLevel,
+  DEFAULT_RISK_SETTINGS,
+} from '../utils/proctoringRisk';
+import type { ProctoringSummary } from '../utils/proctoringRisk';
+import type { ProctorEventPayload } from '../services/websocket';
+
+const event = (event_type: string, event_time: string, details?: Record<string, unknown>): ProctorEventPayload => ({
+  attempt_id: 1,
+  event_type,
+  event_time,
+  details,
+});
+
+const apply = (events: ProctorEventPayload[]): ProctoringSummary =>
+  events.reduce<ProctoringSummary | undefined>((summary, e) => applyProctoringEvent(summary, e), undefined)!;
+
+describe('proctoringRisk', () => {
+  const { weights } = DEFAULT_RISK_SETTINGS;
+
+  describe('applyProctoringEvent', () => {
+    it('should count tab switches and time hidden', () => {
+      const summary = apply([
+        event('tab_hidden', '2025-11-01T10:00:00Z'),
+        event('tab_visible', '2025-11-01T10:00:30Z'),
+        event('tab_hidden', '2025-11-01T10:05:00Z'),
+        event('tab_visible', '2025-11-01T10:06:00Z'),
+      ]);
+
+      expect(summary.tab_switches).toBe(2);
+      expect(summary.hidden_ms).toBe(90000);
+      expect(summary.hidden_since).toBeNull();
+    });
+
+    it('should count a switch reported twice only once', () => {
+      const summary = apply([
+        event('tab_hidden', '2025-11-01T10:00:00Z'),
+        event('tab_hidden', '2025-11-01T10:00:01Z'),
+        event('tab_visible', '2025-11-01T10:00:10Z'),
+        event('tab_visible', '2025-11-01T10:00:11Z'),
+      ]);
+
+      expect(summary.tab_switches).toBe(1);
+      expect(summary.hidden_ms).toBe(10000);
+    });
+
+    it('should keep the newest snapshot with an image', () => {
+      const summary = apply([
+        event('camera_snapshot', '2025-11-01T10:01:00Z', { image: 'data:image/jpeg;base64,new' }),
+        event('camera_snapshot', '2025-11-01T10:00:00Z', { image: 'data:image/jpeg;base64,old' }),
+        event('snapshot_captured', '2025-11-01T10:02:00Z', { size: 1024 }),
+      ]);
+
+      expect(summary.latest_snapshot).toEqual({
+        image: 'data:image/jpeg;base64,new',
+        captured_at: '2025-11-01T10:01:00Z',
+      });
+    });
+  });
+
+  describe('buildProctoringSummaries', () => {
+    it('should apply events in time order whatever order they arrive in', () => {
+      const summaries = buildProctoringSummaries([
+        event('tab_visible', '2025-11-01T10:00:30Z'),
+        { ...event('tab_hidden', '2025-11-01T10:02:00Z'), attempt_id: 2 },
+        event('tab_hidden', '2025-11-01T10:00:00Z'),
+      ]);
+
+      expect(summaries[1]).toMatchObject({ tab_switches: 1, hidden_ms: 30000, hidden_since: null, event_count: 2 });
+      expect(summaries[2]).toMatchObject({ tab_switches: 1, hidden_since: '2025-11-01T10:02:00Z' });
+    });
+
+    it('should count an event received from both the history and the socket once', () => {
+      const hidden = event('tab_hidden', '2025-11-01T10:00:00Z');
+      const summaries = buildProctoringSummaries([hidden, event('tab_visible', '2025-11-01T10:00:10Z'), { ...hidden }]);
+
+      expect(summaries[1]).toMatchObject({ tab_switches: 1, hidden_ms: 10000, event_count: 2 });
+    });
+  });
+
+  describe('getHiddenMs', () => {
+    it('should include a hidden period that is still open', () => {
+      const summary = apply([event('tab_hidden', '2025-11-01T10:00:00Z')]);
+
+      expect(getHiddenMs(summary, Date.parse('2025-11-01T10:02:00Z'))).toBe(120000);
+    });
+  });
+
+  describe('computeRiskScore', () => {
+    const now = Date.parse('2025-11-01T11:00:00Z');
+
+    it('should weight each signal', () => {
+      const summary = apply([
+        event('tab_hidden', '2025-11-01T10:00:00Z'),
+        event('tab_visible', '2025-11-01T10:01:00Z'),
+        event('multiple_tabs', '2025-11-01T10:02:00Z'),
+      ]);
+
+      expect(computeRiskScore(summary, weights, now)).toBe(
+        weights.tabSwitch + weights.hiddenMinute + weights.multipleTabs
+      );
+    });
+
+    it('should be zero without suspicious events', () => {
+      const summary = apply([event('proctoring_started', '2025-11-01T10:00:00Z')]);
+
+      expect(computeRiskScore(summary, weights, now)).toBe(0);
+    });
+
+    it('should cap the score at 100', () => {
+      const summary = apply([
+        event('tab_hidden', '2025-11-01T10:00:00Z'),
+        event('camera_permission_denied', '2025-11-01T10:00:01Z'),
+      ]);
+
+      expect(computeRiskScore(summary, weights, now)).toBe(100);
+    });
+  });
+
+  describe('getRiskLevel', () => {
+    it('should band scores around the alert threshold', () => {
+      expect(getRiskLevel(60, 60)).toBe('high');
+      expect(getRiskLevel(30, 60)).toBe('medium');
+      expect(getRiskLevel(29, 60)).toBe('low');
+    });
+  });
+});
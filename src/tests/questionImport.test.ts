@@ -0,0 +1,145 @@
+/**
+ * @jest-environment jsdom
+ */
+import { checkImportedQuestions, detectImportFormat, parseCsvQuestions, parseCsvRows } from '../utils/questionImport';
+import { parseGiftQuestions } from '../utils/giftParser';
+import { parseQtiQuestions } from '../utils/qtiParser';
+
+describe('questionImport', () => {
+  describe('CSV', () => {
+    it('should read quoted fields with commas, quotes and line breaks', () => {
+      expect(parseCsvRows('a,"b, ""c""",d\r\n"e\nf",g\n')).toEqual([
+        ['a', 'b, "c"', 'd'],
+        ['e\nf', 'g'],
+      ]);
+    });
+
+    it('should turn each row into a question with its choices and metadata', () => {
+      const csv = [
+        'type,prompt,marks,choices,correct,answer,tolerance,tags',
+        'mcq,Pick the primes,2,2|4|5,A|C,,,Numbers|primes',
+        'tf,The sky is green,,,false,,,',
+        'numeric,What is 7 x 8?,1,,,56,0.5,',
+        'short,Largest planet?,1,,,Jupiter|jupiter planet,,',
+      ].join('\n');
+      const [mcq, tf, numeric, short] = parseCsvQuestions(csv);
+
+      expect(mcq).toMatchObject({ row: 2, type: 'mcq', default_marks: 2, metadata: { tags: ['numbers', 'primes'] } });
+      expect(mcq.choices.map(choice => choice.is_correct)).toEqual([true, false, true]);
+      expect(tf).toMatchObject({ type: 'tf', default_marks: 1, metadata: { correct_answer: false } });
+      expect(tf.choices.map(choice => [choice.choice_text, choice.is_correct])).toEqual([['True', false], ['False', true]]);
+      expect(numeric.metadata).toEqual({ correct_answer: 56, grading: { value: 56, tolerance: 0.5 } });
+      expect(short.metadata.correct_answer).toEqual(['Jupiter', 'jupiter planet']);
+    });
+
+    it('should report rows against their line in the file', () => {
+      const csv = 'type,prompt,choices,correct\n"essay","Two\nlines"\n\nmcq,Pick one,A|B,D\n';
+      const questions = checkImportedQuestions(parseCsvQuestions(csv));
+
+      expect(questions.map(question => question.row)).toEqual([2, 5]);
+      expect(questions[0].errors).toEqual([]);
+      expect(questions[1].errors).toEqual([
+        '"correct" names a choice that isn\'t listed: D',
+        'At least one choice must be correct',
+      ]);
+    });
+
+    it('should need a header naming type and prompt', () => {
+      expect(parseCsvQuestions('mcq,Pick one')[0].errors).toHaveLength(1);
+    });
+  });
+
+  describe('GIFT', () => {
+    const gift = [
+      '// A comment',
+      '$CATEGORY: $course$/Science/Astronomy',
+      '',
+      '::Planets::Which planet is largest? {=Jupiter ~Mars ~Venus}',
+      '',
+      'The sun is a star. {T}',
+      '',
+      'What is 2 + 2? {#4:0.5}',
+      '',
+      'Name a gas giant. {=Saturn =Jupiter}',
+      '',
+      'The {~cat =moon ~sun} orbits the Earth.',
+      '',
+      'Describe a black hole. {}',
+      '',
+      'Escaped \\{braces\\} \\= kept {=yes ~no}',
+    ].join('\n');
+
+    it('should read each question type with its category as a tag', () => {
+      const [mcq, tf, numeric, short, missingWord, essay] = parseGiftQuestions(gift);
+
+      expect(mcq).toMatchObject({ row: 4, source: 'Planets', type: 'mcq', prompt: 'Which planet is largest?', metadata: { tags: ['astronomy'] } });
+      expect(mcq.choices.map(choice => [choice.choice_text, choice.is_correct])).toEqual([['Jupiter', true], ['Mars', false], ['Venus', false]]);
+      expect(tf).toMatchObject({ type: 'tf', metadata: { correct_answer: true } });
+      expect(numeric.metadata).toMatchObject({ correct_answer: 4, grading: { value: 4, tolerance: 0.5 } });
+      expect(short.metadata.correct_answer).toEqual(['Saturn', 'Jupiter']);
+      expect(missingWord.prompt).toBe('The _____ orbits the Earth.');
+      expect(essay.type).toBe('essay');
+    });
+
+    it('should keep escaped special characters as text', () => {
+      expect(parseGiftQuestions(gift)[6].prompt).toBe('Escaped {braces} = kept');
+    });
+
+    it('should weight several right answers and reject matching questions', () => {
+      const [weighted, matching] = parseGiftQuestions('Pick two {~%50%A ~%50%B ~%-100%C}\n\nMatch {=a -> 1 =b -> 2}');
+      expect(weighted.choices.map(choice => choice.is_correct)).toEqual([true, true, false]);
+      expect(matching.errors).toEqual(['Matching questions are not supported']);
+    });
+  });
+
+  describe('QTI', () => {
+    const item = (identifier: string, body: string, declaration = '', marks = '') => `
+      <assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="${identifier}" title="${identifier} title">
+        ${declaration}
+        ${marks ? `<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${marks}</value></defaultValue></outcomeDeclaration>` : ''}
+        <itemBody>${body}</itemBody>
+      </assessmentItem>`;
+
+    it('should read choice, text entry and extended text items', () => {
+      const xml = `<items>
+        ${item('q1', `<p>Capital of France?</p>
+          <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+            <simpleChoice identifier="A">Berlin</simpleChoice><simpleChoice identifier="B">Paris</simpleChoice>
+          </choiceInteraction>`,
+          '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"><correctResponse><value>B</value></correctResponse></responseDeclaration>',
+          '3')}
+        ${item('q2', '<p>7 x 8 = <textEntryInteraction responseIdentifier="R"/></p>',
+          '<responseDeclaration identifier="R" cardinality="single" baseType="float"><correctResponse><value>56</value></correctResponse></responseDeclaration>')}
+        ${item('q3', '<extendedTextInteraction responseIdentifier="R"><prompt>Explain the seasons.</prompt></extendedTextInteraction>')}
+      </items>`;
+      const [choice, numeric, essay] = parseQtiQuestions(xml);
+
+      expect(choice).toMatchObject({ row: 1, source: 'q1 title', type: 'mcq', prompt: 'Capital of France?', default_marks: 3, errors: [] });
+      expect(choice.choices.map(option => option.is_correct)).toEqual([false, true]);
+      expect(numeric).toMatchObject({ type: 'numeric', prompt: '7 x 8 = _____', metadata: { correct_answer: 56 } });
+      expect(essay).toMatchObject({ type: 'essay', prompt: 'Explain the seasons.', default_marks: 1 });
+    });
+
+    it('should report files that are not QTI', () => {
+      expect(parseQtiQuestions('<items><oops></items>')[0].errors).toHaveLength(1);
+      expect(parseQtiQuestions('<items/>')[0].errors).toEqual(['No assessmentItem was found; export the questions as QTI 2.1 items']);
+    });
+  });
+
+  describe('checkImportedQuestions', () => {
+    it('should flag prompts already in the bank or repeated in the file', () => {
+      const questions = parseCsvQuestions('type,prompt\nessay,what is  LIGHT?\nessay,New question\nessay,new   QUESTION\n');
+      const checked = checkImportedQuestions(questions, ['<p>What is light?</p>']);
+      expect(checked.map(question => question.duplicate)).toEqual(['bank', undefined, 'file']);
+    });
+  });
+
+  describe('detectImportFormat', () => {
+    it('should go by the extension, then the contents', () => {
+      expect(detectImportFormat('bank.xml', '')).toBe('qti');
+      expect(detectImportFormat('bank.gift', '')).toBe('gift');
+      expect(detectImportFormat('export', 'type,prompt,marks')).toBe('csv');
+      expect(detectImportFormat('export', '<?xml version="1.0"?>')).toBe('qti');
+    });
+  });
+});
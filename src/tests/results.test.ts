@@ -0,0 +1,101 @@
+import { getResultState, canShowCorrectAnswers, getDisplayScore, getReviewAnswer, toReviewQuestion } from '../utils/results';
+import type { AttemptAnswer, BackendQuestion } from '../services/api';
+
+const answer = (overrides: Partial<AttemptAnswer> = {}): AttemptAnswer => ({
+  id: 1,
+  attempt_id: 1,
+  question_id: 1,
+  ...overrides,
+});
+
+describe('results', () => {
+  describe('getResultState', () => {
+    it('should hide results until the attempt is submitted', () => {
+      expect(getResultState({ status: 'in_progress' }, { auto_publish_results: true }, { published: true })).toBe('not_submitted');
+      expect(getResultState({ status: 'abandoned' })).toBe('not_submitted');
+    });
+
+    it('should show a published aggregate', () => {
+      expect(getResultState({ status: 'graded' }, { auto_publish_results: false }, { published: true })).toBe('published');
+    });
+
+    it('should publish graded attempts automatically when the exam allows it', () => {
+      expect(getResultState({ status: 'graded' }, { auto_publish_results: true }, { published: false })).toBe('published');
+      expect(getResultState({ status: 'grading' }, { auto_publish_results: true })).toBe('grading');
+    });
+
+    it('should otherwise wait for the school to publish', () => {
+      expect(getResultState({ status: 'submitted' }, {})).toBe('grading');
+      expect(getResultState({ status: 'graded' }, { auto_publish_results: false }, { published: false })).toBe('unpublished');
+    });
+  });
+
+  describe('canShowCorrectAnswers', () => {
+    it('should need a published result on an exam that shows answers', () => {
+      expect(canShowCorrectAnswers('published', { show_answers_after: true })).toBe(true);
+      expect(canShowCorrectAnswers('published', { show_answers_after: false })).toBe(false);
+      expect(canShowCorrectAnswers('unpublished', { show_answers_after: true })).toBe(false);
+    });
+  });
+
+  describe('getDisplayScore', () => {
+    it('should prefer the published aggregate over the attempt', () => {
+      expect(getDisplayScore(
+        { total_score: 10, percent: 50 },
+        { published: true, total_marks: 12, percent: 60, rank: 3 }
+      )).toEqual({ total: 12, percent: 60, rank: 3 });
+    });
+
+    it('should ignore an unpublished aggregate', () => {
+      expect(getDisplayScore(
+        { total_score: 10, percent: 50 },
+        { published: false, total_marks: 12, percent: 60, rank: 3 }
+      )).toEqual({ total: 10, percent: 50 });
+    });
+  });
+
+  describe('getReviewAnswer', () => {
+    it('should map saved answers to each card\'s value', () => {
+      expect(getReviewAnswer('mcq', answer({ choice_id: 42 }))).toEqual(['42']);
+      expect(getReviewAnswer('tf', answer({ answer_text: 'false' }))).toBe(false);
+      expect(getReviewAnswer('numeric', answer({ answer_text: '9.81' }))).toBe(9.81);
+      expect(getReviewAnswer('numeric', answer({ answer_text: 'abc' }))).toBeUndefined();
+      expect(getReviewAnswer('file', answer({ uploaded_file: 'uploads/a.pdf' }))).toBe('uploads/a.pdf');
+      expect(getReviewAnswer('essay', answer({ answer_text: 'Because' }))).toBe('Because');
+      expect(getReviewAnswer('short', undefined)).toBeUndefined();
+    });
+
+    it('should keep every choice picked on a multiple-answer question', () => {
+      expect(getReviewAnswer('mcq', answer({ choice_id: 42, choice_ids: [42, 43] }))).toEqual(['42', '43']);
+    });
+  });
+
+  describe('toReviewQuestion', () => {
+    const question: BackendQuestion = {
+      id: 5,
+      bank_id: 1,
+      author_id: 1,
+      type: 'mcq',
+      prompt: 'Which are noble gases?',
+      default_marks: 2,
+      metadata: { difficulty: 'easy', correct_answer: [1], explanation: 'Neon is a noble gas' },
+      choices: [
+        { id: 1, question_id: 5, choice_text: 'Neon', is_correct: true, position: 1 },
+        { id: 2, question_id: 5, choice_text: 'Oxygen', is_correct: false, position: 2 },
+      ],
+    };
+
+    it('should keep the answer key when answers are shown', () => {
+      const review = toReviewQuestion(question, 2);
+      expect(review.choices?.map(choice => choice.is_correct)).toEqual([true, false]);
+      expect(review.metadata.correct_answer).toEqual([1]);
+    });
+
+    it('should strip the answer key when answers are hidden', () => {
+      const review = toReviewQuestion(question, 2, false);
+      expect(review.choices?.some(choice => 'is_correct' in choice)).toBe(false);
+      expect(review.choices?.map(choice => choice.choice_text)).toEqual(['Neon', 'Oxygen']);
+      expect(review.metadata).toEqual({ difficulty: 'easy' });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  getRubric,
+  getRubricMaxPoints,
+  computeRubricMarks,
+  isRubricComplete,
+  selectLevel,
+  validateRubric,
+} from '../utils/rubric';
+import type { Rubric } from '../utils/rubric';
+
+const rubric: Rubric = {
+  criteria: [
+    {
+      id: 'content',
+      title: 'Content',
+      levels: [
+        { label: 'Excellent', points: 4 },
+        { label: 'Adequate', points: 2 },
+        { label: 'Missing', points: 0 },
+      ],
+    },
+    {
+      id: 'structure',
+      title: 'Structure',
+      levels: [
+        { label: 'Clear', points: 2 },
+        { label: 'Unclear', points: 0 },
+      ],
+    },
+  ],
+};
+
+describe('rubric', () => {
+  describe('getRubric', () => {
+    it('should read a rubric from question metadata', () => {
+      expect(getRubric({ rubric, explanation: 'x' })).toBe(rubric);
+    });
+
+    it('should ignore missing or malformed rubrics', () => {
+      expect(getRubric(undefined)).toBeNull();
+      expect(getRubric({})).toBeNull();
+      expect(getRubric({ rubric: { criteria: [] } })).toBeNull();
+      expect(getRubric({ rubric: { criteria: [{ id: 'a', title: 'A', levels: [{ label: 'x' }] }] } })).toBeNull();
+    });
+  });
+
+  describe('marks', () => {
+    it('should total the best level of each criterion', () => {
+      expect(getRubricMaxPoints(rubric)).toBe(6);
+    });
+
+    it('should scale chosen points to the question marks', () => {
+      let scores = selectLevel([], rubric.criteria[0], 1);
+      scores = selectLevel(scores, rubric.criteria[1], 0);
+
+      expect(scores).toEqual([
+        { criterion_id: 'content', level: 'Adequate', points: 2 },
+        { criterion_id: 'structure', level: 'Clear', points: 2 },
+      ]);
+      expect(computeRubricMarks(rubric, scores, 6)).toBe(4);
+      expect(computeRubricMarks(rubric, scores, 10)).toBe(6.67);
+    });
+
+    it('should replace an earlier choice for the same criterion', () => {
+      const scores = selectLevel(selectLevel([], rubric.criteria[0], 0), rubric.criteria[0], 2);
+
+      expect(scores).toEqual([{ criterion_id: 'content', level: 'Missing', points: 0 }]);
+      expect(isRubricComplete(rubric, scores)).toBe(false);
+    });
+  });
+
+  describe('validateRubric', () => {
+    it('should report criteria that cannot be graded', () => {
+      const errors = validateRubric({
+        criteria: [{ id: 'a', title: '', levels: [{ label: 'Only', points: -1 }] }],
+      });
+
+      expect(errors).toEqual([
+        'Criterion 1 needs a title',
+        'Criterion 1 needs at least two levels',
+        'Points for Criterion 1 must be zero or more',
+      ]);
+      expect(validateRubric(rubric)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  scoreAttempt,
+  getChoiceCredit,
+  getSelectedChoiceIds,
+  isUnanswered,
+  pickResultAttempt,
+  scoreBreakdownToCsv,
+} from '../utils/scoring';
+import type { AttemptAnswer, BackendQuestion, Choice, ExamQuestion, StudentAttempt } from '../services/api';
+
+const choice = (id: number, questionId: number, is_correct: boolean): Choice => ({
+  id,
+  question_id: questionId,
+  choice_text: `Choice ${id}`,
+  is_correct,
+});
+
+const question = (id: number, type: BackendQuestion['type'], overrides: Partial<BackendQuestion> = {}): BackendQuestion => ({
+  id,
+  bank_id: 1,
+  author_id: 1,
+  type,
+  prompt: `Question ${id}`,
+  default_marks: 2,
+  ...overrides,
+});
+
+const answer = (questionId: number, overrides: Partial<AttemptAnswer> = {}): AttemptAnswer => ({
+  id: questionId,
+  attempt_id: 1,
+  question_id: questionId,
+  ...overrides,
+});
+
+const examQuestions: ExamQuestion[] = [
+  // Single correct choice
+  { id: 1, monthly_exam_id: 10, question_id: 1, sequence: 1, question: question(1, 'mcq', {
+    choices: [choice(11, 1, true), choice(12, 1, false), choice(13, 1, false)],
+  }) },
+  // Two correct choices, partial credit
+  { id: 2, monthly_exam_id: 10, question_id: 2, marks: 4, sequence: 2, question: question(2, 'mcq', {
+    choices: [choice(21, 2, true), choice(22, 2, true), choice(23, 2, false), choice(24, 2, false)],
+  }) },
+  { id: 3, monthly_exam_id: 10, question_id: 3, sequence: 3, question: question(3, 'tf', { metadata: { correct_answer: false } }) },
+  { id: 4, monthly_exam_id: 10, question_id: 4, marks: 3, sequence: 4, question: question(4, 'numeric', {
+    metadata: { grading: { type: 'numeric', value: 9.8, tolerance: 0.1 } },
+  }) },
+  { id: 5, monthly_exam_id: 10, question_id: 5, marks: 10, sequence: 5, question: question(5, 'essay') },
+];
+
+describe('scoring', () => {
+  describe('getSelectedChoiceIds', () => {
+    it('should read several picks or fall back to the single choice', () => {
+      expect(getSelectedChoiceIds(answer(2, { choice_ids: [22, 21, 22] }))).toEqual([21, 22]);
+      expect(getSelectedChoiceIds(answer(1, { choice_id: 11 }))).toEqual([11]);
+      expect(getSelectedChoiceIds(undefined)).toEqual([]);
+    });
+  });
+
+  describe('isUnanswered', () => {
+    it('should treat blank text as no answer', () => {
+      expect(isUnanswered(answer(5, { answer_text: '   ' }))).toBe(true);
+      expect(isUnanswered(answer(5, { uploaded_file: 'uploads/a.pdf' }))).toBe(false);
+      expect(isUnanswered(answer(1, { choice_id: 12 }))).toBe(false);
+    });
+  });
+
+  describe('getChoiceCredit', () => {
+    it('should be all or nothing with one correct choice', () => {
+      expect(getChoiceCredit([11], [11]).credit).toBe(1);
+      expect(getChoiceCredit([12], [11]).credit).toBe(0);
+      expect(getChoiceCredit([11, 12], [11]).credit).toBe(0);
+    });
+
+    it('should give a share per correct pick and cancel one per wrong pick', () => {
+      expect(getChoiceCredit([21], [21, 22]).credit).toBe(0.5);
+      expect(getChoiceCredit([21, 22], [21, 22]).credit).toBe(1);
+      expect(getChoiceCredit([21, 23], [21, 22]).credit).toBe(0);
+      expect(getChoiceCredit([23, 24], [21, 22]).credit).toBe(0);
+    });
+
+    it('should require the exact set in all-or-nothing mode', () => {
+      expect(getChoiceCredit([21], [21, 22], 'all_or_nothing').credit).toBe(0);
+      expect(getChoiceCredit([22, 21], [21, 22], 'all_or_nothing').credit).toBe(1);
+    });
+  });
+
+  describe('scoreAttempt', () => {
+    it('should list every exam question in paper order', () => {
+      const result = scoreAttempt([], examQuestions);
+      expect(result.lines.map(line => line.question_id)).toEqual([1, 2, 3, 4, 5]);
+      expect(result.lines.every(line => line.status === 'unanswered')).toBe(true);
+      expect(result.max_marks).toBe(21);
+      expect(result.total).toBe(0);
+      expect(result.percent).toBe(0);
+    });
+
+    it('should score choices, true/false, numeric and marked essays', () => {
+      const result = scoreAttempt([
+        answer(1, { choice_id: 11 }),
+        answer(2, { choice_ids: [21] }),
+        answer(3, { answer_text: 'false' }),
+        answer(4, { answer_text: '9.85' }),
+        answer(5, { answer_text: 'Essay', marks_awarded: 7, graded_by: 3, graded_at: '2025-11-02T09:00:00Z' }),
+      ], examQuestions);
+
+      expect(result.lines.map(line => [line.status, line.method, line.net])).toEqual([
+        ['correct', 'choices', 2],
+        ['partial', 'choices', 2],
+        ['correct', 'choices', 2],
+        ['correct', 'auto', 3],
+        ['partial', 'manual', 7],
+      ]);
+      expect(result.total).toBe(16);
+      expect(result.percent).toBe(76.19);
+      expect(result.complete).toBe(true);
+    });
+
+    it('should deduct negative marking for wrong choices but not for unanswered ones', () => {
+      const result = scoreAttempt([
+        answer(1, { choice_id: 12 }),
+        answer(3, { answer_text: 'true' }),
+        answer(4, { answer_text: '12' }),
+      ], examQuestions, { negative_marking: 0.5 });
+
+      const [first, second, third, fourth, fifth] = result.lines;
+      expect(first).toMatchObject({ status: 'wrong', penalty: 0.5, net: -0.5 });
+      expect(second).toMatchObject({ status: 'unanswered', penalty: 0, net: 0 });
+      expect(third).toMatchObject({ status: 'wrong', penalty: 0.5, net: -0.5 });
+      // Numeric answers aren't guessable, so they are never penalised
+      expect(fourth).toMatchObject({ status: 'wrong', penalty: 0 });
+      expect(fifth.status).toBe('unanswered');
+      expect(result.penalty_total).toBe(1);
+      expect(result.total).toBe(0);
+    });
+
+    it('should not deduct more than a question is worth', () => {
+      const result = scoreAttempt([answer(1, { choice_id: 12 })], examQuestions, { negative_marking: 5 });
+      expect(result.lines[0].penalty).toBe(2);
+    });
+
+    it('should leave unmarked essays pending', () => {
+      const result = scoreAttempt([answer(5, { answer_text: 'Essay' })], examQuestions);
+      expect(result.lines[4]).toMatchObject({ status: 'pending', method: 'none', net: 0 });
+      expect(result.complete).toBe(false);
+    });
+
+    it('should let a teacher override the answer key', () => {
+      const result = scoreAttempt([
+        answer(1, { choice_id: 12, marks_awarded: 1, graded_by: 3, graded_at: '2025-11-02T09:00:00Z' }),
+      ], examQuestions, { negative_marking: 1 });
+      expect(result.lines[0]).toMatchObject({ status: 'partial', method: 'manual', awarded: 1, penalty: 0, net: 1 });
+    });
+
+    it('should fall back to stored marks when the question has no answer key', () => {
+      const result = scoreAttempt([answer(7, { choice_id: 70, marks_awarded: 1, auto_graded: true })], []);
+      expect(result.lines[0]).toMatchObject({ question_id: 7, method: 'recorded', awarded: 1 });
+    });
+
+    it('should give the same result for the same inputs', () => {
+      const answers = [answer(2, { choice_ids: [22, 23] }), answer(1, { choice_id: 11 })];
+      expect(scoreAttempt(answers, examQuestions, { negative_marking: 1 }))
+        .toEqual(scoreAttempt([...answers].reverse(), examQuestions, { negative_marking: 1 }));
+    });
+  });
+
+  describe('pickResultAttempt', () => {
+    const attempt = (id: number, status: StudentAttempt['status'], finished_at?: string): StudentAttempt => ({
+      id,
+      monthly_exam_id: 10,
+      student_id: 100,
+      status,
+      finished_at,
+      attempt_token: `token-${id}`,
+    });
+
+    it('should prefer the latest graded attempt', () => {
+      const picked = pickResultAttempt([
+        attempt(1, 'graded', '2025-11-01T10:00:00Z'),
+        attempt(2, 'graded', '2025-11-03T10:00:00Z'),
+        attempt(3, 'submitted', '2025-11-04T10:00:00Z'),
+        attempt(4, 'in_progress'),
+      ]);
+      expect(picked?.id).toBe(2);
+    });
+
+    it('should ignore attempts that were never submitted', () => {
+      expect(pickResultAttempt([attempt(1, 'in_progress'), attempt(2, 'abandoned')])).toBeUndefined();
+    });
+  });
+
+  describe('scoreBreakdownToCsv', () => {
+    it('should write the rules used and one row per question', () => {
+      const csv = scoreBreakdownToCsv(scoreAttempt([answer(1, { choice_id: 12 })], examQuestions.slice(0, 1), { negative_marking: 0.5 }));
+      const rows = csv.split('\n');
+      expect(rows[0]).toBe('# scoring version 1, negative marking 0.5');
+      expect(rows[1]).toBe('# total 0 / 2 (0%)');
+      expect(rows[3]).toBe('1,1,mcq,2,wrong,choices,0,0.5,-0.5,"0 of 1 correct choice picked, 1 wrong"');
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  applyAttemptLayout,
+  getAttemptLayout,
+  getCanonicalPosition,
+  getDisplayedChoiceLabel,
+  getDisplayedPosition,
+  seededPermutation,
+} from '../utils/shuffle';
+import type { BackendQuestion, Choice, ExamQuestion } from '../services/api';
+
+const choice = (questionId: number, id: number, position: number): Choice => ({
+  id,
+  question_id: questionId,
+  choice_text: `Choice ${id}`,
+  is_correct: position === 1,
+  position,
+});
+
+const question = (id: number): BackendQuestion => ({
+  id,
+  bank_id: 1,
+  author_id: 1,
+  type: 'mcq',
+  prompt: `Question ${id}`,
+  default_marks: 1,
+  choices: [1, 2, 3, 4].map(position => choice(id, id * 10 + position, position)),
+});
+
+const examQuestion = (id: number, sequence?: number): ExamQuestion => ({
+  id,
+  monthly_exam_id: 10,
+  question_id: id,
+  sequence,
+  question: question(id),
+});
+
+const examQuestions = [1, 2, 3, 4, 5, 6, 7, 8].map(id => examQuestion(id, id));
+const shuffled = { shuffle_questions: true, shuffle_choices: true };
+
+describe('shuffle', () => {
+  describe('seededPermutation', () => {
+    it('should give the same order for the same key', () => {
+      expect(seededPermutation(20, 'token-a')).toEqual(seededPermutation(20, 'token-a'));
+    });
+
+    it('should use every index once', () => {
+      expect([...seededPermutation(20, 'token-a')].sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, index) => index));
+    });
+
+    it('should give different orders for different keys', () => {
+      expect(seededPermutation(20, 'token-a')).not.toEqual(seededPermutation(20, 'token-b'));
+    });
+  });
+
+  describe('getAttemptLayout', () => {
+    it('should not depend on the order the server returns questions in', () => {
+      const layout = getAttemptLayout({ attempt_token: 'token-a' }, shuffled, examQuestions);
+      expect(getAttemptLayout({ attempt_token: 'token-a' }, shuffled, [...examQuestions].reverse())).toEqual(layout);
+    });
+
+    it('should keep the exam order when shuffling is off', () => {
+      const layout = getAttemptLayout({ attempt_token: 'token-a' }, {}, examQuestions);
+      expect(layout.question_ids).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(layout.choice_ids[1]).toEqual([11, 12, 13, 14]);
+    });
+
+    it('should keep sequenced questions first and shuffle the rest when shuffling is off', () => {
+      const mixed = [examQuestion(1, 1), examQuestion(2, 2), ...[3, 4, 5, 6, 7, 8].map(id => examQuestion(id))];
+      const first = getAttemptLayout({ attempt_token: 'token-a' }, {}, mixed);
+      const second = getAttemptLayout({ attempt_token: 'token-b' }, {}, mixed);
+
+      expect(first.question_ids.slice(0, 2)).toEqual([1, 2]);
+      expect(second.question_ids.slice(0, 2)).toEqual([1, 2]);
+      expect(first.question_ids.slice(2)).not.toEqual(second.question_ids.slice(2));
+    });
+
+    it('should shuffle each question\'s choices separately', () => {
+      const layout = getAttemptLayout({ attempt_token: 'token-a' }, shuffled, examQuestions);
+      const orders = Object.values(layout.choice_ids).map(ids => ids.map(id => id % 10).join(''));
+      expect(new Set(orders).size > 1).toBe(true);
+    });
+  });
+
+  describe('positions', () => {
+    const layout = getAttemptLayout({ attempt_token: 'token-a' }, shuffled, examQuestions);
+
+    it('should apply the layout to questions and their choices', () => {
+      const displayed = applyAttemptLayout(examQuestions, layout);
+      expect(displayed.map(item => item.question_id)).toEqual(layout.question_ids);
+      expect(displayed[0].question?.choices?.map(item => item.id)).toEqual(layout.choice_ids[displayed[0].question_id]);
+    });
+
+    it('should map a displayed position back to the exam position', () => {
+      for (const questionId of [1, 2, 3, 4, 5, 6, 7, 8]) {
+        expect(getCanonicalPosition(layout, examQuestions, getDisplayedPosition(layout, questionId))).toBe(questionId);
+      }
+      expect(getDisplayedPosition(layout, 99)).toBe(0);
+    });
+
+    it('should give the letter a choice was shown with', () => {
+      const [firstShown] = layout.choice_ids[3];
+      expect(getDisplayedChoiceLabel(layout, 3, firstShown)).toBe('A');
+      expect(getDisplayedChoiceLabel(layout, 3, 999)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment jsdom
+ */
+import { TabCoordinator } from '../services/tabCoordinator';
+import type { TabChannel, TabMessage } from '../services/tabCoordinator';
+
+// In-memory stand-in for BroadcastChannel: delivers to every other channel with the same name.
+// Messages are dropped while `link.down` is set.
+const createBus = (link = { down: false }) => {
+  const channels = new Set<TabChannel>();
+
+  return (): TabChannel => {
+    const channel: TabChannel = {
+      onmessage: null,
+      postMessage: (message: TabMessage) => {
+        if (link.down) return;
+        channels.forEach(other => {
+          if (other !== channel) {
+            setTimeout(() => other.onmessage?.({ data: message } as MessageEvent<TabMessage>), 0);
+          }
+        });
+      },
+      close: () => {
+        channels.delete(channel);
+      },
+    };
+    channels.add(channel);
+    return channel;
+  };
+};
+
+describe('TabCoordinator', () => {
+  let createChannel: () => TabChannel;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    createChannel = createBus();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createTab = (onTabDetected?: (tabId: string) => void) => new TabCoordinator({
+    channelName: 'exam_attempt_1',
+    createChannel,
+    onTabDetected,
+  });
+
+  it('should make the first tab the leader', () => {
+    const tab = createTab();
+    tab.start();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(tab.getRole()).toBe('leader');
+    tab.stop();
+  });
+
+  it('should make a second tab a follower and report it to the leader', () => {
+    const onTabDetected = jest.fn();
+    const first = createTab(onTabDetected);
+    first.start();
+    jest.advanceTimersByTime(1000);
+
+    const second = createTab();
+    second.start();
+    jest.advanceTimersByTime(1000);
+
+    expect(first.getRole()).toBe('leader');
+    expect(second.getRole()).toBe('follower');
+    expect(second.getLeaderId()).toBe(first.tabId);
+    expect(onTabDetected).toHaveBeenCalledWith(second.tabId);
+
+    first.stop();
+    second.stop();
+  });
+
+  it('should hand over leadership when the leader closes', () => {
+    const first = createTab();
+    first.start();
+    jest.advanceTimersByTime(1000);
+    const second = createTab();
+    second.start();
+    jest.advanceTimersByTime(1000);
+
+    first.stop();
+    jest.advanceTimersByTime(1000);
+
+    expect(second.getRole()).toBe('leader');
+    second.stop();
+  });
+
+  it('should keep following a leader whose heartbeats are late', () => {
+    const link = { down: false };
+    createChannel = createBus(link);
+    const first = createTab();
+    first.start();
+    jest.advanceTimersByTime(1000);
+    const second = createTab();
+    second.start();
+    jest.advanceTimersByTime(1000);
+
+    // A throttled background leader can go most of a minute between heartbeats
+    link.down = true;
+    jest.advanceTimersByTime(30000);
+    expect(second.getRole()).toBe('follower');
+
+    link.down = false;
+    jest.advanceTimersByTime(1000);
+    expect(second.getRole()).toBe('follower');
+    expect(second.getLeaderId()).toBe(first.tabId);
+
+    first.stop();
+    second.stop();
+  });
+
+  it('should elect a new leader once the lease runs out', () => {
+    const link = { down: false };
+    createChannel = createBus(link);
+    const first = createTab();
+    first.start();
+    jest.advanceTimersByTime(1000);
+    const second = createTab();
+    second.start();
+    jest.advanceTimersByTime(1000);
+
+    link.down = true;
+    jest.advanceTimersByTime(70000);
+
+    expect(second.getRole()).toBe('leader');
+
+    link.down = false;
+    first.stop();
+    second.stop();
+  });
+
+  it('should let a follower take over', () => {
+    const first = createTab();
+    first.start();
+    jest.advanceTimersByTime(1000);
+    const second = createTab();
+    second.start();
+    jest.advanceTimersByTime(1000);
+
+    second.takeOver();
+    jest.advanceTimersByTime(3000);
+
+    expect(second.getRole()).toBe('leader');
+    expect(first.getRole()).toBe('follower');
+
+    first.stop();
+    second.stop();
+  });
+});
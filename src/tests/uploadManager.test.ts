@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import {
+  computeChecksum,
+  validateFile,
+  getChunkCount,
+  getUploadedBytes,
+  runUpload,
+  loadUpload,
+} from '../services/uploadManager';
+import type { UploadSession } from '../services/uploadManager';
+import apiService from '../services/api';
+
+// In-memory localforage
+jest.mock('localforage', () => {
+  const store = new Map<string, unknown>();
+  return {
+    getItem: jest.fn(async (key: string) => (store.has(key) ? store.get(key) : null)),
+    setItem: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, value);
+      return value;
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: {
+    getUpload: jest.fn(),
+    uploadChunk: jest.fn(),
+    completeUpload: jest.fn(),
+  },
+}));
+
+// Skip the backoff wait between chunk retries
+jest.mock('../services/offlineQueue', () => ({
+  ...jest.requireActual('../services/offlineQueue'),
+  getBackoffDelay: () => 0,
+}));
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const makeSession = (overrides: Partial<UploadSession> = {}): UploadSession => ({
+  attempt_id: 7,
+  question_id: 3,
+  upload_id: 'up-1',
+  file_name: 'answer.pdf',
+  file_type: 'application/pdf',
+  file_size: 10,
+  checksum: 'abc123',
+  chunk_size: 4,
+  uploaded_chunks: [],
+  status: 'uploading',
+  updated_at: 0,
+  ...overrides,
+});
+
+describe('uploadManager', () => {
+  describe('validateFile', () => {
+    it('should accept a file matching the rules', () => {
+      expect(validateFile({ name: 'answer.PDF', size: 1024 }, { allowedFileTypes: ['.pdf'], maxFileSizeMb: 1 })).toBeNull();
+    });
+
+    it('should reject disallowed types, oversize and empty files', () => {
+      expect(validateFile({ name: 'answer.exe', size: 10 }, { allowedFileTypes: ['pdf'] })).toContain('not an accepted file type');
+      expect(validateFile({ name: 'answer.pdf', size: 3 * 1024 * 1024 }, { maxFileSizeMb: 2 })).toContain('the limit is 2 MB');
+      expect(validateFile({ name: 'answer.pdf', size: 0 }, {})).toContain('empty');
+    });
+  });
+
+  describe('computeChecksum', () => {
+    it('should hash a blob as hex SHA-256', async () => {
+      expect(await computeChecksum(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should explain the failure when Web Crypto is unavailable', async () => {
+      const original = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+      Object.defineProperty(globalThis, 'crypto', { value: {}, configurable: true });
+      try {
+        await expect(computeChecksum(new Blob(['abc']))).rejects.toThrow('secure (HTTPS) connection');
+      } finally {
+        if (original) Object.defineProperty(globalThis, 'crypto', original);
+      }
+    });
+  });
+
+  describe('chunk arithmetic', () => {
+    it('should count a partial last chunk', () => {
+      expect(getChunkCount(10, 4)).toBe(3);
+      expect(getChunkCount(8, 4)).toBe(2);
+      expect(getChunkCount(0, 4)).toBe(1);
+    });
+
+    it('should count the short last chunk by its real size', () => {
+      expect(getUploadedBytes({ file_size: 10, chunk_size: 4, uploaded_chunks: [0, 2] })).toBe(6);
+    });
+  });
+
+  describe('runUpload', () => {
+    const file = new Blob(['0123456789']);
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockedApi.completeUpload.mockResolvedValue({ file_path: 'uploads/answer.pdf', checksum: 'ABC123' });
+    });
+
+    it('should only send the chunks the server is missing', async () => {
+      mockedApi.getUpload.mockResolvedValue({ upload_id: 'up-1', chunk_size: 4, uploaded_chunks: [0], status: 'pending' });
+      mockedApi.uploadChunk.mockResolvedValue(undefined);
+
+      const result = await runUpload(makeSession(), file);
+
+      expect(mockedApi.uploadChunk.mock.calls.map(call => call[1])).toEqual([1, 2]);
+      expect(result.status).toBe('completed');
+      expect(result.file_path).toBe('uploads/answer.pdf');
+      expect((await loadUpload(7, 3))?.file).toBeNull();
+    });
+
+    it('should retry a chunk after a network error', async () => {
+      mockedApi.getUpload.mockResolvedValue({ upload_id: 'up-1', chunk_size: 4, uploaded_chunks: [0, 1], status: 'pending' });
+      mockedApi.uploadChunk
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValue(undefined);
+
+      const result = await runUpload(makeSession(), file);
+
+      expect(mockedApi.uploadChunk).toHaveBeenCalledTimes(2);
+      expect(result.uploaded_chunks).toEqual([0, 1, 2]);
+    });
+
+    it('should fail when the assembled file does not match the checksum', async () => {
+      mockedApi.getUpload.mockResolvedValue({ upload_id: 'up-1', chunk_size: 4, uploaded_chunks: [0, 1, 2], status: 'pending' });
+      mockedApi.completeUpload.mockResolvedValue({ file_path: 'uploads/answer.pdf', checksum: 'ffff' });
+
+      await expect(runUpload(makeSession(), file)).rejects.toThrow('did not match');
+    });
+  });
+});
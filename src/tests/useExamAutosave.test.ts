@@ -1,21 +1,35 @@
-import { renderHook, act } from '@testing-library/react-hooks';
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act } from '@testing-library/react';
 import { useExamAutosave } from '../hooks/useExamAutosave';
+import apiService from '../services/api';
 
 // Mock the apiService
 jest.mock('../services/api', () => ({
   __esModule: true,
   default: {
-    saveAnswer: jest.fn(),
+    saveJournalEntry: jest.fn(),
+    getAttemptAnswers: jest.fn().mockResolvedValue([]),
+    getServerTime: jest.fn().mockRejectedValue(new Error('offline')),
   },
 }));
 
-// Mock localforage
-jest.mock('localforage', () => ({
-  setItem: jest.fn(),
-  getItem: jest.fn(),
-  removeItem: jest.fn(),
-  keys: jest.fn(),
-}));
+// In-memory localforage
+jest.mock('localforage', () => {
+  const store = new Map<string, unknown>();
+  return {
+    setItem: jest.fn(async (key: string, value: unknown) => {
+      store.set(key, JSON.parse(JSON.stringify(value)));
+      return value;
+    }),
+    getItem: jest.fn(async (key: string) => (store.has(key) ? JSON.parse(JSON.stringify(store.get(key))) : null)),
+    removeItem: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    keys: jest.fn(async () => Array.from(store.keys())),
+  };
+});
 
 describe('useExamAutosave', () => {
   const attemptId = 'attempt-123';
@@ -68,4 +82,43 @@ describe('useExamAutosave', () => {
     
     expect(result.current.isOffline).toBe(false);
   });
-});
\ No newline at end of file
+
+  it('should let a caller arriving mid-flush wait for that flush', async () => {
+    const { result } = renderHook(() => useExamAutosave(attemptId, examId));
+
+    let first: Promise<boolean> | undefined;
+    let second: Promise<boolean> | undefined;
+    act(() => {
+      first = result.current.flushAnswers();
+      second = result.current.flushAnswers();
+    });
+
+    expect(second).toBe(first);
+    await act(async () => {
+      await expect(first).resolves.toBe(true);
+    });
+  });
+
+  it('should let the submit go ahead when the server rejects one answer', async () => {
+    const saveJournalEntry = apiService.saveJournalEntry as jest.Mock;
+    saveJournalEntry
+      .mockRejectedValueOnce({ response: { status: 422 } })
+      .mockResolvedValueOnce({ saved_at: '2025-11-01T10:00:00Z' });
+    const { result } = renderHook(() => useExamAutosave('attempt-rejected', examId));
+
+    await act(async () => {
+      await result.current.queueAnswer({ question_id: 1, answer_text: 'refused' });
+      await result.current.queueAnswer({ question_id: 2, answer_text: 'accepted' });
+    });
+
+    let answersSaved: boolean | undefined;
+    await act(async () => {
+      answersSaved = await result.current.flushAnswers();
+    });
+
+    expect(saveJournalEntry).toHaveBeenCalledTimes(2);
+    expect(answersSaved).toBe(true);
+    expect(result.current.pendingAnswersCount).toBe(0);
+    expect(result.current.rejectedCount).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @jest-environment jsdom
+ */
+import type { ReactNode } from 'react';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from 'react-query';
+import { useExamDeadline } from '../hooks/useExamDeadline';
+
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: {
+    getServerTime: jest.fn().mockRejectedValue(new Error('offline')),
+    getStudentAttempt: jest.fn().mockResolvedValue({
+      id: 1,
+      monthly_exam_id: 10,
+      status: 'in_progress',
+      started_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    }),
+    getExam: jest.fn().mockResolvedValue({ id: 10 }),
+    getAttemptStatus: jest.fn().mockResolvedValue({
+      status: 'in_progress',
+      deadline: new Date(Date.now() - 1000).toISOString(),
+    }),
+  },
+}));
+
+describe('useExamDeadline', () => {
+  it('should fall back to the local clock and expire when the server clock never syncs', async () => {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+    const onExpire = jest.fn();
+
+    const { result } = renderHook(() => useExamDeadline({ attemptId: '1', onExpire }), { wrapper });
+
+    await waitFor(() => expect(onExpire).toHaveBeenCalledTimes(1));
+    expect(result.current.clockConfidence).toBe('low');
+    expect(result.current.isExpired).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment jsdom
+ */
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from 'react-query';
+import { useProctoringRisk } from '../hooks/useProctoringRisk';
+import apiService from '../services/api';
+import type { ProctorEventPayload } from '../services/websocket';
+import type { AttemptTable, MonitoredAttempt } from '../utils/attemptMonitor';
+
+const mockListeners: Array<(data: ProctorEventPayload) => void> = [];
+
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: {
+    getProctoringEvents: jest.fn(),
+  },
+}));
+
+jest.mock('../services/websocket', () => ({
+  __esModule: true,
+  default: {
+    on: jest.fn((_event: string, callback: (data: ProctorEventPayload) => void) => {
+      mockListeners.push(callback);
+      return () => undefined;
+    }),
+  },
+}));
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const row = (overrides: Partial<MonitoredAttempt> = {}): MonitoredAttempt => ({
+  attempt_id: 1,
+  monthly_exam_id: 10,
+  status: 'in_progress',
+  started_at: '2025-11-01T10:00:00Z',
+  proctor_event_count: 0,
+  updated_at: 0,
+  ...overrides,
+});
+
+const tabSwitch = (attemptId: number, eventTime: string): ProctorEventPayload => ({
+  attempt_id: attemptId,
+  event_type: 'tab_switch',
+  event_time: eventTime,
+});
+
+describe('useProctoringRisk', () => {
+  const renderRisk = (initial: AttemptTable) => {
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+    return renderHook(({ attempts }) => useProctoringRisk(attempts), { wrapper, initialProps: { attempts: initial } });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListeners.length = 0;
+    mockedApi.getProctoringEvents.mockResolvedValue([]);
+  });
+
+  it('should load the history of each exam on the grid', async () => {
+    mockedApi.getProctoringEvents.mockImplementation(async params => (params?.monthly_exam_id === 10
+      ? [{ id: 1, ...tabSwitch(1, '2025-11-01T10:05:00Z') }, { id: 2, ...tabSwitch(9, '2025-11-01T10:06:00Z') }]
+      : []));
+
+    const { result } = renderRisk({ 1: row(), 2: row({ attempt_id: 2, monthly_exam_id: 11 }) });
+
+    await waitFor(() => expect(result.current.summaries[1]?.event_count).toBe(1));
+    expect(mockedApi.getProctoringEvents).toHaveBeenCalledWith({ monthly_exam_id: 10, start_date: '2025-11-01T10:00:00.000Z' });
+    expect(mockedApi.getProctoringEvents).toHaveBeenCalledWith({ monthly_exam_id: 11, start_date: '2025-11-01T10:00:00.000Z' });
+    expect(result.current.summaries[9]).toBeUndefined();
+  });
+
+  it('should drop the events of an exam once its attempts leave the grid', async () => {
+    const { result, rerender } = renderRisk({ 1: row(), 2: row({ attempt_id: 2, monthly_exam_id: 11 }) });
+
+    act(() => {
+      mockListeners.forEach(listener => listener(tabSwitch(1, '2025-11-01T10:05:00Z')));
+      mockListeners.forEach(listener => listener(tabSwitch(2, '2025-11-01T10:06:00Z')));
+    });
+    await waitFor(() => expect(Object.keys(result.current.summaries)).toEqual(['1', '2']));
+
+    rerender({ attempts: { 2: row({ attempt_id: 2, monthly_exam_id: 11 }) } });
+
+    await waitFor(() => expect(Object.keys(result.current.summaries)).toEqual(['2']));
+  });
+
+  it('should hold a live event until its attempt reaches the grid', async () => {
+    const { result, rerender } = renderRisk({ 1: row() });
+
+    act(() => {
+      mockListeners.forEach(listener => listener(tabSwitch(3, '2025-11-01T10:05:00Z')));
+    });
+    expect(result.current.summaries[3]).toBeUndefined();
+
+    rerender({ attempts: { 1: row(), 3: row({ attempt_id: 3 }) } });
+
+    await waitFor(() => expect(result.current.summaries[3]?.event_count).toBe(1));
+  });
+});
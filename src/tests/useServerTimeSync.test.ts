@@ -0,0 +1,45 @@
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, waitFor } from '@testing-library/react';
+import apiService from '../services/api';
+import { useServerTimeSync } from '../hooks/useServerTimeSync';
+
+jest.mock('../services/api', () => ({
+  __esModule: true,
+  default: {
+    getServerTime: jest.fn(),
+  },
+}));
+
+const getServerTime = apiService.getServerTime as jest.Mock;
+
+describe('useServerTimeSync', () => {
+  beforeEach(() => {
+    getServerTime.mockImplementation(async () => {
+      const serverTime = Date.now() + 5000;
+      return { server_time: new Date(serverTime).toISOString(), epoch_ms: serverTime };
+    });
+  });
+
+  it('should share one measurement between hooks mounted together', async () => {
+    const first = renderHook(() => useServerTimeSync(3));
+    const second = renderHook(() => useServerTimeSync(3));
+
+    await waitFor(() => expect(first.result.current.confidence).not.toBe('none'));
+    await waitFor(() => expect(second.result.current.confidence).not.toBe('none'));
+
+    expect(getServerTime).toHaveBeenCalledTimes(3);
+    expect(second.result.current.offset).toBe(first.result.current.offset);
+    expect(first.result.current.offset).toBeGreaterThan(4000);
+  });
+
+  it('should reuse a recent measurement instead of sampling again', async () => {
+    getServerTime.mockClear();
+    const later = renderHook(() => useServerTimeSync(3));
+
+    await waitFor(() => expect(later.result.current.confidence).not.toBe('none'));
+
+    expect(getServerTime).not.toHaveBeenCalled();
+  });
+});
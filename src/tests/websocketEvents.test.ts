@@ -0,0 +1,105 @@
+import { getEventKey, parseWebSocketEvent, validatePayload } from '../services/websocketEvents';
+import type { WebSocketEvent } from '../services/websocketEvents';
+
+describe('websocketEvents', () => {
+  describe('parseWebSocketEvent', () => {
+    it('should accept a well-formed frame', () => {
+      const result = parseWebSocketEvent({
+        event: 'proctor_event',
+        data: { attempt_id: 1, event_type: 'tab_hidden', event_time: '2025-11-01T10:00:00Z' },
+        timestamp: '2025-11-01T10:00:01Z',
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok && result.event.event === 'proctor_event') {
+        expect(result.event.data.event_type).toBe('tab_hidden');
+      }
+    });
+
+    it('should reject unknown event types', () => {
+      const result = parseWebSocketEvent({ event: 'attempt_deleted', data: {}, timestamp: '2025-11-01T10:00:00Z' });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('should reject frames without a timestamp', () => {
+      const result = parseWebSocketEvent({ event: 'connection_status', data: { connected: true } });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it('should report every problem with the payload', () => {
+      const result = parseWebSocketEvent({
+        event: 'attempt_started',
+        data: { attempt_id: '1', student_id: 5, started_at: 'yesterday' },
+        timestamp: '2025-11-01T10:00:00Z',
+      });
+
+      expect(result).toEqual({
+        ok: false,
+        error: 'attempt_started: attempt_id must be a number; monthly_exam_id is required; started_at must be a date string',
+      });
+    });
+  });
+
+  describe('validatePayload', () => {
+    it('should allow optional fields to be missing', () => {
+      expect(validatePayload('attempt_updated', { attempt_id: 3 })).toEqual([]);
+    });
+
+    it('should reject unknown attempt statuses', () => {
+      expect(validatePayload('attempt_submitted', {
+        attempt_id: 3,
+        status: 'done',
+        finished_at: '2025-11-01T10:00:00Z',
+      })).toHaveLength(1);
+    });
+
+    it('should accept an exam announcement', () => {
+      expect(validatePayload('teacher_message', {
+        message_id: 'msg_1',
+        scope: 'exam',
+        monthly_exam_id: 10,
+        body: 'Question 7 has a typo',
+        priority: 'info',
+        sent_at: '2025-11-01T10:00:00Z',
+      })).toEqual([]);
+    });
+
+    it('should require an attempt for private messages', () => {
+      expect(validatePayload('teacher_message', {
+        message_id: 'msg_2',
+        scope: 'attempt',
+        monthly_exam_id: 10,
+        body: 'Eyes on your own screen',
+        priority: 'warning',
+        sent_at: '2025-11-01T10:00:00Z',
+      })).toEqual(['attempt_id is required for private messages']);
+    });
+  });
+
+  describe('getEventKey', () => {
+    const live: WebSocketEvent = {
+      event: 'proctor_event',
+      data: { attempt_id: 1, event_type: 'tab_hidden', event_time: '2025-11-01T10:00:00Z' },
+      timestamp: '2025-11-01T10:00:01.250Z',
+    };
+
+    it('should match a live frame with its replay despite different timestamps', () => {
+      const replayed: WebSocketEvent = { ...live, timestamp: '2025-11-01T10:00:00Z' };
+      expect(getEventKey(replayed)).toBe(getEventKey(live));
+
+      const started: WebSocketEvent = {
+        event: 'attempt_started',
+        data: { attempt_id: 2, monthly_exam_id: 10, student_id: 5, started_at: '2025-11-01T09:00:00Z' },
+        timestamp: '2025-11-01T09:00:02Z',
+      };
+      expect(getEventKey({ ...started, timestamp: started.data.started_at })).toBe(getEventKey(started));
+    });
+
+    it('should tell apart repeats of an event at different times', () => {
+      const later: WebSocketEvent = { ...live, data: { ...live.data, id: 8, event_time: '2025-11-01T10:05:00Z' } };
+      expect(getEventKey(later)).not.toBe(getEventKey(live));
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Aggregates
+ * Works out each student's exam total, percent, rank and percentile from
+ * their graded attempts, and compares the outcome with the saved aggregates
+ * so nothing is written before a teacher has seen the changes.
+ */
+
+import type { AttemptAnswer, ExamAggregate, ExamQuestion, ExamSubject, MonthlyExam, StudentAttempt } from '../services/api';
+import { scoreAttempt } from './scoring';
+import { drawAttemptQuestions } from './pools';
+import { getStudentName } from './attemptMonitor';
+
+// Which graded attempt counts when a student sat the exam more than once
+export type AttemptPolicy = 'best' | 'latest' | 'average';
+
+// Who a student is ranked against: their own section's exam, or every section in the grade
+export type RankScope = 'section' | 'grade';
+
+export interface SubjectResult {
+  subject_id: number;
+  name?: string;
+  marks: number; // scaled to the subject's max marks
+  max_marks: number;
+  pass_marks: number;
+  passed: boolean;
+}
+
+export interface AttemptResult {
+  attempt_id: number;
+  finished_at?: string;
+  total_marks: number;
+  max_marks: number;
+  percent: number;
+  subjects: SubjectResult[];
+}
+
+export interface StudentResult {
+  monthly_exam_id: number;
+  student_id: number;
+  student_name?: string;
+  attempt_ids: number[]; // attempts the result was built from
+  total_marks: number;
+  max_marks: number;
+  percent: number;
+  subjects: SubjectResult[];
+  passed: boolean;
+  rank: number;
+  percentile: number;
+}
+
+export interface ExamScoringData {
+  exam: MonthlyExam;
+  attempts: StudentAttempt[];
+  answers: Record<number, AttemptAnswer[]>; // by attempt id
+  examQuestions: ExamQuestion[];
+  examSubjects: ExamSubject[];
+}
+
+export type AggregateField = 'total_marks' | 'percent' | 'rank' | 'percentile' | 'passed';
+
+export interface AggregateChange {
+  // missing: a saved aggregate whose student has no graded attempt; it is left alone
+  kind: 'new' | 'changed' | 'unchanged' | 'missing';
+  monthly_exam_id: number;
+  student_id: number;
+  student_name?: string;
+  existing?: ExamAggregate;
+  computed?: StudentResult;
+  fields: AggregateField[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toPercent = (marks: number, maxMarks: number) => (maxMarks > 0 ? round2((marks / maxMarks) * 100) : 0);
+
+/**
+ * Exams ranked together with this one
+ */
+export function getScopeExams(exam: MonthlyExam, exams: MonthlyExam[], scope: RankScope): MonthlyExam[] {
+  if (scope === 'section') return [exam];
+
+  const siblings = exams.filter(item =>
+    item.id !== exam.id
+    && item.school_id === exam.school_id
+    && item.grade_id === exam.grade_id
+    && item.month === exam.month
+    && item.year === exam.year
+  );
+  return [exam, ...siblings];
+}
+
+/**
+ * The exam subject a question counts towards, if any
+ */
+export function getQuestionSubjectId(examQuestion?: ExamQuestion): number | undefined {
+  const subjectId = examQuestion?.subject_id ?? examQuestion?.question?.metadata?.subject_id;
+  return subjectId !== undefined && subjectId !== null ? Number(subjectId) : undefined;
+}
+
+/**
+ * Score one attempt. Each exam subject's questions are scaled to the
+ * subject's max marks and checked against its pass marks. Subjects with no
+ * questions are skipped, and questions outside any subject count as they are.
+ */
+export function scoreAttemptBySubject(
+  attempt: StudentAttempt,
+  answers: AttemptAnswer[],
+  data: Pick<ExamScoringData, 'exam' | 'examQuestions' | 'examSubjects'>
+): AttemptResult {
+  const examQuestions = drawAttemptQuestions(attempt, data.exam, data.examQuestions);
+  const score = scoreAttempt(answers, examQuestions, data.exam);
+  const bySubject = new Map<number, { net: number; max: number }>();
+  let looseMarks = 0;
+  let looseMax = 0;
+
+  for (const line of score.lines) {
+    const subjectId = getQuestionSubjectId(examQuestions.find(item => item.question_id === line.question_id));
+    const subject = subjectId !== undefined ? data.examSubjects.find(item => item.subject_id === subjectId) : undefined;
+
+    if (!subject) {
+      looseMarks += line.net;
+      looseMax += line.max_marks;
+      continue;
+    }
+
+    const entry = bySubject.get(subject.subject_id) ?? { net: 0, max: 0 };
+    entry.net += line.net;
+    entry.max += line.max_marks;
+    bySubject.set(subject.subject_id, entry);
+  }
+
+  const subjects = data.examSubjects
+    .filter(subject => (bySubject.get(subject.subject_id)?.max ?? 0) > 0)
+    .map((subject): SubjectResult => {
+      const raw = bySubject.get(subject.subject_id)!;
+      const marks = round2((Math.max(0, raw.net) / raw.max) * subject.max_marks);
+      return {
+        subject_id: subject.subject_id,
+        name: subject.subject?.name,
+        marks,
+        max_marks: subject.max_marks,
+        pass_marks: subject.pass_marks,
+        passed: marks >= subject.pass_marks,
+      };
+    });
+
+  const totalMarks = Math.max(0, round2(subjects.reduce((total, subject) => total + subject.marks, 0) + looseMarks));
+  const maxMarks = round2(subjects.reduce((total, subject) => total + subject.max_marks, 0) + looseMax);
+
+  return {
+    attempt_id: attempt.id,
+    finished_at: attempt.finished_at,
+    total_marks: totalMarks,
+    max_marks: maxMarks,
+    percent: toPercent(totalMarks, maxMarks),
+    subjects,
+  };
+}
+
+const byFinish = (a: AttemptResult, b: AttemptResult) =>
+  (a.finished_at ?? '').localeCompare(b.finished_at ?? '') || a.attempt_id - b.attempt_id;
+
+/**
+ * Reduce a student's attempts to one result. Ties on the best score go to the later attempt.
+ */
+export function combineAttempts(results: AttemptResult[], policy: AttemptPolicy): Omit<AttemptResult, 'attempt_id' | 'finished_at'> & { attempt_ids: number[] } {
+  const ordered = [...results].sort(byFinish);
+
+  if (policy !== 'average' || ordered.length === 1) {
+    const chosen = policy === 'latest'
+      ? ordered[ordered.length - 1]
+      : ordered.reduce((best, result) => (result.percent >= best.percent ? result : best));
+    return {
+      attempt_ids: [chosen.attempt_id],
+      total_marks: chosen.total_marks,
+      max_marks: chosen.max_marks,
+      percent: chosen.percent,
+      subjects: chosen.subjects,
+    };
+  }
+
+  const mean = (values: number[]) => round2(values.reduce((total, value) => total + value, 0) / values.length);
+  const maxMarks = ordered[ordered.length - 1].max_marks;
+  const totalMarks = mean(ordered.map(result => result.total_marks));
+
+  const subjects = ordered[ordered.length - 1].subjects.map((subject): SubjectResult => {
+    const marks = mean(ordered.map(result => result.subjects.find(item => item.subject_id === subject.subject_id)?.marks ?? 0));
+    return { ...subject, marks, passed: marks >= subject.pass_marks };
+  });
+
+  return {
+    attempt_ids: ordered.map(result => result.attempt_id),
+    total_marks: totalMarks,
+    max_marks: maxMarks,
+    percent: toPercent(totalMarks, maxMarks),
+    subjects,
+  };
+}
+
+/**
+ * Competition ranking ("1224") on percent, so exams with different totals can
+ * be ranked together. Percentile counts everyone below plus half of those
+ * tied, including the student.
+ */
+export function assignRanks<T extends { percent: number }>(results: T[]): Array<T & { rank: number; percentile: number }> {
+  const percents = results.map(result => round2(result.percent));
+
+  return results.map((result, index) => {
+    const own = percents[index];
+    const above = percents.filter(percent => percent > own).length;
+    const below = percents.filter(percent => percent < own).length;
+    const tied = percents.length - above - below;
+
+    return {
+      ...result,
+      rank: above + 1,
+      percentile: round2(((below + tied / 2) / percents.length) * 100),
+    };
+  });
+}
+
+/**
+ * Results for every student with a graded attempt in the given exams, ranked together
+ */
+export function computeAggregates(exams: ExamScoringData[], policy: AttemptPolicy = 'best'): StudentResult[] {
+  const unranked: Array<Omit<StudentResult, 'rank' | 'percentile'>> = [];
+
+  for (const data of exams) {
+    const byStudent = new Map<number, StudentAttempt[]>();
+    data.attempts
+      .filter(attempt => attempt.status === 'graded')
+      .forEach(attempt => byStudent.set(attempt.student_id, [...(byStudent.get(attempt.student_id) || []), attempt]));
+
+    byStudent.forEach((attempts, studentId) => {
+      const combined = combineAttempts(
+        attempts.map(attempt => scoreAttemptBySubject(attempt, data.answers[attempt.id] || [], data)),
+        policy
+      );
+      const passMark = data.exam.passing_percentage;
+
+      unranked.push({
+        monthly_exam_id: data.exam.id,
+        student_id: studentId,
+        student_name: attempts.map(getStudentName).find(name => !!name),
+        ...combined,
+        passed: combined.subjects.every(subject => subject.passed)
+          && (passMark === undefined || passMark === null || combined.percent >= passMark),
+      });
+    });
+  }
+
+  return assignRanks(unranked).sort(
+    (a, b) => a.rank - b.rank || a.monthly_exam_id - b.monthly_exam_id || a.student_id - b.student_id
+  );
+}
+
+/**
+ * What saving the computed results would change in the saved aggregates
+ */
+export function diffAggregates(computed: StudentResult[], existing: ExamAggregate[]): AggregateChange[] {
+  const key = (examId: number, studentId: number) => `${examId}:${studentId}`;
+  const saved = new Map(existing.map(aggregate => [key(aggregate.monthly_exam_id, aggregate.student_id), aggregate]));
+
+  const changes = computed.map((result): AggregateChange => {
+    const aggregate = saved.get(key(result.monthly_exam_id, result.student_id));
+    saved.delete(key(result.monthly_exam_id, result.student_id));
+
+    const base = {
+      monthly_exam_id: result.monthly_exam_id,
+      student_id: result.student_id,
+      student_name: result.student_name,
+      computed: result,
+    };
+    if (!aggregate) return { ...base, kind: 'new', fields: ['total_marks', 'percent', 'rank', 'percentile', 'passed'] };
+
+    const fields = (['total_marks', 'percent', 'rank', 'percentile', 'passed'] as AggregateField[]).filter(field => {
+      const before = aggregate[field];
+      const after = result[field];
+      return typeof after === 'number' ? before === undefined || before === null || round2(Number(before)) !== after : before !== after;
+    });
+
+    return { ...base, existing: aggregate, kind: fields.length > 0 ? 'changed' : 'unchanged', fields };
+  });
+
+  saved.forEach(aggregate => {
+    changes.push({
+      kind: 'missing',
+      monthly_exam_id: aggregate.monthly_exam_id,
+      student_id: aggregate.student_id,
+      student_name: aggregate.student ? `${aggregate.student.first_name} ${aggregate.student.last_name}`.trim() : undefined,
+      existing: aggregate,
+      fields: [],
+    });
+  });
+
+  return changes;
+}
@@ -0,0 +1,140 @@
+/**
+ * Annotations
+ * Grader markup for file answers, kept as an overlay document separate from
+ * the student's file. Positions are fractions of the page (0-1), so the markup
+ * lines up at any zoom level and on any screen.
+ */
+
+export type AnnotationTool = 'pen' | 'highlight' | 'comment' | 'stamp' | 'erase';
+
+export type StampKind = 'tick' | 'cross' | 'question' | 'star';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface AnnotationBase {
+  id: string;
+  page: number; // 0-based; images have a single page
+}
+
+export type Annotation =
+  | (AnnotationBase & { type: 'pen'; color: string; width: number; points: Point[] })
+  | (AnnotationBase & { type: 'highlight'; color: string; x: number; y: number; width: number; height: number })
+  | (AnnotationBase & { type: 'comment'; x: number; y: number; text: string })
+  | (AnnotationBase & { type: 'stamp'; x: number; y: number; stamp: StampKind });
+
+export interface AnnotationDocument {
+  version: number;
+  attempt_answer_id: number;
+  file_path: string; // the file the markup was drawn on
+  annotations: Annotation[];
+  updated_by?: number;
+  updated_at?: string;
+}
+
+export const ANNOTATION_VERSION = 1;
+
+export const PEN_COLORS = ['#dc2626', '#2563eb', '#16a34a', '#111827'];
+export const HIGHLIGHT_COLOR = '#facc15';
+
+export const STAMPS: Record<StampKind, { glyph: string; label: string; color: string }> = {
+  tick: { glyph: '✓', label: 'Correct', color: '#16a34a' },
+  cross: { glyph: '✗', label: 'Incorrect', color: '#dc2626' },
+  question: { glyph: '?', label: 'Unclear', color: '#d97706' },
+  star: { glyph: '★', label: 'Excellent', color: '#2563eb' },
+};
+
+// Points closer than this (as a fraction of the page) add nothing to a stroke
+const MIN_POINT_DISTANCE = 0.002;
+
+let annotationCounter = 0;
+
+export function createAnnotationId(): string {
+  return `a${Date.now().toString(36)}${(++annotationCounter).toString(36)}`;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Convert a position inside an element to page fractions
+ */
+export function toPagePoint(clientX: number, clientY: number, rect: { left: number; top: number; width: number; height: number }): Point {
+  return {
+    x: clamp((clientX - rect.left) / rect.width),
+    y: clamp((clientY - rect.top) / rect.height),
+  };
+}
+
+/**
+ * Drop points that are too close to the previous one, keeping the last point so the stroke ends where the pen lifted
+ */
+export function simplifyStroke(points: Point[], minDistance = MIN_POINT_DISTANCE): Point[] {
+  if (points.length <= 2) return points;
+
+  const result = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const last = result[result.length - 1];
+    if (Math.hypot(points[i].x - last.x, points[i].y - last.y) >= minDistance) {
+      result.push(points[i]);
+    }
+  }
+  result.push(points[points.length - 1]);
+  return result;
+}
+
+/**
+ * The rectangle spanned by two corners, in either drag direction
+ */
+export function rectFromPoints(start: Point, end: Point): { x: number; y: number; width: number; height: number } {
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+/**
+ * Comment numbers in reading order across the document, for the list beside the pages
+ */
+export function numberComments(annotations: Annotation[]): Map<string, number> {
+  const comments = annotations
+    .filter((annotation): annotation is Extract<Annotation, { type: 'comment' }> => annotation.type === 'comment')
+    .sort((a, b) => a.page - b.page || a.y - b.y || a.x - b.x);
+
+  return new Map(comments.map((comment, index) => [comment.id, index + 1]));
+}
+
+const isPoint = (value: unknown): value is Point =>
+  typeof value === 'object' && value !== null
+  && typeof (value as Point).x === 'number' && typeof (value as Point).y === 'number';
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  const item = value as Annotation;
+  if (typeof item !== 'object' || item === null || typeof item.id !== 'string' || typeof item.page !== 'number') {
+    return false;
+  }
+
+  switch (item.type) {
+    case 'pen':
+      return Array.isArray(item.points) && item.points.every(isPoint);
+    case 'highlight':
+      return [item.x, item.y, item.width, item.height].every(n => typeof n === 'number');
+    case 'comment':
+      return isPoint(item) && typeof item.text === 'string';
+    case 'stamp':
+      return isPoint(item) && item.stamp in STAMPS;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Annotations from a stored overlay document; unknown shapes are dropped rather than breaking the viewer
+ */
+export function readAnnotations(document: Pick<AnnotationDocument, 'annotations'> | null | undefined): Annotation[] {
+  if (!document || !Array.isArray(document.annotations)) return [];
+  return document.annotations.filter(isAnnotation);
+}
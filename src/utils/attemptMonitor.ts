@@ -0,0 +1,164 @@
+/**
+ * Attempt Monitor
+ * Per-attempt live state for teacher monitoring. REST snapshots and streamed
+ * WebSocket deltas are merged so that neither overwrites newer information
+ * from the other.
+ */
+
+import type { MonthlyExam, StudentAttempt } from '../services/api';
+import type {
+  AttemptStartedPayload,
+  AttemptUpdatedPayload,
+  AttemptSubmittedPayload,
+  ProctorEventPayload,
+} from '../services/websocket';
+import { parseExamEndTime } from './examDeadline';
+
+export interface MonitoredAttempt {
+  attempt_id: number;
+  monthly_exam_id?: number;
+  student_id?: number;
+  student_name?: string;
+  exam_title?: string;
+  status: StudentAttempt['status'];
+  started_at?: string;
+  finished_at?: string;
+  answered_count?: number;
+  total_questions?: number;
+  last_saved_at?: string;
+  proctor_event_count: number;
+  last_proctor_event?: { event_type: string; event_time: string };
+  updated_at: number; // when this row last received a snapshot or delta (ms)
+}
+
+export type AttemptTable = Record<number, MonitoredAttempt>;
+
+export type MonitorDelta =
+  | { event: 'attempt_started'; data: AttemptStartedPayload }
+  | { event: 'attempt_updated'; data: AttemptUpdatedPayload }
+  | { event: 'attempt_submitted'; data: AttemptSubmittedPayload }
+  | { event: 'proctor_event'; data: ProctorEventPayload };
+
+/**
+ * Display name for the student on an attempt
+ */
+export function getStudentName(attempt: StudentAttempt): string | undefined {
+  if (!attempt.student) return undefined;
+  return `${attempt.student.first_name} ${attempt.student.last_name}`.trim();
+}
+
+/**
+ * Display title for the exam on an attempt
+ */
+export function getExamTitle(attempt: StudentAttempt): string | undefined {
+  const exam = attempt.monthly_exam;
+  if (!exam) return undefined;
+  return exam.description || `${exam.grade?.name ? `${exam.grade.name} ` : ''}${exam.month}/${exam.year}`;
+}
+
+const localDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Whether students could be taking an online exam now: it is on or after the
+ * exam date and before the exam closes, or on the exam date when no end time is set
+ */
+export function isExamOpen(exam: Pick<MonthlyExam, 'online_enabled' | 'exam_date' | 'end_time'>, now: Date = new Date()): boolean {
+  if (!exam.online_enabled || !exam.exam_date) return false;
+
+  const examDay = exam.exam_date.split('T')[0];
+  const today = localDay(now);
+  if (today < examDay) return false;
+
+  const examEnd = parseExamEndTime(exam);
+  return examEnd ? now.getTime() < examEnd.getTime() : today === examDay;
+}
+
+const emptyRow = (attemptId: number, updatedAt: number): MonitoredAttempt => ({
+  attempt_id: attemptId,
+  status: 'in_progress',
+  proctor_event_count: 0,
+  updated_at: updatedAt,
+});
+
+/**
+ * Merge a REST snapshot of in-progress attempts into the table.
+ *
+ * Rows changed by a delta after the snapshot was fetched keep their streamed
+ * status, and in-progress rows missing from the snapshot are dropped unless a
+ * newer delta says otherwise.
+ */
+export function mergeSnapshot(table: AttemptTable, attempts: StudentAttempt[], fetchedAt: number): AttemptTable {
+  const next: AttemptTable = {};
+  const inSnapshot = new Set<number>();
+
+  for (const attempt of attempts) {
+    inSnapshot.add(attempt.id);
+    const existing = table[attempt.id];
+    const deltaIsNewer = existing !== undefined && existing.updated_at > fetchedAt;
+
+    next[attempt.id] = {
+      ...(existing || emptyRow(attempt.id, fetchedAt)),
+      monthly_exam_id: attempt.monthly_exam_id,
+      student_id: attempt.student_id,
+      student_name: getStudentName(attempt) ?? existing?.student_name,
+      exam_title: getExamTitle(attempt) ?? existing?.exam_title,
+      started_at: attempt.started_at ?? existing?.started_at,
+      status: deltaIsNewer ? existing.status : attempt.status,
+      finished_at: deltaIsNewer ? existing.finished_at : attempt.finished_at,
+      updated_at: Math.max(existing?.updated_at ?? 0, fetchedAt),
+    };
+  }
+
+  for (const row of Object.values(table)) {
+    if (inSnapshot.has(row.attempt_id)) continue;
+
+    // Finished attempts stay visible; silent in-progress ones have left the snapshot for a reason
+    if (row.status !== 'in_progress' || row.updated_at > fetchedAt) {
+      next[row.attempt_id] = row;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Apply one streamed event to the table
+ */
+export function applyDelta(table: AttemptTable, delta: MonitorDelta, receivedAt: number): AttemptTable {
+  const attemptId = delta.data.attempt_id;
+  const row = { ...(table[attemptId] || emptyRow(attemptId, receivedAt)), updated_at: receivedAt };
+
+  switch (delta.event) {
+    case 'attempt_started':
+      row.monthly_exam_id = delta.data.monthly_exam_id;
+      row.student_id = delta.data.student_id;
+      row.student_name = delta.data.student_name ?? row.student_name;
+      row.exam_title = delta.data.exam_title ?? row.exam_title;
+      row.started_at = delta.data.started_at;
+      row.status = 'in_progress';
+      break;
+
+    case 'attempt_updated':
+      row.answered_count = delta.data.answered_count ?? row.answered_count;
+      row.total_questions = delta.data.total_questions ?? row.total_questions;
+      row.last_saved_at = delta.data.last_saved_at ?? row.last_saved_at;
+      row.status = delta.data.status ?? row.status;
+      break;
+
+    case 'attempt_submitted':
+      row.status = delta.data.status;
+      row.finished_at = delta.data.finished_at;
+      break;
+
+    case 'proctor_event':
+      row.proctor_event_count += 1;
+      row.last_proctor_event = {
+        event_type: delta.data.event_type,
+        event_time: delta.data.event_time,
+      };
+      break;
+  }
+
+  return { ...table, [attemptId]: row };
+}
@@ -0,0 +1,340 @@
+/**
+ * Auto Grading
+ * Suggests marks for numeric and short answers from the answer specification
+ * in the question metadata. Each suggestion explains how it was reached, so a
+ * teacher can accept it or mark the answer by hand.
+ */
+
+export type ToleranceMode = 'absolute' | 'relative';
+
+export type WhitespaceMode = 'collapse' | 'ignore' | 'exact';
+
+export interface ToleranceBand {
+  tolerance: number;
+  tolerance_mode?: ToleranceMode;
+  credit: number; // 0-1
+}
+
+export interface NumericAnswerSpec {
+  type: 'numeric';
+  value: number;
+  tolerance?: number;
+  tolerance_mode?: ToleranceMode; // relative tolerance is a fraction of the value (0.05 = 5%)
+  units?: string[]; // accepted units; answers may include one
+  units_required?: boolean;
+  significant_figures?: number;
+  partial_credit?: {
+    bands?: ToleranceBand[]; // wider tolerances for less credit
+    wrong_units?: number; // credit factor when the number is right but the unit is missing or wrong
+    wrong_significant_figures?: number; // credit factor when the precision is wrong
+  };
+}
+
+export interface ShortPartialRule {
+  accepted?: string[];
+  patterns?: string[];
+  max_edit_distance?: number;
+  credit: number; // 0-1
+  feedback?: string; // shown as the explanation when this rule matches
+}
+
+export interface ShortAnswerSpec {
+  type: 'short';
+  accepted: string[];
+  case_sensitive?: boolean;
+  whitespace?: WhitespaceMode; // collapse runs of spaces (default), ignore them, or compare exactly
+  patterns?: string[]; // regular expressions that also earn full credit
+  max_edit_distance?: number; // spelling slips allowed against an accepted answer
+  near_miss_credit?: number; // credit for a slip within max_edit_distance (default 1)
+  partial_credit?: ShortPartialRule[];
+}
+
+export type AnswerSpec = NumericAnswerSpec | ShortAnswerSpec;
+
+export interface GradeSuggestion {
+  marks_awarded: number;
+  credit: number; // 0-1
+  correct: boolean; // full credit
+  explanation: string;
+}
+
+export interface ParsedNumber {
+  value: number;
+  unit: string;
+  significant_figures: number;
+}
+
+interface Outcome {
+  credit: number;
+  reasons: string[];
+}
+
+const EPSILON = 1e-9;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const clampCredit = (credit: number) => Math.min(1, Math.max(0, Number.isFinite(credit) ? credit : 0));
+const percent = (credit: number) => `${Math.round(credit * 100)}%`;
+
+const toStringList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value])
+    .filter(item => typeof item === 'string' || typeof item === 'number')
+    .map(String);
+
+/**
+ * The answer specification for a question. Questions without a `grading`
+ * block fall back to `correct_answer`, matched exactly (numeric) or ignoring
+ * case and extra spaces (short).
+ */
+export function getAnswerSpec(type: string, metadata: Record<string, unknown> | null | undefined): AnswerSpec | null {
+  if (!metadata) return null;
+  const grading = (metadata.grading ?? {}) as Record<string, unknown>;
+  const correct = metadata.correct_answer;
+
+  if (type === 'numeric') {
+    const value = Number(grading.value ?? correct);
+    if (grading.value === undefined && (correct === undefined || correct === null || correct === '')) return null;
+    if (!Number.isFinite(value)) return null;
+    return { ...(grading as Partial<NumericAnswerSpec>), type: 'numeric', value, units: toStringList(grading.units) };
+  }
+
+  if (type === 'short') {
+    const accepted = toStringList(grading.accepted ?? correct);
+    const patterns = toStringList(grading.patterns);
+    if (accepted.length === 0 && patterns.length === 0) return null;
+    return { ...(grading as Partial<ShortAnswerSpec>), type: 'short', accepted, patterns };
+  }
+
+  return null;
+}
+
+/**
+ * Significant figures as typed: trailing zeros count only after a decimal point
+ */
+export function countSignificantFigures(text: string): number {
+  const mantissa = text.trim().replace(/^[+-]/, '').split(/[eE]/)[0];
+  const hasPoint = mantissa.includes('.');
+  let digits = mantissa.replace('.', '').replace(/^0+/, '');
+  if (!hasPoint) digits = digits.replace(/0+$/, '');
+  return Math.max(1, digits.length);
+}
+
+/**
+ * Read a typed number with an optional unit, e.g. "9.81 m/s^2", "-1.2e3kg" or "1,200"
+ */
+export function parseNumericAnswer(text: string): ParsedNumber | null {
+  const match = text.trim().match(/^([+-]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d*)?(?:[eE][+-]?\d+)?)\s*(.*)$/);
+  if (!match || !/\d/.test(match[1])) return null;
+
+  const number = match[1].replace(/,/g, '');
+  const value = Number(number);
+  if (!Number.isFinite(value)) return null;
+
+  return { value, unit: match[2].trim(), significant_figures: countSignificantFigures(number) };
+}
+
+const normalizeUnit = (unit: string) => unit.replace(/\s+/g, '');
+
+/**
+ * Whether a value lies within a tolerance of the expected value
+ */
+export function isWithinTolerance(actual: number, expected: number, tolerance = 0, mode: ToleranceMode = 'absolute'): boolean {
+  const allowed = mode === 'relative' ? Math.abs(expected) * tolerance : tolerance;
+  return Math.abs(actual - expected) <= allowed + EPSILON * Math.max(1, Math.abs(expected));
+}
+
+const describeTolerance = (tolerance: number, mode: ToleranceMode = 'absolute') =>
+  mode === 'relative' ? `±${round2(tolerance * 100)}%` : `±${tolerance}`;
+
+function gradeNumeric(text: string, spec: NumericAnswerSpec): Outcome {
+  const parsed = parseNumericAnswer(text);
+  if (!parsed) return { credit: 0, reasons: ['The answer is not a number'] };
+
+  const reasons: string[] = [];
+  let credit = 0;
+
+  if (isWithinTolerance(parsed.value, spec.value, spec.tolerance, spec.tolerance_mode)) {
+    credit = 1;
+    reasons.push(spec.tolerance
+      ? `${parsed.value} is within ${describeTolerance(spec.tolerance, spec.tolerance_mode)} of ${spec.value}`
+      : `${parsed.value} matches ${spec.value}`);
+  } else {
+    const band = [...(spec.partial_credit?.bands || [])]
+      .sort((a, b) => b.credit - a.credit)
+      .find(item => isWithinTolerance(parsed.value, spec.value, item.tolerance, item.tolerance_mode));
+
+    if (!band) {
+      return { credit: 0, reasons: [`${parsed.value} is not close enough to ${spec.value}`] };
+    }
+    credit = clampCredit(band.credit);
+    reasons.push(`${parsed.value} is within ${describeTolerance(band.tolerance, band.tolerance_mode)} of ${spec.value}, worth ${percent(credit)}`);
+  }
+
+  const units = spec.units || [];
+  if (units.length > 0) {
+    const accepted = units.some(unit => normalizeUnit(unit) === normalizeUnit(parsed.unit));
+    const unitProblem = parsed.unit
+      ? (!accepted ? `Unit "${parsed.unit}" is not accepted (expected ${units.join(' or ')})` : null)
+      : (spec.units_required ? `Unit missing (expected ${units.join(' or ')})` : null);
+
+    if (unitProblem) {
+      const factor = clampCredit(spec.partial_credit?.wrong_units ?? 0);
+      credit *= factor;
+      reasons.push(`${unitProblem}; credit × ${percent(factor)}`);
+    }
+  }
+
+  if (spec.significant_figures && parsed.significant_figures !== spec.significant_figures) {
+    const factor = clampCredit(spec.partial_credit?.wrong_significant_figures ?? 0);
+    credit *= factor;
+    reasons.push(`Given to ${parsed.significant_figures} significant figures instead of ${spec.significant_figures}; credit × ${percent(factor)}`);
+  }
+
+  return { credit, reasons };
+}
+
+/**
+ * Normalise text for comparison according to the answer specification
+ */
+export function normalizeAnswer(text: string, spec: Pick<ShortAnswerSpec, 'case_sensitive' | 'whitespace'> = {}): string {
+  let result = text.normalize('NFKC');
+  switch (spec.whitespace ?? 'collapse') {
+    case 'collapse':
+      result = result.trim().replace(/\s+/g, ' ');
+      break;
+    case 'ignore':
+      result = result.replace(/\s+/g, '');
+      break;
+  }
+  return spec.case_sensitive ? result : result.toLowerCase();
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `limit`
+ */
+export function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const compilePatterns = (patterns: string[] = [], caseSensitive = false): RegExp[] =>
+  patterns.flatMap(pattern => {
+    try {
+      return [new RegExp(pattern, caseSensitive ? 'u' : 'iu')];
+    } catch {
+      return []; // an invalid pattern in the question shouldn't stop grading
+    }
+  });
+
+interface ShortMatch {
+  kind: 'exact' | 'pattern' | 'near';
+  target: string;
+  distance?: number;
+}
+
+function matchShort(
+  text: string,
+  rule: { accepted?: string[]; patterns?: string[]; max_edit_distance?: number },
+  spec: ShortAnswerSpec
+): ShortMatch | null {
+  const answer = normalizeAnswer(text, spec);
+  const accepted = rule.accepted || [];
+
+  const exact = accepted.find(item => normalizeAnswer(item, spec) === answer);
+  if (exact !== undefined) return { kind: 'exact', target: exact };
+
+  const trimmed = normalizeAnswer(text, { case_sensitive: true, whitespace: spec.whitespace });
+  const pattern = compilePatterns(rule.patterns, spec.case_sensitive).find(regex => regex.test(trimmed));
+  if (pattern) return { kind: 'pattern', target: pattern.source };
+
+  const limit = rule.max_edit_distance ?? 0;
+  if (limit > 0) {
+    let best: ShortMatch | null = null;
+    for (const item of accepted) {
+      const distance = editDistance(answer, normalizeAnswer(item, spec), limit);
+      if (distance <= limit && (!best || distance < (best.distance ?? Infinity))) {
+        best = { kind: 'near', target: item, distance };
+      }
+    }
+    return best;
+  }
+  return null;
+}
+
+const describeMatch = (match: ShortMatch) => {
+  switch (match.kind) {
+    case 'exact':
+      return `Matches the accepted answer "${match.target}"`;
+    case 'pattern':
+      return `Matches the pattern /${match.target}/`;
+    case 'near':
+      return `Within ${match.distance} ${match.distance === 1 ? 'edit' : 'edits'} of "${match.target}"`;
+  }
+};
+
+function gradeShort(text: string, spec: ShortAnswerSpec): Outcome {
+  const full = matchShort(text, spec, spec);
+  if (full) {
+    const credit = full.kind === 'near' ? clampCredit(spec.near_miss_credit ?? 1) : 1;
+    const reason = describeMatch(full);
+    return { credit, reasons: [credit < 1 ? `${reason}, worth ${percent(credit)}` : reason] };
+  }
+
+  const partial = (spec.partial_credit || [])
+    .map(rule => ({ rule, match: matchShort(text, rule, spec) }))
+    .filter((item): item is { rule: ShortPartialRule; match: ShortMatch } => item.match !== null)
+    .sort((a, b) => b.rule.credit - a.rule.credit)[0];
+
+  if (partial) {
+    const credit = clampCredit(partial.rule.credit);
+    return { credit, reasons: [partial.rule.feedback || `Partly correct: ${describeMatch(partial.match).toLowerCase()}, worth ${percent(credit)}`] };
+  }
+
+  return { credit: 0, reasons: ['Does not match any accepted answer'] };
+}
+
+/**
+ * Suggested marks for an answer under a specification
+ */
+export function gradeWithSpec(answer: string | number | null | undefined, spec: AnswerSpec, maxMarks: number): GradeSuggestion {
+  const text = answer === null || answer === undefined ? '' : String(answer);
+  const outcome = !text.trim()
+    ? { credit: 0, reasons: ['No answer given'] }
+    : spec.type === 'numeric' ? gradeNumeric(text, spec) : gradeShort(text, spec);
+
+  const credit = clampCredit(outcome.credit);
+  return {
+    marks_awarded: round2(credit * maxMarks),
+    credit,
+    correct: credit === 1,
+    explanation: outcome.reasons.join('. '),
+  };
+}
+
+/**
+ * Suggested marks for a question's answer, or null when the question can't be auto-graded
+ */
+export function suggestMarks(
+  question: { type: string; metadata?: Record<string, unknown> | null } | null | undefined,
+  answer: string | number | null | undefined,
+  maxMarks: number
+): GradeSuggestion | null {
+  if (!question) return null;
+  const spec = getAnswerSpec(question.type, question.metadata);
+  return spec ? gradeWithSpec(answer, spec, maxMarks) : null;
+}
@@ -0,0 +1,179 @@
+/**
+ * Question Bank Bundles
+ * A versioned JSON export of a question bank with its questions, choices and
+ * metadata, for sharing banks between schools. Authors and subjects travel
+ * with their names so they can be matched to the receiving school's own.
+ */
+
+import type { BackendQuestion, QuestionBank, Subject, Teacher } from '../services/api';
+import type { ImportedQuestion } from './questionImport';
+
+export const BANK_BUNDLE_FORMAT = 'question-bank-bundle';
+
+// Bump when the bundle shape changes; older bundles are upgraded in parseBankBundle
+export const BANK_BUNDLE_VERSION = 1;
+
+export interface BundleQuestion {
+  author_id: number;
+  type: BackendQuestion['type'];
+  prompt: string;
+  default_marks: number;
+  metadata: Record<string, unknown>;
+  choices: Array<{ choice_text: string; is_correct: boolean; position?: number }>;
+}
+
+export interface BankBundle {
+  format: typeof BANK_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  bank: { name: string; school_id: number; school_name?: string };
+  authors: Array<{ id: number; full_name?: string; email?: string }>;
+  subjects: Array<{ id: number; name: string; code?: string }>; // subjects named by metadata.subject_id
+  questions: BundleQuestion[];
+}
+
+export type BundleParseResult =
+  | { ok: true; bundle: BankBundle }
+  | { ok: false; error: string };
+
+// How one source author or subject was matched in the receiving school
+export interface BundleMatch {
+  source_id: number;
+  label: string;
+  target_id: number | null;
+}
+
+export interface BundleRemap {
+  questions: ImportedQuestion[];
+  authors: BundleMatch[];
+  subjects: BundleMatch[];
+}
+
+/**
+ * Bundle a bank's questions. Teachers and subjects are looked up to name the
+ * authors and metadata.subject_id values the questions use.
+ */
+export function buildBankBundle(
+  bank: QuestionBank,
+  questions: BackendQuestion[],
+  teachers: Teacher[] = [],
+  subjects: Subject[] = [],
+  exportedAt: Date = new Date()
+): BankBundle {
+  const authorIds = Array.from(new Set(questions.map(question => question.author_id)));
+  const subjectIds = Array.from(new Set(
+    questions.map(question => question.metadata?.subject_id).filter(id => id !== undefined && id !== null).map(Number)
+  ));
+
+  return {
+    format: BANK_BUNDLE_FORMAT,
+    version: BANK_BUNDLE_VERSION,
+    exported_at: exportedAt.toISOString(),
+    bank: { name: bank.name, school_id: bank.school_id, ...(bank.school?.name && { school_name: bank.school.name }) },
+    authors: authorIds.map(id => {
+      const teacher = teachers.find(item => item.id === id) ?? (questions.find(question => question.author_id === id)?.author);
+      return { id, ...(teacher && { full_name: teacher.full_name, email: teacher.email }) };
+    }),
+    subjects: subjectIds.map(id => {
+      const subject = subjects.find(item => item.id === id);
+      return { id, name: subject?.name ?? `Subject ${id}`, ...(subject?.code && { code: subject.code }) };
+    }),
+    questions: questions.map(question => ({
+      author_id: question.author_id,
+      type: question.type,
+      prompt: question.prompt,
+      default_marks: question.default_marks,
+      metadata: { ...(question.metadata ?? {}) },
+      choices: [...(question.choices ?? [])]
+        .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+        .map(choice => ({ choice_text: choice.choice_text, is_correct: choice.is_correct, position: choice.position })),
+    })),
+  };
+}
+
+/**
+ * Read a bundle file, rejecting anything that isn't a bundle or comes from a newer version
+ */
+export function parseBankBundle(text: string): BundleParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON' };
+  }
+
+  const bundle = data as Partial<BankBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== BANK_BUNDLE_FORMAT) {
+    return { ok: false, error: 'The file is not a question bank bundle' };
+  }
+  if (typeof bundle.version !== 'number' || bundle.version < 1) {
+    return { ok: false, error: 'The bundle has no version' };
+  }
+  if (bundle.version > BANK_BUNDLE_VERSION) {
+    return { ok: false, error: `The bundle is version ${bundle.version}; this app reads up to version ${BANK_BUNDLE_VERSION}` };
+  }
+  if (!bundle.bank || !Array.isArray(bundle.questions)) {
+    return { ok: false, error: 'The bundle has no bank or questions' };
+  }
+
+  return {
+    ok: true,
+    bundle: {
+      format: BANK_BUNDLE_FORMAT,
+      version: bundle.version,
+      exported_at: bundle.exported_at ?? '',
+      bank: bundle.bank,
+      authors: Array.isArray(bundle.authors) ? bundle.authors : [],
+      subjects: Array.isArray(bundle.subjects) ? bundle.subjects : [],
+      questions: bundle.questions,
+    },
+  };
+}
+
+const sameText = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Turn a bundle into questions for another school's bank. Authors are matched
+ * to the school's teachers by email, then name, falling back to fallbackAuthorId.
+ * Subjects are matched by code, then name; unmatched ones are dropped from metadata.
+ * Rows are the question's number in the bundle.
+ */
+export function remapBankBundle(
+  bundle: BankBundle,
+  teachers: Teacher[],
+  subjects: Subject[],
+  fallbackAuthorId: number
+): BundleRemap {
+  const authors: BundleMatch[] = bundle.authors.map(author => {
+    const teacher = teachers.find(item => sameText(item.email, author.email))
+      ?? teachers.find(item => sameText(item.full_name, author.full_name));
+    return { source_id: author.id, label: author.full_name || author.email || `Author ${author.id}`, target_id: teacher?.id ?? null };
+  });
+
+  const subjectMatches: BundleMatch[] = bundle.subjects.map(source => {
+    const subject = subjects.find(item => sameText(item.code, source.code)) ?? subjects.find(item => sameText(item.name, source.name));
+    return { source_id: source.id, label: source.name, target_id: subject?.id ?? null };
+  });
+
+  const questions = bundle.questions.map((question, index): ImportedQuestion => {
+    const { subject_id: sourceSubject, ...metadata } = question.metadata ?? {};
+    const subject = subjectMatches.find(match => match.source_id === Number(sourceSubject));
+
+    return {
+      row: index + 1,
+      author_id: authors.find(match => match.source_id === question.author_id)?.target_id ?? fallbackAuthorId,
+      type: question.type,
+      prompt: question.prompt ?? '',
+      default_marks: Number(question.default_marks),
+      metadata: subject?.target_id ? { ...metadata, subject_id: subject.target_id } : metadata,
+      choices: (question.choices ?? []).map((choice, position) => ({
+        choice_text: choice.choice_text,
+        is_correct: !!choice.is_correct,
+        position: choice.position ?? position + 1,
+      })),
+      errors: [],
+    };
+  });
+
+  return { questions, authors, subjects: subjectMatches };
+}
@@ -0,0 +1,255 @@
+/**
+ * Blueprint
+ * Compares an exam's questions with its blueprint, the planned number of
+ * questions and marks by type, subject, difficulty and topic, and picks bank
+ * questions that close the gaps without going past any target.
+ */
+
+import type { BackendQuestion, BlueprintDimension, BlueprintTarget, ExamBlueprint, ExamQuestion, ExamSubject } from '../services/api';
+import { getQuestionSubjectId } from './aggregates';
+
+export const BLUEPRINT_DIMENSIONS: BlueprintDimension[] = ['type', 'subject', 'difficulty', 'topic'];
+
+export const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+export type CoverageStatus = 'met' | 'under' | 'over';
+
+export interface TargetCoverage {
+  target: BlueprintTarget;
+  questions: number;
+  marks: number;
+  status: CoverageStatus;
+}
+
+export interface SubjectMarksCheck {
+  subject_id: number;
+  name?: string;
+  marks: number;
+  max_marks: number;
+  status: CoverageStatus;
+}
+
+export interface BlueprintCoverage {
+  questions: number;
+  marks: number;
+  questions_status?: CoverageStatus; // set when the blueprint has a total
+  marks_status?: CoverageStatus;
+  targets: TargetCoverage[];
+  subjects: SubjectMarksCheck[];
+  met: boolean;
+}
+
+// A question as the blueprint sees it, whether it's on the exam or still in a bank
+interface BlueprintItem {
+  question?: BackendQuestion;
+  marks: number;
+  subject_id?: number;
+}
+
+interface Tally {
+  questions: number;
+  marks: number;
+  targets: Array<{ questions: number; marks: number }>;
+  subjects: Map<number, number>; // marks by subject id
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * A question's difficulty from its metadata, lower-cased
+ */
+export function getQuestionDifficulty(question?: Pick<BackendQuestion, 'metadata'>): string | undefined {
+  const difficulty = question?.metadata?.difficulty;
+  return typeof difficulty === 'string' && difficulty.trim() ? difficulty.trim().toLowerCase() : undefined;
+}
+
+/**
+ * Topic tags from a list or a comma-separated string, lower-cased and without repeats
+ */
+export function parseTopics(tags: unknown): string[] {
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : [];
+  return Array.from(new Set(list.map(tag => String(tag).trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * A question's topic tags from its metadata
+ */
+export function getQuestionTopics(question?: Pick<BackendQuestion, 'metadata'>): string[] {
+  return parseTopics(question?.metadata?.tags);
+}
+
+const fromExamQuestion = (examQuestion: ExamQuestion): BlueprintItem => ({
+  question: examQuestion.question,
+  marks: Number(examQuestion.marks ?? examQuestion.question?.default_marks ?? 0) || 0,
+  subject_id: getQuestionSubjectId(examQuestion),
+});
+
+const fromBankQuestion = (question: BackendQuestion): BlueprintItem => {
+  const subjectId = question.metadata?.subject_id;
+  return {
+    question,
+    marks: Number(question.default_marks) || 0,
+    subject_id: subjectId !== undefined && subjectId !== null ? Number(subjectId) : undefined,
+  };
+};
+
+const dimensionValues = (item: BlueprintItem, dimension: BlueprintDimension): string[] => {
+  switch (dimension) {
+    case 'type':
+      return item.question ? [item.question.type] : [];
+    case 'subject':
+      return item.subject_id !== undefined ? [String(item.subject_id)] : [];
+    case 'difficulty': {
+      const difficulty = getQuestionDifficulty(item.question);
+      return difficulty ? [difficulty] : [];
+    }
+    case 'topic':
+      return getQuestionTopics(item.question);
+  }
+};
+
+const matchesTarget = (item: BlueprintItem, target: BlueprintTarget) =>
+  dimensionValues(item, target.dimension).includes(target.key);
+
+const statusOf = (actual: number, target: number): CoverageStatus =>
+  (round2(actual) < target ? 'under' : round2(actual) > target ? 'over' : 'met');
+
+const combineStatus = (statuses: Array<CoverageStatus | undefined>): CoverageStatus =>
+  (statuses.includes('over') ? 'over' : statuses.includes('under') ? 'under' : 'met');
+
+function tally(blueprint: ExamBlueprint, items: BlueprintItem[]): Tally {
+  const result: Tally = {
+    questions: items.length,
+    marks: 0,
+    targets: blueprint.targets.map(() => ({ questions: 0, marks: 0 })),
+    subjects: new Map(),
+  };
+
+  for (const item of items) {
+    result.marks += item.marks;
+    if (item.subject_id !== undefined) {
+      result.subjects.set(item.subject_id, (result.subjects.get(item.subject_id) ?? 0) + item.marks);
+    }
+    blueprint.targets.forEach((target, index) => {
+      if (!matchesTarget(item, target)) return;
+      result.targets[index].questions++;
+      result.targets[index].marks += item.marks;
+    });
+  }
+  return result;
+}
+
+/**
+ * How an exam's questions measure up to its blueprint, and each exam subject's
+ * question marks against the subject's max marks
+ */
+export function compareBlueprint(
+  blueprint: ExamBlueprint,
+  examQuestions: ExamQuestion[],
+  examSubjects: ExamSubject[] = []
+): BlueprintCoverage {
+  const counts = tally(blueprint, examQuestions.map(fromExamQuestion));
+
+  const targets = blueprint.targets.map((target, index): TargetCoverage => {
+    const { questions, marks } = counts.targets[index];
+    return {
+      target,
+      questions,
+      marks: round2(marks),
+      status: combineStatus([
+        target.questions !== undefined ? statusOf(questions, target.questions) : undefined,
+        target.marks !== undefined ? statusOf(marks, target.marks) : undefined,
+      ]),
+    };
+  });
+
+  const subjects = examSubjects.map((subject): SubjectMarksCheck => {
+    const marks = round2(counts.subjects.get(subject.subject_id) ?? 0);
+    return {
+      subject_id: subject.subject_id,
+      name: subject.subject?.name,
+      marks,
+      max_marks: subject.max_marks,
+      status: statusOf(marks, subject.max_marks),
+    };
+  });
+
+  const questionsStatus = blueprint.total_questions !== undefined ? statusOf(counts.questions, blueprint.total_questions) : undefined;
+  const marksStatus = blueprint.total_marks !== undefined ? statusOf(counts.marks, blueprint.total_marks) : undefined;
+
+  return {
+    questions: counts.questions,
+    marks: round2(counts.marks),
+    ...(questionsStatus && { questions_status: questionsStatus }),
+    ...(marksStatus && { marks_status: marksStatus }),
+    targets,
+    subjects,
+    met: combineStatus([questionsStatus, marksStatus, ...targets.map(item => item.status), ...subjects.map(item => item.status)]) === 'met',
+  };
+}
+
+/**
+ * Bank questions to add so the exam gets closer to its blueprint. Questions are
+ * picked one at a time, each time the one that fills the most unmet targets,
+ * ties going to the lower question id. A question is only picked if it matches
+ * a target in every dimension the blueprint sets and takes no target, total or
+ * subject max marks past its limit.
+ */
+export function autoFillBlueprint(
+  blueprint: ExamBlueprint,
+  examQuestions: ExamQuestion[],
+  candidates: BackendQuestion[],
+  examSubjects: ExamSubject[] = []
+): BackendQuestion[] {
+  const items = examQuestions.map(fromExamQuestion);
+  const onExam = new Set(examQuestions.map(item => item.question_id));
+  const remaining = candidates.filter(question => !onExam.has(question.id)).sort((a, b) => a.id - b.id);
+  const dimensions = BLUEPRINT_DIMENSIONS.filter(dimension => blueprint.targets.some(target => target.dimension === dimension));
+  const maxBySubject = new Map(examSubjects.map(subject => [subject.subject_id, subject.max_marks]));
+  const picked: BackendQuestion[] = [];
+
+  // How many unmet targets the question fills, or null if it doesn't fit
+  const scoreItem = (item: BlueprintItem, counts: Tally): number | null => {
+    if (blueprint.total_questions !== undefined && counts.questions + 1 > blueprint.total_questions) return null;
+    if (blueprint.total_marks !== undefined && round2(counts.marks + item.marks) > blueprint.total_marks) return null;
+
+    const subjectMax = item.subject_id !== undefined ? maxBySubject.get(item.subject_id) : undefined;
+    if (item.subject_id !== undefined && subjectMax !== undefined
+      && round2((counts.subjects.get(item.subject_id) ?? 0) + item.marks) > subjectMax) return null;
+
+    if (!dimensions.every(dimension => blueprint.targets.some(target => target.dimension === dimension && matchesTarget(item, target)))) {
+      return null;
+    }
+
+    let score = blueprint.total_questions !== undefined || blueprint.total_marks !== undefined ? 1 : 0;
+    for (const [index, target] of blueprint.targets.entries()) {
+      if (!matchesTarget(item, target)) continue;
+      const current = counts.targets[index];
+      if (target.questions !== undefined && current.questions + 1 > target.questions) return null;
+      if (target.marks !== undefined && round2(current.marks + item.marks) > target.marks) return null;
+      score++;
+    }
+    return score;
+  };
+
+  for (;;) {
+    const counts = tally(blueprint, items);
+    let bestIndex = -1;
+    let bestScore = 0;
+
+    for (const [index, question] of remaining.entries()) {
+      const score = scoreItem(fromBankQuestion(question), counts);
+      if (score !== null && score > bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    }
+
+    if (bestIndex < 0) break;
+    const [question] = remaining.splice(bestIndex, 1);
+    picked.push(question);
+    items.push(fromBankQuestion(question));
+  }
+
+  return picked;
+}
@@ -0,0 +1,110 @@
+/**
+ * Clock synchronization helpers
+ * NTP-style offset estimation from request/response round trips against the server clock
+ */
+
+export interface ClockSample {
+  offset: number; // milliseconds to add to the client clock to get server time
+  roundTrip: number; // milliseconds
+}
+
+export type SyncConfidence = 'high' | 'medium' | 'low' | 'none';
+
+export interface ClockEstimate {
+  offset: number;
+  roundTrip: number;
+  uncertainty: number; // +/- milliseconds
+  confidence: SyncConfidence;
+  samplesUsed: number;
+  samplesRejected: number;
+}
+
+// Samples slower than this multiple of the median round trip are treated as latency spikes
+const ROUND_TRIP_OUTLIER_FACTOR = 1.5;
+// Offsets further than this many median absolute deviations from the median are discarded
+const OFFSET_OUTLIER_MADS = 3;
+// Never reject offsets closer than this to the median, whatever the spread
+const MIN_OFFSET_TOLERANCE_MS = 25;
+
+const HIGH_CONFIDENCE_MS = 250;
+const MEDIUM_CONFIDENCE_MS = 1000;
+const MIN_SAMPLES_FOR_HIGH_CONFIDENCE = 3;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Build a sample from one round trip.
+ * Assumes the server stamped its time half way through the round trip.
+ */
+export function createClockSample(
+  requestSentAt: number,
+  serverTime: number,
+  responseReceivedAt: number
+): ClockSample {
+  const roundTrip = Math.max(0, responseReceivedAt - requestSentAt);
+  const midpoint = requestSentAt + roundTrip / 2;
+
+  return {
+    offset: serverTime - midpoint,
+    roundTrip,
+  };
+}
+
+/**
+ * Combine several samples into a single offset estimate, rejecting outliers
+ */
+export function estimateClockOffset(samples: ClockSample[]): ClockEstimate | null {
+  if (samples.length === 0) return null;
+
+  // Drop samples whose round trip was unusually slow: their midpoint assumption is least reliable
+  const roundTripCutoff = median(samples.map(sample => sample.roundTrip)) * ROUND_TRIP_OUTLIER_FACTOR;
+  const fastSamples = samples.filter(sample => sample.roundTrip <= roundTripCutoff);
+
+  // Drop samples whose offset disagrees with the rest
+  const medianOffset = median(fastSamples.map(sample => sample.offset));
+  const deviation = median(fastSamples.map(sample => Math.abs(sample.offset - medianOffset)));
+  const tolerance = Math.max(deviation * OFFSET_OUTLIER_MADS, MIN_OFFSET_TOLERANCE_MS);
+  const accepted = fastSamples.filter(sample => Math.abs(sample.offset - medianOffset) <= tolerance);
+
+  const offsets = accepted.map(sample => sample.offset);
+  const bestRoundTrip = Math.min(...accepted.map(sample => sample.roundTrip));
+  const spread = Math.max(...offsets) - Math.min(...offsets);
+  const uncertainty = bestRoundTrip / 2 + spread / 2;
+
+  let confidence: SyncConfidence;
+  if (uncertainty <= HIGH_CONFIDENCE_MS && accepted.length >= MIN_SAMPLES_FOR_HIGH_CONFIDENCE) {
+    confidence = 'high';
+  } else if (uncertainty <= MEDIUM_CONFIDENCE_MS) {
+    confidence = 'medium';
+  } else {
+    confidence = 'low';
+  }
+
+  return {
+    offset: Math.round(median(offsets)),
+    roundTrip: bestRoundTrip,
+    uncertainty: Math.round(uncertainty),
+    confidence,
+    samplesUsed: accepted.length,
+    samplesRejected: samples.length - accepted.length,
+  };
+}
+
+/**
+ * Rate at which the client clock is drifting from the server clock, in milliseconds per minute
+ */
+export function calculateDrift(
+  previousOffset: number,
+  previousSyncedAt: number,
+  currentOffset: number,
+  currentSyncedAt: number
+): number | null {
+  const elapsedMinutes = (currentSyncedAt - previousSyncedAt) / 60000;
+  if (elapsedMinutes <= 0) return null;
+
+  return (currentOffset - previousOffset) / elapsedMinutes;
+}
@@ -0,0 +1,133 @@
+/**
+ * Double Marking
+ * Rules for blind double marking. Each answer gets two markers, who can't see
+ * each other's marks. Close marks are averaged. Marks that differ too much go
+ * to the exam's moderator, whose mark becomes final.
+ */
+
+import type { MonthlyExam, AnswerMark } from '../services/api';
+
+export type MarkerRole = 'first' | 'second';
+
+export type DoubleMarkStage = 'marking' | 'moderation' | 'agreed' | 'moderated';
+
+export interface DoubleMarkOutcome {
+  stage: DoubleMarkStage;
+  final_marks?: number; // set once agreed or moderated
+  difference?: number; // gap between the two markers, once both have marked
+}
+
+export const DEFAULT_MODERATION_THRESHOLD = 10; // % of the question's marks
+
+type DoubleMarkingSettings = Pick<MonthlyExam, 'grading_mode' | 'marker_ids' | 'moderator_id' | 'moderation_threshold'>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function isDoubleMarked(exam?: Pick<MonthlyExam, 'grading_mode'> | null): boolean {
+  return exam?.grading_mode === 'double_blind';
+}
+
+/**
+ * The two teachers who mark an answer. Pairs rotate through the marker pool
+ * so the work is shared evenly, and the same answer always gets the same pair.
+ */
+export function assignMarkers(answerId: number, markerIds: number[] = []): [number, number] | null {
+  const pool = Array.from(new Set(markerIds)).sort((a, b) => a - b);
+  if (pool.length < 2) return null;
+
+  const first = answerId % pool.length;
+  return [pool[first], pool[(first + 1) % pool.length]];
+}
+
+/**
+ * Which of the two marking slots a teacher holds for an answer, if any
+ */
+export function getMarkerRole(answerId: number, exam: DoubleMarkingSettings, teacherId: number | null): MarkerRole | null {
+  if (teacherId === null) return null;
+
+  const pair = assignMarkers(answerId, exam.marker_ids);
+  if (!pair) return null;
+  if (pair[0] === teacherId) return 'first';
+  if (pair[1] === teacherId) return 'second';
+  return null;
+}
+
+/**
+ * Largest gap between the two marks that still counts as agreement
+ */
+export function getModerationLimit(maxMarks: number, threshold = DEFAULT_MODERATION_THRESHOLD): number {
+  return round2((maxMarks * threshold) / 100);
+}
+
+/**
+ * The latest mark recorded in a role, in case a marker re-submitted
+ */
+export function latestMark(marks: AnswerMark[], role: AnswerMark['role']): AnswerMark | undefined {
+  return marks
+    .filter(mark => mark.role === role)
+    .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? '') || a.id - b.id)
+    .pop();
+}
+
+/**
+ * Where an answer stands given the marks recorded for it so far
+ */
+export function resolveDoubleMarks(
+  marks: AnswerMark[],
+  maxMarks: number,
+  threshold = DEFAULT_MODERATION_THRESHOLD
+): DoubleMarkOutcome {
+  const first = latestMark(marks, 'first');
+  const second = latestMark(marks, 'second');
+  const moderator = latestMark(marks, 'moderator');
+  const difference = first && second ? round2(Math.abs(first.marks - second.marks)) : undefined;
+
+  if (moderator) {
+    return { stage: 'moderated', final_marks: moderator.marks, difference };
+  }
+  if (!first || !second || difference === undefined) {
+    return { stage: 'marking' };
+  }
+  if (difference > getModerationLimit(maxMarks, threshold)) {
+    return { stage: 'moderation', difference };
+  }
+  return { stage: 'agreed', final_marks: round2((first.marks + second.marks) / 2), difference };
+}
+
+/**
+ * Feedback for the student once two markers agree: both comments, without repeats
+ */
+export function mergeMarkerFeedback(marks: AnswerMark[]): string | undefined {
+  const comments = [latestMark(marks, 'first'), latestMark(marks, 'second')]
+    .map(mark => mark?.feedback?.trim())
+    .filter((comment): comment is string => !!comment);
+
+  const unique = Array.from(new Set(comments));
+  return unique.length > 0 ? unique.join('\n\n') : undefined;
+}
+
+/**
+ * Whether a teacher already marked an answer in their own slot
+ */
+export function hasMarked(marks: AnswerMark[], teacherId: number | null, role: AnswerMark['role']): boolean {
+  return marks.some(mark => mark.marker_id === teacherId && mark.role === role);
+}
+
+/**
+ * Validate an exam's double-marking settings; returns an error message or null
+ */
+export function validateDoubleMarking(settings: DoubleMarkingSettings): string | null {
+  if (!isDoubleMarked(settings)) return null;
+
+  const markers = new Set(settings.marker_ids || []);
+  if (markers.size < 2) return 'Choose at least two markers';
+  if (!settings.moderator_id) return 'Choose a moderator';
+  // A moderator settling a dispute over their own mark isn't independent
+  if (markers.has(settings.moderator_id)) return 'The moderator cannot also be a marker';
+
+  const threshold = settings.moderation_threshold ?? DEFAULT_MODERATION_THRESHOLD;
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    return 'Moderation threshold must be between 0 and 100%';
+  }
+  return null;
+}
@@ -0,0 +1,47 @@
+/**
+ * Exam Answers
+ * Turns the value a question card reports into the fields saved for the
+ * answer: picked choices for choice questions, the stored path for file
+ * answers and text for everything else.
+ */
+
+import type { JournalEntry } from '../services/answerJournal';
+import type { Question } from '../services/api';
+
+export type AnswerFields = Pick<JournalEntry, 'question_id' | 'choice_id' | 'choice_ids' | 'answer_text' | 'uploaded_file'>;
+
+/**
+ * Whether a choice question takes several picks: it has more than one correct
+ * choice, or says so when the answer key has been left out
+ */
+export function allowsMultipleChoices(question: Pick<Question, 'choices' | 'metadata'>): boolean {
+  if (question.metadata?.multiple_answers === true) return true;
+  return (question.choices?.filter(choice => choice.is_correct).length ?? 0) > 1;
+}
+
+/**
+ * Whether the card's value counts as an answer; clearing every pick does not
+ */
+export function hasAnswer(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== '';
+}
+
+export function toAnswerFields(questionId: number | string, type: Question['type'] | undefined, answer: unknown): AnswerFields {
+  const isFileAnswer = type === 'file';
+
+  if (type === 'mcq') {
+    // Multiple-answer questions report every pick; an empty list clears the answer
+    if (Array.isArray(answer)) return { question_id: questionId, choice_ids: answer.map(Number) };
+    return { question_id: questionId, choice_id: Number(answer) };
+  }
+
+  return {
+    question_id: questionId,
+    ...(typeof answer === 'string' && !isFileAnswer ? { answer_text: answer } : {}),
+    ...(typeof answer === 'boolean' ? { answer_text: answer.toString() } : {}),
+    ...(typeof answer === 'number' ? { answer_text: answer.toString() } : {}),
+    ...(typeof answer === 'object' && answer !== null && 'id' in answer && answer.id ? { choice_id: Number(answer.id) } : {}),
+    ...(typeof answer === 'string' && (isFileAnswer || answer.startsWith('http')) ? { uploaded_file: answer } : {}),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Exam deadline helpers
+ * Derives when an attempt must end from server-side attempt and exam data
+ */
+
+import type { MonthlyExam, StudentAttempt } from '../services/api';
+
+/**
+ * Resolve the exam's closing time.
+ * `end_time` is either a full timestamp or a time of day (HH:MM) on `exam_date`.
+ */
+export function parseExamEndTime(exam: Pick<MonthlyExam, 'exam_date' | 'end_time'>): Date | null {
+  if (!exam.end_time) return null;
+
+  if (/^\d{1,2}:\d{2}(:\d{2})?$/.test(exam.end_time)) {
+    if (!exam.exam_date) return null;
+    const datePart = exam.exam_date.split('T')[0];
+    const endTime = new Date(`${datePart}T${exam.end_time.padStart(5, '0')}`);
+    return isNaN(endTime.getTime()) ? null : endTime;
+  }
+
+  const endTime = new Date(exam.end_time);
+  return isNaN(endTime.getTime()) ? null : endTime;
+}
+
+/**
+ * The attempt ends at `started_at + duration_minutes` or the exam's `end_time`, whichever comes first
+ */
+export function resolveAttemptDeadline(
+  attempt: Pick<StudentAttempt, 'started_at'>,
+  exam?: Pick<MonthlyExam, 'exam_date' | 'end_time' | 'duration_minutes'> | null
+): Date | null {
+  const candidates: number[] = [];
+
+  if (attempt.started_at && exam?.duration_minutes) {
+    const startedAt = new Date(attempt.started_at).getTime();
+    if (!isNaN(startedAt)) {
+      candidates.push(startedAt + exam.duration_minutes * 60 * 1000);
+    }
+  }
+
+  const examEnd = exam ? parseExamEndTime(exam) : null;
+  if (examEnd) {
+    candidates.push(examEnd.getTime());
+  }
+
+  return candidates.length > 0 ? new Date(Math.min(...candidates)) : null;
+}
+
+/**
+ * Whole seconds left until the deadline, measured on the server clock
+ */
+export function getRemainingSeconds(deadline: Date, serverNow: number): number {
+  return Math.max(0, Math.ceil((deadline.getTime() - serverNow) / 1000));
+}
@@ -0,0 +1,198 @@
+/**
+ * GIFT Parser
+ * Reads Moodle GIFT question files: multiple choice (including several right
+ * answers with % weights), true/false, short answer, numeric, essay and
+ * missing-word questions. Matching questions are reported as unsupported.
+ * The last part of each $CATEGORY becomes a topic tag.
+ */
+
+import { emptyImportedQuestion, trueFalseChoices } from './questionImport';
+import type { ImportedQuestion } from './questionImport';
+
+// Escaped special characters are swapped for private-use characters while parsing
+const ESCAPES: Record<string, string> = {
+  '\\\\': '\uE000',
+  '\\~': '\uE001',
+  '\\=': '\uE002',
+  '\\#': '\uE003',
+  '\\{': '\uE004',
+  '\\}': '\uE005',
+  '\\:': '\uE006',
+};
+
+const protect = (text: string) => text.replace(/\\[\\~=#{}:]/g, match => ESCAPES[match]);
+
+const restore = (text: string) =>
+  Object.entries(ESCAPES).reduce((result, [escaped, placeholder]) => result.split(placeholder).join(escaped.slice(1)), text)
+    .replace(/\\n/g, '\n');
+
+const clean = (text: string) => restore(text).trim();
+
+// Per-answer feedback follows a "#"; only the answer itself is kept
+const withoutFeedback = (text: string) => text.split('#')[0];
+
+interface GiftItem {
+  line: number;
+  text: string;
+  category?: string;
+}
+
+/**
+ * Split a GIFT file into question texts, dropping comments and tracking categories
+ */
+export function splitGiftItems(text: string): GiftItem[] {
+  const items: GiftItem[] = [];
+  let category: string | undefined;
+  let current: GiftItem | null = null;
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+
+    if (line.startsWith('//')) return;
+
+    const categoryMatch = line.match(/^\$CATEGORY:\s*(.*)$/i);
+    if (categoryMatch) {
+      category = categoryMatch[1].split('/').pop()?.trim().toLowerCase() || undefined;
+      current = null;
+      return;
+    }
+
+    if (!line) {
+      current = null;
+      return;
+    }
+
+    if (!current) {
+      current = { line: index + 1, text: raw, ...(category && { category }) };
+      items.push(current);
+    } else {
+      current.text += `\n${raw}`;
+    }
+  });
+
+  return items;
+}
+
+// "3.14:0.01" or "1..5" to a value and tolerance
+const parseNumericAnswer = (text: string): { value: number; tolerance?: number } | null => {
+  const range = text.match(/^\s*(-?[\d.eE+-]+)\s*\.\.\s*(-?[\d.eE+-]+)\s*$/);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+    return { value: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+
+  const [value, tolerance] = text.split(':').map(part => part.trim());
+  if (value === '' || !Number.isFinite(Number(value))) return null;
+  return tolerance && Number.isFinite(Number(tolerance))
+    ? { value: Number(value), tolerance: Number(tolerance) }
+    : { value: Number(value) };
+};
+
+// Answers in a block with their "=" or "~" marker and any "%weight%"
+const splitAnswers = (block: string): Array<{ marker: '=' | '~'; weight?: number; text: string }> =>
+  Array.from(block.matchAll(/([=~])([^=~]*)/g)).map(match => {
+    const weighted = match[2].match(/^\s*%(-?[\d.]+)%([\s\S]*)$/);
+    return {
+      marker: match[1] as '=' | '~',
+      ...(weighted && { weight: Number(weighted[1]) }),
+      text: weighted ? weighted[2] : match[2],
+    };
+  });
+
+function parseAnswerBlock(question: ImportedQuestion, block: string): void {
+  // General feedback after "####" is kept as the explanation
+  const [answers, general] = block.split('####');
+  if (general?.trim()) question.metadata.explanation = clean(general);
+  const content = answers.trim();
+
+  if (content === '') {
+    question.type = 'essay';
+    return;
+  }
+
+  if (content.startsWith('#')) {
+    question.type = 'numeric';
+    const body = content.slice(1);
+    const options = body.includes('=')
+      ? splitAnswers(body).filter(answer => answer.marker === '=' && (answer.weight === undefined || answer.weight >= 100))
+      : [{ text: body }];
+    const parsed = options.length > 0 ? parseNumericAnswer(restore(withoutFeedback(options[0].text))) : null;
+
+    if (!parsed) {
+      question.errors.push('The numeric answer could not be read');
+      return;
+    }
+    question.metadata.correct_answer = parsed.value;
+    if (parsed.tolerance !== undefined) question.metadata.grading = { value: parsed.value, tolerance: parsed.tolerance };
+    return;
+  }
+
+  const trueFalse = withoutFeedback(content).trim().toUpperCase();
+  if (['T', 'TRUE', 'F', 'FALSE'].includes(trueFalse)) {
+    question.type = 'tf';
+    question.choices = trueFalseChoices(trueFalse.startsWith('T'));
+    question.metadata.correct_answer = trueFalse.startsWith('T');
+    return;
+  }
+
+  const options = splitAnswers(content);
+  if (options.length === 0) {
+    question.errors.push('The answers could not be read');
+    return;
+  }
+  if (options.some(option => option.text.includes('->'))) {
+    question.type = 'mcq';
+    question.errors.push('Matching questions are not supported');
+    return;
+  }
+
+  // Only "=" answers: any of them is accepted as a short answer
+  if (options.every(option => option.marker === '=')) {
+    question.type = 'short';
+    question.metadata.correct_answer = options.map(option => clean(withoutFeedback(option.text))).filter(Boolean);
+    return;
+  }
+
+  question.type = 'mcq';
+  question.choices = options.map((option, index) => ({
+    choice_text: clean(withoutFeedback(option.text)),
+    is_correct: option.weight !== undefined ? option.weight > 0 : option.marker === '=',
+    position: index + 1,
+  }));
+}
+
+/**
+ * Questions from a GIFT file. Rows are the line each question starts on.
+ */
+export function parseGiftQuestions(text: string): ImportedQuestion[] {
+  return splitGiftItems(text).map(item => {
+    const question = emptyImportedQuestion(item.line);
+    let body = protect(item.text).trim();
+
+    const title = body.match(/^::([\s\S]*?)::/);
+    if (title) {
+      question.source = clean(title[1]);
+      body = body.slice(title[0].length).trim();
+    }
+    body = body.replace(/^\[(html|moodle|plain|markdown)\]/i, '').trim();
+    if (item.category) question.metadata.tags = [item.category];
+
+    const open = body.indexOf('{');
+    const close = open >= 0 ? body.indexOf('}', open) : -1;
+    if (open < 0 || close < 0) {
+      question.prompt = clean(body);
+      question.errors.push('No answer block between { and }; descriptions are not imported');
+      return question;
+    }
+
+    // Text after the answers makes it a missing-word question
+    const before = body.slice(0, open).trim();
+    const after = body.slice(close + 1).trim();
+    question.prompt = clean(after ? `${before} _____ ${after}` : before);
+
+    parseAnswerBlock(question, body.slice(open + 1, close));
+    return question;
+  });
+}
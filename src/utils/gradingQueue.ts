@@ -0,0 +1,269 @@
+/**
+ * Grading Queue
+ * Builds the teacher's manual marking queue from submitted attempts and their
+ * answers, grouped by exam and then by question. Double-marked exams also
+ * feed the moderator's queue.
+ */
+
+import type { StudentAttempt, AttemptAnswer, ExamQuestion, BackendQuestion, MonthlyExam, AnswerMark } from '../services/api';
+import { getStudentName, getExamTitle } from './attemptMonitor';
+import { isDoubleMarked, getMarkerRole, hasMarked, latestMark, resolveDoubleMarks } from './doubleMarking';
+import type { MarkerRole } from './doubleMarking';
+import { suggestMarks } from './autoGrading';
+import type { GradeSuggestion } from './autoGrading';
+import { getAttemptLayout, getDisplayedPosition } from './shuffle';
+import { drawAttemptQuestions } from './pools';
+
+export const MANUAL_GRADING_TYPES: BackendQuestion['type'][] = ['essay', 'short', 'file'];
+
+// Attempts whose answers may still need marking
+export const GRADABLE_STATUSES: StudentAttempt['status'][] = ['submitted', 'grading'];
+
+export interface GradingData {
+  attempts: StudentAttempt[];
+  answers: Record<number, AttemptAnswer[]>; // by attempt id
+  examQuestions: Record<number, ExamQuestion[]>; // by exam id
+  exams?: Record<number, MonthlyExam>; // by exam id, for grading settings
+  marks?: Record<number, AnswerMark[]>; // double-marking marks by attempt answer id
+}
+
+export interface GradingTask {
+  answer: AttemptAnswer;
+  attempt: StudentAttempt;
+  student_name: string;
+  max_marks: number;
+  marker_role?: MarkerRole; // set when the exam is double marked
+  suggestion?: GradeSuggestion; // auto-graded marks for numeric and short answers
+  display_position?: number; // where the student saw the question, when the attempt was shuffled
+}
+
+export interface ModerationTask extends GradingTask {
+  question?: BackendQuestion;
+  exam_title: string;
+  first_mark: AnswerMark;
+  second_mark: AnswerMark;
+  difference: number;
+}
+
+export interface QuestionGroup {
+  question_id: number;
+  question?: BackendQuestion;
+  max_marks: number;
+  tasks: GradingTask[];
+}
+
+export interface ExamGroup {
+  monthly_exam_id: number;
+  exam_title: string;
+  questions: QuestionGroup[];
+  pending_count: number;
+  graded_count: number; // manual answers already marked in these attempts
+  double_marked: boolean;
+  latest_submission?: string;
+}
+
+/**
+ * The question an answer belongs to, from the answer or the exam's question list
+ */
+export function getAnswerQuestion(answer: AttemptAnswer, examQuestions: ExamQuestion[] = []): BackendQuestion | undefined {
+  return answer.question ?? examQuestions.find(item => item.question_id === answer.question_id)?.question;
+}
+
+/**
+ * Marks available for a question in this exam; the exam can override the question's default
+ */
+export function getMaxMarks(questionId: number, examQuestions: ExamQuestion[] = [], question?: BackendQuestion): number {
+  const examQuestion = examQuestions.find(item => item.question_id === questionId);
+  return examQuestion?.marks ?? examQuestion?.question?.default_marks ?? question?.default_marks ?? 0;
+}
+
+/**
+ * Whether a teacher has to mark this answer: open-ended types, or anything the auto-grader skipped
+ */
+export function requiresManualGrading(answer: AttemptAnswer, question?: BackendQuestion): boolean {
+  if (answer.auto_graded === false) return true;
+  return question !== undefined && MANUAL_GRADING_TYPES.includes(question.type);
+}
+
+export function isAnswerGraded(answer: AttemptAnswer): boolean {
+  return !!answer.graded_at && answer.marks_awarded !== undefined && answer.marks_awarded !== null;
+}
+
+/**
+ * True once every answer that needs a teacher has been marked
+ */
+export function isAttemptFullyGraded(answers: AttemptAnswer[], examQuestions: ExamQuestion[] = []): boolean {
+  return answers.every(answer =>
+    !requiresManualGrading(answer, getAnswerQuestion(answer, examQuestions)) || isAnswerGraded(answer)
+  );
+}
+
+/**
+ * Sum of the marks awarded across an attempt's answers
+ */
+export function getAttemptScore(answers: AttemptAnswer[]): number {
+  return answers.reduce((total, answer) => total + (answer.marks_awarded ?? 0), 0);
+}
+
+/**
+ * Total marks available in an exam
+ */
+export function getExamMaxMarks(examQuestions: ExamQuestion[]): number {
+  return examQuestions.reduce(
+    (total, item) => total + (item.marks ?? item.question?.default_marks ?? 0),
+    0
+  );
+}
+
+const getTaskStudentName = (attempt: StudentAttempt) =>
+  getStudentName(attempt) || `Student #${attempt.student_id}`;
+
+/**
+ * Group answers awaiting manual marking by exam and question.
+ * Exams with nothing left to mark are left out. On double-marked exams a
+ * teacher only gets the answers assigned to them that they haven't marked.
+ */
+export function buildGradingQueue(data: GradingData, graderId: number | null = null): ExamGroup[] {
+  const exams = new Map<number, ExamGroup & { byQuestion: Map<number, QuestionGroup> }>();
+
+  for (const attempt of data.attempts) {
+    if (!GRADABLE_STATUSES.includes(attempt.status)) continue;
+
+    const answers = data.answers[attempt.id] || [];
+    const settings = data.exams?.[attempt.monthly_exam_id] ?? attempt.monthly_exam;
+    const examQuestions = drawAttemptQuestions(attempt, settings, data.examQuestions[attempt.monthly_exam_id] || []);
+    const doubleMarked = !!settings && isDoubleMarked(settings);
+    const layout = attempt.attempt_token ? getAttemptLayout(attempt, settings, examQuestions) : undefined;
+
+    let exam = exams.get(attempt.monthly_exam_id);
+    if (!exam) {
+      exam = {
+        monthly_exam_id: attempt.monthly_exam_id,
+        exam_title: getExamTitle(attempt) || `Exam #${attempt.monthly_exam_id}`,
+        questions: [],
+        pending_count: 0,
+        graded_count: 0,
+        double_marked: doubleMarked,
+        byQuestion: new Map(),
+      };
+      exams.set(attempt.monthly_exam_id, exam);
+    }
+
+    if (attempt.finished_at && (!exam.latest_submission || attempt.finished_at > exam.latest_submission)) {
+      exam.latest_submission = attempt.finished_at;
+    }
+
+    for (const answer of answers) {
+      const question = getAnswerQuestion(answer, examQuestions);
+      if (!requiresManualGrading(answer, question)) continue;
+
+      if (isAnswerGraded(answer)) {
+        exam.graded_count++;
+        continue;
+      }
+
+      let markerRole: MarkerRole | undefined;
+      if (doubleMarked && settings) {
+        const role = getMarkerRole(answer.id, settings, graderId);
+        if (!role || hasMarked(data.marks?.[answer.id] || [], graderId, role)) continue;
+        markerRole = role;
+      }
+
+      let group = exam.byQuestion.get(answer.question_id);
+      if (!group) {
+        group = {
+          question_id: answer.question_id,
+          question,
+          max_marks: getMaxMarks(answer.question_id, examQuestions, question),
+          tasks: [],
+        };
+        exam.byQuestion.set(answer.question_id, group);
+      }
+
+      const suggestion = suggestMarks(question, answer.answer_text, group.max_marks);
+      const displayPosition = layout ? getDisplayedPosition(layout, answer.question_id) : 0;
+      group.tasks.push({
+        answer,
+        attempt,
+        student_name: getTaskStudentName(attempt),
+        max_marks: group.max_marks,
+        ...(markerRole && { marker_role: markerRole }),
+        ...(suggestion && { suggestion }),
+        ...(displayPosition > 0 && { display_position: displayPosition }),
+      });
+      exam.pending_count++;
+    }
+  }
+
+  return Array.from(exams.values())
+    .filter(exam => exam.pending_count > 0)
+    .map(({ byQuestion, ...exam }) => {
+      const sequence = (questionId: number) =>
+        data.examQuestions[exam.monthly_exam_id]?.find(item => item.question_id === questionId)?.sequence ?? Number.MAX_SAFE_INTEGER;
+
+      return {
+        ...exam,
+        questions: Array.from(byQuestion.values()).sort(
+          (a, b) => sequence(a.question_id) - sequence(b.question_id) || a.question_id - b.question_id
+        ),
+      };
+    });
+}
+
+/**
+ * Double-marked answers whose two marks disagree by more than the exam's
+ * threshold, for the exam's moderator. Oldest submissions come first.
+ */
+export function buildModerationQueue(data: GradingData, moderatorId: number | null): ModerationTask[] {
+  if (moderatorId === null) return [];
+  const tasks: ModerationTask[] = [];
+
+  for (const attempt of data.attempts) {
+    if (!GRADABLE_STATUSES.includes(attempt.status)) continue;
+
+    const settings = data.exams?.[attempt.monthly_exam_id] ?? attempt.monthly_exam;
+    if (!settings || !isDoubleMarked(settings) || settings.moderator_id !== moderatorId) continue;
+
+    const examQuestions = data.examQuestions[attempt.monthly_exam_id] || [];
+
+    for (const answer of data.answers[attempt.id] || []) {
+      if (isAnswerGraded(answer)) continue;
+
+      const question = getAnswerQuestion(answer, examQuestions);
+      if (!requiresManualGrading(answer, question)) continue;
+
+      const marks = data.marks?.[answer.id] || [];
+      const maxMarks = getMaxMarks(answer.question_id, examQuestions, question);
+      const outcome = resolveDoubleMarks(marks, maxMarks, settings.moderation_threshold);
+      if (outcome.stage !== 'moderation') continue;
+
+      const firstMark = latestMark(marks, 'first');
+      const secondMark = latestMark(marks, 'second');
+      if (!firstMark || !secondMark) continue;
+
+      tasks.push({
+        answer,
+        attempt,
+        question,
+        exam_title: getExamTitle(attempt) || `Exam #${attempt.monthly_exam_id}`,
+        student_name: getTaskStudentName(attempt),
+        max_marks: maxMarks,
+        first_mark: firstMark,
+        second_mark: secondMark,
+        difference: outcome.difference ?? 0,
+      });
+    }
+  }
+
+  return tasks.sort((a, b) => (a.attempt.finished_at ?? '').localeCompare(b.attempt.finished_at ?? ''));
+}
+
+/**
+ * Validate marks typed by a teacher; returns an error message or null
+ */
+export function validateMarks(marks: number, maxMarks: number): string | null {
+  if (!Number.isFinite(marks)) return 'Enter a number';
+  if (marks < 0) return 'Marks cannot be negative';
+  if (maxMarks > 0 && marks > maxMarks) return `Marks cannot exceed ${maxMarks}`;
+  return null;
+}
@@ -0,0 +1,98 @@
+/**
+ * Image Compression
+ * Shrinks photographed answer pages before upload. Images are decoded with
+ * their EXIF orientation applied, so phone photos come out upright, then
+ * scaled down and re-encoded as JPEG.
+ */
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export interface CompressOptions {
+  maxDimension?: number; // longest side in pixels
+  quality?: number; // JPEG quality, 0-1
+  rotation?: PageRotation; // extra clockwise rotation chosen by the student
+}
+
+export interface CompressedImage {
+  blob: Blob; // image/jpeg
+  width: number;
+  height: number;
+}
+
+// Enough to read handwriting on an A4 page
+export const DEFAULT_MAX_DIMENSION = 2000;
+export const DEFAULT_JPEG_QUALITY = 0.7;
+
+/**
+ * Scale dimensions down so the longest side is at most maxDimension; never scales up
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Dimensions after a clockwise rotation
+ */
+export function rotatedSize(width: number, height: number, rotation: PageRotation): { width: number; height: number } {
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * The next clockwise quarter turn
+ */
+export function nextRotation(rotation: PageRotation): PageRotation {
+  return ((rotation + 90) % 360) as PageRotation;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(
+    blob => (blob ? resolve(blob) : reject(new Error('This browser could not encode the image'))),
+    'image/jpeg',
+    quality
+  );
+});
+
+/**
+ * Decode, orient, scale and re-encode an image as JPEG
+ */
+export async function compressImage(file: Blob, options: CompressOptions = {}): Promise<CompressedImage> {
+  const {
+    maxDimension = DEFAULT_MAX_DIMENSION,
+    quality = DEFAULT_JPEG_QUALITY,
+    rotation = 0,
+  } = options;
+
+  // 'from-image' applies the EXIF orientation the camera recorded
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    const scaled = fitWithin(bitmap.width, bitmap.height, maxDimension);
+    const output = rotatedSize(scaled.width, scaled.height, rotation);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = output.width;
+    canvas.height = output.height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('This browser could not process the image');
+    }
+
+    // JPEG has no transparency; keep transparent areas white like paper
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, output.width, output.height);
+
+    context.translate(output.width / 2, output.height / 2);
+    context.rotate((rotation * Math.PI) / 180);
+    context.drawImage(bitmap, -scaled.width / 2, -scaled.height / 2, scaled.width, scaled.height);
+
+    const blob = await canvasToBlob(canvas, quality);
+    return { blob, width: output.width, height: output.height };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * PDF Builder
+ * Assembles JPEG pages into a single PDF in the browser. Each JPEG is embedded
+ * as-is (DCTDecode), so no re-encoding happens and the PDF is barely larger
+ * than the images. Pages are A4, turned to landscape for landscape images.
+ */
+
+export interface PdfPage {
+  jpeg: Uint8Array; // baseline or progressive JPEG, RGB
+  width: number; // pixels
+  height: number;
+}
+
+export interface PageLayout {
+  pageWidth: number; // points
+  pageHeight: number;
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+}
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+const PAGE_MARGIN = 18;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Where an image of the given size sits on its A4 page, centred within the margins
+ */
+export function getPageLayout(width: number, height: number): PageLayout {
+  const landscape = width > height;
+  const pageWidth = landscape ? A4_HEIGHT : A4_WIDTH;
+  const pageHeight = landscape ? A4_WIDTH : A4_HEIGHT;
+
+  const scale = Math.min((pageWidth - PAGE_MARGIN * 2) / width, (pageHeight - PAGE_MARGIN * 2) / height);
+  const drawWidth = round(width * scale);
+  const drawHeight = round(height * scale);
+
+  return {
+    pageWidth,
+    pageHeight,
+    x: round((pageWidth - drawWidth) / 2),
+    y: round((pageHeight - drawHeight) / 2),
+    drawWidth,
+    drawHeight,
+  };
+}
+
+const encodeAscii = (text: string) => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+/**
+ * Serialise the pages into PDF bytes
+ */
+export function buildPdfBytes(pages: PdfPage[]): Uint8Array {
+  if (pages.length === 0) {
+    throw new Error('A PDF needs at least one page');
+  }
+
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encodeAscii(data) : data;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, image and content stream per page
+  const pageId = (index: number) => 3 + index * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  // The binary comment tells transfer tools to treat the file as binary
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  startObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  startObject(2);
+  const kids = pages.map((_, index) => `${pageId(index)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const layout = getPageLayout(page.width, page.height);
+    const content = `q ${layout.drawWidth} 0 0 ${layout.drawHeight} ${layout.x} ${layout.y} cm /Im${index} Do Q`;
+
+    startObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${layout.pageWidth} ${layout.pageHeight}] ` +
+      `/Resources << /XObject << /Im${index} ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>\nendobj\n`
+    );
+
+    startObject(id + 1);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+
+    startObject(id + 2);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const output = new Uint8Array(length);
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+}
+
+/**
+ * Assemble the pages into a PDF blob
+ */
+export function buildPdf(pages: PdfPage[]): Blob {
+  return new Blob([buildPdfBytes(pages) as BlobPart], { type: 'application/pdf' });
+}
@@ -0,0 +1,110 @@
+/**
+ * Pools
+ * Draws each attempt's questions from the exam's tagged question pools. The
+ * draw is seeded from the attempt's token, so the exam page, the results and
+ * the teacher's views all rebuild the same question set for an attempt.
+ */
+
+import type { ExamQuestion, MonthlyExam, PoolRule, StudentAttempt } from '../services/api';
+import { canonicalQuestions, seededOrder } from './shuffle';
+
+type PoolSettings = Pick<MonthlyExam, 'random_pool' | 'pool_rules'>;
+
+export interface PoolCoverage {
+  pool_tag: string;
+  available: number; // questions tagged with the pool
+  rule?: PoolRule;
+  drawn: number; // questions each attempt gets from the pool
+  min_marks: number;
+  max_marks: number;
+  balanced_marks?: number; // what each drawn question is worth when marks are balanced
+  short: boolean; // the rule asks for more questions than the pool has
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const questionMarks = (item: ExamQuestion) => Number(item.marks ?? item.question?.default_marks ?? 0) || 0;
+
+/**
+ * The rules that apply: pools are only drawn from when the exam has random_pool on
+ */
+export function getActivePoolRules(exam: PoolSettings | null | undefined): PoolRule[] {
+  if (!exam?.random_pool) return [];
+  return (exam.pool_rules || []).filter(rule => rule.pool_tag && rule.draw_count > 0);
+}
+
+/**
+ * Exam questions grouped by pool tag, in the exam's own order
+ */
+export function groupByPool(examQuestions: ExamQuestion[]): Map<string, ExamQuestion[]> {
+  const pools = new Map<string, ExamQuestion[]>();
+  for (const item of canonicalQuestions(examQuestions)) {
+    const tag = item.pool_tag?.trim();
+    if (!tag) continue;
+    pools.set(tag, [...(pools.get(tag) || []), item]);
+  }
+  return pools;
+}
+
+/**
+ * Each pool's size against its rule, including rules whose pool has no questions
+ */
+export function getPoolCoverage(examQuestions: ExamQuestion[], rules: PoolRule[] = []): PoolCoverage[] {
+  const pools = groupByPool(examQuestions);
+  const tags = Array.from(new Set([...pools.keys(), ...rules.map(rule => rule.pool_tag)])).sort();
+
+  return tags.map((tag): PoolCoverage => {
+    const questions = pools.get(tag) || [];
+    const rule = rules.find(item => item.pool_tag === tag);
+    const marks = questions.map(questionMarks);
+    const drawn = rule ? Math.min(rule.draw_count, questions.length) : questions.length;
+
+    return {
+      pool_tag: tag,
+      available: questions.length,
+      ...(rule && { rule }),
+      drawn,
+      min_marks: marks.length > 0 ? Math.min(...marks) : 0,
+      max_marks: marks.length > 0 ? Math.max(...marks) : 0,
+      ...(rule?.balance_marks && marks.length > 0 && {
+        balanced_marks: round2(marks.reduce((total, value) => total + value, 0) / marks.length),
+      }),
+      short: !!rule && rule.draw_count > questions.length,
+    };
+  });
+}
+
+/**
+ * The questions in an attempt, in the exam's own order. Untagged questions and
+ * pools without a rule are always included; each ruled pool gives its draw
+ * count, or all it has when it is short. With balanced marks every drawn
+ * question is worth the pool's average, so every draw adds up to the same total.
+ */
+export function drawAttemptQuestions(
+  attempt: Pick<StudentAttempt, 'attempt_token'>,
+  exam: PoolSettings | null | undefined,
+  examQuestions: ExamQuestion[]
+): ExamQuestion[] {
+  const rules = getActivePoolRules(exam);
+  if (rules.length === 0) return examQuestions;
+
+  const pools = groupByPool(examQuestions);
+  const drawn = new Map<number, ExamQuestion>();
+
+  for (const item of examQuestions) {
+    const tag = item.pool_tag?.trim();
+    if (!tag || !rules.some(rule => rule.pool_tag === tag)) drawn.set(item.question_id, item);
+  }
+
+  for (const rule of rules) {
+    const pool = pools.get(rule.pool_tag) || [];
+    const picked = seededOrder(pool, `${attempt.attempt_token}:pool:${rule.pool_tag}`).slice(0, rule.draw_count);
+    const average = pool.length > 0 ? round2(pool.reduce((total, item) => total + questionMarks(item), 0) / pool.length) : 0;
+
+    for (const item of picked) {
+      drawn.set(item.question_id, rule.balance_marks ? { ...item, marks: average } : item);
+    }
+  }
+
+  return canonicalQuestions(Array.from(drawn.values()));
+}
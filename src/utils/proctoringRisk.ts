@@ -0,0 +1,182 @@
+/**
+ * Proctoring Risk
+ * Folds an attempt's proctoring events into a summary (tab switches, time
+ * hidden, latest snapshot) and scores it with configurable weights.
+ */
+
+import type { ProctorEventPayload } from '../services/websocket';
+
+export interface ProctoringSummary {
+  attempt_id: number;
+  tab_switches: number;
+  hidden_ms: number; // completed hidden periods
+  hidden_since: string | null; // start of the current hidden period
+  multiple_tabs: number;
+  camera_denied: boolean;
+  latest_snapshot: { image: string; captured_at: string } | null;
+  event_count: number;
+  last_event_at: string | null;
+}
+
+export interface RiskWeights {
+  tabSwitch: number; // points per tab switch
+  hiddenMinute: number; // points per minute spent away from the exam
+  multipleTabs: number; // points per extra tab opened on the attempt
+  cameraDenied: number; // points once the camera was refused
+}
+
+export interface RiskSettings {
+  weights: RiskWeights;
+  alertThreshold: number; // score (0-100) that alerts the teacher
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export const MAX_RISK_SCORE = 100;
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  weights: {
+    tabSwitch: 5,
+    hiddenMinute: 10,
+    multipleTabs: 25,
+    cameraDenied: 30,
+  },
+  alertThreshold: 60,
+};
+
+const SNAPSHOT_EVENTS = ['camera_snapshot', 'snapshot_captured'];
+
+export const emptySummary = (attemptId: number): ProctoringSummary => ({
+  attempt_id: attemptId,
+  tab_switches: 0,
+  hidden_ms: 0,
+  hidden_since: null,
+  multiple_tabs: 0,
+  camera_denied: false,
+  latest_snapshot: null,
+  event_count: 0,
+  last_event_at: null,
+});
+
+const snapshotImage = (details?: Record<string, unknown>): string | null => {
+  const image = details?.image ?? details?.image_url;
+  return typeof image === 'string' && image.length > 0 ? image : null;
+};
+
+/**
+ * Apply one proctoring event to an attempt's summary.
+ *
+ * Repeated `tab_hidden` events while already hidden (several listeners report
+ * the same switch) count once, and a `tab_visible` closes the open period.
+ */
+export function applyProctoringEvent(
+  summary: ProctoringSummary | undefined,
+  event: ProctorEventPayload
+): ProctoringSummary {
+  const next = { ...(summary || emptySummary(event.attempt_id)) };
+  next.event_count += 1;
+
+  if (!next.last_event_at || Date.parse(event.event_time) > Date.parse(next.last_event_at)) {
+    next.last_event_at = event.event_time;
+  }
+
+  switch (event.event_type) {
+    case 'tab_hidden':
+      if (!next.hidden_since) {
+        next.hidden_since = event.event_time;
+        next.tab_switches += 1;
+      }
+      break;
+
+    case 'tab_visible':
+      if (next.hidden_since) {
+        next.hidden_ms += Math.max(0, Date.parse(event.event_time) - Date.parse(next.hidden_since));
+        next.hidden_since = null;
+      }
+      break;
+
+    case 'multiple_tabs':
+      next.multiple_tabs += 1;
+      break;
+
+    case 'camera_permission_denied':
+      next.camera_denied = true;
+      break;
+
+    default:
+      if (SNAPSHOT_EVENTS.includes(event.event_type)) {
+        const image = snapshotImage(event.details);
+        const isNewer = !next.latest_snapshot
+          || Date.parse(event.event_time) >= Date.parse(next.latest_snapshot.captured_at);
+
+        if (image && isNewer) {
+          next.latest_snapshot = { image, captured_at: event.event_time };
+        }
+      }
+  }
+
+  return next;
+}
+
+/**
+ * Identity of a recorded event, shared by its REST copy and its live frame
+ */
+export const getProctoringEventKey = (event: ProctorEventPayload): string =>
+  `${event.attempt_id}|${event.event_type}|${event.event_time}`;
+
+/**
+ * Summaries for every attempt, rebuilt from the whole event set.
+ *
+ * History and live events arrive in no particular order, so folding them as
+ * they come could close a hidden period before opening it. Duplicates are
+ * dropped and the rest are applied in event time order.
+ */
+export function buildProctoringSummaries(events: ProctorEventPayload[]): Record<number, ProctoringSummary> {
+  const unique = new Map<string, ProctorEventPayload>();
+  events.forEach(event => unique.set(getProctoringEventKey(event), event));
+
+  return Array.from(unique.values())
+    .sort((a, b) => Date.parse(a.event_time) - Date.parse(b.event_time))
+    .reduce<Record<number, ProctoringSummary>>((summaries, event) => {
+      summaries[event.attempt_id] = applyProctoringEvent(summaries[event.attempt_id], event);
+      return summaries;
+    }, {});
+}
+
+/**
+ * Total time hidden, including a period still open at `now`
+ */
+export function getHiddenMs(summary: ProctoringSummary, now: number): number {
+  const open = summary.hidden_since ? Math.max(0, now - Date.parse(summary.hidden_since)) : 0;
+  return summary.hidden_ms + open;
+}
+
+/**
+ * Weighted risk score between 0 and MAX_RISK_SCORE
+ */
+export function computeRiskScore(summary: ProctoringSummary, weights: RiskWeights, now: number): number {
+  const score =
+    summary.tab_switches * weights.tabSwitch +
+    (getHiddenMs(summary, now) / 60000) * weights.hiddenMinute +
+    summary.multiple_tabs * weights.multipleTabs +
+    (summary.camera_denied ? weights.cameraDenied : 0);
+
+  return Math.min(MAX_RISK_SCORE, Math.round(score));
+}
+
+/**
+ * Risk band relative to the alert threshold: high at or above it, medium from half of it
+ */
+export function getRiskLevel(score: number, alertThreshold: number): RiskLevel {
+  if (score >= alertThreshold) return 'high';
+  if (score >= alertThreshold / 2) return 'medium';
+  return 'low';
+}
+
+/**
+ * Duration as minutes and seconds, e.g. "3m 05s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
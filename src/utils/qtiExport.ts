@@ -0,0 +1,158 @@
+/**
+ * QTI Export
+ * Writes bank questions as IMS QTI 2.1 assessment items, the reverse of
+ * qtiParser.ts. Every item is complete on its own; a bank export lists them
+ * in one XML file under an assessmentItems root. Explanations become modal
+ * feedback. Difficulty, tags and rubrics have no place in a QTI item and are
+ * only kept in the JSON bundle.
+ */
+
+import type { BackendQuestion } from '../services/api';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+/**
+ * Escape text for an XML element or attribute
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const indent = (lines: string[], depth = 1) => lines.map(line => `${'  '.repeat(depth)}${line}`);
+
+const outcomes = (marks: number) => [
+  '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+  `<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${marks}</value></defaultValue></outcomeDeclaration>`,
+];
+
+const correctResponse = (values: Array<string | number>) =>
+  values.length > 0 ? `<correctResponse>${values.map(value => `<value>${escapeXml(String(value))}</value>`).join('')}</correctResponse>` : '';
+
+// Choices in order; true/false questions without stored choices get them from the key
+const orderedChoices = (question: BackendQuestion) => {
+  const choices = [...(question.choices ?? [])].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  if (question.type === 'tf' && choices.length === 0) {
+    const answer = question.metadata?.correct_answer === true || String(question.metadata?.correct_answer).toLowerCase() === 'true';
+    return [{ choice_text: 'True', is_correct: answer }, { choice_text: 'False', is_correct: !answer }];
+  }
+  return choices;
+};
+
+function itemParts(question: BackendQuestion): { declaration: string; body: string[]; processing: string } {
+  const prompt = `<prompt>${escapeXml(question.prompt)}</prompt>`;
+  const marks = question.default_marks;
+
+  switch (question.type) {
+    case 'mcq':
+    case 'tf': {
+      const choices = orderedChoices(question);
+      const correct = choices.map((choice, index) => (choice.is_correct ? `CHOICE_${index + 1}` : null)).filter((id): id is string => id !== null);
+      const multiple = correct.length > 1;
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">${correctResponse(correct)}</responseDeclaration>`,
+        body: [
+          `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">`,
+          `  ${prompt}`,
+          ...choices.map((choice, index) => `  <simpleChoice identifier="CHOICE_${index + 1}">${escapeXml(choice.choice_text)}</simpleChoice>`),
+          '</choiceInteraction>',
+        ],
+        processing: `<responseProcessing template="${TEMPLATES}/match_correct"/>`,
+      };
+    }
+
+    case 'numeric': {
+      const answer = question.metadata?.correct_answer;
+      const value = answer === undefined || answer === null || answer === '' ? [] : [Number(answer)];
+      const tolerance = question.metadata?.grading?.tolerance;
+      const body = [`<p>${escapeXml(question.prompt)}</p>`, '<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>'];
+      const declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">${correctResponse(value)}</responseDeclaration>`;
+
+      if (!tolerance || value.length === 0) {
+        return { declaration, body, processing: `<responseProcessing template="${TEMPLATES}/match_correct"/>` };
+      }
+      // Within the tolerance either side of the answer earns full marks
+      return {
+        declaration,
+        body,
+        processing: [
+          '<responseProcessing><responseCondition><responseIf>',
+          `<equal toleranceMode="absolute" tolerance="${tolerance} ${tolerance}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>`,
+          `<setOutcomeValue identifier="SCORE"><baseValue baseType="float">${marks}</baseValue></setOutcomeValue>`,
+          '</responseIf></responseCondition></responseProcessing>',
+        ].join(''),
+      };
+    }
+
+    case 'short': {
+      const answer = question.metadata?.correct_answer;
+      const answers = (Array.isArray(answer) ? answer : answer ? [answer] : []).map(String);
+      const mapping = answers.length > 0
+        ? `<mapping defaultValue="0">${answers.map(key => `<mapEntry mapKey="${escapeXml(key)}" mappedValue="${marks}" caseSensitive="false"/>`).join('')}</mapping>`
+        : '';
+      return {
+        declaration: `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">${correctResponse(answers.slice(0, 1))}${mapping}</responseDeclaration>`,
+        body: [`<p>${escapeXml(question.prompt)}</p>`, '<p><textEntryInteraction responseIdentifier="RESPONSE"/></p>'],
+        processing: `<responseProcessing template="${TEMPLATES}/map_response"/>`,
+      };
+    }
+
+    case 'file':
+      return {
+        declaration: '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="file"/>',
+        body: ['<uploadInteraction responseIdentifier="RESPONSE">', `  ${prompt}`, '</uploadInteraction>'],
+        processing: '',
+      };
+
+    default:
+      return {
+        declaration: '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>',
+        body: ['<extendedTextInteraction responseIdentifier="RESPONSE">', `  ${prompt}`, '</extendedTextInteraction>'],
+        processing: '',
+      };
+  }
+}
+
+/**
+ * One question as an assessmentItem element
+ */
+export function questionToQtiItem(question: BackendQuestion): string {
+  const { declaration, body, processing } = itemParts(question);
+  const title = question.prompt.replace(/\s+/g, ' ').trim().slice(0, 60);
+  const explanation = question.metadata?.explanation;
+
+  return [
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="Q${question.id}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">`,
+    ...indent([
+      declaration,
+      ...outcomes(question.default_marks),
+      // Defaults to the explanation's identifier so the feedback is always shown
+      ...(explanation ? ['<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"><defaultValue><value>EXPLANATION</value></defaultValue></outcomeDeclaration>'] : []),
+      '<itemBody>',
+      ...indent(body),
+      '</itemBody>',
+      ...(processing ? [processing] : []),
+      ...(explanation ? [`<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(String(explanation))}</modalFeedback>`] : []),
+    ]),
+    '</assessmentItem>',
+  ].join('\n');
+}
+
+/**
+ * A bank's questions as one QTI XML file
+ */
+export function questionsToQti(questions: BackendQuestion[], title = 'Question bank'): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<!-- ${escapeXml(title).replace(/--/g, '- -')}: ${questions.length} QTI 2.1 items -->`,
+    '<assessmentItems>',
+    ...indent(questions.map(questionToQtiItem).join('\n').split('\n')),
+    '</assessmentItems>',
+    '',
+  ].join('\n');
+}
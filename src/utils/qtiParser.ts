@@ -0,0 +1,152 @@
+/**
+ * QTI Parser
+ * Reads IMS QTI 2.1 assessment items: choice interactions (multiple choice or
+ * true/false), text entry (short answer or numeric, from the response's base
+ * type), extended text (essay) and upload (file). Marks come from the item's
+ * MAXSCORE outcome. A file may hold a single item or several.
+ */
+
+import { emptyImportedQuestion, trueFalseChoices } from './questionImport';
+import type { ImportedQuestion } from './questionImport';
+
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction', 'uploadInteraction'];
+
+// Elements by local name, whatever namespace the file declares
+const byTag = (root: Element | Document, name: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+const text = (element: Element | null | undefined) => (element?.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+const values = (root: Element | null | undefined) => (root ? byTag(root, 'value').map(text).filter(Boolean) : []);
+
+const isInteraction = (element: Element) => element.localName.endsWith('Interaction');
+
+// Item body text with interactions taken out; inline text entries become a blank
+// unless they stand alone in their paragraph
+const bodyText = (itemBody: Element): string => {
+  const copy = itemBody.cloneNode(true) as Element;
+  Array.from(copy.getElementsByTagNameNS('*', '*')).filter(isInteraction).forEach(element => {
+    if (element.localName === 'textEntryInteraction' && text(element.parentElement) !== '') {
+      element.replaceWith(copy.ownerDocument.createTextNode('_____'));
+    } else {
+      element.remove();
+    }
+  });
+  return text(copy);
+};
+
+const outcomeDefault = (item: Element, identifier: string): number | undefined => {
+  const outcome = byTag(item, 'outcomeDeclaration').find(element => element.getAttribute('identifier') === identifier);
+  const [value] = values(outcome?.getElementsByTagNameNS('*', 'defaultValue')[0]);
+  return value !== undefined && Number.isFinite(Number(value)) ? Number(value) : undefined;
+};
+
+function parseItem(item: Element, row: number): ImportedQuestion {
+  const question = emptyImportedQuestion(row);
+  question.source = item.getAttribute('title') || item.getAttribute('identifier') || undefined;
+
+  const interactions = byTag(item, '*').filter(isInteraction);
+  const interaction = interactions.find(element => SUPPORTED_INTERACTIONS.includes(element.localName));
+  const itemBody = byTag(item, 'itemBody')[0];
+  const prompt = interaction ? text(byTag(interaction, 'prompt')[0]) : '';
+  question.prompt = [itemBody ? bodyText(itemBody) : '', prompt].filter(Boolean).join('\n');
+
+  const marks = outcomeDefault(item, 'MAXSCORE');
+  if (marks !== undefined) question.default_marks = marks;
+
+  const feedback = byTag(item, 'modalFeedback').map(text).filter(Boolean).join('\n');
+  if (feedback) question.metadata.explanation = feedback;
+
+  if (!interaction) {
+    question.errors.push(interactions.length > 0
+      ? `${interactions[0].localName} items are not supported`
+      : 'The item has no interaction to answer');
+    return question;
+  }
+  if (interactions.length > 1) question.errors.push('Items with more than one interaction are not supported');
+
+  const responseId = interaction.getAttribute('responseIdentifier');
+  const declaration = byTag(item, 'responseDeclaration').find(element => element.getAttribute('identifier') === responseId);
+  const correct = values(declaration?.getElementsByTagNameNS('*', 'correctResponse')[0]);
+
+  switch (interaction.localName) {
+    case 'choiceInteraction': {
+      const choices = byTag(interaction, 'simpleChoice').map((choice, index) => ({
+        choice_text: text(choice),
+        is_correct: correct.includes(choice.getAttribute('identifier') ?? ''),
+        position: index + 1,
+      }));
+      const labels = choices.map(choice => choice.choice_text.toLowerCase());
+
+      if (choices.length === 2 && labels.includes('true') && labels.includes('false')) {
+        const answer = choices.some(choice => choice.is_correct && choice.choice_text.toLowerCase() === 'true');
+        question.type = 'tf';
+        question.choices = choices.some(choice => choice.is_correct) ? trueFalseChoices(answer) : [];
+        if (question.choices.length > 0) question.metadata.correct_answer = answer;
+      } else {
+        question.type = 'mcq';
+        question.choices = choices;
+      }
+      break;
+    }
+
+    case 'textEntryInteraction': {
+      const baseType = declaration?.getAttribute('baseType');
+      if (baseType === 'float' || baseType === 'integer') {
+        question.type = 'numeric';
+        question.metadata.correct_answer = correct.length > 0 ? Number(correct[0]) : undefined;
+
+        // <equal toleranceMode="absolute" tolerance="0.5"> in the response processing
+        const tolerance = byTag(item, 'equal').find(element => element.getAttribute('toleranceMode') === 'absolute')
+          ?.getAttribute('tolerance')?.trim().split(/\s+/)[0];
+        if (tolerance && Number.isFinite(Number(tolerance)) && correct.length > 0) {
+          question.metadata.grading = { value: Number(correct[0]), tolerance: Number(tolerance) };
+        }
+      } else {
+        // Mapped answers worth marks are accepted alongside the correct response
+        const mapped = declaration
+          ? byTag(declaration, 'mapEntry')
+            .filter(entry => Number(entry.getAttribute('mappedValue')) > 0)
+            .map(entry => entry.getAttribute('mapKey')?.trim() ?? '')
+          : [];
+        const answers = Array.from(new Set([...correct, ...mapped])).filter(Boolean);
+        question.type = 'short';
+        if (answers.length > 0) question.metadata.correct_answer = answers;
+      }
+      break;
+    }
+
+    case 'extendedTextInteraction':
+      question.type = 'essay';
+      break;
+
+    case 'uploadInteraction':
+      question.type = 'file';
+      break;
+  }
+
+  return question;
+}
+
+/**
+ * Questions from a QTI 2.1 XML file. Rows are the item's number in the file.
+ */
+export function parseQtiQuestions(xml: string, parser: DOMParser = new DOMParser()): ImportedQuestion[] {
+  const document = parser.parseFromString(xml.replace(/^\uFEFF/, ''), 'application/xml');
+
+  const parseError = byTag(document, 'parsererror')[0];
+  if (parseError) {
+    const question = emptyImportedQuestion(1);
+    question.errors.push(`The file is not valid XML: ${text(parseError)}`);
+    return [question];
+  }
+
+  const items = byTag(document, 'assessmentItem');
+  if (items.length === 0) {
+    const question = emptyImportedQuestion(1);
+    question.errors.push('No assessmentItem was found; export the questions as QTI 2.1 items');
+    return [question];
+  }
+
+  return items.map((item, index) => parseItem(item, index + 1));
+}
@@ -0,0 +1,278 @@
+/**
+ * Question Import
+ * Shared shape, validation and duplicate checks for questions imported from
+ * QTI, GIFT or CSV files, plus the CSV reader. Each imported question keeps
+ * the row or item it came from so errors can be reported against the file.
+ */
+
+import type { BackendQuestion } from '../services/api';
+import { parseTopics } from './blueprint';
+
+export type ImportFormat = 'qti' | 'gift' | 'csv';
+
+export type QuestionType = BackendQuestion['type'];
+
+export const QUESTION_TYPES: QuestionType[] = ['mcq', 'tf', 'numeric', 'short', 'essay', 'file'];
+
+// Columns of the CSV layout, in the order the template lists them
+export const CSV_COLUMNS = ['type', 'prompt', 'marks', 'choices', 'correct', 'answer', 'tolerance', 'explanation', 'difficulty', 'tags'];
+
+// Downloadable starting point with one row per question type
+export const CSV_TEMPLATE = [
+  CSV_COLUMNS.join(','),
+  'mcq,What is the capital of France?,2,Berlin|Paris|Madrid,B,,,,easy,geography|europe',
+  'tf,Water boils at 100 degrees Celsius at sea level.,1,,true,,,,easy,science',
+  'numeric,What is 7 x 8?,1,,,56,0,,medium,arithmetic',
+  'short,Name the largest planet in the solar system.,1,,,Jupiter|Jupiter planet,,,medium,astronomy',
+  'essay,"Explain, in your own words, why the seasons change.",10,,,,,Mention the tilt of the Earth\'s axis,hard,astronomy',
+  'file,Upload your lab report.,20,,,,,,,',
+].join('\n');
+
+export interface ImportedChoice {
+  choice_text: string;
+  is_correct: boolean;
+  position: number;
+}
+
+export interface ImportedQuestion {
+  row: number; // line in a CSV or GIFT file, or the item's number in a QTI file
+  source?: string; // title or identifier from the file
+  author_id?: number; // set for bank bundles; otherwise the author picked when importing
+  type: QuestionType;
+  prompt: string;
+  default_marks: number;
+  metadata: Record<string, unknown>;
+  choices: ImportedChoice[];
+  errors: string[];
+  duplicate?: 'bank' | 'file'; // same prompt as a question in the bank, or earlier in the file
+}
+
+/**
+ * A new imported question with nothing filled in yet
+ */
+export function emptyImportedQuestion(row: number, type: QuestionType = 'essay'): ImportedQuestion {
+  return { row, type, prompt: '', default_marks: 1, metadata: {}, choices: [], errors: [] };
+}
+
+/**
+ * True and False choices, as the question form creates them. The key also goes
+ * in metadata.correct_answer for answers saved as text.
+ */
+export function trueFalseChoices(answer: boolean): ImportedChoice[] {
+  return [
+    { choice_text: 'True', is_correct: answer, position: 1 },
+    { choice_text: 'False', is_correct: !answer, position: 2 },
+  ];
+}
+
+/**
+ * Read "true", "t", "yes" or "1" (and their opposites) as a boolean
+ */
+export function parseBoolean(text: string): boolean | undefined {
+  const value = text.trim().toLowerCase();
+  if (['true', 't', 'yes', 'y', '1'].includes(value)) return true;
+  if (['false', 'f', 'no', 'n', '0'].includes(value)) return false;
+  return undefined;
+}
+
+/**
+ * Prompts compared for duplicates: markup removed, case and spacing ignored
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Problems that would stop a question from being created, using the same rules as the question form
+ */
+export function validateImportedQuestion(question: ImportedQuestion): string[] {
+  const errors: string[] = [];
+  if (!QUESTION_TYPES.includes(question.type)) errors.push(`Unknown question type "${question.type}"`);
+  if (!question.prompt.trim()) errors.push('Prompt is required');
+  if (!Number.isFinite(question.default_marks) || question.default_marks <= 0) errors.push('Marks must be greater than 0');
+
+  if (question.type === 'mcq') {
+    if (question.choices.length < 2) errors.push('Multiple choice questions need at least 2 choices');
+    if (!question.choices.some(choice => choice.is_correct)) errors.push('At least one choice must be correct');
+    if (question.choices.some(choice => !choice.choice_text.trim())) errors.push('Choices cannot be empty');
+  }
+
+  if (question.type === 'tf' && question.choices.filter(choice => choice.is_correct).length !== 1) {
+    errors.push('True/False questions need the correct answer');
+  }
+
+  if (question.type === 'numeric') {
+    const answer = question.metadata.correct_answer;
+    if (answer === undefined || answer === null || answer === '' || !Number.isFinite(Number(answer))) {
+      errors.push('Numeric questions need a numeric answer');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Add validation errors and mark questions whose prompt is already in the bank or earlier in the file
+ */
+export function checkImportedQuestions(questions: ImportedQuestion[], existingPrompts: string[] = []): ImportedQuestion[] {
+  const inBank = new Set(existingPrompts.map(normalizePrompt));
+  const seen = new Set<string>();
+
+  return questions.map(question => {
+    const key = normalizePrompt(question.prompt);
+    const duplicate = key && inBank.has(key) ? 'bank' : key && seen.has(key) ? 'file' : undefined;
+    if (key) seen.add(key);
+
+    const errors = Array.from(new Set([...question.errors, ...validateImportedQuestion(question)]));
+    return { ...question, errors, ...(duplicate && { duplicate }) };
+  });
+}
+
+/**
+ * Split CSV text into rows of fields. Quoted fields may hold commas, quotes ("") and line breaks.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const splitList = (value: string) => value.split('|').map(item => item.trim()).filter(Boolean);
+
+// "B", "2" or "b" to a 0-based choice index
+const choiceIndex = (key: string): number => {
+  const value = key.trim();
+  if (/^\d+$/.test(value)) return Number(value) - 1;
+  if (/^[a-z]$/i.test(value)) return value.toUpperCase().charCodeAt(0) - 65;
+  return -1;
+};
+
+/**
+ * Questions from the CSV layout: a header row naming the columns in CSV_COLUMNS
+ * (any order, unknown columns ignored), then one question per row. Lists inside
+ * a cell are separated with "|".
+ */
+export function parseCsvQuestions(text: string): ImportedQuestion[] {
+  const rows = parseCsvRows(text);
+  const header = (rows[0] || []).map(name => name.trim().toLowerCase());
+  if (!header.includes('type') || !header.includes('prompt')) {
+    const question = emptyImportedQuestion(1);
+    question.errors.push('The first row must name the columns, including "type" and "prompt"');
+    return [question];
+  }
+
+  const questions: ImportedQuestion[] = [];
+  let line = 1;
+
+  for (const cells of rows.slice(1)) {
+    // Line numbers follow the file, so quoted line breaks move them on too
+    const rowLine = line + 1;
+    line += 1 + cells.reduce((breaks, cell) => breaks + (cell.match(/\n/g)?.length ?? 0), 0);
+    if (cells.every(cell => !cell.trim())) continue;
+
+    const cell = (column: string) => {
+      const index = header.indexOf(column);
+      return index >= 0 ? (cells[index] ?? '').trim() : '';
+    };
+
+    const type = cell('type').toLowerCase() as QuestionType;
+    const question = emptyImportedQuestion(rowLine, type);
+    question.prompt = cell('prompt');
+    if (cell('marks')) question.default_marks = Number(cell('marks'));
+
+    if (type === 'mcq') {
+      const correct = splitList(cell('correct')).map(choiceIndex);
+      question.choices = splitList(cell('choices')).map((choice_text, index) => ({
+        choice_text,
+        is_correct: correct.includes(index),
+        position: index + 1,
+      }));
+      const choiceCount = question.choices.length;
+      if (correct.some(index => index < 0 || index >= choiceCount)) {
+        question.errors.push(`"correct" names a choice that isn't listed: ${cell('correct')}`);
+      }
+    } else if (type === 'tf') {
+      const answer = parseBoolean(cell('correct') || cell('answer'));
+      if (answer === undefined) {
+        question.errors.push('"correct" must be true or false');
+      } else {
+        question.choices = trueFalseChoices(answer);
+        question.metadata.correct_answer = answer;
+      }
+    } else if (type === 'numeric') {
+      const answer = cell('answer');
+      question.metadata.correct_answer = answer === '' ? undefined : Number(answer);
+      if (cell('tolerance')) question.metadata.grading = { value: Number(answer), tolerance: Number(cell('tolerance')) };
+    } else if (type === 'short' && cell('answer')) {
+      question.metadata.correct_answer = splitList(cell('answer'));
+    }
+
+    if (cell('explanation')) question.metadata.explanation = cell('explanation');
+    if (cell('difficulty')) question.metadata.difficulty = cell('difficulty').toLowerCase();
+    const tags = parseTopics(splitList(cell('tags')));
+    if (tags.length > 0) question.metadata.tags = tags;
+
+    questions.push(question);
+  }
+
+  return questions;
+}
+
+/**
+ * Guess a file's format from its name, then its contents
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xml') return 'qti';
+  if (extension === 'gift' || extension === 'txt') return 'gift';
+  if (extension === 'csv') return 'csv';
+
+  const start = text.trimStart();
+  if (start.startsWith('<')) return 'qti';
+  if (/^[^\n]*\btype\b[^\n]*\bprompt\b/i.test(start)) return 'csv';
+  return 'gift';
+}
@@ -0,0 +1,107 @@
+/**
+ * Results
+ * When a student may see their result and answers, and how saved answers are
+ * handed back to the question cards for review.
+ */
+
+import type { AttemptAnswer, BackendQuestion, ExamAggregate, MonthlyExam, Question, StudentAttempt } from '../services/api';
+import type { ScoreResult } from './scoring';
+import { allowsMultipleChoices } from './examAnswers';
+
+// not_submitted: still being taken or abandoned; grading: waiting on teachers;
+// unpublished: marked, waiting for the school to publish
+export type ResultState = 'not_submitted' | 'grading' | 'unpublished' | 'published';
+
+type PublishingSettings = Pick<MonthlyExam, 'auto_publish_results' | 'show_answers_after'>;
+
+/**
+ * Results are shown once the aggregate is published, or as soon as marking
+ * finishes when the exam publishes automatically
+ */
+export function getResultState(
+  attempt: Pick<StudentAttempt, 'status'>,
+  exam?: PublishingSettings | null,
+  aggregate?: Pick<ExamAggregate, 'published'> | null
+): ResultState {
+  if (attempt.status === 'in_progress' || attempt.status === 'abandoned') return 'not_submitted';
+  if (aggregate?.published) return 'published';
+  if (attempt.status !== 'graded') return 'grading';
+  return exam?.auto_publish_results ? 'published' : 'unpublished';
+}
+
+/**
+ * Correct answers are only revealed on published results of exams that allow it
+ */
+export function canShowCorrectAnswers(state: ResultState, exam?: PublishingSettings | null): boolean {
+  return state === 'published' && !!exam?.show_answers_after;
+}
+
+/**
+ * The score to show: the published aggregate, then the attempt's stored
+ * score, then the breakdown worked out in the browser
+ */
+export function getDisplayScore(
+  attempt: Pick<StudentAttempt, 'total_score' | 'percent'>,
+  aggregate?: Pick<ExamAggregate, 'published' | 'total_marks' | 'percent' | 'rank'> | null,
+  score?: ScoreResult | null
+): { total: number; percent: number; rank?: number } {
+  const published = aggregate?.published ? aggregate : null;
+  const total = published?.total_marks ?? attempt.total_score ?? score?.total ?? 0;
+  const percent = published?.percent ?? attempt.percent ?? score?.percent ?? 0;
+  return { total, percent, ...(published?.rank !== undefined && published?.rank !== null && { rank: published.rank }) };
+}
+
+// Metadata that gives the answer away: the key, the grading spec and the worked explanation
+const ANSWER_KEY_FIELDS = ['correct_answer', 'grading', 'explanation'];
+
+/**
+ * A backend question in the shape the question cards expect. Unless answers
+ * may be shown, the choices' is_correct flags and the metadata answer key are
+ * left out so they never reach the rendered card.
+ */
+export function toReviewQuestion(question: BackendQuestion, maxMarks: number, showAnswers = true): Question {
+  const metadata = showAnswers
+    ? question.metadata
+    : {
+      ...Object.fromEntries(Object.entries(question.metadata ?? {}).filter(([key]) => !ANSWER_KEY_FIELDS.includes(key))),
+      // The student answered with checkboxes; keep that without saying which choices were right
+      ...(allowsMultipleChoices(question) && { multiple_answers: true }),
+    };
+
+  return {
+    id: String(question.id),
+    prompt: question.prompt,
+    type: question.type,
+    default_marks: maxMarks,
+    choices: showAnswers ? question.choices : question.choices?.map(({ id, question_id, choice_text, position }) => ({ id, question_id, choice_text, position })),
+    metadata,
+  };
+}
+
+/**
+ * A saved answer in the form each question card takes as its selected value
+ */
+export function getReviewAnswer(type: BackendQuestion['type'], answer?: AttemptAnswer): string | string[] | number | boolean | undefined {
+  if (!answer) return undefined;
+
+  switch (type) {
+    case 'mcq': {
+      // Every pick, so questions with several correct answers show the whole selection
+      const choiceIds = answer.choice_ids?.length ? answer.choice_ids : answer.choice_id !== undefined && answer.choice_id !== null ? [answer.choice_id] : [];
+      if (choiceIds.length > 0) return choiceIds.map(String);
+      return answer.answer_text || undefined;
+    }
+    case 'tf':
+      if (answer.answer_text === 'true') return true;
+      if (answer.answer_text === 'false') return false;
+      return undefined;
+    case 'numeric': {
+      const value = parseFloat(answer.answer_text ?? '');
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 'file':
+      return answer.uploaded_file || undefined;
+    default:
+      return answer.answer_text || undefined;
+  }
+}
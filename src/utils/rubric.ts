@@ -0,0 +1,113 @@
+/**
+ * Rubrics
+ * Marking rubrics live in `BackendQuestion.metadata.rubric`: a list of
+ * criteria, each with point levels. A grader picks one level per criterion
+ * and the points are scaled to the marks the question carries in the exam.
+ */
+
+export interface RubricLevel {
+  label: string;
+  points: number;
+  description?: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[];
+}
+
+// Stored on the answer next to marks_awarded
+export interface RubricScore {
+  criterion_id: string;
+  level: string;
+  points: number;
+}
+
+const isLevel = (value: unknown): value is RubricLevel =>
+  typeof value === 'object' && value !== null
+  && typeof (value as RubricLevel).label === 'string'
+  && typeof (value as RubricLevel).points === 'number';
+
+const isCriterion = (value: unknown): value is RubricCriterion =>
+  typeof value === 'object' && value !== null
+  && typeof (value as RubricCriterion).id === 'string'
+  && typeof (value as RubricCriterion).title === 'string'
+  && Array.isArray((value as RubricCriterion).levels)
+  && (value as RubricCriterion).levels.every(isLevel);
+
+/**
+ * The rubric in a question's metadata, or null when there is none or it is malformed
+ */
+export function getRubric(metadata: unknown): Rubric | null {
+  const rubric = (metadata as { rubric?: unknown } | null | undefined)?.rubric as Rubric | undefined;
+  if (!rubric || !Array.isArray(rubric.criteria) || rubric.criteria.length === 0) return null;
+  return rubric.criteria.every(isCriterion) ? rubric : null;
+}
+
+/**
+ * Points for the best level of every criterion
+ */
+export function getRubricMaxPoints(rubric: Rubric): number {
+  return rubric.criteria.reduce(
+    (total, criterion) => total + Math.max(0, ...criterion.levels.map(level => level.points)),
+    0
+  );
+}
+
+export function isRubricComplete(rubric: Rubric, scores: RubricScore[]): boolean {
+  return rubric.criteria.every(criterion => scores.some(score => score.criterion_id === criterion.id));
+}
+
+/**
+ * Marks for the chosen levels, scaled from rubric points to the question's marks
+ * and rounded to two decimals
+ */
+export function computeRubricMarks(rubric: Rubric, scores: RubricScore[], maxMarks: number): number {
+  const points = scores
+    .filter(score => rubric.criteria.some(criterion => criterion.id === score.criterion_id))
+    .reduce((total, score) => total + score.points, 0);
+
+  const maxPoints = getRubricMaxPoints(rubric);
+  if (maxPoints <= 0) return 0;
+
+  const marks = maxMarks > 0 ? (points / maxPoints) * maxMarks : points;
+  return Math.round(marks * 100) / 100;
+}
+
+/**
+ * Choose a level for a criterion, replacing any earlier choice
+ */
+export function selectLevel(scores: RubricScore[], criterion: RubricCriterion, levelIndex: number): RubricScore[] {
+  const level = criterion.levels[levelIndex];
+  if (!level) return scores;
+
+  return [
+    ...scores.filter(score => score.criterion_id !== criterion.id),
+    { criterion_id: criterion.id, level: level.label, points: level.points },
+  ];
+}
+
+/**
+ * Problems that would make a rubric unusable; an empty list means it is valid
+ */
+export function validateRubric(rubric: Rubric): string[] {
+  const errors: string[] = [];
+
+  rubric.criteria.forEach((criterion, index) => {
+    const name = criterion.title.trim() || `Criterion ${index + 1}`;
+    if (!criterion.title.trim()) errors.push(`Criterion ${index + 1} needs a title`);
+    if (criterion.levels.length < 2) errors.push(`${name} needs at least two levels`);
+    if (criterion.levels.some(level => !level.label.trim())) errors.push(`Every level of ${name} needs a label`);
+    if (criterion.levels.some(level => !Number.isFinite(level.points) || level.points < 0)) {
+      errors.push(`Points for ${name} must be zero or more`);
+    }
+  });
+
+  return errors;
+}
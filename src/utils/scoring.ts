@@ -0,0 +1,266 @@
+/**
+ * Scoring
+ * Turns an attempt's answers into a total score and percent, with one line per
+ * exam question saying how its marks were reached. The same answers, questions
+ * and settings always give the same result, so a score can be checked by hand.
+ */
+
+import type { AttemptAnswer, BackendQuestion, ExamQuestion, MonthlyExam, StudentAttempt } from '../services/api';
+import { getAnswerQuestion, getMaxMarks, isAnswerGraded } from './gradingQueue';
+import { suggestMarks } from './autoGrading';
+
+// Bump when a rule below changes, so old breakdowns can be told apart
+export const SCORING_VERSION = 1;
+
+// Types a student can guess at; only these lose marks under negative marking
+export const NEGATIVE_MARKING_TYPES: BackendQuestion['type'][] = ['mcq', 'tf'];
+
+export type McqScoringMode = 'partial' | 'all_or_nothing';
+
+export type ScoreStatus = 'correct' | 'partial' | 'wrong' | 'unanswered' | 'pending';
+
+// choices: checked against the answer key; auto: numeric/short grading spec;
+// manual: a teacher's mark; recorded: stored marks with no key to check against
+export type ScoreMethod = 'choices' | 'auto' | 'manual' | 'recorded' | 'none';
+
+export interface ScoreLine {
+  question_id: number;
+  sequence?: number;
+  type?: BackendQuestion['type'];
+  max_marks: number;
+  status: ScoreStatus;
+  method: ScoreMethod;
+  awarded: number; // before any penalty
+  penalty: number; // negative marking for a wrong answer
+  net: number; // awarded - penalty
+  detail: string;
+}
+
+export interface ScoreResult {
+  version: number;
+  negative_marking: number;
+  lines: ScoreLine[];
+  total: number; // sum of net marks, never below zero
+  max_marks: number;
+  percent: number | null; // null when the exam carries no marks
+  penalty_total: number;
+  counts: Record<ScoreStatus, number>;
+  complete: boolean; // false while answers still wait for a teacher
+}
+
+type ScoringSettings = Pick<MonthlyExam, 'negative_marking'>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Choices the student picked; multi-answer questions send choice_ids
+ */
+export function getSelectedChoiceIds(answer?: AttemptAnswer | null): number[] {
+  if (!answer) return [];
+  if (answer.choice_ids && answer.choice_ids.length > 0) {
+    return Array.from(new Set(answer.choice_ids)).sort((a, b) => a - b);
+  }
+  return answer.choice_id !== undefined && answer.choice_id !== null ? [answer.choice_id] : [];
+}
+
+/**
+ * Whether the student gave any response at all
+ */
+export function isUnanswered(answer?: AttemptAnswer | null): boolean {
+  if (!answer) return true;
+  if (getSelectedChoiceIds(answer).length > 0) return false;
+  if (answer.uploaded_file) return false;
+  return !answer.answer_text || answer.answer_text.trim() === '';
+}
+
+export function getMcqScoringMode(question?: BackendQuestion): McqScoringMode {
+  return question?.metadata?.mcq_scoring === 'all_or_nothing' ? 'all_or_nothing' : 'partial';
+}
+
+/**
+ * Share of the marks earned on a choice question. With one correct choice it
+ * is all or nothing. With several, each correct pick earns its share and each
+ * wrong pick cancels one, never going below zero.
+ */
+export function getChoiceCredit(
+  selectedIds: number[],
+  correctIds: number[],
+  mode: McqScoringMode = 'partial'
+): { credit: number; hits: number; misses: number } {
+  const correct = new Set(correctIds);
+  const hits = selectedIds.filter(id => correct.has(id)).length;
+  const misses = selectedIds.length - hits;
+
+  if (correct.size === 0) return { credit: 0, hits, misses };
+
+  const exact = hits === correct.size && misses === 0;
+  if (correct.size === 1 || mode === 'all_or_nothing') {
+    return { credit: exact ? 1 : 0, hits, misses };
+  }
+  return { credit: Math.max(0, (hits - misses) / correct.size), hits, misses };
+}
+
+const statusForMarks = (awarded: number, maxMarks: number): ScoreStatus => {
+  if (maxMarks > 0 && awarded >= maxMarks) return 'correct';
+  return awarded > 0 ? 'partial' : 'wrong';
+};
+
+type LineResult = Pick<ScoreLine, 'status' | 'method' | 'awarded' | 'detail'>;
+
+function scoreChoices(answer: AttemptAnswer, question: BackendQuestion | undefined, maxMarks: number): LineResult | null {
+  const selected = getSelectedChoiceIds(answer);
+  const choices = question?.choices;
+
+  if (selected.length > 0 && choices && choices.length > 0) {
+    const correctIds = choices.filter(choice => choice.is_correct).map(choice => choice.id);
+    const mode = getMcqScoringMode(question);
+    const { credit, hits, misses } = getChoiceCredit(selected, correctIds, mode);
+    const awarded = round2(maxMarks * credit);
+
+    let detail = `${hits} of ${correctIds.length} correct choice${correctIds.length === 1 ? '' : 's'} picked`;
+    if (misses > 0) detail += `, ${misses} wrong`;
+    if (correctIds.length > 1) detail += mode === 'all_or_nothing' ? ' (all or nothing)' : ' (partial credit)';
+
+    return { status: credit >= 1 ? 'correct' : credit > 0 ? 'partial' : 'wrong', method: 'choices', awarded, detail };
+  }
+
+  // True/false answers saved as text against the key in the question's metadata
+  const key = question?.metadata?.correct_answer;
+  if (question?.type === 'tf' && typeof key === 'boolean' && answer.answer_text) {
+    const correct = answer.answer_text.trim().toLowerCase() === String(key);
+    return {
+      status: correct ? 'correct' : 'wrong',
+      method: 'choices',
+      awarded: correct ? maxMarks : 0,
+      detail: `Answered ${answer.answer_text.trim().toLowerCase()}, key is ${key}`,
+    };
+  }
+
+  return null;
+}
+
+function scoreAnswer(answer: AttemptAnswer, question: BackendQuestion | undefined, maxMarks: number): LineResult {
+  // A teacher's mark overrides anything worked out automatically
+  if (answer.graded_by && isAnswerGraded(answer)) {
+    const awarded = round2(answer.marks_awarded ?? 0);
+    return { status: statusForMarks(awarded, maxMarks), method: 'manual', awarded, detail: 'Marked by a teacher' };
+  }
+
+  if (question?.type === 'mcq' || question?.type === 'tf') {
+    const result = scoreChoices(answer, question, maxMarks);
+    if (result) return result;
+  }
+
+  if (question?.type === 'numeric' || question?.type === 'short') {
+    const suggestion = suggestMarks(question, answer.answer_text, maxMarks);
+    if (suggestion) {
+      const status: ScoreStatus = suggestion.correct ? 'correct' : suggestion.credit > 0 ? 'partial' : 'wrong';
+      return { status, method: 'auto', awarded: round2(suggestion.marks_awarded), detail: suggestion.explanation };
+    }
+  }
+
+  if (answer.marks_awarded !== undefined && answer.marks_awarded !== null && (answer.auto_graded || isAnswerGraded(answer))) {
+    const awarded = round2(answer.marks_awarded);
+    return { status: statusForMarks(awarded, maxMarks), method: 'recorded', awarded, detail: 'Marks stored with the answer' };
+  }
+
+  return { status: 'pending', method: 'none', awarded: 0, detail: 'Waiting for a teacher to mark' };
+}
+
+/**
+ * Score one attempt. Every exam question gets a line, answered or not.
+ * Unanswered questions score zero without a penalty; wrong answers to choice
+ * questions lose the exam's negative marking, capped at the question's marks.
+ */
+export function scoreAttempt(
+  answers: AttemptAnswer[],
+  examQuestions: ExamQuestion[] = [],
+  settings: ScoringSettings = {}
+): ScoreResult {
+  const negativeMarking = Math.max(0, settings.negative_marking ?? 0);
+  const byQuestion = new Map<number, AttemptAnswer>();
+  answers.forEach(answer => byQuestion.set(answer.question_id, answer));
+
+  // Exam questions in paper order, then any answer whose question isn't on the list
+  const questionIds = [...examQuestions]
+    .sort((a, b) => (a.sequence ?? Number.MAX_SAFE_INTEGER) - (b.sequence ?? Number.MAX_SAFE_INTEGER) || a.question_id - b.question_id)
+    .map(item => item.question_id);
+  answers.forEach(answer => {
+    if (!questionIds.includes(answer.question_id)) questionIds.push(answer.question_id);
+  });
+
+  const lines = questionIds.map((questionId): ScoreLine => {
+    const answer = byQuestion.get(questionId);
+    const examQuestion = examQuestions.find(item => item.question_id === questionId);
+    const question = answer ? getAnswerQuestion(answer, examQuestions) : examQuestion?.question;
+    const maxMarks = getMaxMarks(questionId, examQuestions, question);
+    const base = { question_id: questionId, sequence: examQuestion?.sequence, type: question?.type, max_marks: maxMarks };
+
+    if (!answer || isUnanswered(answer)) {
+      return { ...base, status: 'unanswered', method: 'none', awarded: 0, penalty: 0, net: 0, detail: 'Not answered' };
+    }
+
+    const result = scoreAnswer(answer, question, maxMarks);
+    const penalised = result.status === 'wrong'
+      && result.method === 'choices'
+      && !!question
+      && NEGATIVE_MARKING_TYPES.includes(question.type);
+    const penalty = penalised ? round2(Math.min(negativeMarking, maxMarks)) : 0;
+
+    return { ...base, ...result, penalty, net: round2(result.awarded - penalty) };
+  });
+
+  const counts: Record<ScoreStatus, number> = { correct: 0, partial: 0, wrong: 0, unanswered: 0, pending: 0 };
+  lines.forEach(line => counts[line.status]++);
+
+  const maxMarks = round2(lines.reduce((total, line) => total + line.max_marks, 0));
+  const total = Math.max(0, round2(lines.reduce((total, line) => total + line.net, 0)));
+
+  return {
+    version: SCORING_VERSION,
+    negative_marking: negativeMarking,
+    lines,
+    total,
+    max_marks: maxMarks,
+    percent: maxMarks > 0 ? round2((total / maxMarks) * 100) : null,
+    penalty_total: round2(lines.reduce((total, line) => total + line.penalty, 0)),
+    counts,
+    complete: counts.pending === 0,
+  };
+}
+
+/**
+ * The attempt a result is built from: the latest finished one, preferring graded attempts
+ */
+export function pickResultAttempt(attempts: StudentAttempt[]): StudentAttempt | undefined {
+  const finished = attempts.filter(attempt => ['submitted', 'grading', 'graded'].includes(attempt.status));
+  const pool = finished.some(attempt => attempt.status === 'graded')
+    ? finished.filter(attempt => attempt.status === 'graded')
+    : finished;
+
+  return [...pool]
+    .sort((a, b) => (a.finished_at ?? '').localeCompare(b.finished_at ?? '') || a.id - b.id)
+    .pop();
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The breakdown as CSV, for audit records
+ */
+export function scoreBreakdownToCsv(result: ScoreResult): string {
+  const header = ['question_id', 'sequence', 'type', 'max_marks', 'status', 'method', 'awarded', 'penalty', 'net', 'detail'];
+  const rows = result.lines.map(line => [
+    line.question_id, line.sequence, line.type, line.max_marks, line.status,
+    line.method, line.awarded, line.penalty, line.net, line.detail,
+  ].map(csvCell).join(','));
+
+  const summary = [
+    `# scoring version ${result.version}, negative marking ${result.negative_marking}`,
+    `# total ${result.total} / ${result.max_marks}${result.percent !== null ? ` (${result.percent}%)` : ''}`,
+  ];
+  return [...summary, header.join(','), ...rows].join('\n');
+}
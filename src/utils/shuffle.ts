@@ -0,0 +1,161 @@
+/**
+ * Shuffle
+ * Seeded question and choice order for an attempt. The seed is the attempt's
+ * token, so the order is the same on every reload and device for that attempt,
+ * differs between students, and can be rebuilt later to map what the student
+ * saw back to the exam's own order.
+ */
+
+import type { Choice, ExamQuestion, MonthlyExam, StudentAttempt } from '../services/api';
+
+type ShuffleSettings = Pick<MonthlyExam, 'shuffle_questions' | 'shuffle_choices'>;
+
+export interface AttemptLayout {
+  question_ids: number[]; // in the order the student sees them
+  choice_ids: Record<number, number[]>; // by question id, in the order the student sees them
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32: a small, fast generator that gives the same sequence for the same seed
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Seeded Fisher-Yates. Entry i of the result is the original index shown at position i.
+ */
+export function seededPermutation(length: number, key: string): number[] {
+  const order = Array.from({ length }, (_, index) => index);
+  const random = createRandom(hashSeed(key));
+
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * Items in the seeded order for a key
+ */
+export function seededOrder<T>(items: T[], key: string): T[] {
+  return seededPermutation(items.length, key).map(index => items[index]);
+}
+
+/**
+ * The exam's own question order: by sequence, then by question id. Shuffles
+ * start from this so the order the server returns doesn't matter.
+ */
+export function canonicalQuestions(examQuestions: ExamQuestion[]): ExamQuestion[] {
+  return [...examQuestions].sort(
+    (a, b) => (a.sequence ?? Number.MAX_SAFE_INTEGER) - (b.sequence ?? Number.MAX_SAFE_INTEGER) || a.question_id - b.question_id
+  );
+}
+
+/**
+ * A question's own choice order: by position, then by choice id
+ */
+export function canonicalChoices(choices: Choice[] = []): Choice[] {
+  return [...choices].sort(
+    (a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER) || a.id - b.id
+  );
+}
+
+/**
+ * The order an attempt shows its questions and choices in. With
+ * shuffle_questions every question is shuffled; without it, questions with a
+ * sequence keep it and those without one follow in a seeded order.
+ */
+export function getAttemptLayout(
+  attempt: Pick<StudentAttempt, 'attempt_token'>,
+  exam: ShuffleSettings | null | undefined,
+  examQuestions: ExamQuestion[]
+): AttemptLayout {
+  const token = attempt.attempt_token;
+  const canonical = canonicalQuestions(examQuestions);
+
+  let ordered: ExamQuestion[];
+  if (exam?.shuffle_questions) {
+    ordered = seededOrder(canonical, `${token}:questions`);
+  } else {
+    const fixed = canonical.filter(item => item.sequence !== undefined && item.sequence !== null);
+    const loose = canonical.filter(item => item.sequence === undefined || item.sequence === null);
+    ordered = [...fixed, ...seededOrder(loose, `${token}:questions`)];
+  }
+
+  const choiceIds: Record<number, number[]> = {};
+  for (const item of canonical) {
+    const choices = canonicalChoices(item.question?.choices);
+    if (choices.length === 0) continue;
+    // Each question gets its own key so one question's choices don't predict another's
+    const shown = exam?.shuffle_choices ? seededOrder(choices, `${token}:choices:${item.question_id}`) : choices;
+    choiceIds[item.question_id] = shown.map(choice => choice.id);
+  }
+
+  return { question_ids: ordered.map(item => item.question_id), choice_ids: choiceIds };
+}
+
+/**
+ * Exam questions in the attempt's order, with each question's choices reordered to match
+ */
+export function applyAttemptLayout(examQuestions: ExamQuestion[], layout: AttemptLayout): ExamQuestion[] {
+  const byId = new Map(examQuestions.map(item => [item.question_id, item]));
+
+  return layout.question_ids
+    .map(questionId => byId.get(questionId))
+    .filter((item): item is ExamQuestion => !!item)
+    .map(item => {
+      const order = layout.choice_ids[item.question_id];
+      const question = item.question;
+      const source = question?.choices;
+      if (!order || !question || !source) return item;
+
+      const choices = order
+        .map(choiceId => source.find(choice => choice.id === choiceId))
+        .filter((choice): choice is Choice => !!choice);
+      return { ...item, question: { ...question, choices } };
+    });
+}
+
+/**
+ * Where the student saw a question, 1-based; 0 if it wasn't in the attempt
+ */
+export function getDisplayedPosition(layout: AttemptLayout, questionId: number): number {
+  return layout.question_ids.indexOf(questionId) + 1;
+}
+
+/**
+ * The exam's own position of the question the student saw at a displayed position, 1-based
+ */
+export function getCanonicalPosition(layout: AttemptLayout, examQuestions: ExamQuestion[], displayedPosition: number): number {
+  const questionId = layout.question_ids[displayedPosition - 1];
+  return canonicalQuestions(examQuestions).findIndex(item => item.question_id === questionId) + 1;
+}
+
+/**
+ * The letter a choice had on the student's screen, e.g. "B"
+ */
+export function getDisplayedChoiceLabel(layout: AttemptLayout, questionId: number, choiceId: number): string | undefined {
+  const index = layout.choice_ids[questionId]?.indexOf(choiceId) ?? -1;
+  return index >= 0 ? String.fromCharCode(65 + index) : undefined;
+}